@@ -3,12 +3,15 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DnsModule } from './dns/dns.module';
 import { DmarcModule } from './dmarc/dmarc.module';
+import { SpfModule } from './spf/spf.module';
+import { BimiModule } from './bimi/bimi.module';
 import { FirebaseModule } from './firebase/firebase.module';
 import { VotingModule } from './voting/voting.module';
 import { DomainsModule } from './domains/domains.module';
+import { IssuesModule } from './issues/issues.module';
 
 @Module({
-  imports: [DnsModule, DmarcModule, FirebaseModule, VotingModule, DomainsModule],
+  imports: [DnsModule, DmarcModule, SpfModule, BimiModule, FirebaseModule, VotingModule, DomainsModule, IssuesModule],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,40 @@
+import { isBimiRecord, parseBimiRecord } from './bimi-record.parser';
+
+describe('BIMI record parser', () => {
+  it('should recognise BIMI records', () => {
+    expect(isBimiRecord('v=BIMI1; l=https://example.com/logo.svg')).toBe(true);
+    expect(isBimiRecord('v=BIMI1')).toBe(true);
+    expect(isBimiRecord('v=BIMI10; l=')).toBe(false);
+    expect(isBimiRecord('v=spf1 -all')).toBe(false);
+  });
+
+  it('should parse the logo and certificate locations', () => {
+    expect(parseBimiRecord('v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem; x=ignored')).toEqual({
+      record: { version: 'BIMI1', logoUrl: 'https://example.com/logo.svg', authorityUrl: 'https://example.com/vmc.pem' },
+      errors: [],
+    });
+  });
+
+  it('should treat empty tags as declining to publish', () => {
+    expect(parseBimiRecord('v=BIMI1; l=; a=;').record).toEqual({ version: 'BIMI1', logoUrl: null, authorityUrl: null });
+  });
+
+  it('should report every problem in a malformed record', () => {
+    const { record, errors } = parseBimiRecord('v=BIMI1; a=http://example.com/vmc.pem; a=https://example.com/vmc.pem; junk');
+
+    expect(record).toBeNull();
+    expect(errors.every(error => error.code === 'BIMI_RECORD_INVALID')).toBe(true);
+    expect(errors.map(error => error.message)).toEqual([
+      expect.stringContaining('Duplicate tag "a"'),
+      expect.stringContaining('Malformed tag "junk"'),
+      expect.stringContaining('no l= tag'),
+      expect.stringContaining('"http://example.com/vmc.pem" must be a single https: URL'),
+    ]);
+  });
+
+  it('should reject several logo locations', () => {
+    expect(parseBimiRecord('v=BIMI1; l=https://a.example/logo.svg,https://b.example/logo.svg').errors[0].message).toContain(
+      'must be a single https: URL',
+    );
+  });
+});
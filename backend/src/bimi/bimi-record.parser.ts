@@ -0,0 +1,77 @@
+import type { BimiRecord, ValidationIssue } from '@dmarc-portal/contracts';
+
+export interface BimiRecordParseResult {
+  // Null when the record has errors; mailbox providers then show no logo
+  record: BimiRecord | null;
+  errors: ValidationIssue[];
+}
+
+/**
+ * Mailbox providers only consider TXT records at the BIMI name that start with "v=BIMI1"
+ * @param txt A TXT record published at <selector>._bimi.<domain>
+ * @returns true if the record is a BIMI record
+ */
+export function isBimiRecord(txt: string): boolean {
+  return /^v=BIMI1\s*(?:;|$)/.test(txt);
+}
+
+/**
+ * Parses a BIMI assertion record and its l= and a= locations
+ * Both tags may be empty, which declines to publish a logo; unknown tags are ignored.
+ * @param txt The record, e.g. "v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem"
+ * @returns The parsed record, or null with the errors found
+ */
+export function parseBimiRecord(txt: string): BimiRecordParseResult {
+  const errors: ValidationIssue[] = [];
+  const tags = new Map<string, string>();
+
+  for (const spec of txt.split(';').map(part => part.trim()).filter(part => part.length > 0)) {
+    const separator = spec.indexOf('=');
+    if (separator === -1) {
+      errors.push(recordError(`Malformed tag "${spec}": expected name=value`));
+      continue;
+    }
+
+    const name = spec.substring(0, separator).trim().toLowerCase();
+    if (tags.has(name)) {
+      errors.push(recordError(`Duplicate tag "${name}"`));
+      continue;
+    }
+    tags.set(name, spec.substring(separator + 1).trim());
+  }
+
+  const logoUrl = tags.get('l') || null;
+  const authorityUrl = tags.get('a') || null;
+
+  if (!tags.has('l')) {
+    errors.push(recordError('The record has no l= tag; use an empty l= to decline publishing a logo'));
+  } else if (logoUrl !== null && !isHttpsUrl(logoUrl)) {
+    errors.push(recordError(`The logo location "${logoUrl}" must be a single https: URL`));
+  }
+  if (authorityUrl !== null && !isHttpsUrl(authorityUrl)) {
+    errors.push(recordError(`The certificate location "${authorityUrl}" must be a single https: URL`));
+  }
+
+  return {
+    record: errors.length === 0 ? { version: tags.get('v'), logoUrl, authorityUrl } : null,
+    errors,
+  };
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return !value.includes(',') && new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function recordError(message: string): ValidationIssue {
+  return {
+    code: 'BIMI_RECORD_INVALID',
+    type: 'syntax_error',
+    severity: 'error',
+    message: `Invalid BIMI record: ${message}`,
+    recommendation: 'Publish "v=BIMI1; l=https://<host>/logo.svg; a=https://<host>/vmc.pem" at default._bimi.<domain>',
+  };
+}
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { DmarcPolicy, ValidationResult } from '@dmarc-portal/contracts';
+import { BimiValidatorImpl } from './bimi-validator.service';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+import { FakeHttpClient, FakeHttpRoutes } from '../../test/fake-http-client';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
+
+describe('BimiValidatorService', () => {
+  let service: BimiValidatorImpl;
+  let dnsService: FakeDnsService;
+  let httpClient: FakeHttpClient;
+
+  const logoUrl = 'https://example.com/logo.svg';
+  const LOGO =
+    '<svg xmlns="http://www.w3.org/2000/svg" version="1.2" baseProfile="tiny-ps" viewBox="0 0 64 64"><title>Example</title><circle cx="32" cy="32" r="30"/></svg>';
+  const svgResponse = (body: string) => ({ status: 200, contentType: 'image/svg+xml', body });
+
+  const baseZone: FakeZone = {
+    'default._bimi.example.com': { TXT: [`v=BIMI1; l=${logoUrl}; a=https://example.com/vmc.pem`] },
+  };
+
+  const dmarcResult = (policy: Partial<DmarcPolicy> | null, appliedPolicy: 'p' | 'sp' = 'p'): ValidationResult => ({
+    domain: 'example.com',
+    dmarcRecord: policy ? 'v=DMARC1; p=reject' : null,
+    isValid: policy !== null,
+    issues: [],
+    checkTimestamp: new Date('2024-01-01T00:00:00Z'),
+    ...(policy
+      ? {
+          parsedPolicy: { version: 'DMARC1', policy: 'reject', rawRecord: 'v=DMARC1; p=reject', ...policy },
+          policySource: { domain: 'example.com', organizationalDomain: 'example.com', appliedPolicy, inherited: appliedPolicy === 'sp' },
+        }
+      : {}),
+  });
+  const enforced = dmarcResult({});
+
+  const createService = async (zone: FakeZone, routes: FakeHttpRoutes) => {
+    dnsService = new FakeDnsService(zone);
+    httpClient = new FakeHttpClient(routes);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BimiValidatorImpl,
+        {
+          provide: 'DnsService',
+          useValue: dnsService,
+        },
+        {
+          provide: 'HttpClient',
+          useValue: httpClient,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BimiValidatorImpl>(BimiValidatorImpl);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  describe('validateDomain', () => {
+    it('should report a domain with an enforcing policy, a record and a compliant logo as ready', async () => {
+      await createService(baseZone, { [logoUrl]: svgResponse(LOGO) });
+
+      const result = await service.validateDomain('Example.com', enforced);
+
+      expect(result).toEqual({
+        domain: 'example.com',
+        selector: 'default',
+        record: `v=BIMI1; l=${logoUrl}; a=https://example.com/vmc.pem`,
+        parsedRecord: { version: 'BIMI1', logoUrl, authorityUrl: 'https://example.com/vmc.pem' },
+        dmarcEnforced: true,
+        logo: { source: 'fetched', url: logoUrl, sizeBytes: LOGO.length, compliant: true },
+        isReady: true,
+        issues: [],
+      });
+      expect(dnsService.queries).toEqual(['TXT default._bimi.example.com']);
+      expect(httpClient.requests).toEqual([logoUrl]);
+    });
+
+    it('should check a supplied SVG instead of fetching the logo', async () => {
+      await createService(baseZone, {});
+
+      const result = await service.validateDomain('example.com', enforced, LOGO.replace(' baseProfile="tiny-ps"', ''));
+
+      expect(result.logo).toEqual(expect.objectContaining({ source: 'supplied', url: logoUrl, compliant: false }));
+      expect(codes(result.issues)).toEqual(['BIMI_SVG_INVALID']);
+      expect(result.isReady).toBe(false);
+      expect(httpClient.requests).toEqual([]);
+    });
+
+    it('should not be ready while DMARC is not enforced', async () => {
+      await createService(baseZone, { [logoUrl]: svgResponse(LOGO) });
+
+      const result = await service.validateDomain('example.com', dmarcResult({ policy: 'none' }));
+
+      expect(result.dmarcEnforced).toBe(false);
+      expect(codes(result.issues)).toEqual(['BIMI_DMARC_NOT_ENFORCED']);
+      expect(result.logo?.compliant).toBe(true);
+      expect(result.isReady).toBe(false);
+    });
+
+    it('should report a missing record and still explain the DMARC prerequisite', async () => {
+      await createService({}, {});
+
+      const result = await service.validateDomain('example.com', dmarcResult(null));
+
+      expect(codes(result.issues)).toEqual(['BIMI_DMARC_NOT_ENFORCED', 'BIMI_RECORD_MISSING']);
+      expect(result.record).toBeNull();
+      expect(result.logo).toBeNull();
+      expect(result.isReady).toBe(false);
+    });
+
+    it('should report multiple, malformed and declining records', async () => {
+      await createService({ 'default._bimi.example.com': { TXT: ['v=BIMI1; l=', 'v=BIMI1; l='] } }, {});
+      expect(codes((await service.validateDomain('example.com', enforced)).issues)).toEqual(['BIMI_MULTIPLE_RECORDS']);
+
+      await createService({ 'default._bimi.example.com': { TXT: ['v=BIMI1; l=http://example.com/logo.svg'] } }, {});
+      expect(codes((await service.validateDomain('example.com', enforced)).issues)).toEqual(['BIMI_RECORD_INVALID']);
+
+      await createService({ 'default._bimi.example.com': { TXT: ['v=BIMI1; l=; a=;'] } }, {});
+      const declined = await service.validateDomain('example.com', enforced);
+      expect(codes(declined.issues)).toEqual(['BIMI_RECORD_DECLINED']);
+      expect(declined.isReady).toBe(false);
+      expect(httpClient.requests).toEqual([]);
+    });
+
+    it('should warn about a missing mark certificate without blocking readiness', async () => {
+      await createService({ 'default._bimi.example.com': { TXT: [`v=BIMI1; l=${logoUrl}`] } }, { [logoUrl]: svgResponse(LOGO) });
+
+      const result = await service.validateDomain('example.com', enforced);
+
+      expect(codes(result.issues)).toEqual(['BIMI_AUTHORITY_MISSING']);
+      expect(result.isReady).toBe(true);
+    });
+
+    it.each([
+      ['a fetch error', 'getaddrinfo ENOTFOUND example.com'],
+      ['an error status', { status: 404, contentType: 'text/html', body: 'Not found' }],
+    ])('should report an unavailable logo after %s without saying why', async (_, route) => {
+      await createService(baseZone, { [logoUrl]: route });
+
+      const result = await service.validateDomain('example.com', enforced);
+
+      expect(codes(result.issues)).toEqual(['BIMI_LOGO_UNAVAILABLE']);
+      expect(result.issues[0].message).toBe(`The BIMI logo at ${logoUrl} could not be fetched`);
+      expect(result.logo).toEqual({ source: 'fetched', url: logoUrl, sizeBytes: null, compliant: false });
+      expect(result.isReady).toBe(false);
+    });
+
+    it.each([
+      ['a private address', 'https://10.0.0.5/admin'],
+      ['a port other than 443', 'https://example.com:8443/admin'],
+    ])('should not fetch a logo URL on %s', async (_, url) => {
+      await createService(
+        { 'default._bimi.example.com': { TXT: [`v=BIMI1; l=${url}; a=https://example.com/vmc.pem`] } },
+        // The logo is there, so only refusing the URL explains the finding
+        { [url]: svgResponse(LOGO) },
+      );
+
+      const result = await service.validateDomain('example.com', enforced);
+
+      expect(codes(result.issues)).toEqual(['BIMI_LOGO_UNAVAILABLE']);
+      expect(result.issues[0].message).toBe(`The BIMI logo at ${url} could not be fetched`);
+      expect(result.isReady).toBe(false);
+    });
+
+    it('should throw when the record lookup fails', async () => {
+      await createService({ 'default._bimi.example.com': { error: 'SERVFAIL' } }, {});
+
+      await expect(service.validateDomain('example.com', enforced)).rejects.toThrow('BIMI lookup failed for domain example.com');
+    });
+
+    it('should throw error for invalid domain format', async () => {
+      await createService(baseZone, {});
+
+      await expect(service.validateDomain('not a domain', enforced)).rejects.toThrow('Invalid domain format: not a domain');
+    });
+
+    it('should only report codes described in the issue catalog', async () => {
+      await createService({ 'default._bimi.example.com': { TXT: [`v=BIMI1; l=${logoUrl}`] } }, { [logoUrl]: svgResponse('<svg><script/></svg>') });
+
+      const result = await service.validateDomain('example.com', dmarcResult({ percentage: 50 }));
+
+      expect(result.issues.length).toBeGreaterThan(0);
+      for (const issue of result.issues) {
+        expect(ISSUE_CATALOG[issue.code]).toBeDefined();
+      }
+    });
+  });
+
+  describe('evaluateDmarc', () => {
+    beforeEach(async () => {
+      await createService({}, {});
+    });
+
+    it('should accept quarantine or reject applied to all mail', () => {
+      expect(service.evaluateDmarc(dmarcResult({ policy: 'quarantine' }))).toEqual([]);
+      expect(service.evaluateDmarc(dmarcResult({ policy: 'reject', subdomainPolicy: 'quarantine', percentage: 100 }))).toEqual([]);
+    });
+
+    it('should list every shortfall in one issue', () => {
+      const issues = service.evaluateDmarc(dmarcResult({ policy: 'none', subdomainPolicy: 'none', percentage: 25, testing: true }));
+
+      expect(codes(issues)).toEqual(['BIMI_DMARC_NOT_ENFORCED']);
+      expect(issues[0].message).toContain('the policy is none; sp=none leaves subdomains unprotected; pct=25 applies the policy to only part of the mail; t=y marks the policy as a test');
+    });
+
+    it('should judge a subdomain by the inherited subdomain policy', () => {
+      expect(service.evaluateDmarc(dmarcResult({ policy: 'reject', subdomainPolicy: 'none' }, 'sp'))[0].message).toContain('the subdomain policy is none');
+      expect(service.evaluateDmarc(dmarcResult({ policy: 'none', subdomainPolicy: 'reject' }, 'sp'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { BimiLogoCheck, BimiLogoResult, BimiResult, ValidationIssue, ValidationResult } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { HttpClient } from '../http/http-client.service';
+import { isBimiRecord, parseBimiRecord } from './bimi-record.parser';
+import { validateSvgTinyPs } from './svg-tiny-ps';
+
+// Only the default selector is queried when no BIMI-Selector header is available
+export const BIMI_DEFAULT_SELECTOR = 'default';
+
+const LOGO_FETCH_TIMEOUT_MS = 10000;
+// Well above the recommended logo size, so oversized logos are reported rather than failing to download
+const LOGO_MAX_BYTES = 512 * 1024;
+
+export interface BimiValidator {
+  validateDomain(domain: string, dmarc: ValidationResult, logoSvg?: string): Promise<BimiResult>;
+  evaluateDmarc(dmarc: ValidationResult): ValidationIssue[];
+  checkLogo(svg: string, source?: BimiLogoResult['source'], url?: string | null): BimiLogoCheck;
+}
+
+@Injectable()
+export class BimiValidatorImpl implements BimiValidator {
+  private readonly logger = new Logger(BimiValidatorImpl.name);
+
+  constructor(
+    @Inject('DnsService') private readonly dnsService: DnsService,
+    @Inject('HttpClient') private readonly httpClient: HttpClient,
+  ) {}
+
+  /**
+   * Checks whether a domain is ready to show its logo through BIMI
+   * @param domain The domain to check
+   * @param dmarc The DMARC validation result of the same domain, which must enforce its policy
+   * @param logoSvg An SVG to check instead of fetching the logo named by l=
+   * @returns The BIMI record, the logo check and whether every prerequisite is met
+   * @throws Error for invalid domain format or DNS lookup failures
+   */
+  async validateDomain(domain: string, dmarc: ValidationResult, logoSvg?: string): Promise<BimiResult> {
+    if (!this.dnsService.validateDomainFormat(domain)) {
+      throw new Error(`Invalid domain format: ${domain}`);
+    }
+
+    const normalizedDomain = domain.trim().toLowerCase();
+    const name = `${BIMI_DEFAULT_SELECTOR}._bimi.${normalizedDomain}`;
+    const dmarcIssues = this.evaluateDmarc(dmarc);
+    const result: BimiResult = {
+      domain: normalizedDomain,
+      selector: BIMI_DEFAULT_SELECTOR,
+      record: null,
+      dmarcEnforced: dmarcIssues.length === 0,
+      logo: null,
+      isReady: false,
+      issues: [...dmarcIssues],
+    };
+
+    let txtRecords: string[];
+    try {
+      txtRecords = await this.dnsService.lookupTxtRecords(name);
+    } catch (error) {
+      this.logger.error(`BIMI lookup failed for domain ${domain}:`, error);
+      throw new Error(`BIMI lookup failed for domain ${domain}: ${error.message}`);
+    }
+
+    const bimiRecords = txtRecords.filter(txt => isBimiRecord(txt));
+
+    if (bimiRecords.length === 0) {
+      result.issues.push({
+        code: 'BIMI_RECORD_MISSING',
+        type: 'missing_record',
+        severity: 'info',
+        message: `No BIMI record found at ${name}, so mailbox providers show no brand logo`,
+        recommendation: `Once DMARC is enforced, publish "v=BIMI1; l=https://<host>/logo.svg" at ${name}`,
+      });
+    } else if (bimiRecords.length > 1) {
+      result.issues.push({
+        code: 'BIMI_MULTIPLE_RECORDS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Found ${bimiRecords.length} BIMI records at ${name}; mailbox providers ignore them all`,
+        recommendation: 'Keep a single "v=BIMI1" TXT record',
+      });
+    } else {
+      result.record = bimiRecords[0];
+      const { record, errors } = parseBimiRecord(result.record);
+      result.issues.push(...errors);
+
+      if (record) {
+        result.parsedRecord = record;
+        result.issues.push(...this.evaluateRecord(record.logoUrl, record.authorityUrl));
+      }
+    }
+
+    const logoUrl = result.parsedRecord?.logoUrl ?? null;
+    if (logoSvg !== undefined) {
+      const { logo, issues } = this.checkLogo(logoSvg, 'supplied', logoUrl);
+      result.logo = logo;
+      result.issues.push(...issues);
+    } else if (logoUrl !== null) {
+      const { logo, issues } = await this.fetchLogo(logoUrl);
+      result.logo = logo;
+      result.issues.push(...issues);
+    }
+
+    result.isReady = logoUrl !== null
+      && result.dmarcEnforced
+      && result.logo?.compliant === true
+      && !result.issues.some(issue => issue.severity === 'error');
+    return result;
+  }
+
+  /**
+   * Checks the DMARC prerequisite: mail failing authentication must be quarantined or rejected, for all of it
+   * @param dmarc The DMARC validation result of the domain
+   * @returns A BIMI_DMARC_NOT_ENFORCED issue listing what falls short, or no issues
+   */
+  evaluateDmarc(dmarc: ValidationResult): ValidationIssue[] {
+    const policy = dmarc.parsedPolicy;
+    const reasons: string[] = [];
+
+    if (!policy) {
+      reasons.push('the domain has no valid DMARC record');
+    } else {
+      const applied = dmarc.policySource?.appliedPolicy === 'sp' ? policy.subdomainPolicy ?? policy.policy : policy.policy;
+      if (applied === 'none') {
+        reasons.push(`the ${dmarc.policySource?.appliedPolicy === 'sp' ? 'subdomain ' : ''}policy is none`);
+      }
+      if (policy.subdomainPolicy === 'none' && dmarc.policySource?.appliedPolicy !== 'sp') {
+        reasons.push('sp=none leaves subdomains unprotected');
+      }
+      if ((policy.percentage ?? 100) < 100) {
+        reasons.push(`pct=${policy.percentage} applies the policy to only part of the mail`);
+      }
+      if (policy.testing) {
+        reasons.push('t=y marks the policy as a test');
+      }
+    }
+
+    if (reasons.length === 0) {
+      return [];
+    }
+
+    return [{
+      code: 'BIMI_DMARC_NOT_ENFORCED',
+      type: 'weak_policy',
+      severity: 'error',
+      message: `Mailbox providers only show BIMI logos for domains that enforce DMARC, but ${reasons.join('; ')}`,
+      recommendation: 'Publish p=quarantine or p=reject without pct= (or with pct=100), and no sp=none',
+    }];
+  }
+
+  /**
+   * Checks a logo against the SVG Tiny PS profile
+   * @param svg The SVG document
+   * @param source Whether the SVG was supplied by the user or fetched from the l= location
+   * @param url The l= location the logo belongs to, if any
+   * @returns The logo summary and the profile findings
+   */
+  checkLogo(svg: string, source: BimiLogoResult['source'] = 'supplied', url: string | null = null): BimiLogoCheck {
+    const issues = validateSvgTinyPs(svg);
+
+    return {
+      logo: {
+        source,
+        url,
+        sizeBytes: Buffer.byteLength(svg),
+        compliant: !issues.some(issue => issue.code === 'BIMI_SVG_INVALID'),
+      },
+      issues,
+    };
+  }
+
+  private evaluateRecord(logoUrl: string | null, authorityUrl: string | null): ValidationIssue[] {
+    if (logoUrl === null && authorityUrl === null) {
+      return [{
+        code: 'BIMI_RECORD_DECLINED',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: 'The BIMI record has empty l= and a= tags, which declines to publish a logo',
+        recommendation: 'Set l= to the HTTPS location of your SVG logo when you want it shown',
+      }];
+    }
+
+    if (authorityUrl === null) {
+      return [{
+        code: 'BIMI_AUTHORITY_MISSING',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: 'The BIMI record has no a= mark certificate; Gmail and Apple Mail only show logos backed by a VMC or CMC',
+        recommendation: 'Obtain a Verified Mark Certificate for the logo and publish its PEM location in a=',
+      }];
+    }
+
+    return [];
+  }
+
+  private async fetchLogo(url: string): Promise<BimiLogoCheck> {
+    // The reason stays in the log: echoing statuses or network errors would let callers probe hosts the portal can reach
+    const unavailable: BimiLogoCheck = {
+      logo: { source: 'fetched', url, sizeBytes: null, compliant: false },
+      issues: [{
+        code: 'BIMI_LOGO_UNAVAILABLE',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `The BIMI logo at ${url} could not be fetched`,
+        recommendation: 'Serve the SVG from a public HTTPS server on port 443 with status 200 at the exact l= location, without redirects',
+      }],
+    };
+
+    try {
+      const response = await this.httpClient.get(url, { timeoutMs: LOGO_FETCH_TIMEOUT_MS, maxBytes: LOGO_MAX_BYTES });
+      if (response.status !== 200) {
+        this.logger.warn(`BIMI logo fetch for ${url} answered HTTP ${response.status}`);
+        return unavailable;
+      }
+      return this.checkLogo(response.body, 'fetched', url);
+    } catch (error) {
+      this.logger.warn(`BIMI logo fetch failed for ${url}: ${error.message}`);
+      return unavailable;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { BimiLogoCheck } from '@dmarc-portal/contracts';
+import { BimiController } from './bimi.controller';
+import { BimiValidator } from './bimi-validator.service';
+
+describe('BimiController', () => {
+  let controller: BimiController;
+  let bimiValidator: jest.Mocked<BimiValidator>;
+
+  const mockCheck: BimiLogoCheck = {
+    logo: { source: 'supplied', url: null, sizeBytes: 120, compliant: true },
+    issues: [],
+  };
+
+  beforeEach(async () => {
+    const mockBimiValidator = {
+      validateDomain: jest.fn(),
+      evaluateDmarc: jest.fn(),
+      checkLogo: jest.fn().mockReturnValue(mockCheck),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BimiController],
+      providers: [
+        {
+          provide: 'BimiValidator',
+          useValue: mockBimiValidator,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<BimiController>(BimiController);
+    bimiValidator = module.get('BimiValidator');
+  });
+
+  describe('checkLogo', () => {
+    it('should check the supplied SVG', () => {
+      expect(controller.checkLogo({ svg: '<svg/>' })).toBe(mockCheck);
+      expect(bimiValidator.checkLogo).toHaveBeenCalledWith('<svg/>');
+    });
+
+    it('should reject a missing SVG document', () => {
+      expect(() => controller.checkLogo({ svg: '  ' })).toThrow(new HttpException('SVG document is required', HttpStatus.BAD_REQUEST));
+      expect(() => controller.checkLogo({} as { svg: string })).toThrow(HttpException);
+      expect(bimiValidator.checkLogo).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the check fails unexpectedly', () => {
+      bimiValidator.checkLogo.mockImplementation(() => {
+        throw new Error('boom');
+      });
+
+      expect(() => controller.checkLogo({ svg: '<svg/>' })).toThrow(
+        new HttpException('Failed to check BIMI logo', HttpStatus.INTERNAL_SERVER_ERROR),
+      );
+    });
+  });
+});
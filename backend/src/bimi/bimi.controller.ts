@@ -0,0 +1,41 @@
+import { Controller, Post, Body, HttpException, HttpStatus, Logger, Inject } from '@nestjs/common';
+import type { BimiLogoCheck } from '@dmarc-portal/contracts';
+import { BimiValidator } from './bimi-validator.service';
+
+interface LogoCheckRequest {
+  svg: string;
+}
+
+@Controller('api/bimi')
+export class BimiController {
+  private readonly logger = new Logger(BimiController.name);
+
+  constructor(
+    @Inject('BimiValidator') private readonly bimiValidator: BimiValidator,
+  ) {}
+
+  /**
+   * Check an SVG logo against the SVG Tiny PS profile before publishing it
+   */
+  @Post('logo')
+  checkLogo(@Body() request: LogoCheckRequest): BimiLogoCheck {
+    try {
+      if (typeof request.svg !== 'string' || request.svg.trim().length === 0) {
+        throw new HttpException('SVG document is required', HttpStatus.BAD_REQUEST);
+      }
+
+      return this.bimiValidator.checkLogo(request.svg);
+    } catch (error) {
+      this.logger.error('Failed to check BIMI logo:', error);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        'Failed to check BIMI logo',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { BimiValidatorImpl } from './bimi-validator.service';
+import { BimiController } from './bimi.controller';
+import { DnsModule } from '../dns/dns.module';
+import { HttpModule } from '../http/http.module';
+
+@Module({
+  imports: [DnsModule, HttpModule],
+  controllers: [BimiController],
+  providers: [
+    {
+      provide: 'BimiValidator',
+      useClass: BimiValidatorImpl,
+    },
+  ],
+  exports: ['BimiValidator'],
+})
+export class BimiModule {}
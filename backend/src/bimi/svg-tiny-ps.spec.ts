@@ -0,0 +1,57 @@
+import { validateSvgTinyPs, BIMI_SVG_MAX_BYTES } from './svg-tiny-ps';
+
+describe('SVG Tiny PS checker', () => {
+  const svg = (attributes: string, body: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n<svg ${attributes}>${body}</svg>`;
+  const ROOT = 'xmlns="http://www.w3.org/2000/svg" version="1.2" baseProfile="tiny-ps" viewBox="0 0 100 100"';
+  const TITLE = '<title>Example</title>';
+
+  const messages = (document: string) => validateSvgTinyPs(document).map(issue => issue.message);
+
+  it('should accept a compliant logo', () => {
+    expect(validateSvgTinyPs(svg(ROOT, `${TITLE}<!-- <script> in a comment --><defs><linearGradient id="g"/></defs><rect fill="url(#g)" width="100" height="100"/>`))).toEqual([]);
+  });
+
+  it('should require the profile attributes and a title on the root element', () => {
+    const issues = validateSvgTinyPs(svg('xmlns="http://www.w3.org/2000/svg" version="1.1" x="0" y="0" viewBox="0 0 10 10"', '<g><title>Nested</title></g>'));
+
+    expect(issues.every(issue => issue.code === 'BIMI_SVG_INVALID')).toBe(true);
+    expect(issues.map(issue => issue.message)).toEqual([
+      expect.stringContaining('baseProfile="tiny-ps"'),
+      expect.stringContaining('version="1.2"'),
+      expect.stringContaining('x= attribute'),
+      expect.stringContaining('y= attribute'),
+      expect.stringContaining('no <title> element'),
+    ]);
+  });
+
+  it('should reject scripts, animation, links, images and event handlers', () => {
+    expect(messages(svg(ROOT, `${TITLE}<script>alert(1)</script><a href="#x"><rect onclick="go()"/></a><animate/><image href="data:image/png;base64,AA=="/>`))).toEqual([
+      expect.stringContaining('<script>'),
+      expect.stringContaining('<a>'),
+      expect.stringContaining('<animate>'),
+      expect.stringContaining('<image>'),
+      expect.stringContaining('event handler attributes (onclick)'),
+      expect.stringContaining('external resources (data:image/png;base64,AA==)'),
+    ]);
+  });
+
+  it('should reject external references', () => {
+    expect(messages(svg(ROOT, `${TITLE}<use xlink:href="https://cdn.example/logo.svg#a"/><rect style="fill: url('https://cdn.example/p.svg#p')"/>`))).toEqual([
+      expect.stringContaining('external resources'),
+    ]);
+  });
+
+  it('should reject documents that are not SVG', () => {
+    expect(messages('<html><body>Not a logo</body></html>')).toEqual(['The document is not an SVG image']);
+    expect(messages('')).toEqual(['The document is not an SVG image']);
+  });
+
+  it('should warn about non-square and oversized logos', () => {
+    const wide = validateSvgTinyPs(svg(ROOT.replace('0 0 100 100', '0 0 200 100'), TITLE));
+    expect(wide.map(issue => [issue.code, issue.severity])).toEqual([['BIMI_SVG_NOT_SQUARE', 'warning']]);
+
+    const large = validateSvgTinyPs(svg(ROOT, `${TITLE}<desc>${'x'.repeat(BIMI_SVG_MAX_BYTES)}</desc>`));
+    expect(large.map(issue => issue.code)).toEqual(['BIMI_SVG_TOO_LARGE']);
+  });
+});
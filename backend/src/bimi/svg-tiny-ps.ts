@@ -0,0 +1,156 @@
+import type { ValidationIssue } from '@dmarc-portal/contracts';
+
+// Mailbox providers may refuse logos larger than this
+export const BIMI_SVG_MAX_BYTES = 32 * 1024;
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Scripting, animation, interactivity and embedded content are outside the SVG Tiny PS profile
+const FORBIDDEN_ELEMENTS = [
+  'script',
+  'a',
+  'animate',
+  'animatecolor',
+  'animatemotion',
+  'animatetransform',
+  'set',
+  'foreignobject',
+  'image',
+  'video',
+  'audio',
+  'iframe',
+  'handler',
+  'listener',
+];
+
+interface SvgElement {
+  // Lower-cased local name, e.g. "svg" or "title"
+  name: string;
+  attributes: Map<string, string>;
+  // Nesting depth, 0 for the root element
+  depth: number;
+}
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+
+/**
+ * Checks an SVG document against the SVG Tiny Portable/Secure profile required for BIMI logos
+ * Every violation is reported rather than stopping at the first.
+ * @param svg The SVG document
+ * @returns Profile violations (errors) and presentation problems (warnings)
+ */
+export function validateSvgTinyPs(svg: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const elements = scanElements(svg);
+  const root = elements[0];
+
+  if (!root || root.name !== 'svg') {
+    return [svgError('The document is not an SVG image', 'Export the logo as SVG Tiny PS from your design tool')];
+  }
+
+  if (root.attributes.get('baseprofile') !== 'tiny-ps') {
+    issues.push(svgError('The root <svg> element must declare baseProfile="tiny-ps"', 'Add baseProfile="tiny-ps" to the <svg> element'));
+  }
+  if (root.attributes.get('version') !== '1.2') {
+    issues.push(svgError('The root <svg> element must declare version="1.2"', 'Add version="1.2" to the <svg> element'));
+  }
+  if (root.attributes.get('xmlns') !== SVG_NAMESPACE) {
+    issues.push(svgError(`The root <svg> element must use the ${SVG_NAMESPACE} namespace`, `Add xmlns="${SVG_NAMESPACE}" to the <svg> element`));
+  }
+  for (const attribute of ['x', 'y'].filter(name => root.attributes.has(name))) {
+    issues.push(svgError(`The root <svg> element must not have an ${attribute}= attribute`, `Remove ${attribute}= from the <svg> element`));
+  }
+  if (!elements.some(element => element.name === 'title' && element.depth === 1)) {
+    issues.push(svgError('The image has no <title> element', 'Add a <title> with the brand name as the first child of <svg>'));
+  }
+
+  const forbidden = [...new Set(elements.filter(element => FORBIDDEN_ELEMENTS.includes(element.name)).map(element => element.name))];
+  for (const name of forbidden) {
+    issues.push(svgError(`The image contains a <${name}> element, which SVG Tiny PS does not allow`, `Remove the <${name}> elements`));
+  }
+
+  const attributes = elements.flatMap(element => [...element.attributes.entries()]);
+  const handlers = [...new Set(attributes.map(([name]) => name).filter(name => name.startsWith('on')))];
+  if (handlers.length > 0) {
+    issues.push(svgError(`The image has event handler attributes (${handlers.join(', ')})`, 'Remove all on* attributes'));
+  }
+
+  const external = attributes.filter(([name, value]) =>
+    ((name === 'href' || name.endsWith(':href')) && !value.startsWith('#')) || /url\(\s*['"]?(?!#)/i.test(value),
+  );
+  if (external.length > 0) {
+    issues.push(svgError(
+      `The image references external resources (${external.map(([, value]) => value).join(', ')})`,
+      'Embed every shape and gradient in the document and only link to #fragments',
+    ));
+  }
+
+  issues.push(...checkPresentation(svg, root));
+  return issues;
+}
+
+/**
+ * Logos are shown in a circle or square, so they should be square and small
+ */
+function checkPresentation(svg: string, root: SvgElement): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const viewBox = (root.attributes.get('viewbox') ?? '').trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length !== 4 || viewBox.some(value => Number.isNaN(value)) || viewBox[2] !== viewBox[3]) {
+    issues.push({
+      code: 'BIMI_SVG_NOT_SQUARE',
+      type: 'configuration_issue',
+      severity: 'warning',
+      message: `The image does not have a square viewBox${root.attributes.has('viewbox') ? ` ("${root.attributes.get('viewbox')}")` : ''}, so mailbox providers may crop it`,
+      recommendation: 'Center the logo on a square canvas, e.g. viewBox="0 0 512 512"',
+    });
+  }
+
+  const size = Buffer.byteLength(svg);
+  if (size > BIMI_SVG_MAX_BYTES) {
+    issues.push({
+      code: 'BIMI_SVG_TOO_LARGE',
+      type: 'configuration_issue',
+      severity: 'warning',
+      message: `The image is ${size} bytes; mailbox providers may ignore logos over ${BIMI_SVG_MAX_BYTES} bytes`,
+      recommendation: 'Simplify paths and remove metadata, editor namespaces and comments',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Lists the elements of an XML document in order, with their nesting depth
+ * Comments, CDATA sections and processing instructions are skipped.
+ */
+function scanElements(svg: string): SvgElement[] {
+  const markup = svg.replace(/<!--[\s\S]*?-->/g, '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '').replace(/<[?!][^>]*>/g, '');
+  const elements: SvgElement[] = [];
+  let depth = 0;
+
+  for (const [, closing, name, attributeText, selfClosing] of markup.matchAll(TAG_PATTERN)) {
+    if (closing) {
+      depth = Math.max(depth - 1, 0);
+      continue;
+    }
+
+    const attributes = new Map<string, string>();
+    for (const [, attribute, doubleQuoted, singleQuoted] of attributeText.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes.set(attribute.toLowerCase(), doubleQuoted ?? singleQuoted ?? '');
+    }
+
+    // Prefixed names such as svg:title are matched by their local name
+    elements.push({ name: name.substring(name.indexOf(':') + 1).toLowerCase(), attributes, depth });
+    if (!selfClosing) {
+      depth++;
+    }
+  }
+
+  return elements;
+}
+
+function svgError(message: string, recommendation: string): ValidationIssue {
+  return { code: 'BIMI_SVG_INVALID', type: 'configuration_issue', severity: 'error', message, recommendation };
+}
@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+import { parseValidationResult } from '@dmarc-portal/contracts';
+import { DaneValidatorImpl } from './dane-validator.service';
+import { FakeDnsService, FakeDnssecResolver, FakeZone } from '../../test/fake-dns.service';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
+
+describe('DaneValidatorService', () => {
+  const daneEe: TlsaRecord = { usage: 3, selector: 1, matchingType: 1, certificateData: '0c'.repeat(32) };
+  const pkixEe: TlsaRecord = { usage: 1, selector: 1, matchingType: 1, certificateData: 'ab'.repeat(32) };
+
+  const baseZone: FakeZone = {
+    'example.com': {
+      MX: [
+        { exchange: 'mx2.example.com', priority: 20 },
+        { exchange: 'mx1.example.com', priority: 10 },
+      ],
+    },
+  };
+
+  const createValidator = async (zone: FakeZone, withResolver = true): Promise<DaneValidatorImpl> => {
+    const providers = [
+      DaneValidatorImpl,
+      { provide: 'DnsService', useValue: new FakeDnsService(zone) },
+      ...(withResolver ? [{ provide: 'DnssecResolver', useValue: new FakeDnssecResolver(zone) }] : []),
+    ];
+    const module: TestingModule = await Test.createTestingModule({ providers }).compile();
+    return module.get<DaneValidatorImpl>(DaneValidatorImpl);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  it('should accept DNSSEC-signed DANE-EE records on every MX host', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+      '_25._tcp.mx2.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+    });
+
+    const result = await validator.validateDomain('Example.com');
+
+    expect(result.domain).toBe('example.com');
+    expect(result.hosts.map(host => [host.exchange, host.tlsaName, host.dnssec, host.usable])).toEqual([
+      ['mx1.example.com', '_25._tcp.mx1.example.com', 'secure', true],
+      ['mx2.example.com', '_25._tcp.mx2.example.com', 'secure', true],
+    ]);
+    expect(result.issues).toEqual([]);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should report domains without TLSA records, and no hosts at all for a null MX', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      'parked.example': { MX: [{ exchange: '.', priority: 0 }] },
+    });
+
+    const result = await validator.validateDomain('example.com');
+    expect(codes(result.issues)).toEqual(['DANE_NOT_DEPLOYED']);
+    expect(result.hosts.every(host => host.records?.length === 0 && host.dnssec === null && !host.usable)).toBe(true);
+    expect(result.isValid).toBe(true);
+
+    const parked = await validator.validateDomain('parked.example');
+    expect(parked.hosts).toEqual([]);
+    expect(parked.issues).toEqual([]);
+  });
+
+  it('should warn when only some MX hosts publish TLSA records', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+    });
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(codes(result.issues)).toEqual(['DANE_PARTIAL_COVERAGE']);
+    expect(result.issues[0].message).toContain('mx2.example.com');
+    expect(result.isValid).toBe(false);
+  });
+
+  it('should flag TLSA records that are unsigned or fail DNSSEC validation', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [daneEe], dnssec: 'insecure' },
+      '_25._tcp.mx2.example.com': { TLSA: [daneEe], dnssec: 'bogus' },
+    });
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(codes(result.issues)).toEqual(['DANE_TLSA_WITHOUT_DNSSEC', 'DANE_TLSA_DNSSEC_BOGUS']);
+    expect(result.hosts.map(host => host.usable)).toEqual([false, false]);
+  });
+
+  it('should flag unsupported records and leave hosts without a usable record unusable', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [pkixEe], dnssec: 'secure' },
+      '_25._tcp.mx2.example.com': { TLSA: [pkixEe, daneEe], dnssec: 'secure' },
+    });
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(codes(result.issues)).toEqual(['DANE_TLSA_PKIX_USAGE', 'DANE_TLSA_PKIX_USAGE']);
+    expect(result.hosts.map(host => host.usable)).toEqual([false, true]);
+  });
+
+  it('should leave the DNSSEC status unknown without a validating resolver', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [daneEe], dnssec: 'insecure' },
+      '_25._tcp.mx2.example.com': { TLSA: [daneEe] },
+    }, false);
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(result.hosts.map(host => [host.dnssec, host.usable])).toEqual([[null, null], [null, null]]);
+    expect(result.issues).toEqual([]);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should leave usability unknown when the DNSSEC lookup fails', async () => {
+    const zone: FakeZone = {
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+      '_25._tcp.mx2.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+    };
+    const dnssecResolver = new FakeDnssecResolver(zone);
+    jest.spyOn(dnssecResolver, 'lookupStatus').mockRejectedValueOnce(new Error('DNSSEC lookup timed out'));
+    const validator = new DaneValidatorImpl(new FakeDnsService(zone), dnssecResolver);
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(result.hosts.map(host => [host.dnssec, host.usable])).toEqual([[null, null], ['secure', true]]);
+    expect(codes(result.issues)).toEqual(['DANE_TLSA_DNSSEC_UNVERIFIED']);
+    expect(result.issues[0].message).toContain('could not be checked');
+    expect(result.issues[0].recommendation).not.toContain('DNSSEC_RESOLVER');
+  });
+
+  it('should skip hosts whose TLSA lookup failed', async () => {
+    const validator = await createValidator({
+      ...baseZone,
+      '_25._tcp.mx1.example.com': { error: 'TIMEOUT' },
+      '_25._tcp.mx2.example.com': { TLSA: [daneEe], dnssec: 'secure' },
+    });
+
+    const result = await validator.validateDomain('example.com');
+
+    expect(result.hosts[0]).toEqual(expect.objectContaining({ records: null, dnssec: null, usable: false }));
+    expect(result.issues).toEqual([]);
+    expect(parseValidationResult(JSON.parse(JSON.stringify({
+      domain: 'example.com',
+      dmarcRecord: null,
+      isValid: false,
+      issues: [],
+      checkTimestamp: new Date(),
+      dane: result,
+    }))).dane).toEqual(result);
+  });
+
+  it('should reject invalid domains and propagate MX lookup failures', async () => {
+    const validator = await createValidator({ 'example.com': { error: 'SERVFAIL' } });
+
+    await expect(validator.validateDomain('not a domain')).rejects.toThrow('Invalid domain format');
+    await expect(validator.validateDomain('example.com')).rejects.toThrow('DANE lookup failed for domain example.com');
+  });
+
+  it('should have a catalog entry for every issue it reports', () => {
+    const reported = ['DANE_NOT_DEPLOYED', 'DANE_PARTIAL_COVERAGE', 'DANE_TLSA_PKIX_USAGE', 'DANE_TLSA_INVALID',
+      'DANE_TLSA_FULL_MATCH', 'DANE_TLSA_WITHOUT_DNSSEC', 'DANE_TLSA_DNSSEC_BOGUS', 'DANE_TLSA_DNSSEC_UNVERIFIED'];
+    for (const code of reported) {
+      expect(ISSUE_CATALOG[code]?.code).toBe(code);
+    }
+  });
+});
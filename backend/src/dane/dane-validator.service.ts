@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import type { DaneHost, DaneResult, TlsaRecord, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { DnssecResolver } from '../dns/dnssec-resolver.service';
+import { checkTlsaRecord, isUsableTlsaRecord } from './tlsa-record';
+
+// SMTP between MX hosts always uses port 25 (RFC 7672 section 2.2.3)
+const SMTP_TLSA_PREFIX = '_25._tcp';
+
+export interface DaneValidator {
+  validateDomain(domain: string): Promise<DaneResult>;
+  evaluateRecords(tlsaName: string, records: TlsaRecord[]): ValidationIssue[];
+}
+
+@Injectable()
+export class DaneValidatorImpl implements DaneValidator {
+  private readonly logger = new Logger(DaneValidatorImpl.name);
+
+  constructor(
+    @Inject('DnsService') private readonly dnsService: DnsService,
+    @Optional() @Inject('DnssecResolver') private readonly dnssecResolver?: DnssecResolver,
+  ) {}
+
+  /**
+   * Checks the DANE TLSA records of each of a domain's MX hosts
+   * TLSA answers are only checked for DNSSEC when a validating resolver is configured; otherwise usability is unknown.
+   * @param domain The domain whose MX hosts are checked
+   * @returns The TLSA records and DNSSEC status of each MX host, and all findings
+   * @throws Error for invalid domain format or a failed MX lookup
+   */
+  async validateDomain(domain: string): Promise<DaneResult> {
+    if (!this.dnsService.validateDomainFormat(domain)) {
+      throw new Error(`Invalid domain format: ${domain}`);
+    }
+
+    const normalizedDomain = domain.trim().toLowerCase();
+    let exchanges: string[];
+    try {
+      const mxRecords = await this.dnsService.lookupMxRecords(normalizedDomain);
+      exchanges = [...mxRecords]
+        .sort((a, b) => a.priority - b.priority)
+        .map(mx => mx.exchange.toLowerCase().replace(/\.$/, ''))
+        // A null MX (".") means the domain accepts no mail and has no hosts to check
+        .filter((exchange, index, all) => exchange.length > 0 && all.indexOf(exchange) === index);
+    } catch (error) {
+      this.logger.error(`DANE lookup failed for domain ${domain}:`, error);
+      throw new Error(`DANE lookup failed for domain ${domain}: ${error.message}`);
+    }
+
+    const hosts = await Promise.all(exchanges.map(exchange => this.checkHost(exchange)));
+    const issues: ValidationIssue[] = hosts.flatMap(host => this.evaluateHost(host));
+
+    const published = hosts.filter(host => host.records !== null && host.records.length > 0);
+    const unprotected = hosts.filter(host => host.records !== null && host.records.length === 0);
+    if (hosts.length > 0 && published.length === 0 && unprotected.length > 0) {
+      issues.push({
+        code: 'DANE_NOT_DEPLOYED',
+        type: 'missing_record',
+        severity: 'info',
+        message: 'None of the MX hosts publish TLSA records, so senders cannot authenticate them with DANE',
+        recommendation: `Sign the MX hosts' zones with DNSSEC and publish "3 1 1 <digest>" TLSA records at ${SMTP_TLSA_PREFIX}.<MX host>`,
+      });
+    } else if (published.length > 0 && unprotected.length > 0) {
+      issues.push({
+        code: 'DANE_PARTIAL_COVERAGE',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `MX host(s) ${unprotected.map(host => host.exchange).join(', ')} publish no TLSA records, so mail delivered to them is not protected by DANE`,
+        recommendation: `Publish TLSA records for every MX host, e.g. at ${unprotected[0].tlsaName}`,
+      });
+    }
+
+    return {
+      domain: normalizedDomain,
+      hosts,
+      isValid: !issues.some(issue => issue.severity === 'error' || issue.severity === 'warning'),
+      issues,
+    };
+  }
+
+  /**
+   * Checks each TLSA record of one MX host for combinations SMTP senders do not support
+   * @param tlsaName The name the records are published at
+   * @param records The TLSA records
+   * @returns Array of validation issues and recommendations
+   */
+  evaluateRecords(tlsaName: string, records: TlsaRecord[]): ValidationIssue[] {
+    return records.flatMap(record => checkTlsaRecord(record, tlsaName));
+  }
+
+  private async checkHost(exchange: string): Promise<DaneHost> {
+    const tlsaName = `${SMTP_TLSA_PREFIX}.${exchange}`;
+    const records = await this.dnsService.lookupTlsaRecords(tlsaName).catch(error => {
+      this.logger.warn(`TLSA lookup failed for ${tlsaName}: ${error.message}`);
+      return null;
+    });
+
+    let dnssec: DaneHost['dnssec'] = null;
+    if (records && records.length > 0 && this.dnssecResolver?.upstream) {
+      dnssec = await this.dnssecResolver.lookupStatus(tlsaName, 'TLSA').catch(error => {
+        this.logger.warn(`DNSSEC lookup failed for ${tlsaName}: ${error.message}`);
+        return null;
+      });
+    }
+
+    // Senders ignore TLSA records unless the answer validates, so without a DNSSEC status usability is unknown
+    let usable: DaneHost['usable'] = false;
+    if (records !== null && records.some(record => isUsableTlsaRecord(record))) {
+      usable = dnssec === null ? null : dnssec === 'secure';
+    }
+    return { exchange, tlsaName, records, dnssec, usable };
+  }
+
+  private evaluateHost(host: DaneHost): ValidationIssue[] {
+    if (!host.records || host.records.length === 0) {
+      return [];
+    }
+
+    const issues = this.evaluateRecords(host.tlsaName, host.records);
+
+    if (host.dnssec === 'insecure') {
+      issues.push({
+        code: 'DANE_TLSA_WITHOUT_DNSSEC',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `The TLSA records at ${host.tlsaName} are not signed with DNSSEC, so senders ignore them`,
+        recommendation: `Sign the zone of ${host.exchange} with DNSSEC, or remove the TLSA records`,
+      });
+    } else if (host.dnssec === 'bogus') {
+      issues.push({
+        code: 'DANE_TLSA_DNSSEC_BOGUS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `The TLSA records at ${host.tlsaName} fail DNSSEC validation, so DANE senders defer mail to ${host.exchange}`,
+        recommendation: `Fix the DNSSEC signatures of the zone of ${host.exchange}`,
+      });
+    } else if (host.dnssec === null && this.dnssecResolver?.upstream) {
+      // The DNSSEC lookup itself failed; without a validating resolver the status is simply not checked
+      issues.push({
+        code: 'DANE_TLSA_DNSSEC_UNVERIFIED',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `The DNSSEC status of the TLSA records at ${host.tlsaName} could not be checked this time, so it is unknown whether senders use them`,
+        recommendation: 'Check the domain again later',
+      });
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DaneValidatorImpl } from './dane-validator.service';
+import { DnsModule } from '../dns/dns.module';
+
+@Module({
+  imports: [DnsModule],
+  providers: [
+    {
+      provide: 'DaneValidator',
+      useClass: DaneValidatorImpl,
+    },
+  ],
+  exports: ['DaneValidator'],
+})
+export class DaneModule {}
@@ -0,0 +1,48 @@
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+import { checkTlsaRecord, describeTlsaRecord, formatTlsaRecord, isUsableTlsaRecord } from './tlsa-record';
+
+describe('TLSA record checks', () => {
+  const sha256 = 'ab'.repeat(32);
+  const tlsa = (usage: number, selector: number, matchingType: number, certificateData = sha256): TlsaRecord =>
+    ({ usage, selector, matchingType, certificateData });
+  const codes = (record: TlsaRecord) => checkTlsaRecord(record, '_25._tcp.mx.example.com').map(issue => issue.code);
+
+  it('should name the record parameters', () => {
+    expect(describeTlsaRecord(tlsa(3, 1, 1))).toBe('DANE-EE(3) SPKI(1) SHA2-256(1)');
+    expect(describeTlsaRecord(tlsa(0, 0, 2))).toBe('PKIX-TA(0) Cert(0) SHA2-512(2)');
+    expect(describeTlsaRecord(tlsa(7, 1, 1))).toBe('7 SPKI(1) SHA2-256(1)');
+  });
+
+  it('should format records in presentation format, shortening long data', () => {
+    expect(formatTlsaRecord(tlsa(3, 1, 1))).toBe(`3 1 1 ${sha256}`);
+    expect(formatTlsaRecord(tlsa(2, 0, 0, 'cd'.repeat(600)))).toBe(`2 0 0 ${'cd'.repeat(32)}...`);
+  });
+
+  it('should accept DANE-EE and DANE-TA records with well-formed digests', () => {
+    expect(codes(tlsa(3, 1, 1))).toEqual([]);
+    expect(codes(tlsa(2, 0, 2, 'ef'.repeat(64)))).toEqual([]);
+    expect(isUsableTlsaRecord(tlsa(3, 1, 1))).toBe(true);
+  });
+
+  it('should flag PKIX usages as unusable for SMTP', () => {
+    expect(codes(tlsa(1, 1, 1))).toEqual(['DANE_TLSA_PKIX_USAGE']);
+    expect(codes(tlsa(0, 0, 1))).toEqual(['DANE_TLSA_PKIX_USAGE']);
+    expect(isUsableTlsaRecord(tlsa(1, 1, 1))).toBe(false);
+  });
+
+  it('should flag unknown parameters and digests of the wrong length', () => {
+    expect(codes(tlsa(4, 1, 1))).toEqual(['DANE_TLSA_INVALID']);
+    expect(codes(tlsa(3, 2, 1))).toEqual(['DANE_TLSA_INVALID']);
+    expect(codes(tlsa(3, 1, 3))).toEqual(['DANE_TLSA_INVALID']);
+    expect(codes(tlsa(3, 0, 0, ''))).toEqual(['DANE_TLSA_INVALID']);
+
+    const [issue] = checkTlsaRecord(tlsa(3, 1, 2), '_25._tcp.mx.example.com');
+    expect(issue.message).toContain('32 bytes of association data where SHA2-512 needs 64');
+    expect(isUsableTlsaRecord(tlsa(3, 1, 2))).toBe(false);
+  });
+
+  it('should suggest a digest instead of full data', () => {
+    expect(codes(tlsa(3, 1, 0, 'cd'.repeat(294)))).toEqual(['DANE_TLSA_FULL_MATCH']);
+    expect(isUsableTlsaRecord(tlsa(3, 1, 0, 'cd'.repeat(294)))).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import type { TlsaRecord, ValidationIssue } from '@dmarc-portal/contracts';
+
+// Mnemonics from RFC 7218
+const USAGES = ['PKIX-TA', 'PKIX-EE', 'DANE-TA', 'DANE-EE'];
+const SELECTORS = ['Cert', 'SPKI'];
+const MATCHING_TYPES = ['Full', 'SHA2-256', 'SHA2-512'];
+
+// Association data length in bytes for the digest matching types
+const DIGEST_LENGTHS: Record<number, number> = { 1: 32, 2: 64 };
+
+/**
+ * Names the parameters of a TLSA record
+ * @param record The TLSA record
+ * @returns e.g. "DANE-EE(3) SPKI(1) SHA2-256(1)"; unknown values are shown as their number
+ */
+export function describeTlsaRecord(record: TlsaRecord): string {
+  const name = (names: string[], value: number) => names[value] ? `${names[value]}(${value})` : String(value);
+  return `${name(USAGES, record.usage)} ${name(SELECTORS, record.selector)} ${name(MATCHING_TYPES, record.matchingType)}`;
+}
+
+/**
+ * Formats a TLSA record in presentation format, shortening long association data
+ * @param record The TLSA record
+ * @returns e.g. "3 1 1 0c72ac70b745ac19998811b131d662c9ac69dbdbe7cb23e5b514b56664c5d3d6"
+ */
+export function formatTlsaRecord(record: TlsaRecord): string {
+  const data = record.certificateData.length > 64 ? `${record.certificateData.substring(0, 64)}...` : record.certificateData;
+  return `${record.usage} ${record.selector} ${record.matchingType} ${data}`;
+}
+
+/**
+ * Whether SMTP senders can authenticate a server with the record (RFC 7672 section 3.1)
+ * Only DANE-TA(2) and DANE-EE(3) apply to SMTP, with known selectors and well-formed association data.
+ */
+export function isUsableTlsaRecord(record: TlsaRecord): boolean {
+  return (record.usage === 2 || record.usage === 3) && checkParameters(record) === null;
+}
+
+/**
+ * Checks one TLSA record for combinations SMTP senders do not support
+ * @param record The TLSA record
+ * @param tlsaName The name the record is published at, for messages
+ * @returns Issues for PKIX usages, invalid parameters or data, and full-data matching
+ */
+export function checkTlsaRecord(record: TlsaRecord, tlsaName: string): ValidationIssue[] {
+  const formatted = formatTlsaRecord(record);
+  const invalid = checkParameters(record);
+
+  if (invalid !== null) {
+    return [{
+      code: 'DANE_TLSA_INVALID',
+      type: 'syntax_error',
+      severity: 'error',
+      message: `TLSA record "${formatted}" at ${tlsaName} ${invalid}, so senders ignore it`,
+      recommendation: 'Publish "3 1 1" followed by the SHA-256 digest of the server\'s public key, as 64 hex digits',
+    }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (record.usage === 0 || record.usage === 1) {
+    issues.push({
+      code: 'DANE_TLSA_PKIX_USAGE',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `TLSA record "${formatted}" at ${tlsaName} uses ${describeTlsaRecord(record).split(' ')[0]}, which SMTP senders treat as unusable`,
+      recommendation: 'Use DANE-EE(3) to pin the server key, or DANE-TA(2) to pin the issuing CA, e.g. "3 1 1 <digest>"',
+    });
+  }
+  if (record.matchingType === 0) {
+    issues.push({
+      code: 'DANE_TLSA_FULL_MATCH',
+      type: 'configuration_issue',
+      severity: 'info',
+      message: `TLSA record "${formatted}" at ${tlsaName} publishes the full ${record.selector === 0 ? 'certificate' : 'public key'} rather than a digest`,
+      recommendation: `Publish its SHA-256 digest instead: "${record.usage} ${record.selector} 1 <digest>"`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * @returns Why the parameters or data are invalid, or null when they are valid
+ */
+function checkParameters(record: TlsaRecord): string | null {
+  if (!USAGES[record.usage]) {
+    return `has unknown certificate usage ${record.usage}`;
+  }
+  if (!SELECTORS[record.selector]) {
+    return `has unknown selector ${record.selector}`;
+  }
+  if (!MATCHING_TYPES[record.matchingType]) {
+    return `has unknown matching type ${record.matchingType}`;
+  }
+
+  const bytes = record.certificateData.length / 2;
+  const expected = DIGEST_LENGTHS[record.matchingType];
+  if (expected !== undefined && bytes !== expected) {
+    return `has ${bytes} bytes of association data where ${MATCHING_TYPES[record.matchingType]} needs ${expected}`;
+  }
+  if (bytes === 0) {
+    return 'has no association data';
+  }
+  return null;
+}
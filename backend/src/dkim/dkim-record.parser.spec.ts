@@ -0,0 +1,77 @@
+import { generateKeyPairSync } from 'crypto';
+import { isDkimRecord, isValidDkimSelector, parseDkimRecord } from './dkim-record.parser';
+import * as fc from 'fast-check';
+
+describe('DKIM record parser', () => {
+  const rsaKey = (bits: number, type: 'spki' | 'pkcs1' = 'spki') =>
+    generateKeyPairSync('rsa', { modulusLength: bits }).publicKey.export({ format: 'der', type }).toString('base64');
+  const ed25519Key = () =>
+    // The raw key is the last 32 bytes of the SubjectPublicKeyInfo encoding
+    generateKeyPairSync('ed25519').publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('base64');
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  it('should recognise key records and valid selectors', () => {
+    expect(isDkimRecord('v=DKIM1; k=rsa; p=MIGf')).toBe(true);
+    expect(isDkimRecord('k=rsa; p=MIGf')).toBe(true);
+    expect(isDkimRecord('v=spf1 -all')).toBe(false);
+    expect(isDkimRecord('google-site-verification=abc')).toBe(false);
+
+    expect(isValidDkimSelector('selector1')).toBe(true);
+    expect(isValidDkimSelector('2024.mail')).toBe(true);
+    expect(isValidDkimSelector('bad selector')).toBe(false);
+    expect(isValidDkimSelector('-leading')).toBe(false);
+    expect(isValidDkimSelector('')).toBe(false);
+  });
+
+  it('should parse tags and measure RSA keys in either encoding', () => {
+    const key = rsaKey(2048);
+    const { key: parsed, errors } = parseDkimRecord(`v=DKIM1; k=rsa; t=y:s; h=sha256; p=${key.substring(0, 100)} ${key.substring(100)}`);
+
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(expect.objectContaining({
+      version: 'DKIM1',
+      keyType: 'rsa',
+      publicKey: key,
+      flags: ['y', 's'],
+      hashAlgorithms: ['sha256'],
+      keyBits: 2048,
+    }));
+    expect(parseDkimRecord(`p=${rsaKey(1024, 'pkcs1')}`).key?.keyBits).toBe(1024);
+  });
+
+  it('should default to RSA and treat an empty p= as a revoked key', () => {
+    const { key, errors } = parseDkimRecord('v=DKIM1; p=');
+
+    expect(errors).toEqual([]);
+    expect(key).toEqual(expect.objectContaining({ keyType: 'rsa', publicKey: '', keyBits: null, hashAlgorithms: null, flags: [] }));
+  });
+
+  it('should measure Ed25519 keys', () => {
+    expect(parseDkimRecord(`v=DKIM1; k=ed25519; p=${ed25519Key()}`).key?.keyBits).toBe(256);
+  });
+
+  it('should report malformed records and undecodable keys', () => {
+    expect(codes(parseDkimRecord('k=rsa; p=MIGf; v=DKIM1').errors)).toEqual(['DKIM_RECORD_INVALID']);
+    expect(codes(parseDkimRecord('v=DKIM1; k=dsa; p=MIGf').errors)).toEqual(['DKIM_RECORD_INVALID']);
+    expect(codes(parseDkimRecord('v=DKIM1; k=rsa; k=rsa').errors)).toEqual(['DKIM_RECORD_INVALID', 'DKIM_RECORD_INVALID']);
+
+    const truncated = parseDkimRecord(`v=DKIM1; p=${rsaKey(1024).substring(0, 60)}`);
+    expect(truncated.key).toBeNull();
+    expect(codes(truncated.errors)).toEqual(['DKIM_KEY_INVALID']);
+  });
+
+  it('should never throw for arbitrary input', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.string(), fc.string().map(rest => `v=DKIM1; p=${rest}`)),
+        (txt) => {
+          const { key, errors } = parseDkimRecord(txt);
+
+          expect(key === null).toBe(errors.length > 0);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { createPublicKey } from 'crypto';
+import type { DkimKeyRecord, ValidationIssue } from '@dmarc-portal/contracts';
+
+export interface DkimRecordParseResult {
+  // Null when the record or its key is malformed; verifiers ignore such a key
+  key: DkimKeyRecord | null;
+  errors: ValidationIssue[];
+}
+
+// Key types defined by RFC 6376 and RFC 8463
+const KEY_TYPES = ['rsa', 'ed25519'];
+
+// Ed25519 public keys are 32 raw bytes (RFC 8463 section 4.2)
+const ED25519_KEY_BYTES = 32;
+
+const SELECTOR_PATTERN = /^[a-z0-9_](?:[a-z0-9_-]*[a-z0-9_])?(?:\.[a-z0-9_](?:[a-z0-9_-]*[a-z0-9_])?)*$/i;
+
+/**
+ * Selectors are one or more DNS labels placed in front of "._domainkey" (RFC 6376 section 3.1)
+ * @param selector The selector to check, e.g. "google" or "2024.mail"
+ * @returns true if the selector can be queried
+ */
+export function isValidDkimSelector(selector: string): boolean {
+  return typeof selector === 'string' && selector.length <= 63 && SELECTOR_PATTERN.test(selector);
+}
+
+/**
+ * A TXT record at a selector is a key record when it declares v=DKIM1 or carries a p= tag
+ * @param txt A TXT record published at <selector>._domainkey.<domain>
+ * @returns true if the record is a DKIM key record
+ */
+export function isDkimRecord(txt: string): boolean {
+  return /^\s*v\s*=\s*DKIM1\s*(?:;|$)/i.test(txt) || /(?:^|;)\s*p\s*=/.test(txt);
+}
+
+/**
+ * Parses a DKIM key record and measures its public key (RFC 6376 section 3.6.1)
+ * Every malformed tag is reported rather than stopping at the first.
+ * @param record The key record, e.g. "v=DKIM1; k=rsa; p=MIIBIjANBg..."
+ * @returns The parsed key, or null with the errors found
+ */
+export function parseDkimRecord(record: string): DkimRecordParseResult {
+  const errors: ValidationIssue[] = [];
+  const tags = new Map<string, string>();
+
+  const specs = record.split(';').map(spec => spec.trim()).filter(spec => spec.length > 0);
+  specs.forEach((spec, index) => {
+    const separator = spec.indexOf('=');
+    if (separator === -1) {
+      errors.push(recordError(`Malformed tag "${spec}": expected name=value`, 'Separate tags with semicolons and write each as name=value'));
+      return;
+    }
+
+    const name = spec.substring(0, separator).trim();
+    // Values may be folded across whitespace, which is not part of the value
+    const value = spec.substring(separator + 1).replace(/\s+/g, '');
+
+    if (tags.has(name)) {
+      errors.push(recordError(`Duplicate tag "${name}"`, `Keep a single ${name}= tag`));
+      return;
+    }
+    if (name === 'v' && (index !== 0 || value !== 'DKIM1')) {
+      errors.push(recordError('The v= tag must be first and equal to "DKIM1"', 'Start the record with "v=DKIM1;" or leave v= out'));
+    }
+    tags.set(name, value);
+  });
+
+  if (!tags.has('p')) {
+    errors.push(recordError('Key record has no p= tag', 'Publish the base64 public key in a p= tag'));
+  }
+
+  const keyType = (tags.get('k') ?? 'rsa').toLowerCase();
+  if (!KEY_TYPES.includes(keyType)) {
+    errors.push(recordError(`Unknown key type "k=${keyType}"`, `Use one of ${KEY_TYPES.join(', ')}`));
+  }
+
+  const publicKey = tags.get('p') ?? '';
+  let keyBits: number | null = null;
+  if (publicKey !== '' && errors.length === 0) {
+    keyBits = measureKey(keyType, publicKey);
+    if (keyBits === null) {
+      errors.push({
+        code: 'DKIM_KEY_INVALID',
+        type: 'syntax_error',
+        severity: 'error',
+        message: `The p= value is not a valid base64 ${keyType === 'rsa' ? 'RSA' : 'Ed25519'} public key`,
+        recommendation: 'Copy the public key from your mail provider again; check that it was not truncated when split into strings',
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { key: null, errors };
+  }
+
+  return {
+    key: {
+      rawRecord: record,
+      version: tags.get('v') ?? null,
+      keyType,
+      publicKey,
+      flags: splitList(tags.get('t')),
+      hashAlgorithms: tags.has('h') ? splitList(tags.get('h')) : null,
+      keyBits,
+    },
+    errors,
+  };
+}
+
+/**
+ * Decodes the public key and returns its size in bits, or null if it cannot be decoded
+ */
+function measureKey(keyType: string, publicKey: string): number | null {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(publicKey)) {
+    return null;
+  }
+  const der = Buffer.from(publicKey, 'base64');
+
+  if (keyType === 'ed25519') {
+    return der.length === ED25519_KEY_BYTES ? ED25519_KEY_BYTES * 8 : null;
+  }
+
+  // Keys are normally SubjectPublicKeyInfo, but some signers publish a bare PKCS#1 RSAPublicKey
+  for (const type of ['spki', 'pkcs1'] as const) {
+    try {
+      const key = createPublicKey({ key: der, format: 'der', type });
+      if (key.asymmetricKeyType === 'rsa') {
+        return key.asymmetricKeyDetails?.modulusLength ?? null;
+      }
+    } catch {
+      // Try the next encoding
+    }
+  }
+  return null;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(':').map(item => item.toLowerCase()).filter(item => item.length > 0);
+}
+
+function recordError(message: string, recommendation: string): ValidationIssue {
+  return { code: 'DKIM_RECORD_INVALID', type: 'syntax_error', severity: 'error', message, recommendation };
+}
@@ -0,0 +1,142 @@
+import { generateKeyPairSync } from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DkimValidatorImpl, COMMON_DKIM_SELECTORS } from './dkim-validator.service';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
+
+describe('DkimValidatorService', () => {
+  let service: DkimValidatorImpl;
+  let dnsService: FakeDnsService;
+
+  const rsaKey = (bits: number) =>
+    generateKeyPairSync('rsa', { modulusLength: bits }).publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+  const key512 = rsaKey(512);
+  const key1024 = rsaKey(1024);
+  const key2048 = rsaKey(2048);
+
+  const createService = async (zone: FakeZone) => {
+    dnsService = new FakeDnsService(zone);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DkimValidatorImpl,
+        {
+          provide: 'DnsService',
+          useValue: dnsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DkimValidatorImpl>(DkimValidatorImpl);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  describe('validateDomain', () => {
+    it('should find keys at common selectors and report only the selectors that have one', async () => {
+      await createService({
+        'google._domainkey.example.com': { TXT: [`v=DKIM1; k=rsa; p=${key2048}`] },
+        'selector1._domainkey.example.com': { TXT: ['some-verification=abc', `v=DKIM1; p=${key2048}`] },
+      });
+
+      const result = await service.validateDomain('Example.com');
+
+      expect(result.domain).toBe('example.com');
+      expect(result.selectors.map(selector => [selector.selector, selector.source, selector.key?.keyBits])).toEqual([
+        ['google', 'common', 2048],
+        ['selector1', 'common', 2048],
+      ]);
+      expect(result.issues).toEqual([]);
+      expect(result.isValid).toBe(true);
+      expect(dnsService.queries).toHaveLength(COMMON_DKIM_SELECTORS.length);
+      expect(dnsService.queries).toContain('TXT k1._domainkey.example.com');
+    });
+
+    it('should probe custom selectors first and report the ones without a key', async () => {
+      await createService({
+        'mta2024._domainkey.example.com': { TXT: [`v=DKIM1; p=${key2048}`] },
+      });
+
+      const result = await service.validateDomain('example.com', ['MTA2024', 'missing', 'google']);
+
+      expect(result.selectors.map(selector => [selector.selector, selector.source, selector.record !== null])).toEqual([
+        ['mta2024', 'custom', true],
+        ['missing', 'custom', false],
+        ['google', 'custom', false],
+      ]);
+      expect(codes(result.selectors[1].issues)).toEqual(['DKIM_SELECTOR_NOT_FOUND']);
+      expect(dnsService.queries.filter(query => query === 'TXT google._domainkey.example.com')).toHaveLength(1);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should warn when no selector has a key', async () => {
+      await createService({});
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.selectors).toEqual([]);
+      expect(result.issues).toEqual([expect.objectContaining({ code: 'DKIM_KEYS_NOT_FOUND', severity: 'warning' })]);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should report lookup failures, duplicate records and malformed keys per selector', async () => {
+      await createService({
+        'default._domainkey.example.com': { error: 'TIMEOUT' },
+        's1._domainkey.example.com': { TXT: [`v=DKIM1; p=${key2048}`, `v=DKIM1; p=${key1024}`] },
+        's2._domainkey.example.com': { TXT: ['v=DKIM1; k=rsa; p=not-base64!'] },
+      });
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.selectors.map(selector => [selector.selector, codes(selector.issues)])).toEqual([
+        ['default', ['DKIM_LOOKUP_FAILED']],
+        ['s1', ['DKIM_MULTIPLE_RECORDS']],
+        ['s2', ['DKIM_KEY_INVALID']],
+      ]);
+      expect(result.selectors[1].record).toBeNull();
+      expect(result.selectors[2].key).toBeUndefined();
+    });
+
+    it('should reject invalid domains and selectors before querying DNS', async () => {
+      await createService({});
+
+      await expect(service.validateDomain('not a domain')).rejects.toThrow('Invalid domain format');
+      await expect(service.validateDomain('example.com', ['bad selector'])).rejects.toThrow('Invalid DKIM selector: bad selector');
+      expect(dnsService.queries).toEqual([]);
+    });
+  });
+
+  describe('evaluateKey', () => {
+    const evaluate = async (record: string) => {
+      await createService({ 'k1._domainkey.example.com': { TXT: [record] } });
+      return (await service.validateDomain('example.com')).selectors[0];
+    };
+
+    it('should flag revoked keys and testing mode', async () => {
+      expect(codes((await evaluate('v=DKIM1; p=')).issues)).toEqual(['DKIM_KEY_REVOKED']);
+      expect(codes((await evaluate(`v=DKIM1; t=y; p=${key2048}`)).issues)).toEqual(['DKIM_KEY_TESTING']);
+    });
+
+    it('should flag RSA keys under 1024 bits as errors and under 2048 bits as weak', async () => {
+      const tooShort = await evaluate(`v=DKIM1; p=${key512}`);
+      expect(tooShort.issues).toEqual([expect.objectContaining({ code: 'DKIM_KEY_TOO_SHORT', severity: 'error' })]);
+      expect(tooShort.issues[0].message).toContain('512 bits');
+
+      expect((await evaluate(`v=DKIM1; p=${key1024}`)).issues).toEqual([
+        expect.objectContaining({ code: 'DKIM_KEY_WEAK', severity: 'warning' }),
+      ]);
+    });
+
+    it('should flag keys restricted to SHA-1', async () => {
+      expect(codes((await evaluate(`v=DKIM1; h=sha1; p=${key2048}`)).issues)).toEqual(['DKIM_HASH_SHA1_ONLY']);
+      expect((await evaluate(`v=DKIM1; h=sha1:sha256; p=${key2048}`)).issues).toEqual([]);
+    });
+
+    it('should give every finding a catalogued issue code', async () => {
+      const selector = await evaluate(`v=DKIM1; t=y; h=sha1; p=${key512}`);
+
+      expect(selector.issues.length).toBeGreaterThan(0);
+      expect(selector.issues.every(issue => ISSUE_CATALOG[issue.code!] !== undefined)).toBe(true);
+    });
+  });
+});
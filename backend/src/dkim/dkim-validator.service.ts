@@ -0,0 +1,225 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { DkimKeyRecord, DkimResult, DkimSelectorResult, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { isDkimRecord, isValidDkimSelector, parseDkimRecord } from './dkim-record.parser';
+
+// Selectors used by widespread mail providers and signing software
+export const COMMON_DKIM_SELECTORS = [
+  'default',
+  'dkim',
+  'mail',
+  'email',
+  'google',
+  'selector1',
+  'selector2',
+  'k1',
+  'k2',
+  'k3',
+  's1',
+  's2',
+  'key1',
+  'key2',
+  'smtp',
+  'mx',
+  'dk',
+  'mandrill',
+  'mxvault',
+  'zoho',
+  'protonmail',
+  'fm1',
+  'fm2',
+  'fm3',
+  'everlytickey1',
+  'everlytickey2',
+  'cm',
+];
+
+// Verifiers must reject smaller RSA keys and signers should use at least 2048 bits (RFC 8301 section 3.2)
+export const DKIM_MIN_RSA_BITS = 1024;
+export const DKIM_RECOMMENDED_RSA_BITS = 2048;
+
+export interface DkimValidator {
+  validateDomain(domain: string, customSelectors?: string[]): Promise<DkimResult>;
+  evaluateKey(key: DkimKeyRecord): ValidationIssue[];
+}
+
+@Injectable()
+export class DkimValidatorImpl implements DkimValidator {
+  private readonly logger = new Logger(DkimValidatorImpl.name);
+
+  constructor(@Inject('DnsService') private readonly dnsService: DnsService) {}
+
+  /**
+   * Probes the common selectors and any user-supplied selectors for DKIM key records
+   * @param domain The domain to check
+   * @param customSelectors Extra selectors to probe, e.g. the one in a message's DKIM-Signature
+   * @returns The keys found, with findings per selector
+   * @throws Error for invalid domain format or invalid selectors
+   */
+  async validateDomain(domain: string, customSelectors: string[] = []): Promise<DkimResult> {
+    if (!this.dnsService.validateDomainFormat(domain)) {
+      throw new Error(`Invalid domain format: ${domain}`);
+    }
+
+    const invalidSelector = customSelectors.find(selector => !isValidDkimSelector(selector));
+    if (invalidSelector !== undefined) {
+      throw new Error(`Invalid DKIM selector: ${invalidSelector}`);
+    }
+
+    const normalizedDomain = domain.trim().toLowerCase();
+    const custom = [...new Set(customSelectors.map(selector => selector.toLowerCase()))];
+    const common = COMMON_DKIM_SELECTORS.filter(selector => !custom.includes(selector));
+
+    const probes = await Promise.all([
+      ...custom.map(selector => this.probeSelector(normalizedDomain, selector, 'custom')),
+      ...common.map(selector => this.probeSelector(normalizedDomain, selector, 'common')),
+    ]);
+
+    const result: DkimResult = {
+      domain: normalizedDomain,
+      selectors: probes.filter(probe => probe !== null),
+      isValid: false,
+      issues: [],
+    };
+
+    if (!result.selectors.some(selector => selector.record !== null)) {
+      result.issues.push({
+        code: 'DKIM_KEYS_NOT_FOUND',
+        type: 'missing_record',
+        severity: 'warning',
+        message: `No DKIM key found at ${custom.length + common.length} selectors checked; DMARC can only pass through SPF unless another selector is used`,
+        recommendation: 'Enable DKIM signing with your mail provider, or check again with the selector from the s= tag of a DKIM-Signature header',
+      });
+    }
+
+    this.logger.debug(`Found DKIM records at ${result.selectors.filter(s => s.record).length} selectors for ${normalizedDomain}`);
+
+    const allIssues = [...result.issues, ...result.selectors.flatMap(selector => selector.issues)];
+    result.isValid = !allIssues.some(issue => issue.severity === 'error' || issue.severity === 'warning');
+    return result;
+  }
+
+  /**
+   * Evaluates a parsed DKIM key for revocation, testing mode and key strength
+   * @param key The parsed key record
+   * @returns Array of validation issues and recommendations
+   */
+  evaluateKey(key: DkimKeyRecord): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (key.publicKey === '') {
+      issues.push({
+        code: 'DKIM_KEY_REVOKED',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: 'The key has been revoked (empty p=), so every signature made with this selector fails',
+        recommendation: 'Remove the record once nothing signs with this selector, or publish the current key',
+      });
+      return issues;
+    }
+
+    if (key.flags.includes('y')) {
+      issues.push({
+        code: 'DKIM_KEY_TESTING',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'The key is in testing mode (t=y), so verifiers may treat failed signatures as unsigned',
+        recommendation: 'Remove the y flag from the t= tag once signing works',
+      });
+    }
+
+    if (key.keyType === 'rsa' && key.keyBits !== null) {
+      if (key.keyBits < DKIM_MIN_RSA_BITS) {
+        issues.push({
+          code: 'DKIM_KEY_TOO_SHORT',
+          type: 'weak_policy',
+          severity: 'error',
+          message: `The RSA key is only ${key.keyBits} bits; verifiers ignore signatures from keys under ${DKIM_MIN_RSA_BITS} bits`,
+          recommendation: `Rotate to a ${DKIM_RECOMMENDED_RSA_BITS}-bit key under a new selector`,
+        });
+      } else if (key.keyBits < DKIM_RECOMMENDED_RSA_BITS) {
+        issues.push({
+          code: 'DKIM_KEY_WEAK',
+          type: 'weak_policy',
+          severity: 'warning',
+          message: `The RSA key is ${key.keyBits} bits; at least ${DKIM_RECOMMENDED_RSA_BITS} bits is recommended`,
+          recommendation: `Rotate to a ${DKIM_RECOMMENDED_RSA_BITS}-bit key under a new selector`,
+        });
+      }
+    }
+
+    if (key.hashAlgorithms && !key.hashAlgorithms.includes('sha256')) {
+      issues.push({
+        code: 'DKIM_HASH_SHA1_ONLY',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: `The key only allows ${key.hashAlgorithms.join(', ')} signatures; rsa-sha1 must no longer be used`,
+        recommendation: 'Remove the h= tag or set h=sha256, and sign with rsa-sha256',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Looks up the key record at one selector
+   * @returns The selector result, or null for a common selector that has no record
+   */
+  private async probeSelector(domain: string, selector: string, source: DkimSelectorResult['source']): Promise<DkimSelectorResult | null> {
+    const name = `${selector}._domainkey.${domain}`;
+    const result: DkimSelectorResult = { selector, source, record: null, issues: [] };
+
+    let txtRecords: string[];
+    try {
+      txtRecords = await this.dnsService.lookupTxtRecords(name);
+    } catch (error) {
+      this.logger.warn(`DKIM lookup failed for ${name}: ${error.message}`);
+      result.issues.push({
+        code: 'DKIM_LOOKUP_FAILED',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `DNS lookup for ${name} failed (${error.message})`,
+        recommendation: 'Check that the name servers for the domain respond, then re-run the check',
+      });
+      return result;
+    }
+
+    const dkimRecords = txtRecords.filter(txt => isDkimRecord(txt));
+
+    if (dkimRecords.length === 0) {
+      if (source === 'common') {
+        return null;
+      }
+      result.issues.push({
+        code: 'DKIM_SELECTOR_NOT_FOUND',
+        type: 'missing_record',
+        severity: 'warning',
+        message: `No DKIM key record found at ${name}`,
+        recommendation: 'Check the selector name, and publish the key your mail provider gives you at this name',
+      });
+      return result;
+    }
+
+    if (dkimRecords.length > 1) {
+      result.issues.push({
+        code: 'DKIM_MULTIPLE_RECORDS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Found ${dkimRecords.length} key records at ${name}; verifiers may pick either one`,
+        recommendation: 'Keep a single key record per selector and publish new keys under a new selector',
+      });
+      return result;
+    }
+
+    result.record = dkimRecords[0];
+    const { key, errors } = parseDkimRecord(result.record);
+    result.issues.push(...errors);
+
+    if (key) {
+      result.key = key;
+      result.issues.push(...this.evaluateKey(key));
+    }
+
+    return result;
+  }
+}
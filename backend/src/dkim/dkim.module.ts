@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DkimValidatorImpl } from './dkim-validator.service';
+import { DnsModule } from '../dns/dns.module';
+
+@Module({
+  imports: [DnsModule],
+  providers: [
+    {
+      provide: 'DkimValidator',
+      useClass: DkimValidatorImpl,
+    },
+  ],
+  exports: ['DkimValidator'],
+})
+export class DkimModule {}
@@ -0,0 +1,48 @@
+import { generateDmarcRecord, validateGenerateOptions } from './dmarc-record.generator';
+
+describe('DMARC record generator', () => {
+  it('should default to a monitoring record', () => {
+    const { record, policy } = generateDmarcRecord({});
+
+    expect(record).toBe('v=DMARC1; p=none');
+    expect(policy.policy).toBe('none');
+    expect(policy.rawRecord).toBe(record);
+  });
+
+  it('should build a canonical record from all options', () => {
+    const { record, policy } = generateDmarcRecord({
+      rolloutStage: 'quarantine-partial',
+      subdomainPolicy: 'reject',
+      aggregateReportAddresses: ['dmarc@example.com', 'mailto:agg@vendor.example!10m'],
+      failureReportAddresses: ['forensic@example.com'],
+      failureOptions: ['1', 'd', '1'],
+      alignment: { dkim: 'strict' },
+    });
+
+    expect(record).toBe(
+      'v=DMARC1; p=quarantine; sp=reject; pct=25; rua=mailto:dmarc@example.com,mailto:agg@vendor.example!10m; ' +
+      'ruf=mailto:forensic@example.com; fo=1:d; adkim=s; aspf=r'
+    );
+    expect(policy.percentage).toBe(25);
+    expect(policy.aggregateReportUris?.[1].maxSize).toBe(10 * 1024 * 1024);
+    expect(policy.alignment).toEqual({ dkim: 'strict', spf: 'relaxed' });
+  });
+
+  it('should let an explicit policy match the rollout stage', () => {
+    expect(generateDmarcRecord({ policy: 'reject', rolloutStage: 'reject' }).record).toBe('v=DMARC1; p=reject');
+    expect(generateDmarcRecord({ policy: 'reject' }).record).toBe('v=DMARC1; p=reject');
+  });
+
+  it('should report every invalid option', () => {
+    const errors = validateGenerateOptions({
+      policy: 'none',
+      rolloutStage: 'reject',
+      aggregateReportAddresses: ['not-an-address', 'https://reports.example.com'],
+      failureOptions: ['x' as any],
+    });
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain('conflicts with rollout stage');
+    expect(() => generateDmarcRecord({ policy: 'deny' as any })).toThrow('Invalid DMARC record options');
+  });
+});
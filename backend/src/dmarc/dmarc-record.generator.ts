@@ -0,0 +1,177 @@
+import type { DmarcFailureOption, DmarcPolicy, DmarcReportUri, DmarcRolloutStage } from '@dmarc-portal/contracts';
+import { parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+import { serializeDmarcPolicy } from './dmarc-record.serializer';
+import { parseReportUri } from './report-uri.parser';
+
+export interface DmarcGenerateOptions {
+  policy?: 'none' | 'quarantine' | 'reject';
+  subdomainPolicy?: 'none' | 'quarantine' | 'reject';
+  // Email addresses or mailto: URIs, optionally with a "!<size>" limit
+  aggregateReportAddresses?: string[];
+  failureReportAddresses?: string[];
+  alignment?: {
+    spf?: 'relaxed' | 'strict';
+    dkim?: 'relaxed' | 'strict';
+  };
+  failureOptions?: DmarcFailureOption[];
+  // Sets p and pct for a step of the usual none -> quarantine -> reject rollout; defaults to "monitor"
+  rolloutStage?: DmarcRolloutStage;
+}
+
+export interface GeneratedDmarcRecord {
+  record: string;
+  policy: DmarcPolicy;
+}
+
+/**
+ * Policy and enforcement percentage applied at each rollout stage
+ */
+export const ROLLOUT_STAGES: Record<DmarcRolloutStage, { policy: 'none' | 'quarantine' | 'reject'; percentage?: number }> = {
+  'monitor': { policy: 'none' },
+  'quarantine-partial': { policy: 'quarantine', percentage: 25 },
+  'quarantine': { policy: 'quarantine' },
+  'reject-partial': { policy: 'reject', percentage: 25 },
+  'reject': { policy: 'reject' },
+};
+
+const POLICY_VALUES = ['none', 'quarantine', 'reject'];
+const ALIGNMENT_VALUES = ['relaxed', 'strict'];
+const FAILURE_OPTIONS = ['0', '1', 'd', 's'];
+
+/**
+ * Checks generator options for values that cannot be turned into a valid record
+ * @param options The requested record options
+ * @returns Human-readable problems, empty when the options are valid
+ */
+export function validateGenerateOptions(options: DmarcGenerateOptions): string[] {
+  if (!options || typeof options !== 'object') {
+    return ['Options must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (options.policy !== undefined && !POLICY_VALUES.includes(options.policy)) {
+    errors.push(`Invalid policy: ${options.policy}. Use none, quarantine or reject`);
+  }
+  if (options.subdomainPolicy !== undefined && !POLICY_VALUES.includes(options.subdomainPolicy)) {
+    errors.push(`Invalid subdomain policy: ${options.subdomainPolicy}. Use none, quarantine or reject`);
+  }
+
+  if (options.rolloutStage !== undefined) {
+    const stage = ROLLOUT_STAGES[options.rolloutStage];
+    if (!stage) {
+      errors.push(`Invalid rollout stage: ${options.rolloutStage}. Use one of ${Object.keys(ROLLOUT_STAGES).join(', ')}`);
+    } else if (options.policy !== undefined && options.policy !== stage.policy) {
+      errors.push(`Policy "${options.policy}" conflicts with rollout stage "${options.rolloutStage}", which uses p=${stage.policy}`);
+    }
+  }
+
+  for (const [field, addresses] of [
+    ['aggregateReportAddresses', options.aggregateReportAddresses],
+    ['failureReportAddresses', options.failureReportAddresses],
+  ] as Array<[string, string[] | undefined]>) {
+    if (addresses === undefined) {
+      continue;
+    }
+    if (!Array.isArray(addresses)) {
+      errors.push(`${field} must be an array of email addresses`);
+      continue;
+    }
+    for (const address of addresses) {
+      try {
+        toReportUri(address);
+      } catch (error) {
+        errors.push(`${field}: ${error.message}`);
+      }
+    }
+  }
+
+  if (options.alignment !== undefined) {
+    for (const mechanism of ['spf', 'dkim'] as const) {
+      const mode = options.alignment?.[mechanism];
+      if (mode !== undefined && !ALIGNMENT_VALUES.includes(mode)) {
+        errors.push(`Invalid ${mechanism.toUpperCase()} alignment: ${mode}. Use relaxed or strict`);
+      }
+    }
+  }
+
+  if (options.failureOptions !== undefined) {
+    if (!Array.isArray(options.failureOptions)) {
+      errors.push('failureOptions must be an array of 0, 1, d or s');
+    } else {
+      for (const option of options.failureOptions) {
+        if (!FAILURE_OPTIONS.includes(option)) {
+          errors.push(`Invalid failure reporting option: ${option}. Use 0, 1, d or s`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Builds a canonical DMARC record from the requested options
+ * @param options The requested record options
+ * @returns The record string and the policy it represents, as parseDmarcRecord would read it
+ * @throws Error if the options are invalid; call validateGenerateOptions first to get every problem
+ */
+export function generateDmarcRecord(options: DmarcGenerateOptions): GeneratedDmarcRecord {
+  const errors = validateGenerateOptions(options);
+  if (errors.length > 0) {
+    throw new Error(`Invalid DMARC record options: ${errors.join('; ')}`);
+  }
+
+  const stage = ROLLOUT_STAGES[options.rolloutStage ?? 'monitor'];
+  const policy: DmarcPolicy = {
+    version: 'DMARC1',
+    policy: options.policy ?? stage.policy,
+    rawRecord: '',
+  };
+
+  if (options.subdomainPolicy) {
+    policy.subdomainPolicy = options.subdomainPolicy;
+  }
+  if (stage.percentage !== undefined) {
+    policy.percentage = stage.percentage;
+  }
+  if (options.aggregateReportAddresses?.length) {
+    policy.aggregateReportUris = options.aggregateReportAddresses.map(toReportUri);
+  }
+  if (options.failureReportAddresses?.length) {
+    policy.failureReportUris = options.failureReportAddresses.map(toReportUri);
+  }
+  if (options.failureOptions?.length) {
+    policy.failureOptions = Array.from(new Set(options.failureOptions));
+  }
+  if (options.alignment && (options.alignment.spf || options.alignment.dkim)) {
+    policy.alignment = {
+      spf: options.alignment.spf ?? 'relaxed',
+      dkim: options.alignment.dkim ?? 'relaxed',
+    };
+  }
+
+  const record = serializeDmarcPolicy(policy);
+
+  return { record, policy: parseDmarcRecordDiagnostics(record).policy };
+}
+
+/**
+ * Turns a requested report address into a mailto: report URI
+ * @throws Error if the address is not a valid email address or mailto: URI
+ */
+function toReportUri(address: string): DmarcReportUri {
+  if (typeof address !== 'string' || address.trim().length === 0) {
+    throw new Error('Report addresses must be non-empty strings');
+  }
+
+  const reportUri = parseReportUri(address);
+  if (reportUri.scheme !== null && reportUri.scheme !== 'mailto') {
+    throw new Error(`Unsupported report URI scheme "${reportUri.scheme}" in ${address}; only mailto: is supported`);
+  }
+  if (!/^[^\s@,;!]+@[^\s@,;!]+\.[^\s@,;!]+$/.test(reportUri.address)) {
+    throw new Error(`Invalid report address: ${address}`);
+  }
+
+  return { ...reportUri, scheme: 'mailto' };
+}
@@ -0,0 +1,116 @@
+import { parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+import * as fc from 'fast-check';
+
+describe('DMARC record parser', () => {
+  const textAt = (record: string, offset: number, length: number) => record.substr(offset, length);
+
+  it('should parse a valid record without diagnostics', () => {
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics('v=DMARC1; p=reject; sp=quarantine; rua=mailto:a@example.com');
+
+    expect(diagnostics).toEqual([]);
+    expect(policy?.policy).toBe('reject');
+    expect(policy?.subdomainPolicy).toBe('quarantine');
+  });
+
+  it('should report every invalid value with its position instead of stopping at the first', () => {
+    const record = 'v=DMARC1; p=deny; pct=150; adkim=x';
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics.map(diagnostic => diagnostic.tag)).toEqual(['p', 'pct', 'adkim']);
+    expect(diagnostics.every(diagnostic => diagnostic.code === 'DMARC_TAG_INVALID_VALUE')).toBe(true);
+    expect(diagnostics.map(diagnostic => textAt(record, diagnostic.offset, diagnostic.length))).toEqual(['deny', '150', 'x']);
+    expect(diagnostics.every(diagnostic => diagnostic.severity === 'error' && diagnostic.fixHint.length > 0)).toBe(true);
+    // Invalid values fall back to their defaults
+    expect(policy?.policy).toBe('none');
+    expect(policy?.percentage).toBeUndefined();
+  });
+
+  it('should report duplicate tags and keep the first value', () => {
+    const record = 'v=DMARC1; p=reject; rua=mailto:a@example.com; p=none';
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      code: 'DMARC_TAG_DUPLICATE',
+      severity: 'error',
+      tag: 'p',
+      offset: record.lastIndexOf('p=none'),
+      length: 6,
+    });
+    expect(diagnostics[0].message).toContain('Duplicate tag');
+    expect(policy?.policy).toBe('reject');
+  });
+
+  it('should require p to directly follow v', () => {
+    const record = 'v=DMARC1; rua=mailto:a@example.com; p=reject';
+    const { diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe('The p tag must immediately follow v=DMARC1');
+    expect(textAt(record, diagnostics[0].offset, diagnostics[0].length)).toBe('p=reject');
+    expect(diagnostics[0].fixHint).toContain('v=DMARC1; p=reject');
+  });
+
+  it('should report a missing p tag at the end of the record', () => {
+    const record = 'v=DMARC1; rua=mailto:a@example.com';
+    const { diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'DMARC_POLICY_MISSING', tag: 'p', offset: record.length, length: 0 }),
+    ]);
+  });
+
+  it('should report malformed pairs and values containing "="', () => {
+    const record = 'v=DMARC1; p=none; garbage; rua=mailto:a=b@example.com';
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe('Malformed tag "garbage": expected name=value');
+    expect(textAt(record, diagnostics[0].offset, diagnostics[0].length)).toBe('garbage');
+    expect(policy?.aggregateReportUris?.[0].address).toBe('a=b@example.com');
+  });
+
+  it('should point at the offending report URI within a list', () => {
+    const record = 'v=DMARC1; p=none; rua=mailto:a@example.com, mailto:b@example.com!10x';
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics(record);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(textAt(record, diagnostics[0].offset, diagnostics[0].length)).toBe('mailto:b@example.com!10x');
+    expect(policy?.aggregateReportUris?.map(reportUri => reportUri.address)).toEqual(['a@example.com']);
+  });
+
+  it('should warn about unknown tags', () => {
+    const { diagnostics } = parseDmarcRecordDiagnostics('v=DMARC1; p=none; rau=mailto:a@example.com');
+
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'warning', tag: 'rau' })]);
+  });
+
+  it('should return no policy for records that are not DMARC records', () => {
+    expect(parseDmarcRecordDiagnostics('').policy).toBeNull();
+    expect(parseDmarcRecordDiagnostics(' ; ;').diagnostics).toEqual([expect.objectContaining({ code: 'DMARC_RECORD_EMPTY' })]);
+    expect(parseDmarcRecordDiagnostics('p=none; v=DMARC1').policy).toBeNull();
+
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics('v=DMARC2; p=none');
+    expect(policy).toBeNull();
+    expect(diagnostics).toEqual([expect.objectContaining({ tag: 'v', offset: 2, length: 6 })]);
+  });
+
+  it('should never throw and keep every diagnostic inside the record', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.string(), fc.string().map(rest => `v=DMARC1;${rest}`)),
+        (record) => {
+          const { diagnostics } = parseDmarcRecordDiagnostics(record);
+
+          for (const diagnostic of diagnostics) {
+            expect(diagnostic.offset).toBeGreaterThanOrEqual(0);
+            expect(diagnostic.offset + diagnostic.length).toBeLessThanOrEqual(record.length);
+            expect(diagnostic.message.length).toBeGreaterThan(0);
+            expect(diagnostic.fixHint.length).toBeGreaterThan(0);
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,372 @@
+import type { DmarcFailureOption, DmarcPolicy, DmarcRecordDiagnostic, DmarcReportUri, IssueCode } from '@dmarc-portal/contracts';
+import { parseReportUri } from './report-uri.parser';
+
+export interface DmarcRecordParseResult {
+  // Null when the record is not a DMARC record at all (missing or wrong v=DMARC1)
+  policy: DmarcPolicy | null;
+  diagnostics: DmarcRecordDiagnostic[];
+}
+
+interface RecordSegment {
+  text: string;
+  offset: number;
+}
+
+interface RecordTag {
+  key: string;
+  name: string;
+  value: string | undefined;
+  offset: number;
+  length: number;
+  valueOffset: number;
+}
+
+const POLICY_VALUES = ['none', 'quarantine', 'reject'];
+const ALIGNMENT_VALUES = ['r', 's', 'relaxed', 'strict'];
+const KNOWN_TAGS = ['v', 'p', 'sp', 'np', 'psd', 't', 'pct', 'rua', 'ruf', 'fo', 'rf', 'ri', 'adkim', 'aspf'];
+
+/**
+ * Parses a DMARC record and collects every syntax problem instead of stopping at the first one.
+ * Invalid tag values are discarded in favour of their defaults, as RFC 7489 section 6.6.3 asks receivers to do.
+ * @param record The DMARC record string
+ * @returns The parsed policy (null if the record is not a DMARC record) and all diagnostics in record order
+ */
+export function parseDmarcRecordDiagnostics(record: string): DmarcRecordParseResult {
+  const diagnostics: DmarcRecordDiagnostic[] = [];
+
+  const tags = typeof record === 'string'
+    ? splitWithOffsets(record, ';', 0).filter(segment => segment.text.length > 0).map(toRecordTag)
+    : [];
+
+  // A record of only whitespace and separators has no tags at all
+  if (tags.length === 0) {
+    diagnostics.push({
+      code: 'DMARC_RECORD_EMPTY',
+      severity: 'error',
+      tag: null,
+      offset: 0,
+      length: 0,
+      message: 'Invalid DMARC record: record must be a non-empty string',
+      fixHint: 'Publish a TXT record at _dmarc.<domain> starting with "v=DMARC1; p=none"',
+    });
+    return { policy: null, diagnostics };
+  }
+
+  const policy: DmarcPolicy = {
+    version: 'DMARC1',
+    policy: 'none', // Default
+    rawRecord: record.trim(),
+  };
+
+  const versionTag = tags[0];
+  let isDmarcRecord = true;
+
+  if (versionTag.key !== 'v') {
+    isDmarcRecord = false;
+    diagnostics.push({
+      code: 'DMARC_VERSION_NOT_FIRST',
+      severity: 'error',
+      tag: null,
+      offset: versionTag.offset,
+      length: versionTag.length,
+      message: 'Invalid DMARC record: must start with v=DMARC1',
+      fixHint: 'Move "v=DMARC1" to the very beginning of the record',
+    });
+  } else if (versionTag.value !== 'DMARC1') {
+    isDmarcRecord = false;
+    diagnostics.push({
+      code: 'DMARC_VERSION_INVALID',
+      severity: 'error',
+      tag: 'v',
+      offset: versionTag.value ? versionTag.valueOffset : versionTag.offset,
+      length: versionTag.value ? versionTag.value.length : versionTag.length,
+      message: `Invalid DMARC version: ${versionTag.value ?? versionTag.name}`,
+      fixHint: 'Use "v=DMARC1" exactly; it is the only defined version and is case-sensitive',
+    });
+  }
+
+  const seenTags = new Set<string>(versionTag.key === 'v' ? ['v'] : []);
+
+  for (let index = versionTag.key === 'v' ? 1 : 0; index < tags.length; index++) {
+    const tag = tags[index];
+
+    if (tag.value === undefined || !tag.key) {
+      diagnostics.push({
+        code: 'DMARC_TAG_MALFORMED',
+        severity: 'error',
+        tag: tag.key || null,
+        offset: tag.offset,
+        length: tag.length,
+        message: `Malformed tag "${record.substr(tag.offset, tag.length)}": expected name=value`,
+        fixHint: 'Write each tag as name=value and separate tags with ";"',
+      });
+      continue;
+    }
+
+    if (seenTags.has(tag.key)) {
+      diagnostics.push({
+        code: 'DMARC_TAG_DUPLICATE',
+        severity: 'error',
+        tag: tag.key,
+        offset: tag.offset,
+        length: tag.length,
+        message: `Duplicate tag "${tag.key}": only the first occurrence is used`,
+        fixHint: `Remove the repeated ${tag.key}= tag so receivers do not have to guess which value applies`,
+      });
+      continue;
+    }
+    seenTags.add(tag.key);
+
+    if (tag.key === 'v') {
+      // A version tag anywhere but first was already reported above
+      continue;
+    }
+
+    if (tag.key === 'p' && index !== 1) {
+      diagnostics.push({
+        code: 'DMARC_POLICY_NOT_AFTER_VERSION',
+        severity: 'error',
+        tag: 'p',
+        offset: tag.offset,
+        length: tag.length,
+        message: 'The p tag must immediately follow v=DMARC1',
+        fixHint: `Reorder the record so it begins with "v=DMARC1; p=${tag.value}"`,
+      });
+    }
+
+    if (tag.value.length === 0) {
+      diagnostics.push({
+        code: 'DMARC_TAG_EMPTY',
+        severity: 'error',
+        tag: tag.key,
+        offset: tag.offset,
+        length: tag.length,
+        message: `Tag "${tag.key}" has no value`,
+        fixHint: `Give ${tag.key}= a value or remove the tag`,
+      });
+      continue;
+    }
+
+    diagnostics.push(...applyTag(policy, tag));
+  }
+
+  if (isDmarcRecord && !seenTags.has('p')) {
+    const end = record.trimEnd().length;
+    diagnostics.push({
+      code: 'DMARC_POLICY_MISSING',
+      severity: 'error',
+      tag: 'p',
+      offset: end,
+      length: 0,
+      message: 'Required p tag is missing',
+      fixHint: 'Add "p=none", "p=quarantine" or "p=reject" directly after v=DMARC1',
+    });
+  }
+
+  diagnostics.sort((a, b) => a.offset - b.offset);
+
+  return { policy: isDmarcRecord ? policy : null, diagnostics };
+}
+
+/**
+ * Validates a single tag value and stores it on the policy when it is valid
+ * @returns Diagnostics for the tag's value, empty when the value was accepted
+ */
+function applyTag(policy: DmarcPolicy, tag: RecordTag): DmarcRecordDiagnostic[] {
+  const value = tag.value;
+  const invalidValue = (
+    message: string,
+    fixHint: string,
+    segment?: RecordSegment,
+    code: IssueCode = 'DMARC_TAG_INVALID_VALUE',
+  ): DmarcRecordDiagnostic => ({
+    code,
+    severity: 'error',
+    tag: tag.key,
+    offset: segment ? segment.offset : tag.valueOffset,
+    length: segment ? segment.text.length : value.length,
+    message,
+    fixHint,
+  });
+
+  switch (tag.key) {
+    case 'p':
+      if (!POLICY_VALUES.includes(value)) {
+        return [invalidValue(`Invalid policy value: ${value}`, 'Use p=none, p=quarantine or p=reject')];
+      }
+      policy.policy = value as 'none' | 'quarantine' | 'reject';
+      return [];
+
+    case 'sp':
+      if (!POLICY_VALUES.includes(value)) {
+        return [invalidValue(`Invalid subdomain policy value: ${value}`, 'Use sp=none, sp=quarantine or sp=reject')];
+      }
+      policy.subdomainPolicy = value as 'none' | 'quarantine' | 'reject';
+      return [];
+
+    case 'np':
+      if (!POLICY_VALUES.includes(value)) {
+        return [invalidValue(`Invalid non-existent subdomain policy value: ${value}`, 'Use np=none, np=quarantine or np=reject')];
+      }
+      policy.nonExistentSubdomainPolicy = value as 'none' | 'quarantine' | 'reject';
+      return [];
+
+    case 'psd':
+      if (!['y', 'n', 'u'].includes(value)) {
+        return [invalidValue(`Invalid public suffix domain value: ${value}`, 'Use psd=y, psd=n or psd=u')];
+      }
+      policy.publicSuffixDomain = value as 'y' | 'n' | 'u';
+      return [];
+
+    case 't':
+      if (!['y', 'n'].includes(value)) {
+        return [invalidValue(`Invalid testing mode value: ${value}`, 'Use t=y for testing mode or t=n to enforce the policy')];
+      }
+      policy.testing = value === 'y';
+      return [];
+
+    case 'pct': {
+      const percentage = parseInt(value, 10);
+      if (!/^\d+$/.test(value) || percentage > 100) {
+        return [invalidValue(`Invalid percentage value: ${value}`, 'Use a whole number from 0 to 100, e.g. pct=100')];
+      }
+      policy.percentage = percentage;
+      return [];
+    }
+
+    case 'rua':
+    case 'ruf': {
+      const diagnostics: DmarcRecordDiagnostic[] = [];
+      const reportUris: DmarcReportUri[] = [];
+
+      for (const segment of splitWithOffsets(value, ',', tag.valueOffset)) {
+        if (!segment.text) {
+          continue;
+        }
+        try {
+          reportUris.push(parseReportUri(segment.text));
+        } catch (error) {
+          diagnostics.push(invalidValue(
+            error.message,
+            'Write the size limit as "!" followed by digits and an optional k, m, g or t unit, e.g. mailto:reports@example.com!10m',
+            segment,
+            'DMARC_REPORT_URI_SIZE_INVALID',
+          ));
+        }
+      }
+
+      if (tag.key === 'rua') {
+        policy.aggregateReportUris = reportUris;
+      } else {
+        policy.failureReportUris = reportUris;
+      }
+      return diagnostics;
+    }
+
+    case 'fo': {
+      const options = splitWithOffsets(value, ':', tag.valueOffset);
+      const diagnostics = options
+        .filter(option => !['0', '1', 'd', 's'].includes(option.text))
+        .map(option => invalidValue(
+          `Invalid failure reporting option: ${option.text}`,
+          'Use one or more of 0, 1, d and s separated by ":", e.g. fo=1',
+          option,
+        ));
+      if (diagnostics.length === 0) {
+        policy.failureOptions = options.map(option => option.text) as DmarcFailureOption[];
+      }
+      return diagnostics;
+    }
+
+    case 'rf': {
+      const formats = splitWithOffsets(value, ':', tag.valueOffset);
+      const diagnostics = formats
+        .filter(format => !/^[a-z0-9-]+$/i.test(format.text))
+        .map(format => invalidValue(
+          `Invalid report format value: ${format.text}`,
+          'Use rf=afrf, the only registered failure report format',
+          format,
+        ));
+      if (diagnostics.length === 0) {
+        policy.reportFormat = formats.map(format => format.text.toLowerCase());
+      }
+      return diagnostics;
+    }
+
+    case 'ri':
+      if (!/^\d+$/.test(value)) {
+        return [invalidValue(`Invalid report interval value: ${value}`, 'Use a number of seconds, e.g. ri=86400 for daily reports')];
+      }
+      policy.reportInterval = parseInt(value, 10);
+      return [];
+
+    case 'adkim':
+    case 'aspf': {
+      const mechanism = tag.key === 'adkim' ? 'DKIM' : 'SPF';
+      if (!ALIGNMENT_VALUES.includes(value)) {
+        return [invalidValue(`Invalid ${mechanism} alignment value: ${value}`, `Use ${tag.key}=r (relaxed) or ${tag.key}=s (strict)`)];
+      }
+      if (!policy.alignment) {
+        policy.alignment = { spf: 'relaxed', dkim: 'relaxed' };
+      }
+      policy.alignment[tag.key === 'adkim' ? 'dkim' : 'spf'] = value === 's' || value === 'strict' ? 'strict' : 'relaxed';
+      return [];
+    }
+
+    default:
+      // Receivers ignore unknown tags, which usually means a typo silently disables a setting
+      return [{
+        code: 'DMARC_TAG_UNKNOWN',
+        severity: 'warning',
+        tag: tag.key,
+        offset: tag.offset,
+        length: tag.length,
+        message: `Unknown tag "${tag.name}" is ignored by receivers`,
+        fixHint: `Check the spelling against the DMARC tags (${KNOWN_TAGS.join(', ')}) or remove it`,
+      }];
+  }
+}
+
+/**
+ * Splits text on a separator and trims each part while keeping its offset within the record
+ */
+function splitWithOffsets(text: string, separator: string, baseOffset: number): RecordSegment[] {
+  const segments: RecordSegment[] = [];
+  let position = 0;
+
+  for (const part of text.split(separator)) {
+    const leadingWhitespace = part.length - part.trimStart().length;
+    segments.push({ text: part.trim(), offset: baseOffset + position + leadingWhitespace });
+    position += part.length + separator.length;
+  }
+
+  return segments;
+}
+
+function toRecordTag(segment: RecordSegment): RecordTag {
+  // Split on the first "=" only; values such as report URIs may contain more
+  const separatorIndex = segment.text.indexOf('=');
+  if (separatorIndex === -1) {
+    return {
+      key: segment.text.toLowerCase(),
+      name: segment.text,
+      value: undefined,
+      offset: segment.offset,
+      length: segment.text.length,
+      valueOffset: segment.offset + segment.text.length,
+    };
+  }
+
+  const name = segment.text.substring(0, separatorIndex).trim();
+  const rawValue = segment.text.substring(separatorIndex + 1);
+  const value = rawValue.trim();
+
+  return {
+    key: name.toLowerCase(),
+    name,
+    value,
+    offset: segment.offset,
+    length: segment.text.length,
+    valueOffset: segment.offset + separatorIndex + 1 + (rawValue.length - rawValue.trimStart().length),
+  };
+}
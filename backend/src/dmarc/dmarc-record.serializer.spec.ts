@@ -0,0 +1,74 @@
+import { serializeDmarcPolicy, serializeReportUri } from './dmarc-record.serializer';
+import { parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+import { parseReportUri } from './report-uri.parser';
+import * as fc from 'fast-check';
+
+describe('DMARC record serializer', () => {
+  const parse = (record: string) => {
+    const { policy, diagnostics } = parseDmarcRecordDiagnostics(record);
+    expect(diagnostics).toEqual([]);
+    return policy!;
+  };
+
+  it('should emit tags in canonical order', () => {
+    const policy = parse('v=DMARC1; p=reject; aspf=s; rua=mailto:a@example.com; pct=50; sp=none; fo=1:d');
+
+    expect(serializeDmarcPolicy(policy)).toBe(
+      'v=DMARC1; p=reject; sp=none; pct=50; rua=mailto:a@example.com; fo=1:d; adkim=r; aspf=s'
+    );
+  });
+
+  it('should normalize report URI schemes and size limits', () => {
+    expect(serializeReportUri(parseReportUri('MAILTO:a@example.com!10240'))).toBe('mailto:a@example.com!10k');
+    expect(serializeReportUri(parseReportUri('mailto:a@example.com!1500'))).toBe('mailto:a@example.com!1500');
+    expect(serializeReportUri(parseReportUri('a@example.com'))).toBe('a@example.com');
+  });
+
+  it('should round-trip any parsed policy through parseDmarcRecord', () => {
+    fc.assert(
+      fc.property(
+        fc.record({
+          p: fc.constantFrom('none', 'quarantine', 'reject'),
+          sp: fc.option(fc.constantFrom('none', 'quarantine', 'reject'), { nil: undefined }),
+          np: fc.option(fc.constantFrom('none', 'quarantine', 'reject'), { nil: undefined }),
+          t: fc.option(fc.constantFrom('y', 'n'), { nil: undefined }),
+          pct: fc.option(fc.integer({ min: 0, max: 100 }), { nil: undefined }),
+          rua: fc.option(
+            fc.array(fc.tuple(fc.emailAddress(), fc.option(fc.nat({ max: 5000 }), { nil: undefined })), { minLength: 1, maxLength: 3 }),
+            { nil: undefined },
+          ),
+          fo: fc.option(fc.subarray(['0', '1', 'd', 's'], { minLength: 1 }), { nil: undefined }),
+          ri: fc.option(fc.nat({ max: 86400 }), { nil: undefined }),
+          adkim: fc.option(fc.constantFrom('r', 's', 'relaxed', 'strict'), { nil: undefined }),
+        }),
+        (tags) => {
+          let record = `v=DMARC1; p=${tags.p}`;
+          if (tags.sp) record += `; sp=${tags.sp}`;
+          if (tags.np) record += `; np=${tags.np}`;
+          if (tags.t) record += `; t=${tags.t}`;
+          if (tags.pct !== undefined) record += `; pct=${tags.pct}`;
+          if (tags.rua) {
+            record += `; rua=${tags.rua.map(([email, size]) => `mailto:${email}${size !== undefined ? `!${size}k` : ''}`).join(',')}`;
+          }
+          if (tags.fo) record += `; fo=${tags.fo.join(':')}`;
+          if (tags.ri !== undefined) record += `; ri=${tags.ri}`;
+          if (tags.adkim) record += `; adkim=${tags.adkim}`;
+
+          const policy = parse(record);
+          const canonical = serializeDmarcPolicy(policy);
+          const reparsed = parse(canonical);
+
+          const withoutRaw = ({ rawRecord, aggregateReportUris, ...rest }: typeof policy) => ({
+            ...rest,
+            aggregateReportUris: aggregateReportUris?.map(({ uri, ...reportUri }) => reportUri),
+          });
+          expect(withoutRaw(reparsed)).toEqual(withoutRaw(policy));
+          expect(reparsed.rawRecord).toBe(canonical);
+          // The canonical form is a fixed point
+          expect(serializeDmarcPolicy(reparsed)).toBe(canonical);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
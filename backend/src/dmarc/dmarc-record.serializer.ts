@@ -0,0 +1,71 @@
+import type { DmarcPolicy, DmarcReportUri } from '@dmarc-portal/contracts';
+
+const SIZE_UNITS: Array<[string, number]> = [
+  ['t', 1024 ** 4],
+  ['g', 1024 ** 3],
+  ['m', 1024 ** 2],
+  ['k', 1024],
+];
+
+/**
+ * Serializes a DMARC policy into its canonical record string.
+ * Tags are emitted in a fixed order starting with "v=DMARC1; p=..." and only when set on the policy,
+ * so parsing the output with parseDmarcRecord yields an equivalent policy.
+ * @param policy The policy to serialize; rawRecord is ignored
+ * @returns The normalized DMARC record
+ */
+export function serializeDmarcPolicy(policy: DmarcPolicy): string {
+  const tags: string[] = ['v=DMARC1', `p=${policy.policy}`];
+
+  if (policy.subdomainPolicy) {
+    tags.push(`sp=${policy.subdomainPolicy}`);
+  }
+  if (policy.nonExistentSubdomainPolicy) {
+    tags.push(`np=${policy.nonExistentSubdomainPolicy}`);
+  }
+  if (policy.publicSuffixDomain) {
+    tags.push(`psd=${policy.publicSuffixDomain}`);
+  }
+  if (policy.testing !== undefined) {
+    tags.push(`t=${policy.testing ? 'y' : 'n'}`);
+  }
+  if (policy.percentage !== undefined) {
+    tags.push(`pct=${policy.percentage}`);
+  }
+  if (policy.aggregateReportUris && policy.aggregateReportUris.length > 0) {
+    tags.push(`rua=${policy.aggregateReportUris.map(serializeReportUri).join(',')}`);
+  }
+  if (policy.failureReportUris && policy.failureReportUris.length > 0) {
+    tags.push(`ruf=${policy.failureReportUris.map(serializeReportUri).join(',')}`);
+  }
+  if (policy.failureOptions && policy.failureOptions.length > 0) {
+    tags.push(`fo=${policy.failureOptions.join(':')}`);
+  }
+  if (policy.reportFormat && policy.reportFormat.length > 0) {
+    tags.push(`rf=${policy.reportFormat.join(':')}`);
+  }
+  if (policy.reportInterval !== undefined) {
+    tags.push(`ri=${policy.reportInterval}`);
+  }
+  if (policy.alignment) {
+    tags.push(`adkim=${policy.alignment.dkim === 'strict' ? 's' : 'r'}`);
+    tags.push(`aspf=${policy.alignment.spf === 'strict' ? 's' : 'r'}`);
+  }
+
+  return tags.join('; ');
+}
+
+/**
+ * Serializes a report URI with a lower-case scheme and the largest exact size unit
+ * @param reportUri The structured report URI
+ * @returns The normalized URI, e.g. "mailto:reports@example.com!10m"
+ */
+export function serializeReportUri(reportUri: DmarcReportUri): string {
+  const target = reportUri.scheme ? `${reportUri.scheme}:${reportUri.address}` : reportUri.address;
+  if (reportUri.maxSize === null) {
+    return target;
+  }
+
+  const unit = SIZE_UNITS.find(([, size]) => reportUri.maxSize >= size && reportUri.maxSize % size === 0);
+  return unit ? `${target}!${reportUri.maxSize / unit[1]}${unit[0]}` : `${target}!${reportUri.maxSize}`;
+}
@@ -1,22 +1,380 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { DnssecStatus, parseValidationResult } from '@dmarc-portal/contracts';
 import { DmarcValidatorImpl, DmarcPolicy, ValidationIssue } from './dmarc-validator.service';
+import { DnsService, DmarcRecordLookup } from '../dns/dns.service';
+import { PublicSuffixListService } from '../dns/public-suffix-list.service';
+import { parseReportUri } from './report-uri.parser';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
 import * as fc from 'fast-check';
 
 describe('DmarcValidatorService', () => {
   let service: DmarcValidatorImpl;
+  let dnsService: jest.Mocked<DnsService>;
 
   beforeEach(async () => {
+    const mockDnsService = {
+      lookupDmarcRecord: jest.fn(),
+      lookupDmarcPolicy: jest.fn(),
+      lookupTxtRecords: jest.fn().mockResolvedValue([]),
+      // A receiving domain by default, so advice is not tailored to parked domains
+      lookupMxRecords: jest.fn().mockResolvedValue([{ exchange: 'mail.example.com', priority: 10 }]),
+      lookupAddressRecords: jest.fn().mockResolvedValue(['192.0.2.25']),
+      // Consensus mode is off unless a test turns it on
+      compareTxtRecords: jest.fn().mockResolvedValue(null),
+      nameExists: jest.fn().mockResolvedValue(true),
+      validateDomainFormat: jest.fn().mockReturnValue(true),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [DmarcValidatorImpl],
+      providers: [
+        DmarcValidatorImpl,
+        PublicSuffixListService,
+        {
+          provide: 'DnsService',
+          useValue: mockDnsService,
+        },
+      ],
     }).compile();
 
     service = module.get<DmarcValidatorImpl>(DmarcValidatorImpl);
+    dnsService = module.get('DnsService');
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
 
+  describe('validateDomain', () => {
+    const directLookup = (record: string | null): DmarcRecordLookup => ({
+      record,
+      policyDomain: record !== null ? 'example.com' : null,
+      organizationalDomain: 'example.com',
+      appliedPolicy: 'p',
+      inherited: false,
+      txtRecords: { 'example.com': record !== null ? [record] : [] },
+    });
+
+    it('should report a missing record when the lookup returns null', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(null));
+
+      const result = await service.validateDomain('Example.com');
+
+      expect(dnsService.lookupDmarcPolicy).toHaveBeenCalledWith('Example.com');
+      expect(result.domain).toBe('example.com');
+      expect(result.dmarcRecord).toBeNull();
+      expect(result.isValid).toBe(false);
+      expect(result.parsedPolicy).toBeUndefined();
+      expect(result.securityScore).toEqual({ score: 0, grade: 'F' });
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].type).toBe('missing_record');
+      expect(result.issues[0].severity).toBe('error');
+      expect(result.lookupOutcome).toBe('no_record');
+      expect(dnsService.nameExists).toHaveBeenCalledWith('example.com');
+    });
+
+    it('should report a domain that does not exist instead of a missing record', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(null));
+      dnsService.nameExists.mockResolvedValue(false);
+
+      const result = await service.validateDomain('exmaple.com');
+
+      expect(result.lookupOutcome).toBe('nxdomain');
+      expect(result.isValid).toBe(false);
+      expect(result.issues.map(issue => issue.code)).toEqual(['DOMAIN_NOT_FOUND']);
+      expect(result.securityScore).toBeUndefined();
+      expect(result.mailProfile).toBeUndefined();
+    });
+
+    it('should report the outcome of lookups the nameservers failed to answer', async () => {
+      const failure = (code: string) => Object.assign(new Error(`DNS lookup failed for domain example.com: queryTxt ${code} _dmarc.example.com`), { code });
+
+      dnsService.lookupDmarcPolicy.mockRejectedValue(failure('ESERVFAIL'));
+      const servfail = await service.validateDomain('example.com');
+      expect(servfail.lookupOutcome).toBe('servfail');
+      expect(servfail.issues).toEqual([expect.objectContaining({ code: 'DMARC_LOOKUP_FAILED', severity: 'error' })]);
+      expect(servfail.issues[0].message).toContain('SERVFAIL');
+      expect(parseValidationResult(JSON.parse(JSON.stringify(servfail))).lookupOutcome).toBe('servfail');
+
+      dnsService.lookupDmarcPolicy.mockRejectedValue(failure('EREFUSED'));
+      expect((await service.validateDomain('example.com')).lookupOutcome).toBe('refused');
+
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(null));
+      dnsService.nameExists.mockRejectedValue(Object.assign(new Error('queryTxt ETIMEOUT example.com'), { code: 'ETIMEOUT' }));
+      expect((await service.validateDomain('example.com')).lookupOutcome).toBe('timeout');
+    });
+
+    it('should report a syntax error when the record cannot be parsed', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=invalid'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.dmarcRecord).toBe('v=DMARC1; p=invalid');
+      expect(result.isValid).toBe(false);
+      expect(result.parsedPolicy).toBeUndefined();
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].type).toBe('syntax_error');
+      expect(result.issues[0].message).toContain('invalid');
+    });
+
+    it('should report every syntax problem with its position', async () => {
+      const record = 'v=DMARC1; sp=reject; p=quarantine; p=reject';
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(record));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.parsedPolicy).toBeUndefined();
+      expect(result.recordDiagnostics?.map(diagnostic => diagnostic.offset)).toEqual([
+        record.indexOf('p=quarantine'),
+        record.lastIndexOf('p=reject'),
+      ]);
+      expect(result.issues.filter(issue => issue.type === 'syntax_error')).toHaveLength(2);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should mark an enforcing policy with only informational findings as valid', async () => {
+      const record = 'v=DMARC1; p=reject; sp=reject; rua=mailto:dmarc@example.com';
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(record));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.dmarcRecord).toBe(record);
+      expect(result.parsedPolicy?.policy).toBe('reject');
+      expect(result.issues.every(issue => issue.severity === 'info')).toBe(true);
+      expect(result.isValid).toBe(true);
+      expect(result.securityScore).toEqual({ score: 95, grade: 'A' });
+      expect(result.rolloutPlan?.currentStage).toBe('reject');
+    });
+
+    it('should give every finding a stable issue code', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=none; sp=none; rua=dmarc@example.com; ruf=mailto:bad'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.issues.map(issue => issue.code)).toEqual(expect.arrayContaining([
+        'DMARC_POLICY_NONE',
+        'DMARC_RUA_MISSING_MAILTO',
+        'DMARC_RUF_INVALID_ADDRESS',
+      ]));
+      expect(result.issues.every(issue => ISSUE_CATALOG[issue.code!] !== undefined)).toBe(true);
+    });
+
+    it('should produce results that survive the JSON round trip through the shared contract', async () => {
+      const records = [
+        null,
+        'v=DMARC1; sp=reject; p=quarantine; p=reject',
+        'v=DMARC1; p=quarantine; pct=50; np=reject; t=y; rua=mailto:a@example.com!10m; ruf=mailto:f@example.com; fo=1:d; adkim=s; aspf=r; ri=3600',
+      ];
+
+      for (const record of records) {
+        dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(record));
+        const result = await service.validateDomain('example.com');
+
+        const revived = parseValidationResult(JSON.parse(JSON.stringify(result)));
+
+        expect(revived).toEqual(result);
+        expect(revived.checkTimestamp).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should mark a monitoring-only policy as invalid', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=none; rua=mailto:dmarc@example.com'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.parsedPolicy?.policy).toBe('none');
+      expect(result.issues.some(issue => issue.type === 'weak_policy')).toBe(true);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should evaluate the organizational domain policy inherited by a subdomain', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue({
+        record: 'v=DMARC1; p=reject; sp=none; rua=mailto:dmarc@example.co.uk',
+        policyDomain: 'example.co.uk',
+        organizationalDomain: 'example.co.uk',
+        appliedPolicy: 'sp',
+        inherited: true,
+        txtRecords: {
+          'mail.example.co.uk': [],
+          'example.co.uk': ['v=DMARC1; p=reject; sp=none; rua=mailto:dmarc@example.co.uk'],
+        },
+      });
+
+      const result = await service.validateDomain('mail.example.co.uk');
+
+      expect(result.domain).toBe('mail.example.co.uk');
+      expect(result.policySource).toEqual({
+        domain: 'example.co.uk',
+        organizationalDomain: 'example.co.uk',
+        appliedPolicy: 'sp',
+        inherited: true,
+      });
+      expect(result.issues.some(issue => issue.message.includes('organizational domain example.co.uk'))).toBe(true);
+      expect(result.issues.some(issue => issue.type === 'weak_policy')).toBe(true);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should report multiple DMARC records as an error with no policy applied', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue({
+        ...directLookup(null),
+        policyDomain: 'example.com',
+        txtRecords: { 'example.com': ['v=DMARC1; p=reject', 'v=DMARC1; p=none'] },
+      });
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.dmarcRecord).toBeNull();
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].severity).toBe('error');
+      expect(result.issues[0].message).toContain('2 DMARC records at _dmarc.example.com');
+    });
+
+    it('should flag near-miss records that receivers ignore', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue({
+        ...directLookup(null),
+        txtRecords: { 'example.com': ['v=dmarc1; p=reject', ' v=DMARC1; p=reject'] },
+      });
+
+      const result = await service.validateDomain('example.com');
+
+      const nearMisses = result.issues.filter(issue => issue.message.includes('looks like DMARC'));
+      expect(nearMisses).toHaveLength(2);
+      expect(nearMisses.every(issue => issue.severity === 'error')).toBe(true);
+      expect(nearMisses[0].recommendation).toContain('"v=DMARC1; p=reject"');
+      expect(result.issues.some(issue => issue.type === 'missing_record')).toBe(true);
+    });
+
+    it('should note unrelated TXT records next to a valid policy', async () => {
+      const record = 'v=DMARC1; p=reject; sp=reject; rua=mailto:dmarc@example.com';
+      dnsService.lookupDmarcPolicy.mockResolvedValue({
+        ...directLookup(record),
+        txtRecords: { 'example.com': ['google-site-verification=abc123', record] },
+      });
+
+      const result = await service.validateDomain('example.com');
+
+      const noise = result.issues.find(issue => issue.message.includes('Non-DMARC TXT record'));
+      expect(noise?.severity).toBe('info');
+      expect(result.dmarcRecord).toBe(record);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should attach the mail profile and tailor advice for parked domains', async () => {
+      dnsService.lookupMxRecords.mockResolvedValue([]);
+      dnsService.lookupTxtRecords.mockResolvedValue(['v=spf1 -all']);
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.mailProfile?.mailClass).toBe('parked');
+      expect(result.issues.filter(issue => issue.code === 'PARKED_DMARC_NOT_REJECT')).toHaveLength(1);
+      expect(result.isValid).toBe(false);
+
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(null));
+      const missing = await service.validateDomain('example.com');
+      expect(missing.issues[0].recommendation).toContain('v=DMARC1; p=reject; sp=reject');
+    });
+
+    it('should keep the staged rollout advice for a domain without SPF or MX records', async () => {
+      dnsService.lookupMxRecords.mockResolvedValue([]);
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=none; rua=mailto:dmarc@example.com'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.mailProfile?.mailClass).toBe('unknown');
+      expect(result.issues.map(issue => issue.code)).not.toContain('PARKED_DMARC_NOT_REJECT');
+      expect(result.issues.map(issue => issue.code)).toContain('DMARC_POLICY_NONE');
+
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup(null));
+      const missing = await service.validateDomain('example.com');
+      expect(missing.issues[0].recommendation).toContain('v=DMARC1; p=none; rua=mailto:dmarc@example.com');
+    });
+
+    it('should validate without a mail profile when the MX lookup fails', async () => {
+      dnsService.lookupMxRecords.mockRejectedValue(new Error('queryMx ESERVFAIL example.com'));
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=reject; rua=mailto:dmarc@example.com'));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.mailProfile).toBeUndefined();
+      expect(result.parsedPolicy?.policy).toBe('reject');
+      expect(result.lookupOutcome).toBe('found');
+    });
+
+    it('should report the DNSSEC status of the DMARC and SPF answers when a validating resolver is configured', async () => {
+      const dnssecResolver = {
+        upstream: '192.0.2.53:53',
+        lookupStatus: jest.fn(async (name: string): Promise<DnssecStatus> => {
+          if (name === 'example.com') throw new Error('DNSSEC lookup of TXT example.com timed out after 5000 ms');
+          return 'bogus';
+        }),
+      };
+      const validator = new DmarcValidatorImpl(dnsService, new PublicSuffixListService(), dnssecResolver);
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=reject; rua=mailto:dmarc@example.com'));
+
+      const result = await validator.validateDomain('example.com');
+
+      expect(result.dnssec).toEqual({
+        resolver: '192.0.2.53:53',
+        dmarc: { name: '_dmarc.example.com', status: 'bogus' },
+        spf: { name: 'example.com', status: null },
+        issues: [],
+      });
+      expect(result.issues).toContainEqual(expect.objectContaining({ code: 'DNSSEC_BOGUS', severity: 'error' }));
+      expect(result.isValid).toBe(false);
+      expect(parseValidationResult(JSON.parse(JSON.stringify(result))).dnssec).toEqual(result.dnssec);
+
+      dnssecResolver.lookupStatus.mockResolvedValue('insecure');
+      const insecure = await validator.validateDomain('example.com');
+      expect(insecure.dnssec?.issues.map(issue => issue.code)).toEqual(['DNSSEC_INSECURE']);
+      expect(insecure.dnssec?.issues[0].message).toContain('_dmarc.example.com and example.com');
+    });
+
+    it('should skip DNSSEC checks without a validating resolver', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=reject; rua=mailto:dmarc@example.com'));
+
+      expect((await service.validateDomain('example.com')).dnssec).toBeUndefined();
+      expect((await new DmarcValidatorImpl(dnsService, new PublicSuffixListService(), {
+        upstream: null,
+        lookupStatus: jest.fn(),
+      }).validateDomain('example.com')).dnssec).toBeUndefined();
+    });
+
+    it('should report names the configured resolvers disagree on', async () => {
+      dnsService.lookupDmarcPolicy.mockResolvedValue(directLookup('v=DMARC1; p=reject; rua=mailto:dmarc@example.com'));
+      dnsService.compareTxtRecords.mockImplementation(async name => ({
+        name,
+        answers: [
+          { resolver: '192.0.2.1', records: ['v=DMARC1; p=reject'], error: null },
+          name === 'example.com'
+            ? { resolver: '192.0.2.2', records: null, error: 'ETIMEOUT' }
+            : { resolver: '192.0.2.2', records: ['v=DMARC1; p=none'], error: null },
+        ],
+        agreed: false,
+      }));
+
+      const result = await service.validateDomain('example.com');
+
+      expect(dnsService.compareTxtRecords.mock.calls.map(([name]) => name)).toEqual(['_dmarc.example.com', 'example.com']);
+      expect(result.resolverConsensus?.resolvers).toEqual(['192.0.2.1', '192.0.2.2']);
+      const disagreements = result.issues.filter(issue => issue.code === 'DNS_RESOLVERS_DISAGREE');
+      expect(disagreements.map(issue => issue.severity)).toEqual(['warning', 'warning']);
+      expect(disagreements[1].message).toContain('192.0.2.2 could not answer for example.com');
+      expect(result.resolverConsensus?.issues).toEqual([]);
+      expect(result.isValid).toBe(false);
+      expect(parseValidationResult(JSON.parse(JSON.stringify(result))).resolverConsensus).toEqual(result.resolverConsensus);
+
+      dnsService.compareTxtRecords.mockResolvedValue(null);
+      expect((await service.validateDomain('example.com')).resolverConsensus).toBeUndefined();
+    });
+
+    it('should propagate DNS lookup failures', async () => {
+      dnsService.lookupDmarcPolicy.mockRejectedValue(new Error('DNS lookup failed for domain example.com: ETIMEOUT'));
+
+      await expect(service.validateDomain('example.com')).rejects.toThrow('DNS lookup failed');
+    });
+  });
+
   describe('parseDmarcRecord', () => {
     it('should parse valid DMARC records', () => {
       const record = 'v=DMARC1; p=reject; rua=mailto:dmarc@example.com';
@@ -24,7 +382,7 @@ describe('DmarcValidatorService', () => {
       
       expect(policy.version).toBe('DMARC1');
       expect(policy.policy).toBe('reject');
-      expect(policy.reportingAddresses).toContain('mailto:dmarc@example.com');
+      expect(policy.aggregateReportUris?.map(reportUri => reportUri.uri)).toContain('mailto:dmarc@example.com');
     });
 
     it('should handle minimal DMARC records', () => {
@@ -41,6 +399,47 @@ describe('DmarcValidatorService', () => {
       expect(() => service.parseDmarcRecord('v=DMARC2; p=none')).toThrow();
     });
 
+    it('should keep aggregate and failure report URIs separate', () => {
+      const record = 'v=DMARC1; p=reject; rua=mailto:agg@example.com,mailto:agg@vendor.com; ruf=mailto:forensic@example.com';
+      const policy = service.parseDmarcRecord(record);
+
+      expect(policy.aggregateReportUris?.map(reportUri => reportUri.address)).toEqual(['agg@example.com', 'agg@vendor.com']);
+      expect(policy.failureReportUris?.map(reportUri => reportUri.address)).toEqual(['forensic@example.com']);
+    });
+
+    it('should parse failure reporting options, format and interval', () => {
+      const record = 'v=DMARC1; p=reject; ruf=mailto:f@example.com; fo=1:d; rf=afrf; ri=3600';
+      const policy = service.parseDmarcRecord(record);
+
+      expect(policy.failureOptions).toEqual(['1', 'd']);
+      expect(policy.reportFormat).toEqual(['afrf']);
+      expect(policy.reportInterval).toBe(3600);
+    });
+
+    it('should reject malformed report URI size limits', () => {
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; rua=mailto:a@example.com!10x')).toThrow('Invalid report URI size limit');
+    });
+
+    it('should reject invalid fo, rf and ri values', () => {
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; fo=2')).toThrow('Invalid failure reporting option');
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; rf=a f')).toThrow('Invalid report format');
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; ri=-5')).toThrow('Invalid report interval');
+    });
+
+    it('should parse DMARCbis np, psd and t tags', () => {
+      const policy = service.parseDmarcRecord('v=DMARC1; p=reject; np=reject; psd=n; t=y');
+
+      expect(policy.nonExistentSubdomainPolicy).toBe('reject');
+      expect(policy.publicSuffixDomain).toBe('n');
+      expect(policy.testing).toBe(true);
+    });
+
+    it('should reject invalid DMARCbis tag values', () => {
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; np=deny')).toThrow('Invalid non-existent subdomain policy');
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; psd=yes')).toThrow('Invalid public suffix domain');
+      expect(() => service.parseDmarcRecord('v=DMARC1; p=none; t=1')).toThrow('Invalid testing mode');
+    });
+
     it('should parse complex DMARC records', () => {
       const record = 'v=DMARC1; p=quarantine; sp=reject; pct=50; rua=mailto:dmarc@example.com; adkim=s; aspf=r';
       const policy = service.parseDmarcRecord(record);
@@ -53,6 +452,67 @@ describe('DmarcValidatorService', () => {
     });
   });
 
+  describe('verifyReportDestinations', () => {
+    const policyWithReports = (rua: string[], ruf: string[] = []): DmarcPolicy => ({
+      version: 'DMARC1',
+      policy: 'reject',
+      aggregateReportUris: rua.map(parseReportUri),
+      failureReportUris: ruf.map(parseReportUri),
+      rawRecord: 'v=DMARC1; p=reject',
+    });
+
+    it('should not query for destinations in the same organizational domain', async () => {
+      const issues = await service.verifyReportDestinations(
+        'mail.example.com',
+        policyWithReports(['mailto:dmarc@example.com', 'mailto:dmarc@reports.example.com']),
+      );
+
+      expect(issues).toEqual([]);
+      expect(dnsService.lookupTxtRecords).not.toHaveBeenCalled();
+    });
+
+    it('should accept external destinations that publish an authorization record', async () => {
+      dnsService.lookupTxtRecords.mockResolvedValue(['v=DMARC1']);
+
+      const issues = await service.verifyReportDestinations(
+        'example.com',
+        policyWithReports(['mailto:reports@vendor.com!10m']),
+      );
+
+      expect(dnsService.lookupTxtRecords).toHaveBeenCalledWith('example.com._report._dmarc.vendor.com');
+      expect(issues).toEqual([]);
+    });
+
+    it('should emit one issue per unauthorized destination', async () => {
+      dnsService.lookupTxtRecords.mockImplementation(async name =>
+        name === 'example.com._report._dmarc.good-vendor.com' ? ['v=DMARC1'] : [],
+      );
+
+      const issues = await service.verifyReportDestinations(
+        'example.com',
+        policyWithReports(
+          ['mailto:agg@bad-vendor.com', 'mailto:agg@good-vendor.com'],
+          ['mailto:forensic@bad-vendor.com'],
+        ),
+      );
+
+      expect(dnsService.lookupTxtRecords).toHaveBeenCalledTimes(2);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('warning');
+      expect(issues[0].message).toContain('bad-vendor.com (rua, ruf)');
+      expect(issues[0].recommendation).toContain('example.com._report._dmarc.bad-vendor.com');
+    });
+
+    it('should report destinations that could not be checked', async () => {
+      dnsService.lookupTxtRecords.mockRejectedValue(new Error('queryTxt ESERVFAIL'));
+
+      const issues = await service.verifyReportDestinations('example.com', policyWithReports(['mailto:r@vendor.com']));
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('info');
+    });
+  });
+
   describe('evaluatePolicy', () => {
     it('should identify weak policies', () => {
       const policy: DmarcPolicy = {
@@ -67,6 +527,21 @@ describe('DmarcValidatorService', () => {
       expect(weakPolicyIssue?.severity).toBe('warning');
     });
 
+    it('should require reject instead of a staged rollout for parked domains', () => {
+      const quarantine: DmarcPolicy = { version: 'DMARC1', policy: 'quarantine', rawRecord: 'v=DMARC1; p=quarantine' };
+      const none: DmarcPolicy = { version: 'DMARC1', policy: 'none', rawRecord: 'v=DMARC1; p=none' };
+
+      const parked = service.evaluatePolicy(none, 'rfc7489', 'parked');
+      expect(parked.map(issue => issue.code)).toContain('PARKED_DMARC_NOT_REJECT');
+      expect(parked.map(issue => issue.code)).not.toContain('DMARC_POLICY_NONE');
+      expect(service.evaluatePolicy(quarantine, 'rfc7489', 'parked').find(issue => issue.code === 'PARKED_DMARC_NOT_REJECT')?.message)
+        .toContain('Non-mail domain missing reject policy');
+
+      expect(service.evaluatePolicy(quarantine, 'rfc7489', 'sending').map(issue => issue.code)).not.toContain('PARKED_DMARC_NOT_REJECT');
+      expect(service.evaluatePolicy({ ...quarantine, policy: 'reject' }, 'rfc7489', 'parked').map(issue => issue.code))
+        .not.toContain('PARKED_DMARC_NOT_REJECT');
+    });
+
     it('should identify missing reporting addresses', () => {
       const policy: DmarcPolicy = {
         version: 'DMARC1',
@@ -81,11 +556,114 @@ describe('DmarcValidatorService', () => {
       expect(reportingIssue).toBeDefined();
     });
 
+    it('should flag failure options without a failure reporting address', () => {
+      const policy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'reject',
+        aggregateReportUris: [parseReportUri('mailto:dmarc@example.com')],
+        failureOptions: ['1'],
+        rawRecord: 'v=DMARC1; p=reject; rua=mailto:dmarc@example.com; fo=1',
+      };
+
+      const issues = service.evaluatePolicy(policy);
+      expect(issues.some(issue => issue.message.includes('fo=1') && issue.message.includes('ruf'))).toBe(true);
+    });
+
+    it('should flag out-of-range report intervals and unsupported formats', () => {
+      const policy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'reject',
+        reportInterval: 60,
+        reportFormat: ['iodef'],
+        rawRecord: 'v=DMARC1; p=reject; ri=60; rf=iodef',
+      };
+
+      const issues = service.evaluatePolicy(policy);
+      expect(issues.some(issue => issue.message.includes('ri=60'))).toBe(true);
+      expect(issues.some(issue => issue.message.includes('rf=iodef') && issue.severity === 'warning')).toBe(true);
+    });
+
+    describe('spec mode', () => {
+      const bisPolicy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'quarantine',
+        percentage: 50,
+        testing: true,
+        rawRecord: 'v=DMARC1; p=quarantine; pct=50; t=y',
+      };
+
+      it('should note DMARCbis tags as ignored in RFC 7489 mode', () => {
+        const issues = service.evaluatePolicy(bisPolicy, 'rfc7489');
+
+        expect(issues.some(issue => issue.message.includes('DMARCbis tags (t)'))).toBe(true);
+        expect(issues.some(issue => issue.message.includes('deprecated'))).toBe(false);
+      });
+
+      it('should advise replacing pct with t=y in DMARCbis mode', () => {
+        const issues = service.evaluatePolicy(bisPolicy, 'dmarcbis');
+
+        const deprecation = issues.find(issue => issue.message.includes('pct tag is deprecated'));
+        expect(deprecation?.recommendation).toContain('Replace pct=50 with t=y');
+        expect(issues.some(issue => issue.message.includes('Testing mode (t=y)'))).toBe(true);
+        expect(issues.some(issue => issue.message.includes('non-existent subdomains (np)'))).toBe(true);
+      });
+
+      it('should flag an np policy weaker than the subdomain policy in DMARCbis mode', () => {
+        const issues = service.evaluatePolicy({
+          version: 'DMARC1',
+          policy: 'reject',
+          nonExistentSubdomainPolicy: 'none',
+          rawRecord: 'v=DMARC1; p=reject; np=none',
+        }, 'dmarcbis');
+
+        expect(issues.some(issue => issue.type === 'weak_policy' && issue.message.includes('Non-existent subdomain'))).toBe(true);
+      });
+    });
+
+    it('should validate failure report address formats', () => {
+      const policy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'reject',
+        failureReportUris: [parseReportUri('not-an-address')],
+        rawRecord: 'v=DMARC1; p=reject; ruf=not-an-address',
+      };
+
+      const issues = service.evaluatePolicy(policy);
+      expect(issues.some(issue => issue.type === 'syntax_error' && issue.message.includes('not-an-address'))).toBe(true);
+    });
+
+    it('should flag report URIs without mailto: and with unsupported schemes', () => {
+      const policy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'reject',
+        aggregateReportUris: ['dmarc@example.com', 'https://reports.example.com/dmarc'].map(parseReportUri),
+        rawRecord: 'v=DMARC1; p=reject; rua=dmarc@example.com,https://reports.example.com/dmarc',
+      };
+
+      const issues = service.evaluatePolicy(policy);
+      const missingScheme = issues.find(issue => issue.message.includes('missing the mailto: prefix'));
+      expect(missingScheme?.severity).toBe('error');
+      expect(missingScheme?.recommendation).toContain('mailto:dmarc@example.com');
+      expect(issues.some(issue => issue.message.includes('https: scheme') && issue.severity === 'warning')).toBe(true);
+    });
+
+    it('should accept mailto URIs with a size limit', () => {
+      const policy: DmarcPolicy = {
+        version: 'DMARC1',
+        policy: 'reject',
+        aggregateReportUris: [parseReportUri('mailto:dmarc@example.com!10m')],
+        rawRecord: 'v=DMARC1; p=reject; rua=mailto:dmarc@example.com!10m',
+      };
+
+      const issues = service.evaluatePolicy(policy);
+      expect(issues.some(issue => issue.type === 'syntax_error')).toBe(false);
+    });
+
     it('should validate reporting address formats', () => {
       const policy: DmarcPolicy = {
         version: 'DMARC1',
         policy: 'reject',
-        reportingAddresses: ['invalid-email', 'mailto:valid@example.com'],
+        aggregateReportUris: ['invalid-email', 'mailto:valid@example.com'].map(parseReportUri),
         rawRecord: 'v=DMARC1; p=reject; rua=invalid-email,mailto:valid@example.com',
       };
       
@@ -152,6 +730,7 @@ describe('DmarcValidatorService', () => {
 
             // Test 4: All issues should have required properties
             for (const issue of issues) {
+              expect(ISSUE_CATALOG[issue.code!]).toBeDefined();
               expect(issue).toHaveProperty('type');
               expect(issue).toHaveProperty('severity');
               expect(issue).toHaveProperty('message');
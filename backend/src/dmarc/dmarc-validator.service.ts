@@ -1,185 +1,233 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import type { DmarcPolicy, DmarcReportUri, DnsLookupOutcome, DnssecAnswer, DnssecResult, IssueCode, MailClass, MailProfile, ResolverComparison, ResolverConsensusResult, RolloutPlan, ValidationIssue, ValidationResult } from '@dmarc-portal/contracts';
+import { DmarcRecordLookup, DnsService } from '../dns/dns.service';
+import { lookupOutcomeOf } from '../dns/lookup-outcome';
+import { DnssecResolver } from '../dns/dnssec-resolver.service';
+import { PublicSuffixListService } from '../dns/public-suffix-list.service';
+import { DmarcRecordParseResult, parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+import { calculateSecurityScore } from './security-score';
+import { planRollout } from './rollout-planner';
+import { analyzeMailProfile } from '../mx/mx-analyzer';
 
-export interface ValidationIssue {
-  type: 'missing_record' | 'syntax_error' | 'weak_policy' | 'alignment_issue' | 'configuration_issue';
-  severity: 'error' | 'warning' | 'info';
-  message: string;
-  recommendation: string;
-}
-
-export interface DmarcPolicy {
-  version: string;
-  policy: 'none' | 'quarantine' | 'reject';
-  subdomainPolicy?: 'none' | 'quarantine' | 'reject';
-  percentage?: number;
-  reportingAddresses?: string[];
-  alignment?: {
-    spf: 'relaxed' | 'strict';
-    dkim: 'relaxed' | 'strict';
-  };
-  rawRecord: string;
-}
+// The API contract types live in the shared contracts package; re-exported for existing imports
+export type {
+  DmarcFailureOption,
+  DmarcPolicy,
+  DmarcPolicySource,
+  ValidationIssue,
+  ValidationResult,
+} from '@dmarc-portal/contracts';
 
-export interface ValidationResult {
-  domain: string;
-  dmarcRecord: string | null;
-  isValid: boolean;
-  issues: ValidationIssue[];
-  checkTimestamp: Date;
-  parsedPolicy?: DmarcPolicy;
-}
+// Which specification evaluation advice targets: RFC 7489 or the DMARCbis draft
+export type DmarcSpecMode = 'rfc7489' | 'dmarcbis';
 
 export interface DmarcValidator {
   validateDomain(domain: string): Promise<ValidationResult>;
   parseDmarcRecord(record: string): DmarcPolicy;
-  evaluatePolicy(policy: DmarcPolicy): ValidationIssue[];
+  diagnoseDmarcRecord(record: string): DmarcRecordParseResult;
+  evaluatePolicy(policy: DmarcPolicy, specMode?: DmarcSpecMode, mailClass?: MailClass): ValidationIssue[];
+  verifyReportDestinations(policyDomain: string, policy: DmarcPolicy): Promise<ValidationIssue[]>;
+  planRollout(policy: DmarcPolicy, domain: string): RolloutPlan;
 }
 
 @Injectable()
 export class DmarcValidatorImpl implements DmarcValidator {
   private readonly logger = new Logger(DmarcValidatorImpl.name);
+  private readonly specMode: DmarcSpecMode = process.env.DMARC_SPEC_MODE === 'dmarcbis' ? 'dmarcbis' : 'rfc7489';
+
+  constructor(
+    @Inject('DnsService') private readonly dnsService: DnsService,
+    private readonly publicSuffixList: PublicSuffixListService,
+    @Optional() @Inject('DnssecResolver') private readonly dnssecResolver?: DnssecResolver,
+  ) {}
 
   /**
    * Validates a domain's DMARC configuration
+   * A lookup the nameservers failed to answer, or a domain that does not exist, ends validation with that lookupOutcome.
    * @param domain The domain to validate
    * @returns Complete validation result
+   * @throws Error for invalid domain format or DNS lookup failures without a known outcome
    */
   async validateDomain(domain: string): Promise<ValidationResult> {
     const result: ValidationResult = {
-      domain,
+      domain: domain.trim().toLowerCase(),
       dmarcRecord: null,
       isValid: false,
       issues: [],
       checkTimestamp: new Date(),
     };
 
-    // This method will be completed when we integrate with DNS service
-    // For now, it's a placeholder that will be implemented in integration tasks
-    throw new Error('validateDomain not yet implemented - requires DNS service integration');
+    let lookup: DmarcRecordLookup;
+    let mailProfile: MailProfile | undefined;
+    try {
+      [lookup, mailProfile] = await Promise.all([
+        this.dnsService.lookupDmarcPolicy(domain),
+        this.analyzeMailProfile(result.domain),
+      ]);
+
+      // No record may just mean no domain: a typo or a lapsed registration is not a missing DMARC record
+      if (lookup.policyDomain === null && !await this.dnsService.nameExists(result.domain)) {
+        return this.lookupFailed(result, 'nxdomain');
+      }
+    } catch (error) {
+      const outcome = lookupOutcomeOf(error);
+      if (outcome === null) {
+        throw error;
+      }
+      this.logger.warn(`DMARC lookup for ${result.domain} ended with ${outcome}: ${error.message}`);
+      return this.lookupFailed(result, outcome);
+    }
+
+    result.lookupOutcome = lookup.policyDomain !== null ? 'found' : 'no_record';
+    const record = lookup.record;
+    const mailClass = mailProfile?.mailClass;
+    if (mailProfile) {
+      result.mailProfile = mailProfile;
+    }
+
+    const [dnssec, resolverConsensus] = await Promise.all([
+      this.checkDnssec(result.domain, lookup.policyDomain ?? result.domain),
+      this.checkResolverConsensus(result.domain, lookup.policyDomain ?? result.domain),
+    ]);
+    if (dnssec) {
+      this.reportSectionFindings(result, dnssec);
+      result.dnssec = dnssec;
+    }
+    if (resolverConsensus) {
+      this.reportSectionFindings(result, resolverConsensus);
+      result.resolverConsensus = resolverConsensus;
+    }
+
+    result.issues.push(...this.evaluateTxtRecords(lookup.txtRecords, record !== null));
+
+    if (record === null) {
+      // Several DMARC records at one name also end discovery without a policy; that is reported above
+      if (lookup.policyDomain === null) {
+        result.issues.push({
+          code: 'DMARC_RECORD_MISSING',
+          type: 'missing_record',
+          severity: 'error',
+          message: 'No DMARC record found for this domain',
+          recommendation: mailClass === 'parked'
+            ? 'This domain sends no mail, so publish a rejecting DMARC record right away: v=DMARC1; p=reject; sp=reject'
+            : `Add a DMARC record to your DNS settings, starting with: v=DMARC1; p=none; rua=mailto:dmarc@${result.domain}`,
+        });
+      }
+      return this.finalizeResult(result);
+    }
+
+    result.dmarcRecord = record;
+    result.policySource = {
+      domain: lookup.policyDomain,
+      organizationalDomain: lookup.organizationalDomain,
+      appliedPolicy: lookup.appliedPolicy,
+      inherited: lookup.inherited,
+    };
+
+    const parseResult = this.diagnoseDmarcRecord(record);
+    result.recordDiagnostics = parseResult.diagnostics;
+    result.issues.push(...parseResult.diagnostics.map(diagnostic => ({
+      code: diagnostic.code,
+      type: 'syntax_error' as const,
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      recommendation: diagnostic.fixHint,
+    })));
+
+    if (parseResult.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      this.logger.debug(`DMARC record for ${result.domain} has ${parseResult.diagnostics.length} syntax problem(s)`);
+      return this.finalizeResult(result);
+    }
+
+    result.parsedPolicy = parseResult.policy;
+    result.rolloutPlan = this.planRollout(result.parsedPolicy, lookup.policyDomain);
+
+    if (lookup.inherited) {
+      const effectivePolicy = result.parsedPolicy.subdomainPolicy ?? result.parsedPolicy.policy;
+      result.issues.push({
+        code: 'DMARC_POLICY_INHERITED',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `No DMARC record published for ${result.domain}; the "sp" policy (${effectivePolicy}) of organizational domain ${lookup.organizationalDomain} applies`,
+        recommendation: `Publish a record at _dmarc.${result.domain} if this subdomain needs a different policy than its organizational domain`,
+      });
+    }
+
+    result.issues.push(...this.evaluatePolicy(result.parsedPolicy, this.specMode, mailClass));
+    result.issues.push(...await this.verifyReportDestinations(lookup.policyDomain, result.parsedPolicy));
+
+    return this.finalizeResult(result);
   }
 
   /**
    * Parses a DMARC record string into a structured policy object
    * @param record The DMARC record string
    * @returns Parsed DMARC policy
+   * @throws Error with the first error diagnostic if the record has any syntax errors
    */
   parseDmarcRecord(record: string): DmarcPolicy {
-    if (!record || typeof record !== 'string') {
-      throw new Error('Invalid DMARC record: record must be a non-empty string');
-    }
+    const { policy, diagnostics } = this.diagnoseDmarcRecord(record);
 
-    const cleanRecord = record.trim();
-    if (!cleanRecord.startsWith('v=DMARC1')) {
-      throw new Error('Invalid DMARC record: must start with v=DMARC1');
+    const firstError = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+    if (firstError) {
+      throw new Error(firstError.message);
     }
 
-    const policy: DmarcPolicy = {
-      version: 'DMARC1',
-      policy: 'none', // Default
-      rawRecord: cleanRecord,
-    };
-
-    // Parse key-value pairs separated by semicolons
-    const pairs = cleanRecord.split(';').map(pair => pair.trim()).filter(pair => pair.length > 0);
-
-    for (const pair of pairs) {
-      const [key, value] = pair.split('=').map(part => part.trim());
-      
-      if (!key || value === undefined) {
-        continue; // Skip malformed pairs
-      }
+    return policy;
+  }
 
-      switch (key.toLowerCase()) {
-        case 'v':
-          if (value !== 'DMARC1') {
-            throw new Error(`Invalid DMARC version: ${value}`);
-          }
-          policy.version = value;
-          break;
-
-        case 'p':
-          if (!['none', 'quarantine', 'reject'].includes(value)) {
-            throw new Error(`Invalid policy value: ${value}`);
-          }
-          policy.policy = value as 'none' | 'quarantine' | 'reject';
-          break;
-
-        case 'sp':
-          if (!['none', 'quarantine', 'reject'].includes(value)) {
-            throw new Error(`Invalid subdomain policy value: ${value}`);
-          }
-          policy.subdomainPolicy = value as 'none' | 'quarantine' | 'reject';
-          break;
-
-        case 'pct':
-          const percentage = parseInt(value, 10);
-          if (isNaN(percentage) || percentage < 0 || percentage > 100) {
-            throw new Error(`Invalid percentage value: ${value}`);
-          }
-          policy.percentage = percentage;
-          break;
-
-        case 'rua':
-        case 'ruf':
-          if (!policy.reportingAddresses) {
-            policy.reportingAddresses = [];
-          }
-          // Parse comma-separated email addresses
-          const addresses = value.split(',').map(addr => addr.trim()).filter(addr => addr.length > 0);
-          policy.reportingAddresses.push(...addresses);
-          break;
-
-        case 'adkim':
-          if (!policy.alignment) {
-            policy.alignment = { spf: 'relaxed', dkim: 'relaxed' };
-          }
-          if (!['r', 's', 'relaxed', 'strict'].includes(value)) {
-            throw new Error(`Invalid DKIM alignment value: ${value}`);
-          }
-          policy.alignment.dkim = value === 's' || value === 'strict' ? 'strict' : 'relaxed';
-          break;
-
-        case 'aspf':
-          if (!policy.alignment) {
-            policy.alignment = { spf: 'relaxed', dkim: 'relaxed' };
-          }
-          if (!['r', 's', 'relaxed', 'strict'].includes(value)) {
-            throw new Error(`Invalid SPF alignment value: ${value}`);
-          }
-          policy.alignment.spf = value === 's' || value === 'strict' ? 'strict' : 'relaxed';
-          break;
-
-        // Ignore other tags (fo, rf, ri) for now
-        default:
-          this.logger.debug(`Ignoring unknown DMARC tag: ${key}=${value}`);
-          break;
-      }
-    }
+  /**
+   * Parses a DMARC record without throwing, collecting every syntax problem with its position
+   * @param record The DMARC record string
+   * @returns The parsed policy, or null if the record is not a DMARC record, and all diagnostics
+   */
+  diagnoseDmarcRecord(record: string): DmarcRecordParseResult {
+    return parseDmarcRecordDiagnostics(record);
+  }
 
-    return policy;
+  /**
+   * Plans the staged move from the current policy to full p=reject enforcement
+   * @param policy The parsed DMARC policy
+   * @param domain The domain the policy is published for
+   * @returns The rollout stages for the configured spec mode
+   */
+  planRollout(policy: DmarcPolicy, domain: string): RolloutPlan {
+    return planRollout(policy, domain, this.specMode);
   }
 
   /**
    * Evaluates a parsed DMARC policy for security best practices
    * @param policy The parsed DMARC policy
+   * @param specMode The specification to target, defaults to DMARC_SPEC_MODE (rfc7489)
+   * @param mailClass Whether the domain sends mail; parked domains are advised to reject outright
    * @returns Array of validation issues and recommendations
    */
-  evaluatePolicy(policy: DmarcPolicy): ValidationIssue[] {
+  evaluatePolicy(policy: DmarcPolicy, specMode: DmarcSpecMode = this.specMode, mailClass?: MailClass): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
 
-    // Check policy strength
-    if (policy.policy === 'none') {
+    // Check policy strength; a domain without legitimate mail has nothing to roll out
+    if (mailClass === 'parked' && policy.policy !== 'reject') {
+      issues.push({
+        code: 'PARKED_DMARC_NOT_REJECT',
+        type: 'weak_policy',
+        severity: 'error',
+        message: `Non-mail domain missing reject policy: the domain neither sends nor receives mail, but its DMARC policy is p=${policy.policy}`,
+        recommendation: 'Set p=reject (and sp=reject) now; a domain without legitimate mail needs no staged rollout',
+      });
+    } else if (policy.policy === 'none') {
       issues.push({
+        code: 'DMARC_POLICY_NONE',
         type: 'weak_policy',
         severity: 'warning',
         message: 'DMARC policy is set to "none" which provides no protection',
-        recommendation: 'Consider upgrading to "quarantine" or "reject" policy for better email security',
+        recommendation: 'Move to "quarantine" and then "reject" in stages, following the rollout plan so legitimate mail keeps flowing',
       });
     }
 
     // Check percentage
     if (policy.percentage !== undefined && policy.percentage < 100) {
       issues.push({
+        code: 'DMARC_PCT_PARTIAL',
         type: 'configuration_issue',
         severity: 'info',
         message: `DMARC policy applies to only ${policy.percentage}% of messages`,
@@ -187,19 +235,56 @@ export class DmarcValidatorImpl implements DmarcValidator {
       });
     }
 
+    issues.push(...this.evaluateDmarcbisTags(policy, specMode));
+
     // Check for reporting addresses
-    if (!policy.reportingAddresses || policy.reportingAddresses.length === 0) {
+    if (!policy.aggregateReportUris || policy.aggregateReportUris.length === 0) {
       issues.push({
+        code: 'DMARC_RUA_MISSING',
         type: 'configuration_issue',
         severity: 'info',
-        message: 'No reporting addresses configured (rua/ruf)',
+        message: 'No aggregate reporting addresses configured (rua)',
         recommendation: 'Add reporting addresses to receive DMARC reports and monitor email authentication',
       });
     }
 
+    // Check failure reporting options
+    const hasFailureReportUris = policy.failureReportUris && policy.failureReportUris.length > 0;
+    if (policy.failureOptions && !hasFailureReportUris) {
+      issues.push({
+        code: 'DMARC_FO_WITHOUT_RUF',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `Failure reporting options are set (fo=${policy.failureOptions.join(':')}) but no failure reporting address is configured (ruf)`,
+        recommendation: 'Add a ruf address to receive failure reports, or remove the fo tag',
+      });
+    }
+
+    if (policy.reportFormat && policy.reportFormat.some(format => format !== 'afrf')) {
+      issues.push({
+        code: 'DMARC_RF_UNSUPPORTED',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `Unsupported failure report format: rf=${policy.reportFormat.join(':')}`,
+        recommendation: 'Use rf=afrf (the only format defined by RFC 7489) or remove the rf tag',
+      });
+    }
+
+    // Receivers must support daily reports and should support hourly ones
+    if (policy.reportInterval !== undefined && (policy.reportInterval < 3600 || policy.reportInterval > 86400)) {
+      issues.push({
+        code: 'DMARC_RI_OUT_OF_RANGE',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `Aggregate report interval ri=${policy.reportInterval} is outside the range receivers honour (3600-86400 seconds)`,
+        recommendation: 'Set ri between 3600 and 86400, or remove it to use the default of 86400 (daily)',
+      });
+    }
+
     // Check subdomain policy
     if (!policy.subdomainPolicy) {
       issues.push({
+        code: 'DMARC_SP_MISSING',
         type: 'configuration_issue',
         severity: 'info',
         message: 'No explicit subdomain policy set',
@@ -207,6 +292,7 @@ export class DmarcValidatorImpl implements DmarcValidator {
       });
     } else if (policy.subdomainPolicy === 'none' && policy.policy !== 'none') {
       issues.push({
+        code: 'DMARC_SP_WEAKER',
         type: 'weak_policy',
         severity: 'warning',
         message: 'Subdomain policy is weaker than main domain policy',
@@ -218,6 +304,7 @@ export class DmarcValidatorImpl implements DmarcValidator {
     if (policy.alignment) {
       if (policy.alignment.spf === 'relaxed' && policy.alignment.dkim === 'relaxed') {
         issues.push({
+          code: 'DMARC_ALIGNMENT_RELAXED',
           type: 'alignment_issue',
           severity: 'info',
           message: 'Both SPF and DKIM alignment are set to relaxed',
@@ -227,14 +314,322 @@ export class DmarcValidatorImpl implements DmarcValidator {
     }
 
     // Validate reporting addresses format
-    if (policy.reportingAddresses) {
-      for (const address of policy.reportingAddresses) {
-        if (!this.isValidEmailFormat(address)) {
+    for (const reportUri of policy.aggregateReportUris || []) {
+      issues.push(...this.evaluateReportUri(reportUri, 'rua'));
+    }
+    for (const reportUri of policy.failureReportUris || []) {
+      issues.push(...this.evaluateReportUri(reportUri, 'ruf'));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Evaluates the tags added or deprecated by DMARCbis
+   * @param policy The parsed DMARC policy
+   * @param specMode The specification to target
+   * @returns Issues for pct deprecation, testing mode and the np/psd tags
+   */
+  private evaluateDmarcbisTags(policy: DmarcPolicy, specMode: DmarcSpecMode): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (specMode === 'rfc7489') {
+      const bisTags = [
+        policy.nonExistentSubdomainPolicy !== undefined ? 'np' : null,
+        policy.publicSuffixDomain !== undefined ? 'psd' : null,
+        policy.testing !== undefined ? 't' : null,
+      ].filter(tag => tag !== null);
+
+      if (bisTags.length > 0) {
+        issues.push({
+          code: 'DMARC_BIS_TAGS_IGNORED',
+          type: 'configuration_issue',
+          severity: 'info',
+          message: `DMARCbis tags (${bisTags.join(', ')}) are ignored by receivers that only implement RFC 7489`,
+          recommendation: 'Keep the tags for DMARCbis receivers, but do not rely on them for RFC 7489 receivers',
+        });
+      }
+      return issues;
+    }
+
+    if (policy.percentage !== undefined) {
+      issues.push({
+        code: 'DMARC_PCT_DEPRECATED',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `The pct tag is deprecated by DMARCbis (pct=${policy.percentage})`,
+        recommendation: policy.percentage < 100
+          ? `Replace pct=${policy.percentage} with t=y while testing, then remove it for full enforcement`
+          : 'Remove pct=100; full enforcement is the default',
+      });
+    }
+
+    if (policy.testing && policy.policy !== 'none') {
+      issues.push({
+        code: 'DMARC_TESTING_MODE',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: `Testing mode (t=y) is enabled, so receivers apply one level less than p=${policy.policy}`,
+        recommendation: 'Remove t=y once reports show legitimate mail passes DMARC',
+      });
+    }
+
+    const subdomainPolicy = policy.subdomainPolicy ?? policy.policy;
+    if (policy.nonExistentSubdomainPolicy === undefined) {
+      if (subdomainPolicy !== 'reject') {
+        issues.push({
+          code: 'DMARC_NP_MISSING',
+          type: 'configuration_issue',
+          severity: 'info',
+          message: 'No policy set for non-existent subdomains (np)',
+          recommendation: 'Set np=reject so mail from subdomains that do not exist in DNS is rejected',
+        });
+      }
+    } else if (policy.nonExistentSubdomainPolicy === 'none' && subdomainPolicy !== 'none') {
+      issues.push({
+        code: 'DMARC_NP_WEAKER',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'Non-existent subdomain policy is weaker than the subdomain policy',
+        recommendation: 'Non-existent subdomains never send legitimate mail; set np=reject',
+      });
+    }
+
+    if (policy.publicSuffixDomain === 'y') {
+      issues.push({
+        code: 'DMARC_PSD_DECLARED',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: 'Record declares itself a public suffix domain policy (psd=y)',
+        recommendation: 'Only public suffix operators should publish psd=y; remove it for organizational domains',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Verifies that external report destinations accept reports for the policy domain (RFC 7489 section 7.1)
+   * @param policyDomain The domain that published the DMARC record
+   * @param policy The parsed DMARC policy
+   * @returns One issue per destination that is not authorized or could not be checked
+   */
+  async verifyReportDestinations(policyDomain: string, policy: DmarcPolicy): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const policyOrgDomain = this.publicSuffixList.getOrganizationalDomain(policyDomain) ?? policyDomain;
+
+    // Group report tags by destination host so each host is only queried once
+    const destinations = new Map<string, string[]>();
+    const uris = [
+      ...(policy.aggregateReportUris || []).map(uri => ({ tag: 'rua', uri })),
+      ...(policy.failureReportUris || []).map(uri => ({ tag: 'ruf', uri })),
+    ];
+
+    for (const { tag, uri } of uris) {
+      const host = this.getMailtoHost(uri);
+      if (!host) {
+        continue;
+      }
+
+      const hostOrgDomain = this.publicSuffixList.getOrganizationalDomain(host) ?? host;
+      if (hostOrgDomain === policyOrgDomain) {
+        continue;
+      }
+
+      const tags = destinations.get(host) || [];
+      if (!tags.includes(tag)) {
+        tags.push(tag);
+      }
+      destinations.set(host, tags);
+    }
+
+    for (const [host, tags] of destinations) {
+      const authorizationName = `${policyDomain}._report._dmarc.${host}`;
+
+      try {
+        const records = await this.dnsService.lookupTxtRecords(authorizationName);
+        if (records.some(record => record.startsWith('v=DMARC1'))) {
+          continue;
+        }
+
+        issues.push({
+          code: 'DMARC_REPORT_DESTINATION_UNAUTHORIZED',
+          type: 'configuration_issue',
+          severity: 'warning',
+          message: `External report destination ${host} (${tags.join(', ')}) has not authorized reports for ${policyDomain}; receivers will not send them`,
+          recommendation: `Ask the operator of ${host} to publish a TXT record "v=DMARC1" at ${authorizationName}`,
+        });
+      } catch (error) {
+        this.logger.warn(`Could not verify report destination ${authorizationName}: ${error.message}`);
+        issues.push({
+          code: 'DMARC_REPORT_DESTINATION_UNVERIFIED',
+          type: 'configuration_issue',
+          severity: 'info',
+          message: `Could not verify whether external report destination ${host} accepts reports for ${policyDomain}`,
+          recommendation: `Check that a TXT record "v=DMARC1" is published at ${authorizationName}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Classifies the domain as sending, receiving or parked so advice can be tailored
+   * @param domain The normalized domain
+   * @returns The mail profile, or undefined when the lookups failed
+   */
+  private async analyzeMailProfile(domain: string): Promise<MailProfile | undefined> {
+    try {
+      return await analyzeMailProfile(this.dnsService, domain);
+    } catch (error) {
+      this.logger.warn(`Mail profile lookup failed for ${domain}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Asks the validating resolver whether the DMARC and SPF answers are protected by DNSSEC
+   * @param domain The normalized domain, whose TXT answer holds the SPF record
+   * @param policyDomain The domain whose _dmarc answer ended policy discovery
+   * @returns The status of both answers, or undefined when no validating resolver is configured
+   */
+  private async checkDnssec(domain: string, policyDomain: string): Promise<DnssecResult | undefined> {
+    const resolver = this.dnssecResolver;
+    if (!resolver?.upstream) {
+      return undefined;
+    }
+
+    const check = async (name: string): Promise<DnssecAnswer> => {
+      const status = await resolver.lookupStatus(name, 'TXT').catch(error => {
+        this.logger.warn(`DNSSEC lookup failed for ${name}: ${error.message}`);
+        return null;
+      });
+      return { name, status };
+    };
+
+    const [dmarc, spf] = await Promise.all([check(`_dmarc.${policyDomain}`), check(domain)]);
+    const issues: ValidationIssue[] = [];
+
+    const bogus = [dmarc, spf].filter(answer => answer.status === 'bogus').map(answer => answer.name);
+    if (bogus.length > 0) {
+      issues.push({
+        code: 'DNSSEC_BOGUS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `DNSSEC validation fails for ${bogus.join(' and ')}, so validating resolvers return no answer and receivers see no record`,
+        recommendation: 'Check the zone signatures and make sure the DS record at the registrar matches the current key',
+      });
+    }
+
+    const insecure = [dmarc, spf].filter(answer => answer.status === 'insecure').map(answer => answer.name);
+    if (insecure.length > 0) {
+      issues.push({
+        code: 'DNSSEC_INSECURE',
+        type: 'configuration_issue',
+        severity: 'info',
+        message: `The answers for ${insecure.join(' and ')} are not signed with DNSSEC, so a receiver's DNS can be spoofed to hide or replace them`,
+        recommendation: 'Enable DNSSEC signing for the zone and publish its DS record at the registrar',
+      });
+    }
+
+    return { resolver: resolver.upstream, dmarc, spf, issues };
+  }
+
+  /**
+   * Moves a section's warnings and errors into the domain's issues, so compliance and the score account for them
+   * Informational notes stay with the section they describe.
+   * @param result The validation result collecting the domain's issues
+   * @param section The section whose findings are reported
+   */
+  private reportSectionFindings(result: ValidationResult, section: { issues: ValidationIssue[] }): void {
+    result.issues.push(...section.issues.filter(issue => issue.severity !== 'info'));
+    section.issues = section.issues.filter(issue => issue.severity === 'info');
+  }
+
+  /**
+   * Compares the DMARC and SPF answers of every configured resolver
+   * @param domain The normalized domain, whose TXT answer holds the SPF record
+   * @param policyDomain The domain whose _dmarc answer ended policy discovery
+   * @returns Each resolver's answers, or undefined unless consensus mode is configured
+   */
+  private async checkResolverConsensus(domain: string, policyDomain: string): Promise<ResolverConsensusResult | undefined> {
+    const compare = (name: string) => this.dnsService.compareTxtRecords(name).catch(error => {
+      this.logger.warn(`Resolver comparison failed for ${name}: ${error.message}`);
+      return null;
+    });
+
+    const comparisons = (await Promise.all([compare(`_dmarc.${policyDomain}`), compare(domain)]))
+      .filter((comparison): comparison is ResolverComparison => comparison !== null);
+    if (comparisons.length === 0) {
+      return undefined;
+    }
+
+    const issues: ValidationIssue[] = comparisons
+      .filter(comparison => !comparison.agreed)
+      .map(comparison => {
+        const failed = comparison.answers.filter(answer => answer.records === null).map(answer => answer.resolver);
+        return {
+          code: 'DNS_RESOLVERS_DISAGREE',
+          type: 'configuration_issue',
+          severity: 'warning',
+          message: failed.length > 0
+            ? `Resolver(s) ${failed.join(', ')} could not answer for ${comparison.name}, so receivers using them may not see the record`
+            : `Resolvers return different TXT records for ${comparison.name}, so receivers may see different records depending on where they look`,
+          recommendation: 'Check for split-horizon DNS or a recent change still propagating, and make sure every authoritative nameserver serves the same records',
+        };
+      });
+
+    return {
+      resolvers: comparisons[0].answers.map(answer => answer.resolver),
+      comparisons,
+      issues,
+    };
+  }
+
+  /**
+   * Checks the raw TXT records at each _dmarc name for conditions receivers silently ignore
+   * @param txtRecords TXT strings keyed by the domain whose _dmarc name was queried
+   * @param hasPolicy Whether a usable DMARC record was found
+   * @returns Issues for multiple policies, near-miss records and unrelated TXT records
+   */
+  private evaluateTxtRecords(txtRecords: Record<string, string[]>, hasPolicy: boolean): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const [domain, records] of Object.entries(txtRecords)) {
+      const dmarcName = `_dmarc.${domain}`;
+      const dmarcRecords = records.filter(txt => txt.startsWith('v=DMARC1'));
+
+      if (dmarcRecords.length > 1) {
+        issues.push({
+          code: 'DMARC_MULTIPLE_RECORDS',
+          type: 'configuration_issue',
+          severity: 'error',
+          message: `Found ${dmarcRecords.length} DMARC records at ${dmarcName}; receivers apply no policy when more than one is published`,
+          recommendation: 'Merge the records into a single DMARC TXT record and delete the others',
+        });
+      }
+
+      for (const txt of records) {
+        if (txt.startsWith('v=DMARC1')) {
+          continue;
+        }
+
+        if (/^\s*v\s*=\s*dmarc1/i.test(txt)) {
           issues.push({
+            code: 'DMARC_NEAR_MISS_RECORD',
             type: 'syntax_error',
-            severity: 'error',
-            message: `Invalid reporting address format: ${address}`,
-            recommendation: 'Ensure reporting addresses follow the format: mailto:user@domain.com',
+            severity: hasPolicy ? 'warning' : 'error',
+            message: `TXT record at ${dmarcName} looks like DMARC but is ignored by receivers: "${txt}"`,
+            recommendation: `Records must start exactly with "v=DMARC1" (case-sensitive, no leading whitespace), e.g. "${txt.trim().replace(/^v\s*=\s*dmarc1/i, 'v=DMARC1')}"`,
+          });
+        } else {
+          issues.push({
+            code: 'DMARC_UNRELATED_TXT_RECORD',
+            type: 'configuration_issue',
+            severity: 'info',
+            message: `Non-DMARC TXT record at ${dmarcName} is ignored: "${txt}"`,
+            recommendation: `Remove unrelated TXT records from ${dmarcName} to avoid confusion`,
           });
         }
       }
@@ -243,17 +638,117 @@ export class DmarcValidatorImpl implements DmarcValidator {
     return issues;
   }
 
+  /**
+   * Ends validation of a domain whose DMARC lookup got no usable answer
+   * No score is given, since nothing is known about the domain's policy.
+   * @param result The validation result to complete
+   * @param outcome How the lookup failed
+   * @returns The validation result with the lookup failure as its only issue
+   */
+  private lookupFailed(result: ValidationResult, outcome: DnsLookupOutcome): ValidationResult {
+    const reasons: Partial<Record<DnsLookupOutcome, string>> = {
+      servfail: 'the nameservers failed to answer (SERVFAIL)',
+      timeout: 'the nameservers did not answer in time',
+      refused: 'the nameservers refused the query',
+    };
+
+    result.lookupOutcome = outcome;
+    result.isValid = false;
+    result.issues = [outcome === 'nxdomain'
+      ? {
+        code: 'DOMAIN_NOT_FOUND',
+        type: 'missing_record',
+        severity: 'error',
+        message: `${result.domain} does not exist in DNS (NXDOMAIN), so there is no DMARC record to check`,
+        recommendation: 'Check the domain name for typos; a newly registered domain can take a while to appear in DNS',
+      }
+      : {
+        code: 'DMARC_LOOKUP_FAILED',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Could not look up the DMARC record of ${result.domain}: ${reasons[outcome]}`,
+        recommendation: 'Try again later; if the failure persists, check that the domain\'s nameservers are reachable and its DNSSEC signatures are valid',
+      }];
+    return result;
+  }
+
+  /**
+   * Derives compliance and the security score once all issues have been collected
+   * A domain is compliant when no finding is more severe than informational.
+   * @param result The validation result to complete
+   * @returns The completed validation result
+   */
+  private finalizeResult(result: ValidationResult): ValidationResult {
+    result.isValid = !result.issues.some(issue => issue.severity === 'error' || issue.severity === 'warning');
+    result.securityScore = calculateSecurityScore(result.parsedPolicy, result.issues);
+    return result;
+  }
+
+  /**
+   * Extracts the destination host of a mailto: report URI
+   * @param reportUri The parsed report URI
+   * @returns The lower-cased host, or null for non-mailto or malformed URIs
+   */
+  private getMailtoHost(reportUri: DmarcReportUri): string | null {
+    if (reportUri.scheme !== 'mailto') {
+      return null;
+    }
+
+    const match = /^[^\s@]+@([^\s@]+)$/.exec(reportUri.address);
+    return match ? match[1].toLowerCase() : null;
+  }
+
+  /**
+   * Validates a single report URI
+   * @param reportUri The parsed report URI
+   * @param tag The tag the URI was published in
+   * @returns Issues for missing or unsupported schemes and malformed addresses
+   */
+  private evaluateReportUri(reportUri: DmarcReportUri, tag: 'rua' | 'ruf'): ValidationIssue[] {
+    const prefix = tag === 'rua' ? 'RUA' : 'RUF';
+
+    if (reportUri.scheme === null) {
+      const suggestion = this.isValidEmailFormat(reportUri.address) ? `mailto:${reportUri.uri}` : 'mailto:user@domain.com';
+      return [{
+        code: `DMARC_${prefix}_MISSING_MAILTO` as const,
+        type: 'syntax_error',
+        severity: 'error',
+        message: `Reporting address is missing the mailto: prefix: ${reportUri.uri}`,
+        recommendation: `Report URIs must include a scheme; use ${suggestion}`,
+      }];
+    }
+
+    if (reportUri.scheme !== 'mailto') {
+      return [{
+        code: `DMARC_${prefix}_UNSUPPORTED_SCHEME` as const,
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `Reporting address uses the ${reportUri.scheme}: scheme, which receivers are not required to support: ${reportUri.uri}`,
+        recommendation: 'Add a mailto: destination; it is the only scheme every receiver must support',
+      }];
+    }
+
+    if (!this.isValidEmailFormat(reportUri.address)) {
+      return [{
+        code: `DMARC_${prefix}_INVALID_ADDRESS` as const,
+        type: 'syntax_error',
+        severity: 'error',
+        message: `Invalid reporting address format: ${reportUri.uri}`,
+        recommendation: 'Ensure reporting addresses follow the format: mailto:user@domain.com',
+      }];
+    }
+
+    return [];
+  }
+
   /**
    * Basic email format validation for reporting addresses
-   * @param address The email address to validate
+   * @param address The email address to validate, without the mailto: scheme
    * @returns true if format is valid
    */
   private isValidEmailFormat(address: string): boolean {
-    // Handle mailto: prefix
-    const cleanAddress = address.startsWith('mailto:') ? address.substring(7) : address;
-    
     // Basic email regex - not comprehensive but good enough for DMARC reporting addresses
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(cleanAddress);
+    return emailRegex.test(address);
   }
-}
\ No newline at end of file
+}
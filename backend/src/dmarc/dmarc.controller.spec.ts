@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { DmarcController } from './dmarc.controller';
+import { DmarcValidator } from './dmarc-validator.service';
+import { parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+import { planRollout } from './rollout-planner';
+
+describe('DmarcController', () => {
+  let controller: DmarcController;
+  let dmarcValidator: jest.Mocked<DmarcValidator>;
+
+  beforeEach(async () => {
+    const mockDmarcValidator = {
+      diagnoseDmarcRecord: jest.fn(parseDmarcRecordDiagnostics),
+      planRollout: jest.fn((policy, domain) => planRollout(policy, domain, 'rfc7489')),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DmarcController],
+      providers: [
+        {
+          provide: 'DmarcValidator',
+          useValue: mockDmarcValidator,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<DmarcController>(DmarcController);
+    dmarcValidator = module.get('DmarcValidator');
+  });
+
+  describe('generateRecord', () => {
+    it('should return the generated record and policy', () => {
+      const result = controller.generateRecord({
+        policy: 'reject',
+        aggregateReportAddresses: ['dmarc@example.com'],
+      });
+
+      expect(result.record).toBe('v=DMARC1; p=reject; rua=mailto:dmarc@example.com');
+      expect(result.policy.policy).toBe('reject');
+    });
+
+    it('should reject invalid options with every problem listed', () => {
+      try {
+        controller.generateRecord({ policy: 'deny' as any, failureOptions: ['x' as any] });
+        fail('Expected an HttpException');
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpException);
+        expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+        expect(error.getResponse().errors).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('planRollout', () => {
+    it('should plan the rollout for a parsed record', () => {
+      const plan = controller.planRollout({ domain: 'Example.com', record: 'v=DMARC1; p=quarantine; pct=25' });
+
+      expect(dmarcValidator.planRollout).toHaveBeenCalledWith(expect.objectContaining({ policy: 'quarantine' }), 'example.com');
+      expect(plan.currentStage).toBe('quarantine-partial');
+      expect(plan.steps).toHaveLength(5);
+    });
+
+    it('should reject records with syntax errors', () => {
+      expect(() => controller.planRollout({ domain: 'example.com', record: 'v=DMARC1; p=deny' })).toThrow(HttpException);
+      expect(() => controller.planRollout({ domain: 'example.com', record: '' })).toThrow('Domain and record are required');
+      expect(dmarcValidator.planRollout).not.toHaveBeenCalled();
+    });
+  });
+});
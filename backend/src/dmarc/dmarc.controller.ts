@@ -0,0 +1,70 @@
+import { Controller, Post, Body, HttpException, HttpStatus, Logger, Inject } from '@nestjs/common';
+import type { RolloutPlan } from '@dmarc-portal/contracts';
+import { DmarcValidator } from './dmarc-validator.service';
+import {
+  DmarcGenerateOptions,
+  GeneratedDmarcRecord,
+  generateDmarcRecord,
+  validateGenerateOptions,
+} from './dmarc-record.generator';
+
+interface RolloutPlanRequest {
+  domain: string;
+  record: string;
+}
+
+@Controller('api/dmarc')
+export class DmarcController {
+  private readonly logger = new Logger(DmarcController.name);
+
+  constructor(
+    @Inject('DmarcValidator') private readonly dmarcValidator: DmarcValidator,
+  ) {}
+
+  /**
+   * Generate a canonical DMARC record from the desired options
+   */
+  @Post('generate')
+  generateRecord(@Body() options: DmarcGenerateOptions): GeneratedDmarcRecord {
+    const errors = validateGenerateOptions(options);
+    if (errors.length > 0) {
+      throw new HttpException({ message: 'Invalid DMARC record options', errors }, HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      return generateDmarcRecord(options);
+    } catch (error) {
+      this.logger.error('Failed to generate DMARC record:', error);
+      throw new HttpException(
+        'Failed to generate DMARC record',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Plan the staged rollout from a record's current policy to p=reject
+   */
+  @Post('rollout-plan')
+  planRollout(@Body() request: RolloutPlanRequest): RolloutPlan {
+    if (!request.domain || !request.record) {
+      throw new HttpException('Domain and record are required', HttpStatus.BAD_REQUEST);
+    }
+
+    const { policy, diagnostics } = this.dmarcValidator.diagnoseDmarcRecord(request.record);
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    if (!policy || errors.length > 0) {
+      throw new HttpException({ message: 'Invalid DMARC record', diagnostics: errors }, HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      return this.dmarcValidator.planRollout(policy, request.domain.trim().toLowerCase());
+    } catch (error) {
+      this.logger.error(`Failed to plan rollout for ${request.domain}:`, error);
+      throw new HttpException(
+        'Failed to plan rollout',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { DmarcValidatorImpl } from './dmarc-validator.service';
+import { DmarcController } from './dmarc.controller';
+import { DnsModule } from '../dns/dns.module';
 
 @Module({
+  imports: [DnsModule],
+  controllers: [DmarcController],
   providers: [
     {
       provide: 'DmarcValidator',
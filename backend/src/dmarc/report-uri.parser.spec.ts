@@ -0,0 +1,46 @@
+import { parseReportUri } from './report-uri.parser';
+
+describe('Report URI parser', () => {
+  describe('parseReportUri', () => {
+    it('should parse a mailto URI without a size limit', () => {
+      expect(parseReportUri('mailto:dmarc@example.com')).toEqual({
+        uri: 'mailto:dmarc@example.com',
+        scheme: 'mailto',
+        address: 'dmarc@example.com',
+        maxSize: null,
+      });
+    });
+
+    it('should convert size limits to bytes', () => {
+      expect(parseReportUri('mailto:a@b.com!500').maxSize).toBe(500);
+      expect(parseReportUri('mailto:a@b.com!10k').maxSize).toBe(10 * 1024);
+      expect(parseReportUri('mailto:a@b.com!10m').maxSize).toBe(10 * 1024 * 1024);
+      expect(parseReportUri('mailto:a@b.com!1G').maxSize).toBe(1024 ** 3);
+      expect(parseReportUri('mailto:a@b.com!10m').address).toBe('a@b.com');
+    });
+
+    it('should treat a "!" not followed by digits as part of the address', () => {
+      expect(parseReportUri('mailto:a!b@example.com')).toMatchObject({ address: 'a!b@example.com', maxSize: null });
+      expect(parseReportUri('mailto:!0a@example.com')).toMatchObject({ address: '!0a@example.com', maxSize: null });
+    });
+
+    it('should keep non-mailto schemes', () => {
+      const reportUri = parseReportUri('https://reports.example.com/dmarc');
+
+      expect(reportUri.scheme).toBe('https');
+      expect(reportUri.address).toBe('//reports.example.com/dmarc');
+    });
+
+    it('should report a null scheme for bare addresses', () => {
+      const reportUri = parseReportUri('dmarc@example.com');
+
+      expect(reportUri.scheme).toBeNull();
+      expect(reportUri.address).toBe('dmarc@example.com');
+    });
+
+    it('should throw on malformed size limits', () => {
+      expect(() => parseReportUri('mailto:a@b.com!1.5m')).toThrow('Invalid report URI size limit');
+      expect(() => parseReportUri('mailto:a@b.com!10mb')).toThrow('Invalid report URI size limit');
+    });
+  });
+});
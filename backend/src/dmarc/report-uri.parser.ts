@@ -0,0 +1,41 @@
+import type { DmarcReportUri } from '@dmarc-portal/contracts';
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+  t: 1024 ** 4,
+};
+
+/**
+ * Parses a single DMARC report URI as defined by RFC 7489 section 6.2
+ * @param uri The URI from a rua or ruf tag, e.g. "mailto:reports@example.com!10m"
+ * @returns The structured URI
+ * @throws Error if the size limit suffix is malformed
+ */
+export function parseReportUri(uri: string): DmarcReportUri {
+  const raw = uri.trim();
+  let target = raw;
+  let maxSize: number | null = null;
+
+  // A size limit is a trailing "!" followed by digits; other "!" characters belong to the address
+  const sizeIndex = raw.lastIndexOf('!');
+  if (sizeIndex !== -1 && /^\d[^@]*$/.test(raw.substring(sizeIndex + 1))) {
+    const sizeMatch = /^(\d+)([kmgt]?)$/i.exec(raw.substring(sizeIndex + 1));
+    if (!sizeMatch) {
+      throw new Error(`Invalid report URI size limit: ${raw}`);
+    }
+    maxSize = parseInt(sizeMatch[1], 10) * SIZE_UNITS[sizeMatch[2].toLowerCase()];
+    target = raw.substring(0, sizeIndex);
+  }
+
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):(.*)$/i.exec(target);
+
+  return {
+    uri: raw,
+    scheme: schemeMatch ? schemeMatch[1].toLowerCase() : null,
+    address: schemeMatch ? schemeMatch[2] : target,
+    maxSize,
+  };
+}
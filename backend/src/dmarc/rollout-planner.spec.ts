@@ -0,0 +1,66 @@
+import { getRolloutStage, planRollout } from './rollout-planner';
+import { parseDmarcRecordDiagnostics } from './dmarc-record.parser';
+
+describe('Rollout planner', () => {
+  const parse = (record: string) => parseDmarcRecordDiagnostics(record).policy!;
+
+  it('should classify policies into rollout stages', () => {
+    expect(getRolloutStage(parse('v=DMARC1; p=none'))).toBe('monitor');
+    expect(getRolloutStage(parse('v=DMARC1; p=quarantine; pct=10'))).toBe('quarantine-partial');
+    expect(getRolloutStage(parse('v=DMARC1; p=quarantine; t=y'))).toBe('quarantine-partial');
+    expect(getRolloutStage(parse('v=DMARC1; p=quarantine; pct=100'))).toBe('quarantine');
+    expect(getRolloutStage(parse('v=DMARC1; p=reject; pct=50'))).toBe('reject-partial');
+    expect(getRolloutStage(parse('v=DMARC1; p=reject'))).toBe('reject');
+  });
+
+  it('should plan every stage from monitoring to reject while keeping other tags', () => {
+    const plan = planRollout(parse('v=DMARC1; p=none; rua=mailto:dmarc@example.com; adkim=s'), 'example.com', 'rfc7489');
+
+    expect(plan.currentStage).toBe('monitor');
+    expect(plan.steps.map(step => step.status)).toEqual(['current', 'upcoming', 'upcoming', 'upcoming', 'upcoming']);
+    expect(plan.steps.map(step => step.targetRecord)).toEqual([
+      'v=DMARC1; p=none; rua=mailto:dmarc@example.com; adkim=s; aspf=r',
+      'v=DMARC1; p=quarantine; pct=25; rua=mailto:dmarc@example.com; adkim=s; aspf=r',
+      'v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com; adkim=s; aspf=r',
+      'v=DMARC1; p=reject; pct=25; rua=mailto:dmarc@example.com; adkim=s; aspf=r',
+      'v=DMARC1; p=reject; rua=mailto:dmarc@example.com; adkim=s; aspf=r',
+    ]);
+    expect(plan.steps.every(step => step.entryCriteria.length > 0)).toBe(true);
+    expect(plan.steps[plan.steps.length - 1].dwellTimeDays).toBe(0);
+  });
+
+  it('should raise weaker subdomain policies to the stage policy', () => {
+    const plan = planRollout(parse('v=DMARC1; p=none; sp=none; rua=mailto:dmarc@example.com'), 'example.com', 'rfc7489');
+
+    expect(plan.steps.map(step => step.targetRecord)).toEqual([
+      'v=DMARC1; p=none; sp=none; rua=mailto:dmarc@example.com',
+      'v=DMARC1; p=quarantine; sp=quarantine; pct=25; rua=mailto:dmarc@example.com',
+      'v=DMARC1; p=quarantine; sp=quarantine; rua=mailto:dmarc@example.com',
+      'v=DMARC1; p=reject; sp=reject; pct=25; rua=mailto:dmarc@example.com',
+      'v=DMARC1; p=reject; sp=reject; rua=mailto:dmarc@example.com',
+    ]);
+  });
+
+  it('should keep a stricter subdomain policy', () => {
+    const plan = planRollout(parse('v=DMARC1; p=none; sp=reject; np=reject; rua=mailto:dmarc@example.com'), 'example.com', 'dmarcbis');
+
+    expect(plan.steps[2].targetRecord).toBe('v=DMARC1; p=quarantine; sp=reject; np=reject; rua=mailto:dmarc@example.com');
+  });
+
+  it('should use testing mode instead of pct in DMARCbis mode', () => {
+    const plan = planRollout(parse('v=DMARC1; p=quarantine; pct=50; rua=mailto:dmarc@example.com'), 'example.com', 'dmarcbis');
+
+    expect(plan.currentStage).toBe('quarantine-partial');
+    expect(plan.steps[0].status).toBe('completed');
+    expect(plan.steps[1]).toMatchObject({
+      status: 'current',
+      targetRecord: 'v=DMARC1; p=quarantine; t=y; rua=mailto:dmarc@example.com',
+    });
+  });
+
+  it('should add a placeholder aggregate report address when none is published', () => {
+    const plan = planRollout(parse('v=DMARC1; p=none'), 'example.com', 'rfc7489');
+
+    expect(plan.steps[0].targetRecord).toBe('v=DMARC1; p=none; rua=mailto:dmarc-reports@example.com');
+  });
+});
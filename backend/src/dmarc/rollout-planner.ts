@@ -0,0 +1,130 @@
+import type { DmarcPolicy, DmarcRolloutStage, PolicyAction, RolloutPlan, RolloutStep } from '@dmarc-portal/contracts';
+import type { DmarcSpecMode } from './dmarc-validator.service';
+import { ROLLOUT_STAGES } from './dmarc-record.generator';
+import { serializeDmarcPolicy } from './dmarc-record.serializer';
+import { parseReportUri } from './report-uri.parser';
+
+const STAGE_ORDER: DmarcRolloutStage[] = ['monitor', 'quarantine-partial', 'quarantine', 'reject-partial', 'reject'];
+
+const POLICY_STRENGTH: Record<PolicyAction, number> = { none: 0, quarantine: 1, reject: 2 };
+
+const STAGE_DETAILS: Record<DmarcRolloutStage, { title: string; entryCriteria: string[]; dwellTimeDays: number }> = {
+  'monitor': {
+    title: 'Monitor with aggregate reports',
+    entryCriteria: [
+      'An aggregate report address (rua) is published so you can see every source sending mail as the domain',
+    ],
+    dwellTimeDays: 30,
+  },
+  'quarantine-partial': {
+    title: 'Quarantine a sample of failing mail',
+    entryCriteria: [
+      'Aggregate reports cover at least two weeks of normal mail flow',
+      'Every legitimate sending source passes SPF or DKIM with alignment',
+      'Unknown sources in the reports have been identified or ruled out',
+    ],
+    dwellTimeDays: 14,
+  },
+  'quarantine': {
+    title: 'Quarantine all failing mail',
+    entryCriteria: [
+      'No legitimate mail was reported as quarantined during the partial rollout',
+      'Mail failing DMARC comes only from unauthorized sources',
+    ],
+    dwellTimeDays: 30,
+  },
+  'reject-partial': {
+    title: 'Reject a sample of failing mail',
+    entryCriteria: [
+      'Full quarantine has run for at least 30 days without legitimate mail loss',
+      'Users and helpdesk report no missing mail from known senders',
+    ],
+    dwellTimeDays: 14,
+  },
+  'reject': {
+    title: 'Reject all failing mail',
+    entryCriteria: [
+      'No legitimate mail was rejected during the partial rollout',
+    ],
+    dwellTimeDays: 0,
+  },
+};
+
+/**
+ * Builds a staged migration plan from the current policy to full p=reject enforcement
+ * @param policy The domain's current DMARC policy
+ * @param domain The domain the policy is published for, used for a placeholder rua address
+ * @param specMode rfc7489 samples with pct; dmarcbis uses testing mode (t=y) instead
+ * @returns Every stage with its target record and whether it is completed, current or upcoming
+ */
+export function planRollout(policy: DmarcPolicy, domain: string, specMode: DmarcSpecMode): RolloutPlan {
+  const currentStage = getRolloutStage(policy);
+  const currentIndex = STAGE_ORDER.indexOf(currentStage);
+
+  const steps = STAGE_ORDER.map((stage, index): RolloutStep => ({
+    stage,
+    ...STAGE_DETAILS[stage],
+    targetRecord: serializeDmarcPolicy(buildStagePolicy(policy, stage, domain, specMode)),
+    status: index < currentIndex ? 'completed' : index === currentIndex ? 'current' : 'upcoming',
+  }));
+
+  return { currentStage, steps };
+}
+
+/**
+ * Determines which rollout stage a policy corresponds to
+ * @param policy The DMARC policy
+ * @returns The stage; partial stages are policies sampled with pct below 100 or in testing mode
+ */
+export function getRolloutStage(policy: DmarcPolicy): DmarcRolloutStage {
+  if (policy.policy === 'none') {
+    return 'monitor';
+  }
+
+  const partial = policy.testing === true || (policy.percentage !== undefined && policy.percentage < 100);
+  if (policy.policy === 'quarantine') {
+    return partial ? 'quarantine-partial' : 'quarantine';
+  }
+  return partial ? 'reject-partial' : 'reject';
+}
+
+function buildStagePolicy(
+  policy: DmarcPolicy,
+  stage: DmarcRolloutStage,
+  domain: string,
+  specMode: DmarcSpecMode,
+): DmarcPolicy {
+  const { policy: stagePolicy, percentage } = ROLLOUT_STAGES[stage];
+  const stageRecord: DmarcPolicy = {
+    ...policy,
+    policy: stagePolicy,
+    percentage: undefined,
+    testing: undefined,
+  };
+
+  // A weaker sp or np would leave subdomains outside the stage's enforcement, so raise them to the stage policy
+  if (stageRecord.subdomainPolicy && POLICY_STRENGTH[stageRecord.subdomainPolicy] < POLICY_STRENGTH[stagePolicy]) {
+    stageRecord.subdomainPolicy = stagePolicy;
+  }
+  if (
+    stageRecord.nonExistentSubdomainPolicy &&
+    POLICY_STRENGTH[stageRecord.nonExistentSubdomainPolicy] < POLICY_STRENGTH[stagePolicy]
+  ) {
+    stageRecord.nonExistentSubdomainPolicy = stagePolicy;
+  }
+
+  if (percentage !== undefined) {
+    if (specMode === 'dmarcbis') {
+      stageRecord.testing = true;
+    } else {
+      stageRecord.percentage = percentage;
+    }
+  }
+
+  // Every stage relies on aggregate reports to decide when to move on
+  if (!stageRecord.aggregateReportUris || stageRecord.aggregateReportUris.length === 0) {
+    stageRecord.aggregateReportUris = [parseReportUri(`mailto:dmarc-reports@${domain}`)];
+  }
+
+  return stageRecord;
+}
@@ -0,0 +1,73 @@
+import { calculateSecurityScore, gradeForScore } from './security-score';
+import { DmarcPolicy, ValidationIssue } from './dmarc-validator.service';
+import { parseReportUri } from './report-uri.parser';
+
+describe('Security score', () => {
+  const warning: ValidationIssue = {
+    type: 'weak_policy',
+    severity: 'warning',
+    message: 'Weak policy',
+    recommendation: 'Strengthen it',
+  };
+
+  const policy = (overrides: Partial<DmarcPolicy>): DmarcPolicy => ({
+    version: 'DMARC1',
+    policy: 'none',
+    rawRecord: 'v=DMARC1',
+    ...overrides,
+  });
+
+  it('should score domains without a usable policy as 0 / F', () => {
+    expect(calculateSecurityScore(undefined, [])).toEqual({ score: 0, grade: 'F' });
+  });
+
+  it('should award full marks to a strict, reporting reject policy', () => {
+    const score = calculateSecurityScore(policy({
+      policy: 'reject',
+      subdomainPolicy: 'reject',
+      aggregateReportUris: [parseReportUri('mailto:dmarc@example.com')],
+      alignment: { dkim: 'strict', spf: 'relaxed' },
+    }), []);
+
+    expect(score).toEqual({ score: 100, grade: 'A' });
+  });
+
+  it('should tell monitoring with reports apart from partial enforcement', () => {
+    const monitoring = calculateSecurityScore(policy({
+      policy: 'none',
+      aggregateReportUris: [parseReportUri('mailto:dmarc@example.com')],
+    }), [warning]);
+    const partial = calculateSecurityScore(policy({ policy: 'quarantine', percentage: 10 }), []);
+
+    // none: 0 + sp 0 + rua 20 + hygiene 5
+    expect(monitoring.score).toBe(25);
+    // quarantine at 10%: 3.5 + sp 10 + hygiene 10
+    expect(partial.score).toBe(24);
+  });
+
+  it('should count testing mode as one enforcement level lower', () => {
+    const enforced = calculateSecurityScore(policy({ policy: 'reject' }), []);
+    const testing = calculateSecurityScore(policy({ policy: 'reject', testing: true }), []);
+
+    expect(enforced.score - testing.score).toBe(15);
+  });
+
+  it('should deduct hygiene points per finding without going below zero', () => {
+    const errors = Array(3).fill({ ...warning, severity: 'error' });
+    const clean = calculateSecurityScore(policy({ policy: 'reject' }), []);
+    const broken = calculateSecurityScore(policy({ policy: 'reject' }), errors);
+
+    expect(clean.score - broken.score).toBe(10);
+  });
+
+  it('should map scores to grades at the documented thresholds', () => {
+    expect(gradeForScore(100)).toBe('A');
+    expect(gradeForScore(90)).toBe('A');
+    expect(gradeForScore(89)).toBe('B');
+    expect(gradeForScore(75)).toBe('B');
+    expect(gradeForScore(60)).toBe('C');
+    expect(gradeForScore(40)).toBe('D');
+    expect(gradeForScore(39)).toBe('F');
+    expect(gradeForScore(0)).toBe('F');
+  });
+});
@@ -0,0 +1,82 @@
+import type { DmarcPolicy, SecurityGrade, SecurityScore, ValidationIssue } from '@dmarc-portal/contracts';
+
+type PolicyLevel = 'none' | 'quarantine' | 'reject';
+
+/**
+ * Points awarded per scoring component. The maximum total is 100:
+ * - policy (50): p=quarantine earns 35, p=reject 50, scaled by pct/100.
+ *   Testing mode (t=y) counts as one level lower, as receivers apply it that way.
+ * - subdomainPolicy (15): the effective sp (defaults to p): quarantine 10, reject 15.
+ * - aggregateReports (20): at least one mailto: rua destination.
+ * - alignment (5): strict DKIM or SPF alignment.
+ * - hygiene (10): reduced by 10 per error and 5 per warning finding, down to 0.
+ * Domains without a usable policy (missing, unparseable or duplicated record) score 0.
+ */
+export const SCORE_WEIGHTS = {
+  policy: { none: 0, quarantine: 35, reject: 50 } as Record<PolicyLevel, number>,
+  subdomainPolicy: { none: 0, quarantine: 10, reject: 15 } as Record<PolicyLevel, number>,
+  aggregateReports: 20,
+  alignment: 5,
+  hygiene: 10,
+  errorPenalty: 10,
+  warningPenalty: 5,
+};
+
+/**
+ * Lower score bound for each grade, checked from best to worst
+ */
+export const GRADE_THRESHOLDS: Array<{ grade: SecurityGrade; minScore: number }> = [
+  { grade: 'A', minScore: 90 },
+  { grade: 'B', minScore: 75 },
+  { grade: 'C', minScore: 60 },
+  { grade: 'D', minScore: 40 },
+  { grade: 'F', minScore: 0 },
+];
+
+/**
+ * Calculates a deterministic 0-100 security score and letter grade for a DMARC configuration
+ * @param policy The parsed DMARC policy, undefined when no usable policy was found
+ * @param issues All validation issues found for the domain
+ * @returns The score and grade
+ */
+export function calculateSecurityScore(policy: DmarcPolicy | undefined, issues: ValidationIssue[]): SecurityScore {
+  if (!policy) {
+    return { score: 0, grade: 'F' };
+  }
+
+  const percentage = policy.percentage ?? 100;
+  const appliedPolicy = policy.testing ? downgradePolicy(policy.policy) : policy.policy;
+  const policyPoints = SCORE_WEIGHTS.policy[appliedPolicy] * (percentage / 100);
+
+  const subdomainPoints = SCORE_WEIGHTS.subdomainPolicy[policy.subdomainPolicy ?? policy.policy];
+
+  const hasAggregateReports = (policy.aggregateReportUris || []).some(reportUri => reportUri.scheme === 'mailto');
+  const reportPoints = hasAggregateReports ? SCORE_WEIGHTS.aggregateReports : 0;
+
+  const hasStrictAlignment = policy.alignment?.dkim === 'strict' || policy.alignment?.spf === 'strict';
+  const alignmentPoints = hasStrictAlignment ? SCORE_WEIGHTS.alignment : 0;
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length;
+  const hygienePoints = Math.max(
+    0,
+    SCORE_WEIGHTS.hygiene - errorCount * SCORE_WEIGHTS.errorPenalty - warningCount * SCORE_WEIGHTS.warningPenalty,
+  );
+
+  const score = Math.round(policyPoints + subdomainPoints + reportPoints + alignmentPoints + hygienePoints);
+
+  return { score, grade: gradeForScore(score) };
+}
+
+/**
+ * Maps a score to its letter grade
+ * @param score The 0-100 score
+ * @returns The letter grade
+ */
+export function gradeForScore(score: number): SecurityGrade {
+  return GRADE_THRESHOLDS.find(threshold => score >= threshold.minScore).grade;
+}
+
+function downgradePolicy(policy: PolicyLevel): PolicyLevel {
+  return policy === 'reject' ? 'quarantine' : 'none';
+}
@@ -0,0 +1,31 @@
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+/**
+ * Where DnsService gets its raw answers from
+ * Failures are errors with a Node-style code: ENOTFOUND for a name that does not exist, ENODATA for a name
+ * without records of the type, and ESERVFAIL, EREFUSED, ETIMEOUT etc. for lookups that could not be answered.
+ */
+export interface DnsBackend {
+  resolveTxt(name: string): Promise<string[][]>;
+  resolve4(name: string): Promise<string[]>;
+  resolve6(name: string): Promise<string[]>;
+  resolveMx(name: string): Promise<MxRecord[]>;
+  resolveTlsa(name: string): Promise<TlsaRecord[]>;
+}
+
+/**
+ * Creates a lookup error shaped like the ones Node's resolver throws
+ * @param type The record type queried, e.g. "TXT"
+ * @param code The Node-style error code, e.g. "ESERVFAIL"
+ * @param name The name queried
+ * @returns An error such as "queryTxt ESERVFAIL example.com" with its code set
+ */
+export function createDnsError(type: string, code: string, name: string): Error & { code: string } {
+  const queryName = `query${type.charAt(0).toUpperCase()}${type.slice(1).toLowerCase()}`;
+  return Object.assign(new Error(`${queryName} ${code} ${name}`), { code });
+}
@@ -0,0 +1,66 @@
+import { DNS_RECORD_TYPES, decodeMessage, decodeName, decodeTlsaRecord, encodeQuery } from './dns-message';
+
+describe('DNS message codec', () => {
+  it('should encode a recursive query with an EDNS0 OPT record', () => {
+    const query = encodeQuery(0x1234, '_dmarc.Example.com.', 'TXT');
+
+    expect(query.readUInt16BE(0)).toBe(0x1234);
+    // RD only; no AD, CD or DO without DNSSEC options
+    expect(query.readUInt16BE(2)).toBe(0x0100);
+    expect([query.readUInt16BE(4), query.readUInt16BE(6), query.readUInt16BE(8), query.readUInt16BE(10)]).toEqual([1, 0, 0, 1]);
+
+    const decoded = decodeMessage(query);
+    expect(decoded.isResponse).toBe(false);
+    expect(decoded.questions).toEqual([{ name: '_dmarc.example.com', type: DNS_RECORD_TYPES.TXT }]);
+    expect(decoded.dnssecOk).toBe(false);
+  });
+
+  it('should set the DNSSEC flags when asked', () => {
+    const decoded = decodeMessage(encodeQuery(1, 'example.com', 'TLSA', { dnssecOk: true, checkingDisabled: true }));
+
+    expect(decoded.authenticData).toBe(true);
+    expect(decoded.checkingDisabled).toBe(true);
+    expect(decoded.dnssecOk).toBe(true);
+    expect(decoded.questions[0].type).toBe(DNS_RECORD_TYPES.TLSA);
+  });
+
+  it('should reject names with empty or overlong labels', () => {
+    expect(() => encodeQuery(1, 'example..com', 'TXT')).toThrow('Invalid DNS name');
+    expect(() => encodeQuery(1, `${'a'.repeat(64)}.com`, 'TXT')).toThrow('Invalid DNS name');
+  });
+
+  it('should decode answers with compressed names', () => {
+    const header = Buffer.from([0xab, 0xcd, 0x81, 0xa3, 0, 1, 0, 1, 0, 0, 0, 0]);
+    const question = Buffer.from([7, ...Buffer.from('example'), 3, ...Buffer.from('com'), 0, 0, 16, 0, 1]);
+    const txt = Buffer.from([5, ...Buffer.from('hello')]);
+    // Owner name is a pointer to the question name at offset 12
+    const answer = Buffer.from([0xc0, 12, 0, 16, 0, 1, 0, 0, 0x0e, 0x10, 0, txt.length, ...txt]);
+
+    const decoded = decodeMessage(Buffer.concat([header, question, answer]));
+
+    expect(decoded).toEqual(expect.objectContaining({
+      id: 0xabcd,
+      isResponse: true,
+      rcode: 3,
+      authenticData: true,
+      truncated: false,
+    }));
+    expect(decoded.answers).toEqual([{ name: 'example.com', type: DNS_RECORD_TYPES.TXT, ttl: 3600, data: txt }]);
+  });
+
+  it('should reject truncated messages and compression loops', () => {
+    expect(() => decodeMessage(Buffer.alloc(6))).toThrow('shorter than its header');
+    expect(() => decodeMessage(encodeQuery(1, 'example.com', 'TXT').subarray(0, 20))).toThrow('truncated');
+    expect(() => decodeName(Buffer.from([0xc0, 0]), 0)).toThrow('loops');
+  });
+
+  it('should decode TLSA record data', () => {
+    expect(decodeTlsaRecord(Buffer.from([3, 1, 1, 0x0c, 0x72, 0xac]))).toEqual({
+      usage: 3,
+      selector: 1,
+      matchingType: 1,
+      certificateData: '0c72ac',
+    });
+    expect(() => decodeTlsaRecord(Buffer.from([3, 1]))).toThrow('shorter than its parameters');
+  });
+});
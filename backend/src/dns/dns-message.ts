@@ -0,0 +1,237 @@
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+
+// Record type numbers (RFC 1035 section 3.2.2 and later registrations)
+export const DNS_RECORD_TYPES = {
+  A: 1,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  OPT: 41,
+  RRSIG: 46,
+  TLSA: 52,
+} as const;
+
+export type DnsRecordType = keyof typeof DNS_RECORD_TYPES;
+
+// Response codes (RFC 1035 section 4.1.1)
+export const DNS_RCODES: Record<number, string> = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+};
+
+export const RCODE_NOERROR = 0;
+export const RCODE_SERVFAIL = 2;
+export const RCODE_NXDOMAIN = 3;
+
+// Large enough for signed answers, small enough to avoid IP fragmentation (DNS flag day 2020)
+const EDNS_UDP_PAYLOAD_SIZE = 1232;
+
+const FLAG_QR = 0x8000;
+const FLAG_TC = 0x0200;
+const FLAG_RD = 0x0100;
+const FLAG_AD = 0x0020;
+const FLAG_CD = 0x0010;
+// DNSSEC OK, in the flags of the OPT pseudo-record (RFC 3225)
+const EDNS_FLAG_DO = 0x8000;
+
+export interface DnsQueryOptions {
+  // Ask for RRSIG records and the AD flag (RFC 3225)
+  dnssecOk?: boolean;
+  // Ask the resolver not to validate, so it answers even when signatures fail (RFC 4035 section 3.2.2)
+  checkingDisabled?: boolean;
+}
+
+export interface DnsQuestion {
+  name: string;
+  type: number;
+}
+
+export interface DnsResourceRecord {
+  name: string;
+  type: number;
+  ttl: number;
+  // Raw RDATA; names inside it may be compressed against the whole message
+  data: Buffer;
+}
+
+export interface DnsMessage {
+  id: number;
+  isResponse: boolean;
+  rcode: number;
+  // The resolver validated the answer with DNSSEC (RFC 4035 section 3.2.3)
+  authenticData: boolean;
+  checkingDisabled: boolean;
+  truncated: boolean;
+  questions: DnsQuestion[];
+  answers: DnsResourceRecord[];
+  // The DO flag of the OPT pseudo-record, false when there is none
+  dnssecOk: boolean;
+}
+
+/**
+ * Encodes a recursive query for one name and type, with an EDNS0 OPT record
+ * @param id The query ID the response must echo
+ * @param name The name to query, with or without the trailing dot
+ * @param type The record type to query
+ * @param options DNSSEC flags to set
+ * @returns The query in wire format
+ * @throws Error if a label of the name is empty or longer than 63 bytes
+ */
+export function encodeQuery(id: number, name: string, type: DnsRecordType, options: DnsQueryOptions = {}): Buffer {
+  const header = Buffer.alloc(12);
+  // AD in a query asks the resolver to report whether it validated the answer (RFC 6840 section 5.7)
+  const flags = FLAG_RD
+    | (options.dnssecOk ? FLAG_AD : 0)
+    | (options.checkingDisabled ? FLAG_CD : 0);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(flags, 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(1, 10);
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(DNS_RECORD_TYPES[type], 0);
+  question.writeUInt16BE(1, 2);
+
+  const opt = Buffer.alloc(11);
+  opt.writeUInt16BE(DNS_RECORD_TYPES.OPT, 1);
+  opt.writeUInt16BE(EDNS_UDP_PAYLOAD_SIZE, 3);
+  opt.writeUInt16BE(options.dnssecOk ? EDNS_FLAG_DO : 0, 7);
+
+  return Buffer.concat([header, encodeName(name), question, opt]);
+}
+
+/**
+ * Decodes a DNS message, keeping the RDATA of each answer undecoded
+ * @param message The message in wire format
+ * @returns The header flags, the questions and the answer records
+ * @throws Error if the message is truncated or malformed
+ */
+export function decodeMessage(message: Buffer): DnsMessage {
+  if (message.length < 12) {
+    throw new Error('DNS message is shorter than its header');
+  }
+
+  const flags = message.readUInt16BE(2);
+  const decoded: DnsMessage = {
+    id: message.readUInt16BE(0),
+    isResponse: (flags & FLAG_QR) !== 0,
+    rcode: flags & 0x000f,
+    authenticData: (flags & FLAG_AD) !== 0,
+    checkingDisabled: (flags & FLAG_CD) !== 0,
+    truncated: (flags & FLAG_TC) !== 0,
+    questions: [],
+    answers: [],
+    dnssecOk: false,
+  };
+
+  let offset = 12;
+  for (let count = message.readUInt16BE(4); count > 0; count--) {
+    const [name, next] = decodeName(message, offset);
+    ensureLength(message, next + 4);
+    decoded.questions.push({ name, type: message.readUInt16BE(next) });
+    offset = next + 4;
+  }
+
+  const sections = [message.readUInt16BE(6), message.readUInt16BE(8), message.readUInt16BE(10)];
+  sections.forEach((count, section) => {
+    for (; count > 0; count--) {
+      const [name, next] = decodeName(message, offset);
+      ensureLength(message, next + 10);
+      const type = message.readUInt16BE(next);
+      const ttl = message.readUInt32BE(next + 4);
+      const length = message.readUInt16BE(next + 8);
+      ensureLength(message, next + 10 + length);
+      const data = message.subarray(next + 10, next + 10 + length);
+      offset = next + 10 + length;
+
+      if (section === 0) {
+        decoded.answers.push({ name, type, ttl, data });
+      } else if (section === 2 && type === DNS_RECORD_TYPES.OPT) {
+        // The TTL field of OPT carries the extended RCODE, the version and the flags
+        decoded.dnssecOk = (ttl & EDNS_FLAG_DO) !== 0;
+      }
+    }
+  });
+
+  return decoded;
+}
+
+/**
+ * Decodes a possibly compressed name, e.g. inside MX or RRSIG RDATA
+ * @param message The whole message the name may point into
+ * @param offset Where the name starts
+ * @returns The lower-cased name without the trailing dot, and the offset after it
+ * @throws Error for truncated names and compression loops
+ */
+export function decodeName(message: Buffer, offset: number): [string, number] {
+  const labels: string[] = [];
+  let position = offset;
+  let end = -1;
+  let jumps = 0;
+
+  for (;;) {
+    ensureLength(message, position + 1);
+    const length = message[position];
+
+    if ((length & 0xc0) === 0xc0) {
+      ensureLength(message, position + 2);
+      if (++jumps > 64) {
+        throw new Error('DNS name compression loops');
+      }
+      if (end < 0) {
+        end = position + 2;
+      }
+      position = message.readUInt16BE(position) & 0x3fff;
+      continue;
+    }
+
+    if (length === 0) {
+      return [labels.join('.').toLowerCase(), end < 0 ? position + 1 : end];
+    }
+
+    ensureLength(message, position + 1 + length);
+    labels.push(message.toString('latin1', position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+}
+
+/**
+ * Decodes the RDATA of a TLSA record (RFC 6698 section 2.1)
+ * @param data The RDATA: usage, selector and matching type octets followed by the association data
+ * @returns The record with the association data in hex
+ * @throws Error if the RDATA is shorter than the three parameter octets
+ */
+export function decodeTlsaRecord(data: Buffer): TlsaRecord {
+  if (data.length < 3) {
+    throw new Error('TLSA record is shorter than its parameters');
+  }
+  return {
+    usage: data[0],
+    selector: data[1],
+    matchingType: data[2],
+    certificateData: data.subarray(3).toString('hex'),
+  };
+}
+
+function encodeName(name: string): Buffer {
+  const trimmed = name.replace(/\.$/, '');
+  const labels = trimmed === '' ? [] : trimmed.split('.');
+  const parts = labels.map(label => {
+    const bytes = Buffer.from(label, 'latin1');
+    if (bytes.length === 0 || bytes.length > 63) {
+      throw new Error(`Invalid DNS name: ${name}`);
+    }
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...parts, Buffer.from([0])]);
+}
+
+function ensureLength(message: Buffer, length: number): void {
+  if (message.length < length) {
+    throw new Error('DNS message is truncated');
+  }
+}
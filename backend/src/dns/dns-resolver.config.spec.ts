@@ -0,0 +1,49 @@
+import { DEFAULT_DNS_RESOLVER_CONFIG, loadDnsResolverConfig } from './dns-resolver.config';
+
+describe('loadDnsResolverConfig', () => {
+  it('should use the defaults when nothing is configured', () => {
+    expect(loadDnsResolverConfig({})).toEqual(DEFAULT_DNS_RESOLVER_CONFIG);
+  });
+
+  it('should read the servers, timing and consensus mode', () => {
+    expect(loadDnsResolverConfig({
+      DNS_RESOLVERS: ' 192.0.2.1, [2001:db8::53]:5353,,',
+      DNS_TIMEOUT_MS: '1500',
+      DNS_RETRIES: '0',
+      DNS_RETRY_BACKOFF_MS: '50',
+      DNS_CONSENSUS: 'TRUE',
+    })).toEqual({
+      backend: 'system',
+      zoneFile: null,
+      servers: ['192.0.2.1', '[2001:db8::53]:5353'],
+      timeoutMs: 1500,
+      retries: 0,
+      retryBackoffMs: 50,
+      consensus: true,
+      dnssecResolver: null,
+    });
+  });
+
+  it('should read the validating resolver for DNSSEC checks', () => {
+    expect(loadDnsResolverConfig({ DNSSEC_RESOLVER: ' 1.1.1.1 ' }).dnssecResolver).toBe('1.1.1.1:53');
+    expect(loadDnsResolverConfig({ DNSSEC_RESOLVER: '[2001:db8::53]:5353' }).dnssecResolver).toBe('[2001:db8::53]:5353');
+    expect(() => loadDnsResolverConfig({ DNSSEC_RESOLVER: '192.0.2.53:domain' })).toThrow('Invalid DNSSEC_RESOLVER: 192.0.2.53:domain');
+    // Fixture answers cannot be checked by a real resolver
+    expect(loadDnsResolverConfig({ DNS_BACKEND: 'zone', DNS_ZONE_FILE: 'fixtures/demo.zone', DNSSEC_RESOLVER: '1.1.1.1' }).dnssecResolver)
+      .toBeNull();
+  });
+
+  it('should select the zone backend with its fixture', () => {
+    expect(loadDnsResolverConfig({ DNS_BACKEND: 'Zone', DNS_ZONE_FILE: 'fixtures/demo.zone' })).toEqual(expect.objectContaining({
+      backend: 'zone',
+      zoneFile: 'fixtures/demo.zone',
+    }));
+    expect(() => loadDnsResolverConfig({ DNS_BACKEND: 'zone' })).toThrow('DNS_ZONE_FILE is required');
+    expect(() => loadDnsResolverConfig({ DNS_BACKEND: 'bind' })).toThrow('Invalid DNS_BACKEND');
+  });
+
+  it('should reject numbers that are not non-negative integers', () => {
+    expect(() => loadDnsResolverConfig({ DNS_TIMEOUT_MS: '5s' })).toThrow('Invalid DNS_TIMEOUT_MS: 5s is not a non-negative integer');
+    expect(() => loadDnsResolverConfig({ DNS_RETRIES: '-1' })).toThrow('Invalid DNS_RETRIES');
+  });
+});
@@ -0,0 +1,86 @@
+import { formatServerAddress, parseServerAddress } from './dns-udp';
+
+export type DnsBackendKind = 'system' | 'zone';
+
+export interface DnsResolverConfig {
+  // "system" queries real resolvers; "zone" answers every lookup from the fixture in zoneFile
+  backend: DnsBackendKind;
+  // BIND-style zone file, or JSON fixture when it ends in .json
+  zoneFile: string | null;
+  // Upstream nameservers as "host", "host:port" or "[ipv6]:port"; empty to use the system resolvers
+  servers: string[];
+  // How long a single query attempt may take
+  timeoutMs: number;
+  // How many times a query is repeated after a timeout or server failure
+  retries: number;
+  // Delay before the first retry, doubled for each further retry
+  retryBackoffMs: number;
+  // Query every server separately for the records under validation and report disagreement
+  consensus: boolean;
+  // Validating resolver asked for the DNSSEC status of answers, as "host:port"; null skips DNSSEC checks
+  dnssecResolver: string | null;
+}
+
+export const DEFAULT_DNS_RESOLVER_CONFIG: DnsResolverConfig = {
+  backend: 'system',
+  zoneFile: null,
+  servers: [],
+  timeoutMs: 5000,
+  retries: 2,
+  retryBackoffMs: 200,
+  consensus: false,
+  dnssecResolver: null,
+};
+
+/**
+ * Reads the resolver settings from the environment
+ * DNS_BACKEND=zone with DNS_ZONE_FILE answers from a fixture instead of the network. DNS_RESOLVERS is a
+ * comma-separated server list; DNS_TIMEOUT_MS, DNS_RETRIES and DNS_RETRY_BACKOFF_MS tune each query;
+ * DNS_CONSENSUS=true compares the answers of every server. DNSSEC_RESOLVER names a validating resolver for
+ * DNSSEC checks, which are skipped with the zone backend since a real resolver cannot check fixture answers.
+ * @param env The environment to read, process.env by default
+ * @returns The configuration, with defaults for unset variables
+ * @throws Error if a numeric variable is not a non-negative integer, or the backend or DNSSEC resolver setting is invalid
+ */
+export function loadDnsResolverConfig(env: NodeJS.ProcessEnv = process.env): DnsResolverConfig {
+  const integer = (name: string, fallback: number): number => {
+    const value = env[name]?.trim();
+    if (!value) {
+      return fallback;
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`Invalid ${name}: ${value} is not a non-negative integer`);
+    }
+    return Number(value);
+  };
+
+  const backend = (env.DNS_BACKEND?.trim().toLowerCase() || DEFAULT_DNS_RESOLVER_CONFIG.backend) as DnsBackendKind;
+  if (backend !== 'system' && backend !== 'zone') {
+    throw new Error(`Invalid DNS_BACKEND: ${env.DNS_BACKEND} is not "system" or "zone"`);
+  }
+  const zoneFile = env.DNS_ZONE_FILE?.trim() || null;
+  if (backend === 'zone' && zoneFile === null) {
+    throw new Error('DNS_ZONE_FILE is required when DNS_BACKEND is "zone"');
+  }
+
+  let dnssecResolver: string | null = null;
+  const dnssecUpstream = env.DNSSEC_RESOLVER?.trim();
+  if (dnssecUpstream && backend === 'system') {
+    try {
+      dnssecResolver = formatServerAddress(parseServerAddress(dnssecUpstream));
+    } catch {
+      throw new Error(`Invalid DNSSEC_RESOLVER: ${dnssecUpstream} is not a "host", "host:port" or "[ipv6]:port" address`);
+    }
+  }
+
+  return {
+    backend,
+    zoneFile,
+    servers: (env.DNS_RESOLVERS ?? '').split(',').map(server => server.trim()).filter(server => server.length > 0),
+    timeoutMs: integer('DNS_TIMEOUT_MS', DEFAULT_DNS_RESOLVER_CONFIG.timeoutMs),
+    retries: integer('DNS_RETRIES', DEFAULT_DNS_RESOLVER_CONFIG.retries),
+    retryBackoffMs: integer('DNS_RETRY_BACKOFF_MS', DEFAULT_DNS_RESOLVER_CONFIG.retryBackoffMs),
+    consensus: env.DNS_CONSENSUS?.trim().toLowerCase() === 'true',
+    dnssecResolver,
+  };
+}
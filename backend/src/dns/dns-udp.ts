@@ -0,0 +1,93 @@
+import { randomInt } from 'crypto';
+import { createSocket } from 'dgram';
+import { isIPv6 } from 'net';
+import { DnsMessage, DnsQueryOptions, DnsRecordType, decodeMessage, encodeQuery } from './dns-message';
+
+const DNS_PORT = 53;
+
+export interface DnsServerAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Parses a nameserver address as written in configuration or returned by dns.getServers()
+ * @param address "host", "host:port", a bare IPv6 address or "[ipv6]:port"
+ * @returns The host and port, port 53 when none is given
+ * @throws Error if the address cannot be parsed
+ */
+export function parseServerAddress(address: string): DnsServerAddress {
+  const trimmed = address.trim();
+  if (isIPv6(trimmed)) {
+    return { host: trimmed, port: DNS_PORT };
+  }
+
+  const match = /^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/.exec(trimmed);
+  if (!match) {
+    throw new Error(`Invalid DNS server address: ${address}`);
+  }
+  return { host: match[1] ?? match[2], port: match[3] ? Number(match[3]) : DNS_PORT };
+}
+
+/**
+ * Formats a nameserver address as "host:port", bracketing IPv6 hosts
+ */
+export function formatServerAddress(server: DnsServerAddress): string {
+  return isIPv6(server.host) ? `[${server.host}]:${server.port}` : `${server.host}:${server.port}`;
+}
+
+/**
+ * Sends one query over UDP and waits for the response with the same ID
+ * @param server The nameserver to ask
+ * @param name The name to query
+ * @param type The record type to query
+ * @param options DNSSEC flags to set
+ * @param timeoutMs How long to wait for the response
+ * @returns The decoded response, whatever its RCODE
+ * @throws Error with code ETIMEOUT when no response arrives in time, or the socket error
+ */
+export function sendQuery(
+  server: DnsServerAddress,
+  name: string,
+  type: DnsRecordType,
+  options: DnsQueryOptions,
+  timeoutMs: number,
+): Promise<DnsMessage> {
+  const id = randomInt(0x10000);
+  const query = encodeQuery(id, name, type, options);
+  const socket = createSocket(isIPv6(server.host) ? 'udp6' : 'udp4');
+
+  return new Promise<DnsMessage>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      finish();
+      reject(Object.assign(new Error(`DNS query for ${type} ${name} timed out after ${timeoutMs} ms`), { code: 'ETIMEOUT' }));
+    }, timeoutMs);
+
+    const finish = () => {
+      clearTimeout(timer);
+      socket.close();
+    };
+
+    socket.on('error', error => {
+      finish();
+      reject(error);
+    });
+
+    socket.on('message', message => {
+      let response: DnsMessage;
+      try {
+        response = decodeMessage(message);
+      } catch {
+        // Ignore garbage and keep waiting for the real answer
+        return;
+      }
+
+      if (response.id === id && response.isResponse) {
+        finish();
+        resolve(response);
+      }
+    });
+
+    socket.send(query, server.port, server.host);
+  });
+}
@@ -1,13 +1,39 @@
 import { Module } from '@nestjs/common';
 import { DnsServiceImpl } from './dns.service';
+import { DnsResolverConfig, loadDnsResolverConfig } from './dns-resolver.config';
+import { DnssecResolverImpl } from './dnssec-resolver.service';
+import { PublicSuffixListService } from './public-suffix-list.service';
+import { SystemDnsBackend } from './system-dns-backend';
+import { ZoneDnsBackend } from './zone-dns-backend';
+import { loadZoneFixture } from './zone-file.parser';
 
 @Module({
   providers: [
+    PublicSuffixListService,
+    {
+      provide: 'DnsResolverConfig',
+      // Upstream resolvers, timeouts and retries from DNS_RESOLVERS, DNS_TIMEOUT_MS, DNS_RETRIES, ...
+      useFactory: () => loadDnsResolverConfig(),
+    },
+    {
+      provide: 'DnsBackend',
+      // DNS_BACKEND=zone runs the whole portal against the fixture zone in DNS_ZONE_FILE, e.g. for offline demos
+      useFactory: (config: DnsResolverConfig) => config.backend === 'zone' && config.zoneFile
+        ? new ZoneDnsBackend(loadZoneFixture(config.zoneFile))
+        : new SystemDnsBackend(config),
+      inject: ['DnsResolverConfig'],
+    },
     {
       provide: 'DnsService',
       useClass: DnsServiceImpl,
     },
+    {
+      provide: 'DnssecResolver',
+      // DNSSEC checks are skipped unless a validating resolver is configured, e.g. DNSSEC_RESOLVER=1.1.1.1
+      useFactory: (config: DnsResolverConfig) => new DnssecResolverImpl(config.dnssecResolver, config.timeoutMs),
+      inject: ['DnsResolverConfig'],
+    },
   ],
-  exports: ['DnsService'],
+  exports: ['DnsService', 'DnssecResolver', PublicSuffixListService],
 })
 export class DnsModule {}
\ No newline at end of file
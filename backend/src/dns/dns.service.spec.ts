@@ -1,13 +1,26 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { DnsServiceImpl } from './dns.service';
+import { DEFAULT_DNS_RESOLVER_CONFIG, DnsResolverConfig } from './dns-resolver.config';
+import { PublicSuffixListService } from './public-suffix-list.service';
+import { promises as dnsPromises } from 'dns';
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { decodeMessage } from './dns-message';
 import * as fc from 'fast-check';
 
 describe('DnsService', () => {
   let service: DnsServiceImpl;
+  const resolverPrototype = dnsPromises.Resolver.prototype;
+  // Retries without waiting, so failure tests stay fast
+  const config: DnsResolverConfig = { ...DEFAULT_DNS_RESOLVER_CONFIG, retryBackoffMs: 0 };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [DnsServiceImpl],
+      providers: [
+        DnsServiceImpl,
+        PublicSuffixListService,
+        { provide: 'DnsResolverConfig', useValue: config },
+      ],
     }).compile();
 
     service = module.get<DnsServiceImpl>(DnsServiceImpl);
@@ -53,6 +66,317 @@ describe('DnsService', () => {
     // The property test below will handle the comprehensive validation
   });
 
+  describe('lookupDmarcTxtRecords', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return every TXT record with split strings joined', async () => {
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockResolvedValue([
+        ['v=DMARC1; p=reject; ', 'rua=mailto:dmarc@example.com'],
+        ['some-verification=token'],
+      ]);
+
+      const records = await service.lookupDmarcTxtRecords('example.com');
+
+      expect(resolverPrototype.resolveTxt).toHaveBeenCalledWith('_dmarc.example.com');
+      expect(records).toEqual([
+        'v=DMARC1; p=reject; rua=mailto:dmarc@example.com',
+        'some-verification=token',
+      ]);
+    });
+
+    it('should return an empty list when the name has no TXT records', async () => {
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockRejectedValue(Object.assign(new Error('queryTxt ENODATA'), { code: 'ENODATA' }));
+
+      await expect(service.lookupDmarcTxtRecords('example.com')).resolves.toEqual([]);
+    });
+
+    it('should keep the error code of failed lookups', async () => {
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockRejectedValue(Object.assign(new Error('queryTxt EREFUSED'), { code: 'EREFUSED' }));
+
+      await expect(service.lookupDmarcTxtRecords('example.com')).rejects.toMatchObject({
+        message: 'DNS lookup failed for domain example.com: queryTxt EREFUSED',
+        code: 'EREFUSED',
+      });
+    });
+  });
+
+  describe('nameExists', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should tell missing names from names without TXT records', async () => {
+      const resolveTxt = jest.spyOn(resolverPrototype, 'resolveTxt')
+        .mockRejectedValueOnce(Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' }))
+        .mockRejectedValueOnce(Object.assign(new Error('queryTxt ENODATA'), { code: 'ENODATA' }))
+        .mockResolvedValueOnce([['v=spf1 -all']]);
+
+      await expect(service.nameExists('exmaple.com')).resolves.toBe(false);
+      await expect(service.nameExists('example.com')).resolves.toBe(true);
+      await expect(service.nameExists('example.com')).resolves.toBe(true);
+      expect(resolveTxt).toHaveBeenCalledWith('exmaple.com');
+    });
+
+    it('should rethrow lookup failures', async () => {
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockRejectedValue(Object.assign(new Error('queryTxt ETIMEOUT'), { code: 'ETIMEOUT' }));
+
+      await expect(service.nameExists('example.com')).rejects.toMatchObject({ code: 'ETIMEOUT' });
+    });
+  });
+
+  describe('lookupAddressRecords', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return IPv4 and IPv6 addresses together', async () => {
+      jest.spyOn(resolverPrototype, 'resolve4').mockResolvedValue(['192.0.2.1']);
+      jest.spyOn(resolverPrototype, 'resolve6').mockRejectedValue(Object.assign(new Error('queryAaaa ENODATA'), { code: 'ENODATA' }));
+
+      await expect(service.lookupAddressRecords('mail.example.com')).resolves.toEqual(['192.0.2.1']);
+    });
+
+    it('should rethrow failures other than a missing name or record', async () => {
+      jest.spyOn(resolverPrototype, 'resolve4').mockRejectedValue(Object.assign(new Error('queryA ESERVFAIL'), { code: 'ESERVFAIL' }));
+      jest.spyOn(resolverPrototype, 'resolve6').mockResolvedValue([]);
+
+      await expect(service.lookupAddressRecords('mail.example.com')).rejects.toThrow('ESERVFAIL');
+    });
+  });
+
+  describe('lookupMxRecords', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return the mail exchangers of a name', async () => {
+      jest.spyOn(resolverPrototype, 'resolveMx').mockResolvedValue([{ exchange: 'mx.example.com', priority: 10 }]);
+
+      await expect(service.lookupMxRecords('example.com')).resolves.toEqual([{ exchange: 'mx.example.com', priority: 10 }]);
+    });
+
+    it('should return an empty list for a name that does not exist', async () => {
+      jest.spyOn(resolverPrototype, 'resolveMx').mockRejectedValue(Object.assign(new Error('queryMx ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+      await expect(service.lookupMxRecords('example.com')).resolves.toEqual([]);
+    });
+  });
+
+  describe('lookupTlsaRecords', () => {
+    let nameserver: Socket;
+    let address: string;
+
+    beforeAll(async () => {
+      // Answers _25._tcp.mx.example.com with one TLSA record, refuses refused.example.com and knows no other name
+      nameserver = createSocket('udp4');
+      nameserver.on('message', (message, remote) => {
+        const name = decodeMessage(message).questions[0].name;
+        const questionEnd = message.length - 11;
+        const header = Buffer.from(message.subarray(0, 12));
+        let answer = Buffer.alloc(0);
+
+        if (name === '_25._tcp.mx.example.com') {
+          const rdata = Buffer.from([3, 1, 1, 0xab, 0xcd]);
+          answer = Buffer.concat([Buffer.from([0xc0, 12, 0, 52, 0, 1, 0, 0, 1, 0, 0, rdata.length]), rdata]);
+        }
+        const rcode = name === '_25._tcp.mx.example.com' ? 0 : name === 'refused.example.com' ? 5 : 3;
+        header.writeUInt16BE(0x8180 | rcode, 2);
+        header.writeUInt16BE(answer.length > 0 ? 1 : 0, 6);
+        header.writeUInt16BE(0, 10);
+
+        nameserver.send(Buffer.concat([header, message.subarray(12, questionEnd), answer]), remote.port, remote.address);
+      });
+      await new Promise<void>(resolve => nameserver.bind(0, '127.0.0.1', resolve));
+      address = `127.0.0.1:${(nameserver.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => nameserver.close(resolve));
+    });
+
+    beforeEach(() => {
+      jest.spyOn(dnsPromises, 'getServers').mockReturnValue([address]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should query the system nameserver and decode the TLSA records', async () => {
+      await expect(service.lookupTlsaRecords('_25._tcp.mx.example.com')).resolves.toEqual([
+        { usage: 3, selector: 1, matchingType: 1, certificateData: 'abcd' },
+      ]);
+    });
+
+    it('should return an empty list for a name that does not exist', async () => {
+      await expect(service.lookupTlsaRecords('_25._tcp.gone.example.com')).resolves.toEqual([]);
+    });
+
+    it('should fail with a Node-style error code for other response codes', async () => {
+      await expect(service.lookupTlsaRecords('refused.example.com')).rejects.toMatchObject({ code: 'EREFUSED' });
+    });
+  });
+
+  describe('retries', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should repeat a query after a transient failure', async () => {
+      const resolveTxt = jest.spyOn(resolverPrototype, 'resolveTxt')
+        .mockRejectedValueOnce(Object.assign(new Error('queryTxt ETIMEOUT'), { code: 'ETIMEOUT' }))
+        .mockResolvedValueOnce([['v=spf1 -all']]);
+
+      await expect(service.lookupTxtRecords('example.com')).resolves.toEqual(['v=spf1 -all']);
+      expect(resolveTxt).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries, doubling the delay each time', async () => {
+      const backoffService = new DnsServiceImpl(new PublicSuffixListService(), { ...config, retries: 2, retryBackoffMs: 5 });
+      const resolveMx = jest.spyOn(resolverPrototype, 'resolveMx')
+        .mockRejectedValue(Object.assign(new Error('queryMx ESERVFAIL'), { code: 'ESERVFAIL' }));
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+
+      await expect(backoffService.lookupMxRecords('example.com')).rejects.toThrow('ESERVFAIL');
+      expect(resolveMx).toHaveBeenCalledTimes(3);
+      expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([5, 10]);
+    });
+
+    it('should not repeat a query that was answered', async () => {
+      const resolveMx = jest.spyOn(resolverPrototype, 'resolveMx')
+        .mockRejectedValue(Object.assign(new Error('queryMx EREFUSED'), { code: 'EREFUSED' }));
+
+      await expect(service.lookupMxRecords('example.com')).rejects.toThrow('EREFUSED');
+      expect(resolveMx).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('compareTxtRecords', () => {
+    const consensusConfig: DnsResolverConfig = { ...config, servers: ['192.0.2.1', '192.0.2.2'], consensus: true, retries: 0 };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should be off unless consensus mode is configured with several resolvers', async () => {
+      await expect(service.compareTxtRecords('_dmarc.example.com')).resolves.toBeNull();
+      await expect(new DnsServiceImpl(new PublicSuffixListService(), { ...consensusConfig, servers: ['192.0.2.1'] })
+        .compareTxtRecords('_dmarc.example.com')).resolves.toBeNull();
+    });
+
+    it('should collect each resolver\'s sorted answer', async () => {
+      const answers: Record<string, string[][]> = {
+        '192.0.2.1': [['v=DMARC1; p=reject'], ['other=token']],
+        '192.0.2.2': [['other=token'], ['v=DMARC1; ', 'p=reject']],
+      };
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockImplementation(async function (this: dnsPromises.Resolver) {
+        return answers[this.getServers()[0]];
+      });
+      const consensusService = new DnsServiceImpl(new PublicSuffixListService(), consensusConfig);
+
+      await expect(consensusService.compareTxtRecords('_dmarc.example.com')).resolves.toEqual({
+        name: '_dmarc.example.com',
+        answers: [
+          { resolver: '192.0.2.1', records: ['other=token', 'v=DMARC1; p=reject'], error: null },
+          { resolver: '192.0.2.2', records: ['other=token', 'v=DMARC1; p=reject'], error: null },
+        ],
+        agreed: true,
+      });
+
+      answers['192.0.2.2'] = [['v=DMARC1; p=none']];
+      expect((await consensusService.compareTxtRecords('_dmarc.example.com'))?.agreed).toBe(false);
+    });
+
+    it('should record failed resolvers as disagreeing', async () => {
+      jest.spyOn(resolverPrototype, 'resolveTxt').mockImplementation(async function (this: dnsPromises.Resolver) {
+        if (this.getServers()[0] === '192.0.2.2') {
+          throw Object.assign(new Error('queryTxt ESERVFAIL'), { code: 'ESERVFAIL' });
+        }
+        return [];
+      });
+
+      const comparison = await new DnsServiceImpl(new PublicSuffixListService(), consensusConfig).compareTxtRecords('example.com');
+
+      expect(comparison?.answers[1]).toEqual({ resolver: '192.0.2.2', records: null, error: 'ESERVFAIL' });
+      expect(comparison?.agreed).toBe(false);
+    });
+  });
+
+  describe('lookupDmarcPolicy', () => {
+    it('should use the record published at the domain itself', async () => {
+      const lookupSpy = jest.spyOn(service, 'lookupDmarcTxtRecords').mockResolvedValue(['v=DMARC1; p=reject']);
+
+      const result = await service.lookupDmarcPolicy('mail.example.co.uk');
+
+      expect(lookupSpy).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        record: 'v=DMARC1; p=reject',
+        policyDomain: 'mail.example.co.uk',
+        organizationalDomain: 'example.co.uk',
+        appliedPolicy: 'p',
+        inherited: false,
+        txtRecords: { 'mail.example.co.uk': ['v=DMARC1; p=reject'] },
+      });
+    });
+
+    it('should fall back to the organizational domain record and apply sp', async () => {
+      const lookupSpy = jest.spyOn(service, 'lookupDmarcTxtRecords')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(['v=DMARC1; p=reject; sp=quarantine']);
+
+      const result = await service.lookupDmarcPolicy('mail.example.co.uk');
+
+      expect(lookupSpy).toHaveBeenNthCalledWith(2, 'example.co.uk');
+      expect(result).toEqual({
+        record: 'v=DMARC1; p=reject; sp=quarantine',
+        policyDomain: 'example.co.uk',
+        organizationalDomain: 'example.co.uk',
+        appliedPolicy: 'sp',
+        inherited: true,
+        txtRecords: {
+          'mail.example.co.uk': [],
+          'example.co.uk': ['v=DMARC1; p=reject; sp=quarantine'],
+        },
+      });
+    });
+
+    it('should not query again when the domain is its own organizational domain', async () => {
+      const lookupSpy = jest.spyOn(service, 'lookupDmarcTxtRecords').mockResolvedValue([]);
+
+      const result = await service.lookupDmarcPolicy('example.com');
+
+      expect(lookupSpy).toHaveBeenCalledTimes(1);
+      expect(result.record).toBeNull();
+      expect(result.policyDomain).toBeNull();
+      expect(result.inherited).toBe(false);
+    });
+
+    it('should report no policy when neither domain publishes a record', async () => {
+      jest.spyOn(service, 'lookupDmarcTxtRecords').mockResolvedValue(['v=dmarc1; p=reject']);
+
+      const result = await service.lookupDmarcPolicy('mail.example.com');
+
+      expect(result.record).toBeNull();
+      expect(result.policyDomain).toBeNull();
+      expect(result.organizationalDomain).toBe('example.com');
+      expect(result.inherited).toBe(false);
+    });
+
+    it('should apply no policy and skip the fallback when multiple records are published', async () => {
+      const lookupSpy = jest.spyOn(service, 'lookupDmarcTxtRecords')
+        .mockResolvedValue(['v=DMARC1; p=reject', 'v=DMARC1; p=none']);
+
+      const result = await service.lookupDmarcPolicy('mail.example.com');
+
+      expect(lookupSpy).toHaveBeenCalledTimes(1);
+      expect(result.record).toBeNull();
+      expect(result.policyDomain).toBe('mail.example.com');
+      expect(result.inherited).toBe(false);
+    });
+  });
+
   // Feature: dmarc-portal, Property 1: Domain validation completeness
   // For any valid domain name submitted to the system, the DMARC Portal should perform 
   // format validation, DNS lookup, DMARC record evaluation, and return a complete 
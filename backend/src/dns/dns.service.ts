@@ -1,14 +1,54 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { promises as dns } from 'dns';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import type { ResolverAnswer, ResolverComparison, TlsaRecord } from '@dmarc-portal/contracts';
+import { PublicSuffixListService } from './public-suffix-list.service';
+import { DnsBackend, MxRecord } from './dns-backend';
+import { DnsResolverConfig, loadDnsResolverConfig } from './dns-resolver.config';
+import { SystemDnsBackend } from './system-dns-backend';
+
+export type { MxRecord } from './dns-backend';
+
+// Failures that may succeed when the query is repeated; anything else is an answer
+const TRANSIENT_ERROR_CODES = ['ETIMEOUT', 'ESERVFAIL', 'ECONNREFUSED', 'EBADRESP'];
+
+export interface DmarcRecordLookup {
+  record: string | null;
+  // Domain whose DMARC record(s) ended discovery, null when none were found
+  policyDomain: string | null;
+  organizationalDomain: string;
+  // "sp" applies when the record was inherited from the organizational domain
+  appliedPolicy: 'p' | 'sp';
+  inherited: boolean;
+  // Every TXT string found at _dmarc.<domain>, keyed by each domain queried
+  txtRecords: Record<string, string[]>;
+}
 
 export interface DnsService {
   lookupDmarcRecord(domain: string): Promise<string | null>;
+  lookupDmarcTxtRecords(domain: string): Promise<string[]>;
+  lookupDmarcPolicy(domain: string): Promise<DmarcRecordLookup>;
+  lookupTxtRecords(name: string): Promise<string[]>;
+  lookupAddressRecords(name: string): Promise<string[]>;
+  lookupMxRecords(name: string): Promise<MxRecord[]>;
+  lookupTlsaRecords(name: string): Promise<TlsaRecord[]>;
+  nameExists(name: string): Promise<boolean>;
+  compareTxtRecords(name: string): Promise<ResolverComparison | null>;
   validateDomainFormat(domain: string): boolean;
 }
 
 @Injectable()
 export class DnsServiceImpl implements DnsService {
   private readonly logger = new Logger(DnsServiceImpl.name);
+  private readonly config: DnsResolverConfig;
+  private readonly backend: DnsBackend;
+
+  constructor(
+    private readonly publicSuffixList: PublicSuffixListService,
+    @Optional() @Inject('DnsResolverConfig') config?: DnsResolverConfig,
+    @Optional() @Inject('DnsBackend') backend?: DnsBackend,
+  ) {
+    this.config = config ?? loadDnsResolverConfig();
+    this.backend = backend ?? new SystemDnsBackend(this.config);
+  }
   
   // Domain format validation regex - matches valid domain names
   private readonly domainRegex = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
@@ -42,42 +82,233 @@ export class DnsServiceImpl implements DnsService {
    * @throws Error for DNS lookup failures or invalid domain format
    */
   async lookupDmarcRecord(domain: string): Promise<string | null> {
+    const txtRecords = await this.lookupDmarcTxtRecords(domain);
+
+    // Find DMARC record (starts with "v=DMARC1")
+    const record = txtRecords.find(txt => this.isDmarcRecord(txt));
+    if (record !== undefined) {
+      this.logger.debug(`Found DMARC record for ${domain}: ${record}`);
+      return record;
+    }
+
+    this.logger.debug(`No DMARC record found for domain: ${domain}`);
+    return null;
+  }
+
+  /**
+   * Looks up every TXT record published at the _dmarc name of a domain
+   * @param domain The domain to lookup TXT records for
+   * @returns All TXT strings at _dmarc.<domain>, empty if there are none
+   * @throws Error for DNS lookup failures or invalid domain format
+   */
+  async lookupDmarcTxtRecords(domain: string): Promise<string[]> {
     // Validate domain format first
     if (!this.validateDomainFormat(domain)) {
       throw new Error(`Invalid domain format: ${domain}`);
     }
     
     const cleanDomain = domain.trim().toLowerCase();
-    const dmarcDomain = `_dmarc.${cleanDomain}`;
-    
+
     try {
-      this.logger.debug(`Looking up DMARC record for domain: ${dmarcDomain}`);
-      
-      // Lookup TXT records for _dmarc subdomain
-      const txtRecords = await dns.resolveTxt(dmarcDomain);
-      
-      // Find DMARC record (starts with "v=DMARC1")
-      for (const record of txtRecords) {
-        const recordString = Array.isArray(record) ? record.join('') : record;
-        if (recordString.startsWith('v=DMARC1')) {
-          this.logger.debug(`Found DMARC record for ${domain}: ${recordString}`);
-          return recordString;
-        }
+      return await this.lookupTxtRecords(`_dmarc.${cleanDomain}`);
+    } catch (error) {
+      // Other DNS errors (timeouts, server errors, etc.); the code tells callers which
+      this.logger.error(`DNS lookup failed for domain ${domain}:`, error);
+      throw Object.assign(new Error(`DNS lookup failed for domain ${domain}: ${error.message}`), { code: error.code });
+    }
+  }
+
+  /**
+   * Looks up the TXT records at an arbitrary DNS name
+   * Unlike domain lookups, the name may contain underscore labels such as _report._dmarc.
+   * @param name The fully qualified DNS name to query
+   * @returns All TXT strings at the name, empty if there are none
+   * @throws Error for DNS lookup failures other than a missing name or record
+   */
+  async lookupTxtRecords(name: string): Promise<string[]> {
+    const txtRecords = await this.resolveOrEmpty(name, 'TXT', () => this.backend.resolveTxt(name));
+
+    // Long TXT records are split into multiple character-strings
+    return txtRecords.map(record => Array.isArray(record) ? record.join('') : record);
+  }
+
+  /**
+   * Looks up the IPv4 and IPv6 addresses of a DNS name
+   * @param name The fully qualified DNS name to query
+   * @returns All A and AAAA addresses, empty if there are none
+   * @throws Error for DNS lookup failures other than a missing name or record
+   */
+  async lookupAddressRecords(name: string): Promise<string[]> {
+    const [ipv4, ipv6] = await Promise.all([
+      this.resolveOrEmpty(name, 'A', () => this.backend.resolve4(name)),
+      this.resolveOrEmpty(name, 'AAAA', () => this.backend.resolve6(name)),
+    ]);
+    return [...ipv4, ...ipv6];
+  }
+
+  /**
+   * Looks up the mail exchangers of a DNS name
+   * @param name The fully qualified DNS name to query
+   * @returns The MX records in the order the resolver returned them, empty if there are none
+   * @throws Error for DNS lookup failures other than a missing name or record
+   */
+  async lookupMxRecords(name: string): Promise<MxRecord[]> {
+    return this.resolveOrEmpty(name, 'MX', () => this.backend.resolveMx(name));
+  }
+
+  /**
+   * Looks up the TLSA records at a DNS name such as _25._tcp.mx.example.com
+   * @param name The fully qualified DNS name to query
+   * @returns The TLSA records, empty if there are none
+   * @throws Error for DNS lookup failures other than a missing name or record, with a Node-style code such as ESERVFAIL
+   */
+  async lookupTlsaRecords(name: string): Promise<TlsaRecord[]> {
+    return this.resolveOrEmpty(name, 'TLSA', () => this.backend.resolveTlsa(name));
+  }
+
+  /**
+   * Checks whether a DNS name exists, with or without records of its own
+   * @param name The fully qualified DNS name to query
+   * @returns false if the name does not exist (NXDOMAIN), true otherwise
+   * @throws Error for DNS lookup failures such as ESERVFAIL or ETIMEOUT
+   */
+  async nameExists(name: string): Promise<boolean> {
+    try {
+      this.logger.debug(`Checking whether ${name} exists`);
+      await this.withRetries('TXT', name, () => this.backend.resolveTxt(name));
+      return true;
+    } catch (error) {
+      if (error.code === 'ENOTFOUND' || error.code === 'ENODATA') {
+        return error.code === 'ENODATA';
       }
-      
-      this.logger.debug(`No DMARC record found for domain: ${domain}`);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Queries each configured resolver separately for the TXT records at a name
+   * Differing answers point at split-horizon DNS or a change that has not propagated everywhere yet.
+   * @param name The fully qualified DNS name to query
+   * @returns Every resolver's answer, or null unless consensus mode is on with at least two resolvers of the system backend
+   */
+  async compareTxtRecords(name: string): Promise<ResolverComparison | null> {
+    if (!this.config.consensus || this.config.servers.length < 2 || this.config.backend !== 'system') {
       return null;
-      
+    }
+
+    const answers = await Promise.all(this.config.servers.map(async (server): Promise<ResolverAnswer> => {
+      const resolver = new SystemDnsBackend({ servers: [server], timeoutMs: this.config.timeoutMs });
+      try {
+        const records = await this.resolveOrEmpty(name, 'TXT', () => resolver.resolveTxt(name));
+        return { resolver: server, records: records.map(record => record.join('')).sort(), error: null };
+      } catch (error) {
+        this.logger.warn(`TXT lookup of ${name} via ${server} failed: ${error.message}`);
+        return { resolver: server, records: null, error: error.code ?? error.message };
+      }
+    }));
+
+    const [first] = answers;
+    const agreed = answers.every(answer =>
+      answer.records !== null && JSON.stringify(answer.records) === JSON.stringify(first.records));
+    return { name, answers, agreed };
+  }
+
+  /**
+   * Discovers the DMARC policy that applies to a domain (RFC 7489 section 6.6.3)
+   * Falls back to the organizational domain's record when the domain has none.
+   * Discovery ends without a policy when a name publishes more than one DMARC record.
+   * @param domain The domain to discover the DMARC policy for
+   * @returns The record found and where it came from
+   * @throws Error for DNS lookup failures or invalid domain format
+   */
+  async lookupDmarcPolicy(domain: string): Promise<DmarcRecordLookup> {
+    const txtRecords = await this.lookupDmarcTxtRecords(domain);
+    const cleanDomain = domain.trim().toLowerCase();
+    const organizationalDomain = this.publicSuffixList.getOrganizationalDomain(cleanDomain) ?? cleanDomain;
+
+    const lookup: DmarcRecordLookup = {
+      record: null,
+      policyDomain: null,
+      organizationalDomain,
+      appliedPolicy: 'p',
+      inherited: false,
+      txtRecords: { [cleanDomain]: txtRecords },
+    };
+
+    if (this.selectDmarcRecords(lookup, cleanDomain, txtRecords) || organizationalDomain === cleanDomain) {
+      return lookup;
+    }
+
+    this.logger.debug(`Falling back to organizational domain ${organizationalDomain} for ${cleanDomain}`);
+    const fallbackRecords = await this.lookupDmarcTxtRecords(organizationalDomain);
+    lookup.txtRecords[organizationalDomain] = fallbackRecords;
+
+    if (this.selectDmarcRecords(lookup, organizationalDomain, fallbackRecords)) {
+      lookup.appliedPolicy = 'sp';
+      lookup.inherited = true;
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Applies the RFC 7489 record selection rules to the TXT records of one name
+   * @returns true if policy discovery ends at this name
+   */
+  private selectDmarcRecords(lookup: DmarcRecordLookup, domain: string, txtRecords: string[]): boolean {
+    const dmarcRecords = txtRecords.filter(txt => this.isDmarcRecord(txt));
+    if (dmarcRecords.length === 0) {
+      return false;
+    }
+
+    lookup.policyDomain = domain;
+    // More than one DMARC record means no policy applies at all
+    lookup.record = dmarcRecords.length === 1 ? dmarcRecords[0] : null;
+    return true;
+  }
+
+  /**
+   * Runs a DNS query, treating a missing name or record type as an empty answer
+   */
+  private async resolveOrEmpty<T>(name: string, type: string, resolve: () => Promise<T[]>): Promise<T[]> {
+    try {
+      this.logger.debug(`Looking up ${type} records for: ${name}`);
+      return await this.withRetries(type, name, resolve);
     } catch (error) {
       if (error.code === 'ENOTFOUND' || error.code === 'ENODATA') {
-        // Domain not found or no TXT records - this is expected for domains without DMARC
-        this.logger.debug(`No DMARC record found for domain: ${domain} (${error.code})`);
-        return null;
+        // Name not found or no records of this type - expected for names without records
+        this.logger.debug(`No ${type} records found at ${name} (${error.code})`);
+        return [];
       }
-      
-      // Other DNS errors (timeouts, server errors, etc.)
-      this.logger.error(`DNS lookup failed for domain ${domain}:`, error);
-      throw new Error(`DNS lookup failed for domain ${domain}: ${error.message}`);
+
+      throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Repeats a query after transient failures, doubling the delay before each further attempt
+   */
+  private async withRetries<T>(type: string, name: string, query: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await query();
+      } catch (error) {
+        if (attempt >= this.config.retries || !TRANSIENT_ERROR_CODES.includes(error.code)) {
+          throw error;
+        }
+
+        const delayMs = this.config.retryBackoffMs * 2 ** attempt;
+        this.logger.debug(`${type} lookup of ${name} failed with ${error.code}, retrying in ${delayMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Receivers discard any TXT record that does not start exactly with "v=DMARC1"
+   */
+  private isDmarcRecord(txt: string): boolean {
+    return txt.startsWith('v=DMARC1');
+  }
+}
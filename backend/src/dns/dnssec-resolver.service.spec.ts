@@ -0,0 +1,92 @@
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { decodeMessage } from './dns-message';
+import { DnssecResolverImpl } from './dnssec-resolver.service';
+
+// How the stand-in answers for each name: validated, unsigned, failing validation, refused or not at all
+type Behavior = 'secure' | 'insecure' | 'bogus' | 'refused' | 'silent';
+
+describe('DnssecResolverService', () => {
+  let server: Socket;
+  let upstream: string;
+  const received: { name: string; dnssecOk: boolean; checkingDisabled: boolean }[] = [];
+
+  const zone: Record<string, Behavior> = {
+    '_dmarc.signed.example': 'secure',
+    '_dmarc.unsigned.example': 'insecure',
+    '_dmarc.broken.example': 'bogus',
+    '_dmarc.refused.example': 'refused',
+    '_dmarc.slow.example': 'silent',
+  };
+
+  beforeAll(async () => {
+    // Stands in for a validating resolver: echoes the query back with the flags and RCODE it would set
+    server = createSocket('udp4');
+    server.on('message', (message, remote) => {
+      const query = decodeMessage(message);
+      const name = query.questions[0].name;
+      received.push({ name, dnssecOk: query.dnssecOk, checkingDisabled: query.checkingDisabled });
+
+      const behavior = zone[name] ?? 'insecure';
+      if (behavior === 'silent') {
+        return;
+      }
+
+      let rcode = name in zone ? 0 : 3;
+      if (behavior === 'refused') {
+        rcode = 5;
+      } else if (behavior === 'bogus' && !query.checkingDisabled) {
+        rcode = 2;
+      }
+
+      const response = Buffer.from(message);
+      const flags = 0x8000 | 0x0100 | 0x0080 | (behavior === 'secure' ? 0x0020 : 0) | (query.checkingDisabled ? 0x0010 : 0) | rcode;
+      response.writeUInt16BE(flags, 2);
+      server.send(response, remote.port, remote.address);
+    });
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+    upstream = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it('should report answers the resolver authenticated as secure and others as insecure', async () => {
+    const resolver = new DnssecResolverImpl(upstream);
+
+    await expect(resolver.lookupStatus('_dmarc.signed.example')).resolves.toBe('secure');
+    await expect(resolver.lookupStatus('_dmarc.unsigned.example')).resolves.toBe('insecure');
+    await expect(resolver.lookupStatus('_dmarc.missing.example')).resolves.toBe('insecure');
+    expect(received.every(query => query.dnssecOk && !query.checkingDisabled)).toBe(true);
+  });
+
+  it('should report bogus when the answer only arrives with checking disabled', async () => {
+    const resolver = new DnssecResolverImpl(upstream);
+
+    await expect(resolver.lookupStatus('_dmarc.broken.example')).resolves.toBe('bogus');
+    expect(received.map(query => query.checkingDisabled)).toEqual([false, true]);
+  });
+
+  it('should fail for refused queries and unresponsive resolvers', async () => {
+    const resolver = new DnssecResolverImpl(upstream, 100);
+
+    await expect(resolver.lookupStatus('_dmarc.refused.example')).rejects.toThrow('failed: REFUSED');
+    await expect(resolver.lookupStatus('_dmarc.slow.example')).rejects.toThrow('timed out after 100 ms');
+  });
+
+  it('should parse the configured upstream', () => {
+    expect(new DnssecResolverImpl('192.0.2.53').upstream).toBe('192.0.2.53:53');
+    expect(new DnssecResolverImpl('[2001:db8::53]:5353').upstream).toBe('[2001:db8::53]:5353');
+    expect(new DnssecResolverImpl(null).upstream).toBeNull();
+    expect(() => new DnssecResolverImpl('resolver:port')).toThrow('Invalid DNS server address');
+  });
+
+  it('should refuse lookups when no resolver is configured', async () => {
+    await expect(new DnssecResolverImpl(null).lookupStatus('_dmarc.signed.example')).rejects.toThrow('No DNSSEC resolver');
+  });
+});
@@ -0,0 +1,84 @@
+import { Logger } from '@nestjs/common';
+import type { DnssecStatus } from '@dmarc-portal/contracts';
+import {
+  DNS_RCODES,
+  DnsMessage,
+  DnsQueryOptions,
+  DnsRecordType,
+  RCODE_NOERROR,
+  RCODE_NXDOMAIN,
+  RCODE_SERVFAIL,
+} from './dns-message';
+import { DnsServerAddress, formatServerAddress, parseServerAddress, sendQuery } from './dns-udp';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface DnssecResolver {
+  // host:port of the validating resolver, null when DNSSEC checks are disabled
+  readonly upstream: string | null;
+  lookupStatus(name: string, type?: DnsRecordType): Promise<DnssecStatus>;
+}
+
+/**
+ * Asks a validating resolver whether answers are authenticated with DNSSEC
+ * The system stub resolver drops the AD flag, so queries go straight to the configured upstream over UDP.
+ */
+export class DnssecResolverImpl implements DnssecResolver {
+  private readonly logger = new Logger(DnssecResolverImpl.name);
+  readonly upstream: string | null;
+  private readonly server: DnsServerAddress;
+
+  /**
+   * @param upstream The validating resolver as "host", "host:port" or "[ipv6]:port", null to disable checks
+   * @param timeoutMs How long to wait for each answer
+   */
+  constructor(upstream: string | null, private readonly timeoutMs = DEFAULT_TIMEOUT_MS) {
+    if (!upstream) {
+      this.upstream = null;
+      return;
+    }
+
+    this.server = parseServerAddress(upstream);
+    this.upstream = formatServerAddress(this.server);
+  }
+
+  /**
+   * Determines the DNSSEC status of the answer for a name (RFC 4035 section 4.3)
+   * Signatures that fail validation make the resolver answer SERVFAIL; the query is then repeated with
+   * checking disabled, and an answer at that point means the data is bogus rather than unreachable.
+   * @param name The name to check
+   * @param type The record type whose answer is checked
+   * @returns secure when the resolver set the AD flag, insecure when it did not, bogus when validation fails
+   * @throws Error when no resolver is configured, or it times out or fails for reasons other than validation
+   */
+  async lookupStatus(name: string, type: DnsRecordType = 'TXT'): Promise<DnssecStatus> {
+    const response = await this.query(name, type, { dnssecOk: true });
+
+    if (response.rcode === RCODE_NOERROR || response.rcode === RCODE_NXDOMAIN) {
+      return response.authenticData ? 'secure' : 'insecure';
+    }
+
+    if (response.rcode === RCODE_SERVFAIL) {
+      const unchecked = await this.query(name, type, { dnssecOk: true, checkingDisabled: true });
+      if (unchecked.rcode === RCODE_NOERROR || unchecked.rcode === RCODE_NXDOMAIN) {
+        this.logger.debug(`${type} ${name} fails DNSSEC validation at ${this.upstream}`);
+        return 'bogus';
+      }
+    }
+
+    throw new Error(`DNSSEC lookup of ${type} ${name} failed: ${rcodeName(response.rcode)}`);
+  }
+
+  private query(name: string, type: DnsRecordType, options: DnsQueryOptions): Promise<DnsMessage> {
+    if (this.upstream === null) {
+      return Promise.reject(new Error('No DNSSEC resolver is configured'));
+    }
+
+    this.logger.debug(`Querying ${this.upstream} for ${type} ${name}${options.checkingDisabled ? ' (CD)' : ''}`);
+    return sendQuery(this.server, name, type, options, this.timeoutMs);
+  }
+}
+
+function rcodeName(rcode: number): string {
+  return DNS_RCODES[rcode] ?? `RCODE ${rcode}`;
+}
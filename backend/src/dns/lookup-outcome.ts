@@ -0,0 +1,27 @@
+import type { DnsLookupOutcome } from '@dmarc-portal/contracts';
+
+// Lookup errors that mean the question went unanswered, rather than that the answer was empty
+const FAILURE_OUTCOMES: Record<string, DnsLookupOutcome> = {
+  ENOTFOUND: 'nxdomain',
+  ESERVFAIL: 'servfail',
+  ETIMEOUT: 'timeout',
+  EREFUSED: 'refused',
+  ECONNREFUSED: 'refused',
+};
+
+/**
+ * Maps a failed lookup to its outcome
+ * @param error The lookup error, with a Node-style code such as ESERVFAIL
+ * @returns The outcome, or null for errors that are not DNS failures, e.g. an invalid domain
+ */
+export function lookupOutcomeOf(error: { code?: string }): DnsLookupOutcome | null {
+  return (error.code && FAILURE_OUTCOMES[error.code]) || null;
+}
+
+/**
+ * Whether a check ended without a usable DNS answer, so its findings say nothing about the domain's DMARC setup
+ * @param outcome The lookup outcome; results stored before outcomes were recorded have none
+ */
+export function isDnsFailure(outcome: DnsLookupOutcome | undefined | null): boolean {
+  return outcome !== undefined && outcome !== null && outcome !== 'found' && outcome !== 'no_record';
+}
@@ -0,0 +1,51 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PublicSuffixListService } from './public-suffix-list.service';
+
+describe('PublicSuffixListService', () => {
+  let service: PublicSuffixListService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PublicSuffixListService],
+    }).compile();
+
+    service = module.get<PublicSuffixListService>(PublicSuffixListService);
+  });
+
+  describe('getPublicSuffix', () => {
+    it('should match single and multi-label suffixes', () => {
+      expect(service.getPublicSuffix('example.com')).toBe('com');
+      expect(service.getPublicSuffix('mail.example.co.uk')).toBe('co.uk');
+    });
+
+    it('should apply wildcard and exception rules', () => {
+      // *.ck is a wildcard rule with !www.ck as an exception
+      expect(service.getPublicSuffix('shop.example.ck')).toBe('example.ck');
+      expect(service.getPublicSuffix('www.ck')).toBe('ck');
+    });
+
+    it('should match IDN rules whether the domain is given in Unicode or punycode', () => {
+      // 公司.cn is listed in Unicode; its punycode form is xn--55qx5d.cn
+      expect(service.getPublicSuffix('example.公司.cn')).toBe('xn--55qx5d.cn');
+      expect(service.getPublicSuffix('example.xn--55qx5d.cn')).toBe('xn--55qx5d.cn');
+    });
+
+    it('should fall back to the top-level label for unlisted TLDs', () => {
+      expect(service.getPublicSuffix('host.example.unlistedtld')).toBe('unlistedtld');
+    });
+  });
+
+  describe('getOrganizationalDomain', () => {
+    it('should return the public suffix plus one label', () => {
+      expect(service.getOrganizationalDomain('example.com')).toBe('example.com');
+      expect(service.getOrganizationalDomain('a.b.example.com')).toBe('example.com');
+      expect(service.getOrganizationalDomain('mail.example.co.uk')).toBe('example.co.uk');
+      expect(service.getOrganizationalDomain('Mail.Example.CO.UK')).toBe('example.co.uk');
+    });
+
+    it('should return null for a public suffix', () => {
+      expect(service.getOrganizationalDomain('co.uk')).toBeNull();
+      expect(service.getOrganizationalDomain('com')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { domainToASCII } from 'url';
+
+@Injectable()
+export class PublicSuffixListService {
+  private readonly logger = new Logger(PublicSuffixListService.name);
+  private readonly listPath = path.join(__dirname, 'data', 'public_suffix_list.dat');
+
+  private rules: Set<string>;
+  private wildcardRules: Set<string>;
+  private exceptionRules: Set<string>;
+
+  /**
+   * Finds the public suffix of a domain using the bundled Public Suffix List
+   * @param domain The domain to inspect
+   * @returns The public suffix (e.g. "co.uk" for "mail.example.co.uk")
+   */
+  getPublicSuffix(domain: string): string {
+    this.ensureLoaded();
+
+    const labels = this.normalize(domain).split('.');
+
+    // Walk from the longest candidate to the shortest so the first match is the prevailing rule
+    for (let i = 0; i < labels.length; i++) {
+      const candidate = labels.slice(i).join('.');
+      const parent = labels.slice(i + 1).join('.');
+
+      if (this.exceptionRules.has(candidate)) {
+        return parent;
+      }
+
+      if (this.rules.has(candidate) || (parent && this.wildcardRules.has(parent))) {
+        return candidate;
+      }
+    }
+
+    // Implicit "*" rule: the top-level label is a public suffix
+    return labels[labels.length - 1];
+  }
+
+  /**
+   * Determines the organizational domain as defined by RFC 7489 section 3.2
+   * @param domain The domain to inspect
+   * @returns The public suffix plus one label, or null if the domain is itself a public suffix
+   */
+  getOrganizationalDomain(domain: string): string | null {
+    const labels = this.normalize(domain).split('.');
+    const suffixLabelCount = this.getPublicSuffix(domain).split('.').length;
+
+    if (labels.length <= suffixLabelCount) {
+      return null;
+    }
+
+    return labels.slice(labels.length - suffixLabelCount - 1).join('.');
+  }
+
+  /**
+   * Lowercases a domain and converts IDN labels to punycode, the form rules are stored in
+   */
+  private normalize(domain: string): string {
+    const name = domain.trim().toLowerCase().replace(/\.$/, '');
+    // domainToASCII returns an empty string for names it cannot convert; match those as written
+    return domainToASCII(name) || name;
+  }
+
+  /**
+   * Lazily loads the Public Suffix List rules from the bundled data file
+   */
+  private ensureLoaded(): void {
+    if (this.rules) {
+      return;
+    }
+
+    this.rules = new Set();
+    this.wildcardRules = new Set();
+    this.exceptionRules = new Set();
+
+    const lines = fs.readFileSync(this.listPath, 'utf8').split('\n');
+
+    for (const line of lines) {
+      // Rules end at the first whitespace; comments start with "//"
+      const rule = line.trim().split(/\s/)[0].toLowerCase();
+      if (!rule || rule.startsWith('//')) {
+        continue;
+      }
+
+      // The list writes IDN rules in Unicode, so they are stored in the same form as normalized lookups
+      if (rule.startsWith('!')) {
+        this.exceptionRules.add(this.normalize(rule.substring(1)));
+      } else if (rule.startsWith('*.')) {
+        this.wildcardRules.add(this.normalize(rule.substring(2)));
+      } else {
+        this.rules.add(this.normalize(rule));
+      }
+    }
+
+    this.logger.debug(
+      `Loaded ${this.rules.size + this.wildcardRules.size + this.exceptionRules.size} public suffix rules`,
+    );
+  }
+}
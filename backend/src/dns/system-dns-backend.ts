@@ -0,0 +1,59 @@
+import { promises as dns } from 'dns';
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+import { DnsBackend, MxRecord, createDnsError } from './dns-backend';
+import { DnsResolverConfig } from './dns-resolver.config';
+import { DNS_RCODES, DNS_RECORD_TYPES, RCODE_NOERROR, RCODE_NXDOMAIN, decodeTlsaRecord } from './dns-message';
+import { parseServerAddress, sendQuery } from './dns-udp';
+
+/**
+ * DnsBackend querying the configured upstream resolvers, or the system resolvers when none are configured
+ */
+export class SystemDnsBackend implements DnsBackend {
+  private readonly resolver: dns.Resolver;
+
+  constructor(private readonly config: Pick<DnsResolverConfig, 'servers' | 'timeoutMs'>) {
+    // Node's own retries are disabled so that each attempt is bounded by the configured timeout
+    this.resolver = new dns.Resolver({ timeout: config.timeoutMs, tries: 1 });
+    if (config.servers.length > 0) {
+      this.resolver.setServers(config.servers);
+    }
+  }
+
+  resolveTxt(name: string): Promise<string[][]> {
+    return this.resolver.resolveTxt(name);
+  }
+
+  resolve4(name: string): Promise<string[]> {
+    return this.resolver.resolve4(name);
+  }
+
+  resolve6(name: string): Promise<string[]> {
+    return this.resolver.resolve6(name);
+  }
+
+  resolveMx(name: string): Promise<MxRecord[]> {
+    return this.resolver.resolveMx(name);
+  }
+
+  /**
+   * Node's resolver has no TLSA support, so the query goes straight to the first configured or system nameserver.
+   */
+  async resolveTlsa(name: string): Promise<TlsaRecord[]> {
+    const nameserver = this.config.servers[0] ?? dns.getServers()[0];
+    if (!nameserver) {
+      throw createDnsError('TLSA', 'ECONNREFUSED', name);
+    }
+
+    const response = await sendQuery(parseServerAddress(nameserver), name, 'TLSA', {}, this.config.timeoutMs);
+    if (response.rcode === RCODE_NXDOMAIN) {
+      throw createDnsError('TLSA', 'ENOTFOUND', name);
+    }
+    if (response.rcode !== RCODE_NOERROR || response.truncated) {
+      throw createDnsError('TLSA', response.truncated ? 'EBADRESP' : `E${DNS_RCODES[response.rcode] ?? 'BADRESP'}`, name);
+    }
+
+    return response.answers
+      .filter(answer => answer.type === DNS_RECORD_TYPES.TLSA)
+      .map(answer => decodeTlsaRecord(answer.data));
+  }
+}
@@ -0,0 +1,43 @@
+import { ZoneDnsBackend } from './zone-dns-backend';
+
+describe('ZoneDnsBackend', () => {
+  const backend = new ZoneDnsBackend({
+    'Example.com.': {
+      TXT: ['v=spf1 -all'],
+      MX: [{ exchange: 'mx.example.com', priority: 10 }],
+    },
+    'mx.example.com': { A: ['192.0.2.25'], AAAA: ['2001:db8::25'] },
+    '_dmarc.example.com': { CNAME: '_dmarc.policies.example.net' },
+    '_dmarc.policies.example.net': { TXT: ['v=DMARC1; p=reject'] },
+    '_25._tcp.mx.example.com': { TLSA: [{ usage: 3, selector: 1, matchingType: 1, certificateData: 'abcd' }] },
+    'loop-a.example.com': { CNAME: 'loop-b.example.com' },
+    'loop-b.example.com': { CNAME: 'loop-a.example.com' },
+    'broken.example.com': { TXT: ['ignored'], error: 'SERVFAIL' },
+  });
+
+  it('should answer each record type from the zone', async () => {
+    await expect(backend.resolveTxt('EXAMPLE.com.')).resolves.toEqual([['v=spf1 -all']]);
+    await expect(backend.resolveMx('example.com')).resolves.toEqual([{ exchange: 'mx.example.com', priority: 10 }]);
+    await expect(backend.resolve4('mx.example.com')).resolves.toEqual(['192.0.2.25']);
+    await expect(backend.resolve6('mx.example.com')).resolves.toEqual(['2001:db8::25']);
+    await expect(backend.resolveTlsa('_25._tcp.mx.example.com')).resolves.toEqual([
+      { usage: 3, selector: 1, matchingType: 1, certificateData: 'abcd' },
+    ]);
+  });
+
+  it('should follow CNAMEs and fail on loops', async () => {
+    await expect(backend.resolveTxt('_dmarc.example.com')).resolves.toEqual([['v=DMARC1; p=reject']]);
+    await expect(backend.resolveTxt('loop-a.example.com')).rejects.toMatchObject({ code: 'ESERVFAIL' });
+  });
+
+  it('should tell missing names from names without records of the type', async () => {
+    await expect(backend.resolveTxt('nowhere.example.com')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+    await expect(backend.resolve4('example.com')).rejects.toMatchObject({ code: 'ENODATA' });
+    // _25._tcp.mx.example.com exists, so _tcp.mx.example.com is an empty non-terminal
+    await expect(backend.resolveTxt('_tcp.mx.example.com')).rejects.toMatchObject({ code: 'ENODATA' });
+  });
+
+  it('should fail with a Node-style error for simulated failures', async () => {
+    await expect(backend.resolveTxt('broken.example.com')).rejects.toThrow('queryTxt ESERVFAIL broken.example.com');
+  });
+});
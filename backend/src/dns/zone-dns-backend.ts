@@ -0,0 +1,98 @@
+import type { TlsaRecord } from '@dmarc-portal/contracts';
+import { DnsBackend, MxRecord, createDnsError } from './dns-backend';
+
+// How a name can be made to fail, as the response code a resolver would see
+export type DnsSimulatedFailure = 'NXDOMAIN' | 'SERVFAIL' | 'REFUSED' | 'TIMEOUT';
+
+export interface DnsZoneEntry {
+  TXT?: string[];
+  A?: string[];
+  AAAA?: string[];
+  MX?: MxRecord[];
+  // Alias followed for every other record type, as resolvers do
+  CNAME?: string;
+  TLSA?: TlsaRecord[];
+  // Every query for the name fails this way, whatever records it has
+  error?: DnsSimulatedFailure;
+}
+
+// Records keyed by fully qualified name, without the trailing dot; names that are not listed do not exist
+export type DnsZone = Record<string, DnsZoneEntry>;
+
+export const DNS_SIMULATED_FAILURES: Record<DnsSimulatedFailure, string> = {
+  NXDOMAIN: 'ENOTFOUND',
+  SERVFAIL: 'ESERVFAIL',
+  REFUSED: 'EREFUSED',
+  TIMEOUT: 'ETIMEOUT',
+};
+
+// Resolvers give up on longer CNAME chains, which are almost always loops
+const MAX_CNAME_HOPS = 8;
+
+export type ZoneRecordType = 'TXT' | 'A' | 'AAAA' | 'MX' | 'TLSA';
+
+/**
+ * DnsBackend answering from an in-memory zone, so the portal can run offline against a fixture
+ */
+export class ZoneDnsBackend implements DnsBackend {
+  private readonly zone: DnsZone;
+
+  constructor(zone: DnsZone) {
+    this.zone = Object.fromEntries(Object.entries(zone).map(([name, entry]) => [normalizeName(name), entry]));
+  }
+
+  async resolveTxt(name: string): Promise<string[][]> {
+    // Zones hold whole TXT records; the resolver API splits them into character-strings
+    return this.lookup(name, 'TXT').map(record => [record]);
+  }
+
+  async resolve4(name: string): Promise<string[]> {
+    return this.lookup(name, 'A');
+  }
+
+  async resolve6(name: string): Promise<string[]> {
+    return this.lookup(name, 'AAAA');
+  }
+
+  async resolveMx(name: string): Promise<MxRecord[]> {
+    return this.lookup(name, 'MX').map(mx => ({ ...mx }));
+  }
+
+  async resolveTlsa(name: string): Promise<TlsaRecord[]> {
+    return this.lookup(name, 'TLSA').map(record => ({ ...record }));
+  }
+
+  /**
+   * Answers one query, following CNAMEs
+   * @throws Error with code ENOTFOUND for unknown names, ENODATA for names without the type, or a simulated failure
+   */
+  protected lookup<K extends ZoneRecordType>(name: string, type: K): NonNullable<DnsZoneEntry[K]> {
+    let current = normalizeName(name);
+
+    for (let hops = 0; hops <= MAX_CNAME_HOPS; hops++) {
+      const entry = this.zone[current];
+      if (entry?.error) {
+        throw createDnsError(type, DNS_SIMULATED_FAILURES[entry.error], name);
+      }
+      if (!entry) {
+        // A name with records below it exists even without records of its own
+        const exists = Object.keys(this.zone).some(owner => owner.endsWith(`.${current}`));
+        throw createDnsError(type, exists ? 'ENODATA' : 'ENOTFOUND', name);
+      }
+      if (entry.CNAME === undefined) {
+        const records = entry[type];
+        if (!records || records.length === 0) {
+          throw createDnsError(type, 'ENODATA', name);
+        }
+        return [...records] as NonNullable<DnsZoneEntry[K]>;
+      }
+      current = normalizeName(entry.CNAME);
+    }
+
+    throw createDnsError(type, 'ESERVFAIL', name);
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '');
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadZoneFixture, parseZoneFile, parseZoneFixture } from './zone-file.parser';
+
+describe('Zone file parser', () => {
+  describe('parseZoneFile', () => {
+    it('should resolve owner names against the origin', () => {
+      const zone = parseZoneFile([
+        '$ORIGIN Example.com.',
+        '$TTL 1h',
+        '@        3600 IN MX 10 mx',
+        '         IN  MX  20 backup.example.net.',
+        'mx       IN 300 A 192.0.2.25',
+        '         AAAA 2001:db8::25',
+        'www      CNAME @',
+      ].join('\n'));
+
+      expect(zone).toEqual({
+        'example.com': {
+          MX: [{ exchange: 'mx.example.com', priority: 10 }, { exchange: 'backup.example.net', priority: 20 }],
+        },
+        'mx.example.com': { A: ['192.0.2.25'], AAAA: ['2001:db8::25'] },
+        'www.example.com': { CNAME: 'example.com' },
+      });
+    });
+
+    it('should join quoted strings across parentheses and skip comments', () => {
+      const zone = parseZoneFile([
+        '_dmarc.example.com. IN TXT ( "v=DMARC1; p=reject; " ; policy',
+        '                             "rua=mailto:d\\"m\\059c@example.com" )',
+        '_25._tcp.mx.example.com. IN TLSA 3 1 1 ( AB',
+        '                                         CD )',
+        'example.com. IN SOA ns1.example.com. hostmaster.example.com. ( 1 7200 3600 1209600 3600 )',
+      ].join('\n'));
+
+      expect(zone['_dmarc.example.com'].TXT).toEqual(['v=DMARC1; p=reject; rua=mailto:d"m;c@example.com']);
+      expect(zone['_25._tcp.mx.example.com'].TLSA).toEqual([{ usage: 3, selector: 1, matchingType: 1, certificateData: 'abcd' }]);
+      expect(zone['example.com']).toEqual({});
+    });
+
+    it('should record simulated failures', () => {
+      expect(parseZoneFile('$SIMULATE broken SERVFAIL\n$SIMULATE gone NXDOMAIN', 'example.com')).toEqual({
+        'broken.example.com': { error: 'SERVFAIL' },
+        'gone.example.com': { error: 'NXDOMAIN' },
+      });
+    });
+
+    it('should name the line of invalid records', () => {
+      expect(() => parseZoneFile('a.example. A 192.0.2.1\nb.example. A 2001:db8::1')).toThrow('Invalid zone file line 2: A record needs one IPv4 address');
+      expect(() => parseZoneFile('a.example. TXT "unterminated')).toThrow('line 1: unterminated quoted string');
+      expect(() => parseZoneFile('a.example. TLSA 3 1 1 xyz')).toThrow('TLSA association data must be hex digits');
+      expect(() => parseZoneFile('$SIMULATE a.example. FLAKY')).toThrow('$SIMULATE needs one of NXDOMAIN, SERVFAIL, REFUSED, TIMEOUT');
+      expect(() => parseZoneFile('$INCLUDE other.zone')).toThrow('unsupported directive $INCLUDE');
+    });
+  });
+
+  describe('parseZoneFixture', () => {
+    it('should accept a zone keyed by name', () => {
+      expect(parseZoneFixture({ 'Example.com.': { TXT: ['v=spf1 -all'], error: 'TIMEOUT' } })).toEqual({
+        'example.com': { TXT: ['v=spf1 -all'], error: 'TIMEOUT' },
+      });
+    });
+
+    it('should normalize CNAME targets and MX exchanges like owner names', () => {
+      expect(parseZoneFixture({
+        'example.com': { MX: [{ exchange: 'MX.Example.com.', priority: 10 }] },
+        'www.example.com': { CNAME: 'Example.COM.' },
+      })).toEqual({
+        'example.com': { MX: [{ exchange: 'mx.example.com', priority: 10 }] },
+        'www.example.com': { CNAME: 'example.com' },
+      });
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => parseZoneFixture([])).toThrow('expected an object keyed by name');
+      expect(() => parseZoneFixture({ 'example.com': { MX: ['mx.example.com'] } })).toThrow('entry example.com: MX must be a list');
+      expect(() => parseZoneFixture({ 'example.com': { error: 'ESERVFAIL' } })).toThrow('error must be one of');
+      expect(() => parseZoneFixture({ 'example.com': { error: 'toString' } })).toThrow('error must be one of');
+      expect(() => parseZoneFixture({ 'example.com': { error: 'constructor' } })).toThrow('error must be one of');
+    });
+  });
+
+  describe('loadZoneFixture', () => {
+    it('should load the demo zone', () => {
+      const zone = loadZoneFixture(path.join(__dirname, '..', '..', 'test', 'fixtures', 'demo.zone'));
+
+      expect(zone['_dmarc.secure.example'].TXT).toEqual(['v=DMARC1; p=reject; rua=mailto:dmarc@secure.example']);
+      expect(zone['_dmarc.monitoring.example'].CNAME).toBe('_dmarc.policies.example');
+      expect(zone['parked.example'].MX).toEqual([{ exchange: '', priority: 0 }]);
+      expect(zone['broken.example'].error).toBe('SERVFAIL');
+    });
+
+    it('should read JSON fixtures by extension', () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zone-')), 'zone.json');
+      fs.writeFileSync(file, JSON.stringify({ 'example.com': { A: ['192.0.2.1'] } }));
+
+      expect(loadZoneFixture(file)).toEqual({ 'example.com': { A: ['192.0.2.1'] } });
+      fs.rmSync(path.dirname(file), { recursive: true });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isIPv4, isIPv6 } from 'net';
+import { DNS_SIMULATED_FAILURES, DnsSimulatedFailure, DnsZone, DnsZoneEntry } from './zone-dns-backend';
+
+// One record or directive, with parenthesized continuation lines joined
+interface ZoneFileLine {
+  lineNumber: number;
+  // Lines starting with whitespace belong to the previous owner name
+  inheritsOwner: boolean;
+  tokens: string[];
+}
+
+const TTL_PATTERN = /^(\d+[smhdw]?)+$/i;
+const CLASSES = ['IN', 'CH', 'HS', 'CS'];
+
+/**
+ * Loads a fixture zone from a BIND-style zone file, or from JSON when the file name ends in .json
+ * @param filePath Path of the fixture
+ * @returns The records of the zone
+ * @throws Error if the file cannot be read or is not a valid zone
+ */
+export function loadZoneFixture(filePath: string): DnsZone {
+  const text = fs.readFileSync(filePath, 'utf8');
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    return parseZoneFixture(JSON.parse(text));
+  }
+  return parseZoneFile(text);
+}
+
+/**
+ * Parses the A, AAAA, TXT, MX, CNAME and TLSA records of a BIND-style zone file
+ * Other record types such as SOA and NS are skipped. The non-standard "$SIMULATE <name> <NXDOMAIN|SERVFAIL|REFUSED|TIMEOUT>"
+ * directive makes every query for a name fail.
+ * @param text The zone file contents
+ * @param origin The origin for relative names until a $ORIGIN directive, empty by default
+ * @returns The records keyed by fully qualified name
+ * @throws Error naming the line of the first invalid record or directive
+ */
+export function parseZoneFile(text: string, origin = ''): DnsZone {
+  const zone: DnsZone = {};
+  let currentOrigin = origin.toLowerCase().replace(/\.$/, '');
+  let owner: string | null = null;
+
+  for (const { lineNumber, inheritsOwner, tokens } of tokenizeZoneFile(text)) {
+    const invalid = (reason: string) => new Error(`Invalid zone file line ${lineNumber}: ${reason}`);
+    const resolveName = (name: string | undefined): string => {
+      if (!name) {
+        throw invalid('missing name');
+      }
+      if (name === '@') {
+        return currentOrigin;
+      }
+      const lower = name.toLowerCase();
+      if (lower.endsWith('.')) {
+        return lower.slice(0, -1);
+      }
+      return currentOrigin ? `${lower}.${currentOrigin}` : lower;
+    };
+
+    if (!inheritsOwner && tokens[0].startsWith('$')) {
+      const directive = tokens[0].toUpperCase();
+      if (directive === '$ORIGIN') {
+        currentOrigin = resolveName(tokens[1]);
+      } else if (directive === '$SIMULATE') {
+        const failure = tokens[2]?.toUpperCase();
+        if (!isSimulatedFailure(failure)) {
+          throw invalid(`$SIMULATE needs one of ${Object.keys(DNS_SIMULATED_FAILURES).join(', ')}`);
+        }
+        entryAt(zone, resolveName(tokens[1])).error = failure;
+      } else if (directive !== '$TTL') {
+        throw invalid(`unsupported directive ${tokens[0]}`);
+      }
+      continue;
+    }
+
+    let fields = tokens;
+    if (!inheritsOwner) {
+      owner = resolveName(fields[0]);
+      fields = fields.slice(1);
+    }
+    if (owner === null) {
+      throw invalid('the first record has no owner name');
+    }
+
+    // TTL and class may appear in either order before the type
+    while (fields.length > 0 && (TTL_PATTERN.test(fields[0]) || CLASSES.includes(fields[0].toUpperCase()))) {
+      fields = fields.slice(1);
+    }
+    if (fields.length === 0) {
+      throw invalid('missing record type');
+    }
+
+    const [type, ...rdata] = fields;
+    addRecord(entryAt(zone, owner), type.toUpperCase(), rdata, resolveName, invalid);
+  }
+
+  return zone;
+}
+
+/**
+ * Checks a JSON fixture, which has the same shape as a DnsZone
+ * @param fixture The parsed JSON
+ * @returns The zone, with owner names, CNAME targets and MX exchanges lowercased and without a trailing dot
+ * @throws Error describing the first invalid entry
+ */
+export function parseZoneFixture(fixture: unknown): DnsZone {
+  if (!isObject(fixture)) {
+    throw new Error('Invalid zone fixture: expected an object keyed by name');
+  }
+
+  const zone: DnsZone = {};
+  for (const [name, entry] of Object.entries(fixture)) {
+    const invalid = (reason: string) => new Error(`Invalid zone fixture entry ${name}: ${reason}`);
+    if (!isObject(entry)) {
+      throw invalid('expected an object of records');
+    }
+    for (const type of ['TXT', 'A', 'AAAA'] as const) {
+      if (entry[type] !== undefined && !(Array.isArray(entry[type]) && entry[type].every(value => typeof value === 'string'))) {
+        throw invalid(`${type} must be a list of strings`);
+      }
+    }
+    if (entry.MX !== undefined && !(Array.isArray(entry.MX)
+      && entry.MX.every(mx => isObject(mx) && typeof mx.exchange === 'string' && Number.isInteger(mx.priority)))) {
+      throw invalid('MX must be a list of { exchange, priority }');
+    }
+    if (entry.TLSA !== undefined && !(Array.isArray(entry.TLSA) && entry.TLSA.every(record => isObject(record)
+      && ['usage', 'selector', 'matchingType'].every(field => Number.isInteger(record[field]))
+      && typeof record.certificateData === 'string'))) {
+      throw invalid('TLSA must be a list of { usage, selector, matchingType, certificateData }');
+    }
+    if (entry.CNAME !== undefined && typeof entry.CNAME !== 'string') {
+      throw invalid('CNAME must be a name');
+    }
+    if (entry.error !== undefined && !isSimulatedFailure(entry.error)) {
+      throw invalid(`error must be one of ${Object.keys(DNS_SIMULATED_FAILURES).join(', ')}`);
+    }
+
+    const records = { ...entry } as DnsZoneEntry;
+    if (records.CNAME !== undefined) {
+      records.CNAME = normalizeFixtureName(records.CNAME);
+    }
+    if (records.MX !== undefined) {
+      records.MX = records.MX.map(mx => ({ ...mx, exchange: normalizeFixtureName(mx.exchange) }));
+    }
+    zone[normalizeFixtureName(name)] = records;
+  }
+
+  return zone;
+}
+
+function addRecord(
+  entry: DnsZoneEntry,
+  type: string,
+  rdata: string[],
+  resolveName: (name: string | undefined) => string,
+  invalid: (reason: string) => Error,
+): void {
+  const byte = (value: string | undefined): number => {
+    if (value === undefined || !/^\d+$/.test(value) || Number(value) > 255) {
+      throw invalid(`${type} parameter ${value ?? '(missing)'} is not a number from 0 to 255`);
+    }
+    return Number(value);
+  };
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      if (rdata.length !== 1 || !(type === 'A' ? isIPv4(rdata[0]) : isIPv6(rdata[0]))) {
+        throw invalid(`${type} record needs one IPv${type === 'A' ? 4 : 6} address`);
+      }
+      (entry[type] ??= []).push(rdata[0]);
+      return;
+    case 'TXT':
+      if (rdata.length === 0) {
+        throw invalid('TXT record has no strings');
+      }
+      // Character-strings of one record are concatenated, as receivers do
+      (entry.TXT ??= []).push(rdata.join(''));
+      return;
+    case 'MX': {
+      const priority = rdata[0];
+      if (rdata.length !== 2 || !/^\d+$/.test(priority) || Number(priority) > 65535) {
+        throw invalid('MX record needs a preference from 0 to 65535 and an exchange');
+      }
+      (entry.MX ??= []).push({ exchange: resolveName(rdata[1]), priority: Number(priority) });
+      return;
+    }
+    case 'CNAME':
+      if (rdata.length !== 1 || entry.CNAME !== undefined) {
+        throw invalid('a name can have only one CNAME target');
+      }
+      entry.CNAME = resolveName(rdata[0]);
+      return;
+    case 'TLSA': {
+      const certificateData = rdata.slice(3).join('');
+      const record = { usage: byte(rdata[0]), selector: byte(rdata[1]), matchingType: byte(rdata[2]), certificateData };
+      if (!/^([0-9a-f]{2})+$/i.test(certificateData)) {
+        throw invalid('TLSA association data must be hex digits');
+      }
+      (entry.TLSA ??= []).push({ ...record, certificateData: certificateData.toLowerCase() });
+      return;
+    }
+    default:
+      // SOA, NS and other types play no part in the checks
+      return;
+  }
+}
+
+/**
+ * Splits a zone file into records, dropping comments and joining parenthesized continuation lines
+ */
+function tokenizeZoneFile(text: string): ZoneFileLine[] {
+  const lines: ZoneFileLine[] = [];
+  let lineNumber = 1;
+  let line: ZoneFileLine = { lineNumber, inheritsOwner: /^[ \t]/.test(text), tokens: [] };
+  let depth = 0;
+  const invalid = (reason: string) => new Error(`Invalid zone file line ${lineNumber}: ${reason}`);
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      lineNumber++;
+      if (depth === 0) {
+        if (line.tokens.length > 0) {
+          lines.push(line);
+        }
+        line = { lineNumber, inheritsOwner: text[i + 1] === ' ' || text[i + 1] === '\t', tokens: [] };
+      }
+    } else if (char === ';') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') {
+        i++;
+      }
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      if (depth === 0) {
+        throw invalid('unbalanced ")"');
+      }
+      depth--;
+    } else if (char === '"') {
+      let value = '';
+      for (i++; text[i] !== '"'; i++) {
+        if (i >= text.length || text[i] === '\n') {
+          throw invalid('unterminated quoted string');
+        }
+        if (text[i] === '\\') {
+          // \DDD is a decimal byte value; any other escaped character stands for itself
+          const digits = text.substring(i + 1, i + 4);
+          if (/^\d{3}$/.test(digits)) {
+            value += String.fromCharCode(Number(digits));
+            i += 3;
+          } else {
+            value += text[++i] ?? '';
+          }
+        } else {
+          value += text[i];
+        }
+      }
+      line.tokens.push(value);
+    } else if (!/\s/.test(char)) {
+      let value = '';
+      for (; i < text.length && !/[\s;()"]/.test(text[i]); i++) {
+        value += text[i];
+      }
+      i--;
+      line.tokens.push(value);
+    }
+  }
+
+  if (depth > 0) {
+    throw invalid('unbalanced "("');
+  }
+  if (line.tokens.length > 0) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+function entryAt(zone: DnsZone, name: string): DnsZoneEntry {
+  return (zone[name] ??= {});
+}
+
+function isSimulatedFailure(value: unknown): value is DnsSimulatedFailure {
+  // Own keys only, so "toString" and other inherited names are not accepted
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DNS_SIMULATED_FAILURES, value);
+}
+
+function normalizeFixtureName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '');
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,13 +4,24 @@ import { DomainsController } from './domains.controller';
 import { DomainRegistryService } from '../firebase/domain-registry.service';
 import { IpBlockerService } from '../voting/ip-blocker.service';
 import { DmarcValidator } from '../dmarc/dmarc-validator.service';
+import { SpfValidator } from '../spf/spf-validator.service';
+import { DkimValidator } from '../dkim/dkim-validator.service';
+import { TransportSecurityValidator } from '../transport/transport-security.service';
+import { BimiValidator } from '../bimi/bimi-validator.service';
+import { DaneValidator } from '../dane/dane-validator.service';
 import { ValidationResult, DomainEntry } from '../firebase/models/domain.model';
+import type { BimiResult, DaneResult, DkimResult, SpfResult, TransportSecurityResult } from '@dmarc-portal/contracts';
 
 describe('DomainsController', () => {
   let controller: DomainsController;
   let domainRegistryService: jest.Mocked<DomainRegistryService>;
   let ipBlockerService: jest.Mocked<IpBlockerService>;
   let dmarcValidator: jest.Mocked<DmarcValidator>;
+  let spfValidator: jest.Mocked<SpfValidator>;
+  let dkimValidator: jest.Mocked<DkimValidator>;
+  let transportSecurityValidator: jest.Mocked<TransportSecurityValidator>;
+  let bimiValidator: jest.Mocked<BimiValidator>;
+  let daneValidator: jest.Mocked<DaneValidator>;
 
   const mockValidationResult: ValidationResult = {
     domain: 'example.com',
@@ -27,6 +38,51 @@ describe('DomainsController', () => {
     checkTimestamp: new Date('2024-01-01T00:00:00Z'),
   };
 
+  const mockSpfResult: SpfResult = {
+    domain: 'example.com',
+    spfRecord: 'v=spf1 mx -all',
+    isValid: true,
+    issues: [],
+  };
+
+  const mockDkimResult: DkimResult = {
+    domain: 'example.com',
+    selectors: [],
+    isValid: false,
+    issues: [],
+  };
+
+  const mockTransportSecurityResult: TransportSecurityResult = {
+    domain: 'example.com',
+    mtaSts: {
+      record: null,
+      policyId: null,
+      policyUrl: 'https://mta-sts.example.com/.well-known/mta-sts.txt',
+      rawPolicy: null,
+    },
+    tlsRpt: { record: null, reportUris: [] },
+    mxHosts: ['mail.example.com'],
+    isValid: false,
+    issues: [],
+  };
+
+  const mockBimiResult: BimiResult = {
+    domain: 'example.com',
+    selector: 'default',
+    record: null,
+    dmarcEnforced: false,
+    logo: null,
+    isReady: false,
+    issues: [],
+  };
+
+  const mockDaneResult: DaneResult = {
+    domain: 'example.com',
+    hosts: [],
+    isValid: true,
+    issues: [],
+  };
+
   const mockDomainEntry: DomainEntry = {
     domain: 'example.com',
     lastChecked: new Date('2024-01-01T00:00:00Z'),
@@ -53,6 +109,26 @@ describe('DomainsController', () => {
       validateDomain: jest.fn(),
     };
 
+    const mockSpfValidator = {
+      validateDomain: jest.fn().mockResolvedValue(mockSpfResult),
+    };
+
+    const mockDkimValidator = {
+      validateDomain: jest.fn().mockResolvedValue(mockDkimResult),
+    };
+
+    const mockTransportSecurityValidator = {
+      validateDomain: jest.fn().mockResolvedValue(mockTransportSecurityResult),
+    };
+
+    const mockBimiValidator = {
+      validateDomain: jest.fn().mockResolvedValue(mockBimiResult),
+    };
+
+    const mockDaneValidator = {
+      validateDomain: jest.fn().mockResolvedValue(mockDaneResult),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [DomainsController],
       providers: [
@@ -68,6 +144,26 @@ describe('DomainsController', () => {
           provide: 'DmarcValidator',
           useValue: mockDmarcValidator,
         },
+        {
+          provide: 'SpfValidator',
+          useValue: mockSpfValidator,
+        },
+        {
+          provide: 'DkimValidator',
+          useValue: mockDkimValidator,
+        },
+        {
+          provide: 'TransportSecurityValidator',
+          useValue: mockTransportSecurityValidator,
+        },
+        {
+          provide: 'BimiValidator',
+          useValue: mockBimiValidator,
+        },
+        {
+          provide: 'DaneValidator',
+          useValue: mockDaneValidator,
+        },
       ],
     }).compile();
 
@@ -75,6 +171,11 @@ describe('DomainsController', () => {
     domainRegistryService = module.get(DomainRegistryService);
     ipBlockerService = module.get(IpBlockerService);
     dmarcValidator = module.get('DmarcValidator');
+    spfValidator = module.get('SpfValidator');
+    dkimValidator = module.get('DkimValidator');
+    transportSecurityValidator = module.get('TransportSecurityValidator');
+    bimiValidator = module.get('BimiValidator');
+    daneValidator = module.get('DaneValidator');
   });
 
   it('should be defined', () => {
@@ -87,8 +188,64 @@ describe('DomainsController', () => {
 
       const result = await controller.validateDomain({ domain: 'example.com' });
 
-      expect(result).toEqual(mockValidationResult);
+      expect(result).toEqual({ ...mockValidationResult, spf: mockSpfResult, dkim: mockDkimResult, transportSecurity: mockTransportSecurityResult, bimi: mockBimiResult, dane: mockDaneResult });
       expect(dmarcValidator.validateDomain).toHaveBeenCalledWith('example.com');
+      expect(spfValidator.validateDomain).toHaveBeenCalledWith('example.com');
+      expect(dkimValidator.validateDomain).toHaveBeenCalledWith('example.com', []);
+      expect(transportSecurityValidator.validateDomain).toHaveBeenCalledWith('example.com');
+      expect(bimiValidator.validateDomain).toHaveBeenCalledWith('example.com', mockValidationResult);
+      expect(daneValidator.validateDomain).toHaveBeenCalledWith('example.com');
+    });
+
+    it('should return the DMARC result without the secondary checks when they fail', async () => {
+      dmarcValidator.validateDomain.mockResolvedValue(mockValidationResult);
+      spfValidator.validateDomain.mockRejectedValue(new Error('SPF lookup failed'));
+      dkimValidator.validateDomain.mockRejectedValue(new Error('DNS error'));
+      transportSecurityValidator.validateDomain.mockRejectedValue(new Error('DNS error'));
+      bimiValidator.validateDomain.mockRejectedValue(new Error('DNS error'));
+      daneValidator.validateDomain.mockRejectedValue(new Error('DNS error'));
+
+      const result = await controller.validateDomain({ domain: 'example.com' });
+
+      expect(result).toEqual(mockValidationResult);
+      expect(result.spf).toBeUndefined();
+      expect(result.dkim).toBeUndefined();
+      expect(result.transportSecurity).toBeUndefined();
+      expect(result.bimi).toBeUndefined();
+      expect(result.dane).toBeUndefined();
+    });
+
+    it('should return only the DMARC outcome when its lookup got no answer', async () => {
+      const timedOut: ValidationResult = {
+        domain: 'example.com',
+        dmarcRecord: null,
+        isValid: false,
+        issues: [],
+        checkTimestamp: new Date(),
+        lookupOutcome: 'timeout',
+      };
+      dmarcValidator.validateDomain.mockResolvedValue(timedOut);
+
+      const result = await controller.validateDomain({ domain: 'example.com' });
+
+      expect(result).toEqual(timedOut);
+      expect(result.spf).toBeUndefined();
+      expect(result.dane).toBeUndefined();
+    });
+
+    it('should probe the DKIM selectors supplied with the request', async () => {
+      dmarcValidator.validateDomain.mockResolvedValue(mockValidationResult);
+
+      await controller.validateDomain({ domain: 'example.com', dkimSelectors: ['mta2024'] });
+
+      expect(dkimValidator.validateDomain).toHaveBeenCalledWith('example.com', ['mta2024']);
+    });
+
+    it('should reject malformed DKIM selectors', async () => {
+      await expect(controller.validateDomain({ domain: 'example.com', dkimSelectors: ['bad selector'] })).rejects.toThrow(
+        new HttpException('DKIM selectors must be valid DNS labels', HttpStatus.BAD_REQUEST),
+      );
+      expect(dmarcValidator.validateDomain).not.toHaveBeenCalled();
     });
 
     it('should throw error for missing domain', async () => {
@@ -149,6 +306,39 @@ describe('DomainsController', () => {
     });
   });
 
+  describe('getDomainRegistry sorted by score', () => {
+    const withScore = (domain: string, score: number | null, upvotes = 0): DomainEntry => ({
+      ...mockDomainEntry,
+      domain,
+      upvotes,
+      validationResult: {
+        ...mockValidationResult,
+        domain,
+        securityScore: score === null ? undefined : { score, grade: score >= 40 ? 'D' : 'F' },
+      },
+    });
+
+    it('should list the weakest domains first', async () => {
+      domainRegistryService.listNonCompliantDomains.mockResolvedValue([
+        withScore('unscored.com', null, 100),
+        withScore('medium.com', 45),
+        withScore('weakest.com', 5),
+        withScore('weak-popular.com', 25, 10),
+        withScore('weak.com', 25, 1),
+      ]);
+
+      const result = await controller.getDomainRegistry('score');
+
+      expect(result.map(entry => entry.domain)).toEqual([
+        'weakest.com',
+        'weak-popular.com',
+        'weak.com',
+        'medium.com',
+        'unscored.com',
+      ]);
+    });
+  });
+
   describe('upvoteDomain', () => {
     const mockRequest = {
       connection: { remoteAddress: '192.168.1.1' },
@@ -215,7 +405,7 @@ describe('DomainsController', () => {
 
       const result = await controller.recheckDomain('example.com');
 
-      expect(result).toEqual(mockValidationResult);
+      expect(result).toEqual({ ...mockValidationResult, spf: mockSpfResult, dkim: mockDkimResult, transportSecurity: mockTransportSecurityResult, bimi: mockBimiResult, dane: mockDaneResult });
       expect(domainRegistryService.removeDomainFromRegistry).not.toHaveBeenCalled();
     });
 
@@ -225,7 +415,7 @@ describe('DomainsController', () => {
 
       const result = await controller.recheckDomain('example.com');
 
-      expect(result).toEqual(compliantResult);
+      expect(result).toEqual({ ...compliantResult, spf: mockSpfResult, dkim: mockDkimResult, transportSecurity: mockTransportSecurityResult, bimi: mockBimiResult, dane: mockDaneResult });
       expect(domainRegistryService.removeDomainFromRegistry).toHaveBeenCalledWith('example.com');
     });
   });
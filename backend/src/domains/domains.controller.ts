@@ -4,6 +4,7 @@ import {
   Post, 
   Param, 
   Body, 
+  Query,
   HttpException, 
   HttpStatus,
   Req,
@@ -14,10 +15,19 @@ import { Request } from 'express';
 import { DomainRegistryService } from '../firebase/domain-registry.service';
 import { IpBlockerService } from '../voting/ip-blocker.service';
 import { DmarcValidator } from '../dmarc/dmarc-validator.service';
+import { SpfValidator } from '../spf/spf-validator.service';
+import { DkimValidator } from '../dkim/dkim-validator.service';
+import { isValidDkimSelector } from '../dkim/dkim-record.parser';
+import { TransportSecurityValidator } from '../transport/transport-security.service';
+import { BimiValidator } from '../bimi/bimi-validator.service';
+import { DaneValidator } from '../dane/dane-validator.service';
+import { isDnsFailure } from '../dns/lookup-outcome';
 import { ValidationResult, DomainEntry } from '../firebase/models/domain.model';
 
 interface ValidateDomainRequest {
   domain: string;
+  // Probed in addition to the common DKIM selectors
+  dkimSelectors?: string[];
 }
 
 interface UpvoteResponse {
@@ -34,6 +44,11 @@ export class DomainsController {
     private readonly domainRegistryService: DomainRegistryService,
     private readonly ipBlockerService: IpBlockerService,
     @Inject('DmarcValidator') private readonly dmarcValidator: DmarcValidator,
+    @Inject('SpfValidator') private readonly spfValidator: SpfValidator,
+    @Inject('DkimValidator') private readonly dkimValidator: DkimValidator,
+    @Inject('TransportSecurityValidator') private readonly transportSecurityValidator: TransportSecurityValidator,
+    @Inject('BimiValidator') private readonly bimiValidator: BimiValidator,
+    @Inject('DaneValidator') private readonly daneValidator: DaneValidator,
   ) {}
 
   /**
@@ -46,10 +61,13 @@ export class DomainsController {
         throw new HttpException('Domain is required', HttpStatus.BAD_REQUEST);
       }
 
+      const dkimSelectors = request.dkimSelectors ?? [];
+      if (!Array.isArray(dkimSelectors) || !dkimSelectors.every(selector => isValidDkimSelector(selector))) {
+        throw new HttpException('DKIM selectors must be valid DNS labels', HttpStatus.BAD_REQUEST);
+      }
+
       this.logger.log(`Validating domain: ${request.domain}`);
-      const result = await this.dmarcValidator.validateDomain(request.domain);
-      
-      return result;
+      return await this.checkDomain(request.domain, dkimSelectors);
     } catch (error) {
       this.logger.error(`Failed to validate domain ${request.domain}:`, error);
       
@@ -66,20 +84,20 @@ export class DomainsController {
 
   /**
    * Get the public registry of non-compliant domains
+   * Sorted by upvotes by default, or weakest security score first with sort=score
    */
   @Get('registry')
-  async getDomainRegistry(): Promise<DomainEntry[]> {
+  async getDomainRegistry(@Query('sort') sort?: 'votes' | 'score'): Promise<DomainEntry[]> {
     try {
       this.logger.log('Fetching domain registry');
       const domains = await this.domainRegistryService.listNonCompliantDomains();
       
+      if (sort === 'score') {
+        return domains.sort((a, b) => this.compareBySecurityScore(a, b));
+      }
+
       // Sort by upvotes (descending) then by check date (most recent first)
-      return domains.sort((a, b) => {
-        if (a.upvotes !== b.upvotes) {
-          return b.upvotes - a.upvotes; // Higher upvotes first
-        }
-        return b.lastChecked.getTime() - a.lastChecked.getTime(); // More recent first
-      });
+      return domains.sort((a, b) => this.compareByVotes(a, b));
     } catch (error) {
       this.logger.error('Failed to fetch domain registry:', error);
       throw new HttpException(
@@ -151,7 +169,7 @@ export class DomainsController {
       this.logger.log(`Re-checking domain: ${domain}`);
       
       // Force a fresh validation (bypass cache)
-      const result = await this.dmarcValidator.validateDomain(domain);
+      const result = await this.checkDomain(domain);
       
       // If domain is now compliant, remove it from registry
       if (result.isValid) {
@@ -197,6 +215,76 @@ export class DomainsController {
     }
   }
 
+  /**
+   * Validates a domain's DMARC configuration and attaches the SPF, DKIM, transport security, BIMI and DANE evaluations of the same domain
+   * A failed secondary check leaves that part unset rather than failing the DMARC result.
+   * BIMI depends on the DMARC policy, so it starts once the DMARC result is known.
+   * When the DMARC lookup itself got no answer, the secondary results are dropped, as they would only repeat the failure.
+   */
+  private async checkDomain(domain: string, dkimSelectors: string[] = []): Promise<ValidationResult> {
+    const dmarc = this.dmarcValidator.validateDomain(domain);
+    const [result, spf, dkim, transportSecurity, bimi, dane] = await Promise.all([
+      dmarc,
+      this.spfValidator.validateDomain(domain).catch(error => {
+        this.logger.warn(`SPF check failed for ${domain}: ${error.message}`);
+        return undefined;
+      }),
+      this.dkimValidator.validateDomain(domain, dkimSelectors).catch(error => {
+        this.logger.warn(`DKIM check failed for ${domain}: ${error.message}`);
+        return undefined;
+      }),
+      this.transportSecurityValidator.validateDomain(domain).catch(error => {
+        this.logger.warn(`Transport security check failed for ${domain}: ${error.message}`);
+        return undefined;
+      }),
+      dmarc.then(dmarcResult => this.bimiValidator.validateDomain(domain, dmarcResult)).catch(error => {
+        this.logger.warn(`BIMI check failed for ${domain}: ${error.message}`);
+        return undefined;
+      }),
+      this.daneValidator.validateDomain(domain).catch(error => {
+        this.logger.warn(`DANE check failed for ${domain}: ${error.message}`);
+        return undefined;
+      }),
+    ]);
+
+    if (isDnsFailure(result.lookupOutcome)) {
+      return result;
+    }
+
+    return {
+      ...result,
+      ...(spf ? { spf } : {}),
+      ...(dkim ? { dkim } : {}),
+      ...(transportSecurity ? { transportSecurity } : {}),
+      ...(bimi ? { bimi } : {}),
+      ...(dane ? { dane } : {}),
+    };
+  }
+
+  /**
+   * Order registry entries by upvotes, then by check date
+   */
+  private compareByVotes(a: DomainEntry, b: DomainEntry): number {
+    if (a.upvotes !== b.upvotes) {
+      return b.upvotes - a.upvotes; // Higher upvotes first
+    }
+    return b.lastChecked.getTime() - a.lastChecked.getTime(); // More recent first
+  }
+
+  /**
+   * Order registry entries by security score, weakest first
+   * Entries stored before scoring existed have no score and are listed last.
+   */
+  private compareBySecurityScore(a: DomainEntry, b: DomainEntry): number {
+    const scoreA = a.validationResult.securityScore?.score ?? Number.POSITIVE_INFINITY;
+    const scoreB = b.validationResult.securityScore?.score ?? Number.POSITIVE_INFINITY;
+
+    if (scoreA !== scoreB) {
+      return scoreA < scoreB ? -1 : 1;
+    }
+    return this.compareByVotes(a, b);
+  }
+
   /**
    * Extract client IP address from request
    */
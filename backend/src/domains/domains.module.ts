@@ -3,9 +3,14 @@ import { DomainsController } from './domains.controller';
 import { FirebaseModule } from '../firebase/firebase.module';
 import { VotingModule } from '../voting/voting.module';
 import { DmarcModule } from '../dmarc/dmarc.module';
+import { SpfModule } from '../spf/spf.module';
+import { DkimModule } from '../dkim/dkim.module';
+import { TransportModule } from '../transport/transport.module';
+import { BimiModule } from '../bimi/bimi.module';
+import { DaneModule } from '../dane/dane.module';
 
 @Module({
-  imports: [FirebaseModule, VotingModule, DmarcModule],
+  imports: [FirebaseModule, VotingModule, DmarcModule, SpfModule, DkimModule, TransportModule, BimiModule, DaneModule],
   controllers: [DomainsController],
 })
 export class DomainsModule {}
\ No newline at end of file
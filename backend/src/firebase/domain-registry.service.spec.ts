@@ -287,6 +287,59 @@ describe('DomainRegistryService', () => {
       expect(firebaseService.createDomain).not.toHaveBeenCalled();
     });
 
+    it('should refuse results of checks that ended in a DNS error', async () => {
+      const failed: ValidationResult = {
+        domain: 'typo.example',
+        dmarcRecord: null,
+        isValid: false,
+        issues: [],
+        checkTimestamp: new Date(),
+        lookupOutcome: 'nxdomain',
+      };
+
+      await expect(service.storeDomainResult(failed)).resolves.toBe(false);
+      await expect(service.storeDomainResult({ ...failed, lookupOutcome: 'timeout' })).resolves.toBe(false);
+      expect(firebaseService.getDomain).not.toHaveBeenCalled();
+      expect(firebaseService.createDomain).not.toHaveBeenCalled();
+
+      firebaseService.getDomain.mockResolvedValue(null);
+      await expect(service.storeDomainResult({ ...failed, lookupOutcome: 'no_record' })).resolves.toBe(true);
+      expect(firebaseService.createDomain).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark parked domains without a reject policy', async () => {
+      const doc = (overrides: Partial<DomainDocument>): DomainDocument => ({
+        domain: 'parked.example',
+        dmarcRecord: 'v=DMARC1; p=quarantine',
+        isValid: false,
+        issues: [],
+        mailClass: 'parked',
+        lastChecked: { toDate: () => new Date() } as any,
+        upvotes: 0,
+        createdAt: { toDate: () => new Date() } as any,
+        updatedAt: { toDate: () => new Date() } as any,
+        ...overrides,
+      });
+      const notReject: ValidationIssue = {
+        code: 'PARKED_DMARC_NOT_REJECT',
+        type: 'weak_policy',
+        severity: 'error',
+        message: 'Non-mail domain missing reject policy',
+        recommendation: 'Set p=reject',
+      };
+
+      firebaseService.getNonCompliantDomains.mockResolvedValue([
+        doc({ issues: [notReject] }),
+        doc({ dmarcRecord: null }),
+        doc({ dmarcRecord: null, mailClass: 'sending' }),
+        doc({ dmarcRecord: 'v=DMARC1; p=reject; rua=ftp://x', issues: [{ ...notReject, code: 'DMARC_RUA_UNSUPPORTED_SCHEME', severity: 'warning' }] }),
+      ]);
+
+      const entries = await service.listNonCompliantDomains();
+
+      expect(entries.map(entry => entry.dmarcStatus)).toEqual(['parked', 'parked', 'missing', 'weak']);
+    });
+
     it('should clear cache correctly', () => {
       const stats = service.getCacheStats();
       expect(stats.size).toBe(0);
@@ -1,7 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { FirebaseService } from './firebase.service';
 import { CacheService } from '../cache/cache.service';
+import type { DmarcStatus } from '@dmarc-portal/contracts';
 import { DomainDocument, ValidationResult, DomainEntry } from './models/domain.model';
+import { isDnsFailure } from '../dns/lookup-outcome';
 
 @Injectable()
 export class DomainRegistryService {
@@ -15,8 +17,15 @@ export class DomainRegistryService {
 
   /**
    * Store domain validation result with caching
+   * Results of checks that ended in a DNS error are refused: a failed lookup says nothing about the domain's DMARC setup.
+   * @returns false if the result was refused
    */
-  async storeDomainResult(result: ValidationResult): Promise<void> {
+  async storeDomainResult(result: ValidationResult): Promise<boolean> {
+    if (isDnsFailure(result.lookupOutcome)) {
+      this.logger.warn(`Not listing ${result.domain}: its check ended with DNS outcome ${result.lookupOutcome}`);
+      return false;
+    }
+
     try {
       // Check if domain already exists
       const existingDomain = await this.firebaseService.getDomain(result.domain);
@@ -32,6 +41,7 @@ export class DomainRegistryService {
       this.cacheService.set(cacheKey, result, this.cacheExpirationMinutes);
       
       this.logger.log(`Stored validation result for domain: ${result.domain}`);
+      return true;
     } catch (error) {
       this.logger.error(`Failed to store domain result for ${result.domain}:`, error);
       throw error;
@@ -145,6 +155,8 @@ export class DomainRegistryService {
       isValid: doc.isValid,
       issues: doc.issues,
       checkTimestamp: doc.lastChecked.toDate(),
+      securityScore: doc.securityScore ?? undefined,
+      lookupOutcome: doc.lookupOutcome ?? undefined,
     };
   }
 
@@ -165,8 +177,15 @@ export class DomainRegistryService {
 
   /**
    * Determine DMARC status based on validation issues
+   * Parked domains that do not reject are singled out, since the fix is a single reject record.
    */
-  private determineDmarcStatus(doc: DomainDocument): 'missing' | 'invalid' | 'weak' {
+  private determineDmarcStatus(doc: DomainDocument): DmarcStatus {
+    const parkedWithoutReject = doc.mailClass === 'parked'
+      && (!doc.dmarcRecord || doc.issues.some(issue => issue.code === 'PARKED_DMARC_NOT_REJECT'));
+    if (parkedWithoutReject) {
+      return 'parked';
+    }
+
     if (!doc.dmarcRecord) {
       return 'missing';
     }
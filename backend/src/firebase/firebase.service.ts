@@ -88,6 +88,9 @@ export class FirebaseService implements OnModuleInit {
         dmarcRecord: validationResult.dmarcRecord,
         isValid: validationResult.isValid,
         issues: validationResult.issues,
+        securityScore: validationResult.securityScore ?? null,
+        mailClass: validationResult.mailProfile?.mailClass ?? null,
+        lookupOutcome: validationResult.lookupOutcome ?? null,
         lastChecked: admin.firestore.Timestamp.fromDate(validationResult.checkTimestamp),
         upvotes: 0,
         createdAt: now,
@@ -127,6 +130,9 @@ export class FirebaseService implements OnModuleInit {
         dmarcRecord: validationResult.dmarcRecord,
         isValid: validationResult.isValid,
         issues: validationResult.issues,
+        securityScore: validationResult.securityScore ?? null,
+        mailClass: validationResult.mailProfile?.mailClass ?? null,
+        lookupOutcome: validationResult.lookupOutcome ?? null,
         lastChecked: admin.firestore.Timestamp.fromDate(validationResult.checkTimestamp),
         updatedAt: admin.firestore.Timestamp.now(),
       };
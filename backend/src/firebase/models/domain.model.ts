@@ -1,35 +1,23 @@
 import { Timestamp } from 'firebase-admin/firestore';
+import type { DnsLookupOutcome, MailClass, SecurityScore, ValidationIssue } from '@dmarc-portal/contracts';
 
-export interface ValidationIssue {
-  type: 'missing_record' | 'syntax_error' | 'weak_policy' | 'alignment_issue' | 'configuration_issue';
-  severity: 'error' | 'warning' | 'info';
-  message: string;
-  recommendation: string;
-}
+// API-facing shapes are defined once in the shared contracts package
+export type { DomainEntry, ValidationIssue, ValidationResult } from '@dmarc-portal/contracts';
 
 export interface DomainDocument {
   domain: string;
   dmarcRecord: string | null;
   isValid: boolean;
+  // Issues stored before issue codes were introduced have no code
   issues: ValidationIssue[];
+  // Absent on documents stored before scoring was introduced
+  securityScore?: SecurityScore | null;
+  // Absent on documents stored before mail classification, null when the MX lookup failed
+  mailClass?: MailClass | null;
+  // Absent on documents stored before lookup outcomes were recorded
+  lookupOutcome?: DnsLookupOutcome | null;
   lastChecked: Timestamp;
   upvotes: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
-
-export interface ValidationResult {
-  domain: string;
-  dmarcRecord: string | null;
-  isValid: boolean;
-  issues: ValidationIssue[];
-  checkTimestamp: Date;
-}
-
-export interface DomainEntry {
-  domain: string;
-  lastChecked: Date;
-  upvotes: number;
-  dmarcStatus: 'missing' | 'invalid' | 'weak';
-  validationResult: ValidationResult;
-}
\ No newline at end of file
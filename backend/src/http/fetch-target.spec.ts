@@ -0,0 +1,30 @@
+import { checkFetchTarget, isNonPublicAddress } from './fetch-target';
+
+describe('Fetch target guard', () => {
+  it('should tell public addresses from loopback, private, link-local, CGNAT and ULA ones', () => {
+    for (const address of ['127.0.0.1', '10.0.0.5', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+      '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.5', 'not-an-address']) {
+      expect(isNonPublicAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '100.128.0.1', '2606:2800:220:1:248:1893:25c8:1946']) {
+      expect(isNonPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('should check every address a host name resolves to', async () => {
+    const lookup = jest.fn(async (hostname: string) => hostname === 'mixed.example' ? ['93.184.216.34', '127.0.0.1'] : ['93.184.216.34']);
+
+    await expect(checkFetchTarget(new URL('https://logo.example/logo.svg'), lookup)).resolves.toBeUndefined();
+    await expect(checkFetchTarget(new URL('https://mixed.example/'), lookup)).rejects.toThrow('mixed.example does not resolve to a public address');
+    await expect(checkFetchTarget(new URL('https://[fd00::1]/'), lookup)).rejects.toThrow('fd00::1 does not resolve to a public address');
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only allow https: on the default port', async () => {
+    const lookup = jest.fn(async () => ['93.184.216.34']);
+
+    await expect(checkFetchTarget(new URL('https://logo.example:443/'), lookup)).resolves.toBeUndefined();
+    await expect(checkFetchTarget(new URL('https://logo.example:8443/'), lookup)).rejects.toThrow('default port');
+    await expect(checkFetchTarget(new URL('http://logo.example/'), lookup)).rejects.toThrow('only https: URLs');
+  });
+});
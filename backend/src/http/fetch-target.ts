@@ -0,0 +1,66 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Resolves a host name to the addresses a connection could use
+export type AddressLookup = (hostname: string) => Promise<string[]>;
+
+// Ranges no public web server uses; fetching them would reach the portal's own network
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.168.0.0', 16], // private
+  ['224.0.0.0', 3], // multicast, reserved and broadcast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // unspecified and loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT, unique local or otherwise not publicly routed
+ * IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry.
+ * @param address The IPv4 or IPv6 address
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves a host name with the system resolver, as fetch would
+ */
+export const lookupSystemAddresses: AddressLookup = async hostname =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+/**
+ * Checks that a URL points to a public HTTPS server on the default port before it is fetched
+ * Domains under check choose these URLs, so anything else would let them probe the portal's own network.
+ * @param url The URL to fetch
+ * @param lookup Resolves host names that are not IP literals
+ * @throws Error if the URL is not https: on port 443, or its host has a non-public address
+ */
+export async function checkFetchTarget(url: URL, lookup: AddressLookup = lookupSystemAddresses): Promise<void> {
+  if (url.protocol !== 'https:' || url.port !== '') {
+    throw new Error(`Refusing to fetch ${url.href}: only https: URLs on the default port are fetched`);
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(hostname) !== 0 ? [hostname] : await lookup(hostname);
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new Error(`Refusing to fetch ${url.href}: ${hostname} does not resolve to a public address`);
+  }
+}
@@ -0,0 +1,76 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpClientImpl } from './http-client.service';
+
+describe('HttpClientService', () => {
+  let server: Server;
+  let baseUrl: string;
+  // The test server is a loopback HTTP server, which the default guard refuses
+  const client = new HttpClientImpl(async () => undefined);
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/policy') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('version: STSv1\n');
+      } else if (req.url === '/moved') {
+        res.writeHead(302, { Location: '/policy' });
+        res.end();
+      } else if (req.url === '/large') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('x'.repeat(2048));
+      } else if (req.url === '/stream') {
+        // Chunked and endless: only a client that stops reading gets a response
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        const timer = setInterval(() => res.write('x'.repeat(512)), 5);
+        res.on('close', () => clearInterval(timer));
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.end('late'), 500);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should return the status, content type and body', async () => {
+    await expect(client.get(`${baseUrl}/policy`)).resolves.toEqual({
+      status: 200,
+      contentType: 'text/plain',
+      body: 'version: STSv1\n',
+    });
+    await expect(client.get(`${baseUrl}/missing`)).resolves.toEqual(expect.objectContaining({ status: 404 }));
+  });
+
+  it('should return redirects instead of following them', async () => {
+    await expect(client.get(`${baseUrl}/moved`)).resolves.toEqual(expect.objectContaining({ status: 302 }));
+  });
+
+  it('should reject bodies over the size limit', async () => {
+    await expect(client.get(`${baseUrl}/large`, { maxBytes: 1024 })).rejects.toThrow('larger than 1024 bytes');
+  });
+
+  it('should stop reading streamed bodies without a length once they pass the size limit', async () => {
+    await expect(client.get(`${baseUrl}/stream`, { maxBytes: 4096, timeoutMs: 5000 })).rejects.toThrow('larger than 4096 bytes');
+  });
+
+  it('should refuse URLs that are not public HTTPS servers on the default port', async () => {
+    const guarded = new HttpClientImpl();
+
+    await expect(guarded.get(`${baseUrl}/policy`)).rejects.toThrow('only https: URLs on the default port are fetched');
+    await expect(guarded.get('https://10.0.0.5:8443/admin')).rejects.toThrow('only https: URLs on the default port');
+    await expect(guarded.get('https://169.254.169.254/latest/meta-data/')).rejects.toThrow('169.254.169.254 does not resolve to a public address');
+    await expect(guarded.get('https://localhost/')).rejects.toThrow('localhost does not resolve to a public address');
+  });
+
+  it('should time out slow responses', async () => {
+    await expect(client.get(`${baseUrl}/slow`, { timeoutMs: 50 })).rejects.toThrow('timed out after 50 ms');
+  });
+});
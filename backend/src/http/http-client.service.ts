@@ -0,0 +1,98 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { checkFetchTarget } from './fetch-target';
+
+export interface HttpRequestOptions {
+  // Abort the request after this many milliseconds
+  timeoutMs?: number;
+  // Reject responses with a larger body
+  maxBytes?: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export interface HttpClient {
+  get(url: string, options?: HttpRequestOptions): Promise<HttpResponse>;
+}
+
+// Refuses a URL by throwing before any request is made
+export type HttpTargetGuard = (url: URL) => Promise<void>;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+
+@Injectable()
+export class HttpClientImpl implements HttpClient {
+  private readonly logger = new Logger(HttpClientImpl.name);
+
+  constructor(
+    @Optional() @Inject('HttpTargetGuard') private readonly checkTarget: HttpTargetGuard = url => checkFetchTarget(url),
+  ) {}
+
+  /**
+   * Fetches a URL without following redirects, so callers can decide whether a redirect is acceptable
+   * Only public HTTPS servers are fetched, since the URLs come from the domains being checked.
+   * @param url The absolute URL to fetch
+   * @param options Timeout and body size limits
+   * @returns The status, content type and body of the response, whatever the status
+   * @throws Error for refused URLs, network and TLS failures, timeouts and oversized bodies
+   */
+  async get(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      await this.checkTarget(new URL(url));
+
+      this.logger.debug(`GET ${url}`);
+      const response = await fetch(url, { redirect: 'manual', signal: controller.signal });
+
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > maxBytes) {
+        await response.body?.cancel();
+        throw new Error(`Response from ${url} is larger than ${maxBytes} bytes`);
+      }
+
+      const body = await readBody(response, maxBytes, url);
+      return { status: response.status, contentType: response.headers.get('content-type'), body };
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Request to ${url} timed out after ${timeoutMs} ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Reads a response body as UTF-8, stopping as soon as it passes the size limit
+ * Chunked responses declare no length, so the limit has to be applied while reading.
+ * @throws Error once the body is larger than maxBytes
+ */
+async function readBody(response: Response, maxBytes: number, url: string): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response from ${url} is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk.value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { HttpClientImpl } from './http-client.service';
+
+@Module({
+  providers: [
+    {
+      provide: 'HttpClient',
+      useClass: HttpClientImpl,
+    },
+  ],
+  exports: ['HttpClient'],
+})
+export class HttpModule {}
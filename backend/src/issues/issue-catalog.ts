@@ -0,0 +1,905 @@
+import type { IssueCatalogEntry, IssueCode, IssueReference } from '@dmarc-portal/contracts';
+
+/**
+ * Version of the issue catalog. Bump the minor version when entries are added and the major
+ * version when a code is removed or changes meaning, so clients can cache and match codes safely.
+ */
+export const ISSUE_CATALOG_VERSION = '1.12.0';
+
+const rfc7489 = (section: string, title: string): IssueReference => ({
+  title: `RFC 7489 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc7489#section-${section}`,
+});
+
+const DMARCBIS: IssueReference = {
+  title: 'DMARCbis draft (draft-ietf-dmarc-dmarcbis)',
+  url: 'https://datatracker.ietf.org/doc/draft-ietf-dmarc-dmarcbis/',
+};
+
+const rfc7208 = (section: string, title: string): IssueReference => ({
+  title: `RFC 7208 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc7208#section-${section}`,
+});
+
+const rfc6376 = (section: string, title: string): IssueReference => ({
+  title: `RFC 6376 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc6376#section-${section}`,
+});
+
+const RFC8301: IssueReference = {
+  title: 'RFC 8301: Cryptographic Algorithm and Key Usage Update to DKIM',
+  url: 'https://www.rfc-editor.org/rfc/rfc8301',
+};
+
+const rfc8461 = (section: string, title: string): IssueReference => ({
+  title: `RFC 8461 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc8461#section-${section}`,
+});
+
+const rfc8460 = (section: string, title: string): IssueReference => ({
+  title: `RFC 8460 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc8460#section-${section}`,
+});
+
+const rfc7505 = (section: string, title: string): IssueReference => ({
+  title: `RFC 7505 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc7505#section-${section}`,
+});
+
+const rfc4035 = (section: string, title: string): IssueReference => ({
+  title: `RFC 4035 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc4035#section-${section}`,
+});
+
+const rfc6698 = (section: string, title: string): IssueReference => ({
+  title: `RFC 6698 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc6698#section-${section}`,
+});
+
+const rfc7672 = (section: string, title: string): IssueReference => ({
+  title: `RFC 7672 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc7672#section-${section}`,
+});
+
+const rfc2308 = (section: string, title: string): IssueReference => ({
+  title: `RFC 2308 section ${section}: ${title}`,
+  url: `https://www.rfc-editor.org/rfc/rfc2308#section-${section}`,
+});
+
+const ZONE_MAINTENANCE: IssueReference = {
+  title: 'RFC 1034 section 4.3.5: Zone maintenance and transfers',
+  url: 'https://www.rfc-editor.org/rfc/rfc1034#section-4.3.5',
+};
+
+const RFC5321_TARGET_HOST: IssueReference = {
+  title: 'RFC 5321 section 5.1: Locating the Target Host',
+  url: 'https://www.rfc-editor.org/rfc/rfc5321#section-5.1',
+};
+
+const BIMI: IssueReference = {
+  title: 'BIMI draft (draft-brand-indicators-for-message-identification)',
+  url: 'https://datatracker.ietf.org/doc/draft-brand-indicators-for-message-identification/',
+};
+
+const SVG_TINY_PS: IssueReference = {
+  title: 'SVG Tiny Portable/Secure draft (draft-svg-tiny-ps-abrotman)',
+  url: 'https://datatracker.ietf.org/doc/draft-svg-tiny-ps-abrotman/',
+};
+
+const RECORD_FORMAT = rfc7489('6.3', 'General Record Format');
+const FORMAL_DEFINITION = rfc7489('6.4', 'Formal Definition');
+const POLICY_DISCOVERY = rfc7489('6.6.3', 'Policy Discovery');
+const DMARC_URIS = rfc7489('6.2', 'DMARC URIs');
+const SPF_RECORD_SELECTION = rfc7208('4.5', 'Selecting Records');
+const SPF_MECHANISMS = rfc7208('5', 'Mechanism Definitions');
+const SPF_ALL = rfc7208('5.1', '"all"');
+const SPF_MODIFIERS = rfc7208('6', 'Modifier Definitions');
+const SPF_SYNTAX = rfc7208('12', 'Collected ABNF');
+const DKIM_KEY_RECORD = rfc6376('3.6.1', 'Textual Representation');
+const DKIM_KEY_LOOKUP = rfc6376('3.6.2.2', 'Use of the TXT RR Type');
+const SPF_LOOKUP_LIMITS = rfc7208('4.6.4', 'DNS Lookup Limits');
+const SPF_INCLUDE = rfc7208('5.2', '"include"');
+const NULL_MX = rfc7505('3', 'The "Null MX" Resource Record');
+const DNSSEC_SECURITY_STATUS = rfc4035('4.3', 'Determining Security Status of Data');
+const TLSA_RDATA = rfc6698('2.1', 'TLSA RDATA Wire Format');
+const DANE_EE = rfc7672('3.1.1', 'Certificate Usage DANE-EE(3)');
+const DANE_PKIX_USAGES = rfc7672('3.1.3', 'Certificate Usages PKIX-TA(0) and PKIX-EE(1)');
+const DANE_TLSA_LOOKUP = rfc7672('2.2.3', 'TLSA Record Lookup');
+const DANE_DNS_ERRORS = rfc7672('2.1.1', 'DNS Errors, Bogus and Indeterminate Responses');
+const MTA_STS_TXT = rfc8461('3.1', 'MTA-STS TXT Records');
+const MTA_STS_POLICY = rfc8461('3.2', 'MTA-STS Policies');
+const MTA_STS_POLICY_RETRIEVAL = rfc8461('3.3', 'HTTPS Policy Fetching');
+const MTA_STS_MX_MATCHING = rfc8461('4.1', 'MX Host Validation');
+const TLS_RPT_RECORD = rfc8460('3', 'Reporting Policy');
+
+export const ISSUE_CATALOG: Record<IssueCode, IssueCatalogEntry> = {
+  DMARC_RECORD_MISSING: {
+    code: 'DMARC_RECORD_MISSING',
+    title: 'No DMARC record',
+    explanation: 'No TXT record starting with v=DMARC1 was found at _dmarc.<domain> or at the organizational domain, so receivers apply no DMARC policy and anyone can spoof the domain.',
+    references: [rfc7489('6.1', 'DMARC Policy Record'), POLICY_DISCOVERY],
+    fixExample: '_dmarc.example.com. IN TXT "v=DMARC1; p=none; rua=mailto:dmarc@example.com"',
+  },
+  DOMAIN_NOT_FOUND: {
+    code: 'DOMAIN_NOT_FOUND',
+    title: 'Domain does not exist',
+    explanation: 'The nameservers answered that the domain does not exist (NXDOMAIN). Usually the name is misspelt or its registration has lapsed; such a domain is not listed in the registry.',
+    references: [rfc2308('2.1', 'Name Error')],
+    fixExample: 'Check the spelling, or that the domain is registered and delegated to its nameservers',
+  },
+  DMARC_LOOKUP_FAILED: {
+    code: 'DMARC_LOOKUP_FAILED',
+    title: 'DMARC lookup failed',
+    explanation: 'The DMARC lookup got no answer because the nameservers failed (SERVFAIL), did not respond in time or refused the query. Nothing is known about the DMARC record, so the domain is not listed in the registry; receivers seeing the same failure may defer or reject mail.',
+    references: [rfc2308('7', 'Other Negative Responses')],
+    fixExample: 'Check that every nameserver of the domain answers for _dmarc.example.com and that its DNSSEC signatures are valid',
+  },
+  DMARC_MULTIPLE_RECORDS: {
+    code: 'DMARC_MULTIPLE_RECORDS',
+    title: 'More than one DMARC record',
+    explanation: 'When several TXT records at _dmarc.<domain> start with v=DMARC1, receivers treat the domain as having no DMARC record at all.',
+    references: [POLICY_DISCOVERY],
+    fixExample: 'Delete all but one record, then merge any settings you need into it:\n_dmarc.example.com. IN TXT "v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com"',
+  },
+  DMARC_NEAR_MISS_RECORD: {
+    code: 'DMARC_NEAR_MISS_RECORD',
+    title: 'Record looks like DMARC but is ignored',
+    explanation: 'Receivers only recognise records that begin exactly with "v=DMARC1". Leading spaces, lower-case "dmarc1" or spaces around "=" make the record invisible to them.',
+    references: [FORMAL_DEFINITION],
+    fixExample: '" v=dmarc1; p=reject"  ->  "v=DMARC1; p=reject"',
+  },
+  DMARC_UNRELATED_TXT_RECORD: {
+    code: 'DMARC_UNRELATED_TXT_RECORD',
+    title: 'Unrelated TXT record at _dmarc',
+    explanation: 'TXT records at _dmarc.<domain> that are not DMARC records are ignored. They are harmless but often left over from a misplaced verification or SPF record.',
+    references: [rfc7489('6.1', 'DMARC Policy Record')],
+    fixExample: 'Move verification tokens to the name the provider asked for, e.g. example.com. IN TXT "google-site-verification=..."',
+  },
+  DMARC_POLICY_INHERITED: {
+    code: 'DMARC_POLICY_INHERITED',
+    title: 'Policy inherited from the organizational domain',
+    explanation: 'The subdomain has no record of its own, so receivers apply the sp policy (or p when sp is absent) published at the organizational domain.',
+    references: [POLICY_DISCOVERY],
+    fixExample: '_dmarc.mail.example.com. IN TXT "v=DMARC1; p=reject; rua=mailto:dmarc@example.com"',
+  },
+  DMARC_RECORD_EMPTY: {
+    code: 'DMARC_RECORD_EMPTY',
+    title: 'Empty DMARC record',
+    explanation: 'The record has no content, so there is no policy for receivers to apply.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=none; rua=mailto:dmarc@example.com',
+  },
+  DMARC_VERSION_NOT_FIRST: {
+    code: 'DMARC_VERSION_NOT_FIRST',
+    title: 'Record does not start with v=DMARC1',
+    explanation: 'The version tag must be the first tag in the record; receivers discard records where it is missing or appears later.',
+    references: [FORMAL_DEFINITION],
+    fixExample: 'p=reject; v=DMARC1  ->  v=DMARC1; p=reject',
+  },
+  DMARC_VERSION_INVALID: {
+    code: 'DMARC_VERSION_INVALID',
+    title: 'Invalid DMARC version',
+    explanation: 'DMARC1 is the only defined version and the value is case-sensitive.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC2; p=reject  ->  v=DMARC1; p=reject',
+  },
+  DMARC_POLICY_MISSING: {
+    code: 'DMARC_POLICY_MISSING',
+    title: 'Required p tag is missing',
+    explanation: 'Every DMARC record must state a policy. Without p, receivers fall back to p=none at best or ignore the record.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; rua=mailto:dmarc@example.com  ->  v=DMARC1; p=none; rua=mailto:dmarc@example.com',
+  },
+  DMARC_POLICY_NOT_AFTER_VERSION: {
+    code: 'DMARC_POLICY_NOT_AFTER_VERSION',
+    title: 'p tag does not follow v=DMARC1',
+    explanation: 'The formal grammar requires the p tag to come directly after the version tag. Strict receivers may reject records that put other tags first.',
+    references: [FORMAL_DEFINITION],
+    fixExample: 'v=DMARC1; rua=mailto:dmarc@example.com; p=reject  ->  v=DMARC1; p=reject; rua=mailto:dmarc@example.com',
+  },
+  DMARC_TAG_MALFORMED: {
+    code: 'DMARC_TAG_MALFORMED',
+    title: 'Malformed tag',
+    explanation: 'Each tag must be written as name=value and tags must be separated by semicolons. A missing "=" or ";" usually merges two tags into one.',
+    references: [FORMAL_DEFINITION],
+    fixExample: 'v=DMARC1; p=reject rua=mailto:dmarc@example.com  ->  v=DMARC1; p=reject; rua=mailto:dmarc@example.com',
+  },
+  DMARC_TAG_DUPLICATE: {
+    code: 'DMARC_TAG_DUPLICATE',
+    title: 'Duplicate tag',
+    explanation: 'A tag appears more than once. Receivers disagree on which value wins, so the effective policy is unpredictable.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=none; p=reject  ->  v=DMARC1; p=reject',
+  },
+  DMARC_TAG_EMPTY: {
+    code: 'DMARC_TAG_EMPTY',
+    title: 'Tag without a value',
+    explanation: 'The tag is present but has no value, so receivers ignore it and use the default.',
+    references: [FORMAL_DEFINITION],
+    fixExample: 'v=DMARC1; p=reject; sp=  ->  v=DMARC1; p=reject; sp=reject',
+  },
+  DMARC_TAG_INVALID_VALUE: {
+    code: 'DMARC_TAG_INVALID_VALUE',
+    title: 'Invalid tag value',
+    explanation: 'The tag value is not one of the values the specification allows. Receivers discard invalid values and use the tag\'s default instead, which may be weaker than intended.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=deny  ->  v=DMARC1; p=reject',
+  },
+  DMARC_TAG_UNKNOWN: {
+    code: 'DMARC_TAG_UNKNOWN',
+    title: 'Unknown tag',
+    explanation: 'Receivers ignore tags they do not know. An unknown tag is usually a typo that silently disables the setting it was meant to configure.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=reject; rau=mailto:dmarc@example.com  ->  v=DMARC1; p=reject; rua=mailto:dmarc@example.com',
+  },
+  DMARC_REPORT_URI_SIZE_INVALID: {
+    code: 'DMARC_REPORT_URI_SIZE_INVALID',
+    title: 'Invalid report size limit',
+    explanation: 'A report URI may end with "!" and a maximum report size: digits followed by an optional k, m, g or t unit.',
+    references: [DMARC_URIS],
+    fixExample: 'mailto:dmarc@example.com!10mb  ->  mailto:dmarc@example.com!10m',
+  },
+  DMARC_POLICY_NONE: {
+    code: 'DMARC_POLICY_NONE',
+    title: 'Policy is p=none',
+    explanation: 'p=none only requests reports; receivers deliver spoofed mail as usual. It is the right first step, but the domain stays unprotected until it moves to quarantine or reject.',
+    references: [RECORD_FORMAT, rfc7489('6.6.2', 'Determine Handling Policy')],
+    fixExample: 'v=DMARC1; p=none; rua=mailto:dmarc@example.com  ->  v=DMARC1; p=quarantine; pct=25; rua=mailto:dmarc@example.com',
+  },
+  DMARC_PCT_PARTIAL: {
+    code: 'DMARC_PCT_PARTIAL',
+    title: 'Policy applies to a sample of messages',
+    explanation: 'With pct below 100, receivers apply the policy only to that share of failing messages and treat the rest one level less strictly.',
+    references: [rfc7489('6.6.4', 'Message Sampling')],
+    fixExample: 'v=DMARC1; p=reject; pct=50  ->  v=DMARC1; p=reject',
+  },
+  DMARC_SP_MISSING: {
+    code: 'DMARC_SP_MISSING',
+    title: 'No explicit subdomain policy',
+    explanation: 'Without sp, subdomains inherit p. Stating sp explicitly makes the intended subdomain policy clear.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=reject  ->  v=DMARC1; p=reject; sp=reject',
+  },
+  DMARC_SP_WEAKER: {
+    code: 'DMARC_SP_WEAKER',
+    title: 'Subdomain policy is weaker than the domain policy',
+    explanation: 'Attackers can spoof any subdomain, such as billing.example.com, and receivers apply the weaker sp policy to it.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=reject; sp=none  ->  v=DMARC1; p=reject; sp=reject',
+  },
+  DMARC_ALIGNMENT_RELAXED: {
+    code: 'DMARC_ALIGNMENT_RELAXED',
+    title: 'Relaxed SPF and DKIM alignment',
+    explanation: 'Relaxed alignment accepts any subdomain of the organizational domain. Strict alignment requires an exact domain match, which narrows what can pass on the domain\'s behalf.',
+    references: [rfc7489('3.1', 'Identifier Alignment')],
+    fixExample: 'v=DMARC1; p=reject  ->  v=DMARC1; p=reject; adkim=s; aspf=s',
+  },
+  DMARC_BIS_TAGS_IGNORED: {
+    code: 'DMARC_BIS_TAGS_IGNORED',
+    title: 'DMARCbis tags ignored by RFC 7489 receivers',
+    explanation: 'The np, psd and t tags come from the DMARCbis draft. Receivers that only implement RFC 7489 skip them, so do not rely on them alone.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=reject; sp=reject; np=reject',
+  },
+  DMARC_PCT_DEPRECATED: {
+    code: 'DMARC_PCT_DEPRECATED',
+    title: 'pct is deprecated by DMARCbis',
+    explanation: 'DMARCbis removes sampling with pct and replaces it with the testing flag t.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=quarantine; pct=25  ->  v=DMARC1; p=quarantine; t=y',
+  },
+  DMARC_TESTING_MODE: {
+    code: 'DMARC_TESTING_MODE',
+    title: 'Testing mode enabled',
+    explanation: 'With t=y, receivers apply one level less than the published policy: reject is treated as quarantine and quarantine as none.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=reject; t=y  ->  v=DMARC1; p=reject',
+  },
+  DMARC_NP_MISSING: {
+    code: 'DMARC_NP_MISSING',
+    title: 'No policy for non-existent subdomains',
+    explanation: 'np sets the policy for mail from subdomains that do not exist in DNS, which are almost always spoofed.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=reject; sp=quarantine  ->  v=DMARC1; p=reject; sp=quarantine; np=reject',
+  },
+  DMARC_NP_WEAKER: {
+    code: 'DMARC_NP_WEAKER',
+    title: 'Non-existent subdomain policy is weaker than sp',
+    explanation: 'Non-existent subdomains never send legitimate mail, so their policy should be at least as strict as the one for real subdomains.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=reject; sp=reject; np=none  ->  v=DMARC1; p=reject; sp=reject; np=reject',
+  },
+  DMARC_PSD_DECLARED: {
+    code: 'DMARC_PSD_DECLARED',
+    title: 'Record declares a public suffix domain',
+    explanation: 'psd=y is meant only for public suffix operators such as registries. On an ordinary domain it changes how receivers find the organizational domain.',
+    references: [DMARCBIS],
+    fixExample: 'v=DMARC1; p=reject; psd=y  ->  v=DMARC1; p=reject',
+  },
+  DMARC_RUA_MISSING: {
+    code: 'DMARC_RUA_MISSING',
+    title: 'No aggregate report address',
+    explanation: 'Without rua you receive no aggregate reports, so you cannot see who sends mail as your domain or safely tighten the policy.',
+    references: [rfc7489('7.2', 'Aggregate Reports')],
+    fixExample: 'v=DMARC1; p=none  ->  v=DMARC1; p=none; rua=mailto:dmarc@example.com',
+  },
+  DMARC_RUA_MISSING_MAILTO: {
+    code: 'DMARC_RUA_MISSING_MAILTO',
+    title: 'Aggregate report address without mailto:',
+    explanation: 'Report destinations are URIs. A bare email address is not a valid URI and receivers will not send reports to it.',
+    references: [DMARC_URIS],
+    fixExample: 'rua=dmarc@example.com  ->  rua=mailto:dmarc@example.com',
+  },
+  DMARC_RUF_MISSING_MAILTO: {
+    code: 'DMARC_RUF_MISSING_MAILTO',
+    title: 'Failure report address without mailto:',
+    explanation: 'Report destinations are URIs. A bare email address is not a valid URI and receivers will not send reports to it.',
+    references: [DMARC_URIS],
+    fixExample: 'ruf=forensic@example.com  ->  ruf=mailto:forensic@example.com',
+  },
+  DMARC_RUA_UNSUPPORTED_SCHEME: {
+    code: 'DMARC_RUA_UNSUPPORTED_SCHEME',
+    title: 'Aggregate report URI uses a scheme other than mailto:',
+    explanation: 'Receivers are only required to support mailto: report URIs; other schemes are usually not delivered.',
+    references: [DMARC_URIS],
+    fixExample: 'rua=https://reports.example.com  ->  rua=mailto:dmarc@example.com',
+  },
+  DMARC_RUF_UNSUPPORTED_SCHEME: {
+    code: 'DMARC_RUF_UNSUPPORTED_SCHEME',
+    title: 'Failure report URI uses a scheme other than mailto:',
+    explanation: 'Receivers are only required to support mailto: report URIs; other schemes are usually not delivered.',
+    references: [DMARC_URIS],
+    fixExample: 'ruf=https://reports.example.com  ->  ruf=mailto:forensic@example.com',
+  },
+  DMARC_RUA_INVALID_ADDRESS: {
+    code: 'DMARC_RUA_INVALID_ADDRESS',
+    title: 'Invalid aggregate report address',
+    explanation: 'The address after mailto: is not a valid email address, so reports cannot be delivered.',
+    references: [DMARC_URIS],
+    fixExample: 'rua=mailto:dmarc  ->  rua=mailto:dmarc@example.com',
+  },
+  DMARC_RUF_INVALID_ADDRESS: {
+    code: 'DMARC_RUF_INVALID_ADDRESS',
+    title: 'Invalid failure report address',
+    explanation: 'The address after mailto: is not a valid email address, so reports cannot be delivered.',
+    references: [DMARC_URIS],
+    fixExample: 'ruf=mailto:forensic  ->  ruf=mailto:forensic@example.com',
+  },
+  DMARC_FO_WITHOUT_RUF: {
+    code: 'DMARC_FO_WITHOUT_RUF',
+    title: 'Failure options without a failure report address',
+    explanation: 'fo controls when failure reports are generated, but it has no effect unless ruf names where to send them.',
+    references: [RECORD_FORMAT, rfc7489('7.3', 'Failure Reports')],
+    fixExample: 'v=DMARC1; p=reject; fo=1  ->  v=DMARC1; p=reject; fo=1; ruf=mailto:forensic@example.com',
+  },
+  DMARC_RF_UNSUPPORTED: {
+    code: 'DMARC_RF_UNSUPPORTED',
+    title: 'Unsupported failure report format',
+    explanation: 'afrf (RFC 6591) is the only registered failure report format; receivers do not produce others.',
+    references: [RECORD_FORMAT, { title: 'RFC 6591: Authentication Failure Reporting Format', url: 'https://www.rfc-editor.org/rfc/rfc6591' }],
+    fixExample: 'rf=iodef  ->  rf=afrf',
+  },
+  DMARC_RI_OUT_OF_RANGE: {
+    code: 'DMARC_RI_OUT_OF_RANGE',
+    title: 'Report interval outside the honoured range',
+    explanation: 'Receivers are only expected to honour aggregate report intervals between one hour and one day; other values are rounded or ignored.',
+    references: [RECORD_FORMAT],
+    fixExample: 'ri=604800  ->  ri=86400',
+  },
+  DMARC_REPORT_DESTINATION_UNAUTHORIZED: {
+    code: 'DMARC_REPORT_DESTINATION_UNAUTHORIZED',
+    title: 'External report destination not authorized',
+    explanation: 'When reports go to a different organizational domain, that domain must publish a v=DMARC1 record at <your-domain>._report._dmarc.<their-domain>. Without it receivers drop the reports.',
+    references: [rfc7489('7.1', 'Verifying External Destinations')],
+    fixExample: 'example.com._report._dmarc.vendor.example. IN TXT "v=DMARC1"',
+  },
+  DMARC_REPORT_DESTINATION_UNVERIFIED: {
+    code: 'DMARC_REPORT_DESTINATION_UNVERIFIED',
+    title: 'External report destination could not be verified',
+    explanation: 'The DNS lookup for the external destination\'s authorization record failed, so it is unknown whether receivers will send reports there.',
+    references: [rfc7489('7.1', 'Verifying External Destinations')],
+    fixExample: 'dig TXT example.com._report._dmarc.vendor.example',
+  },
+  SPF_RECORD_MISSING: {
+    code: 'SPF_RECORD_MISSING',
+    title: 'No SPF record',
+    explanation: 'No TXT record starting with v=spf1 was found at the domain, so receivers cannot tell which servers may send its mail and DMARC can only pass through DKIM.',
+    references: [SPF_RECORD_SELECTION],
+    fixExample: 'example.com. IN TXT "v=spf1 mx include:_spf.mailprovider.example -all"',
+  },
+  SPF_MULTIPLE_RECORDS: {
+    code: 'SPF_MULTIPLE_RECORDS',
+    title: 'More than one SPF record',
+    explanation: 'When several TXT records at the domain start with v=spf1, receivers return a permanent error and SPF fails for every message.',
+    references: [SPF_RECORD_SELECTION],
+    fixExample: '"v=spf1 mx -all" + "v=spf1 include:_spf.google.com -all"  ->  "v=spf1 mx include:_spf.google.com -all"',
+  },
+  SPF_TERM_UNKNOWN: {
+    code: 'SPF_TERM_UNKNOWN',
+    title: 'Unknown SPF mechanism',
+    explanation: 'The record contains a term that is neither a known mechanism nor a name=value modifier. Receivers stop evaluating and return a permanent error.',
+    references: [SPF_MECHANISMS, SPF_SYNTAX],
+    fixExample: 'v=spf1 ipv4:192.0.2.1 -all  ->  v=spf1 ip4:192.0.2.1 -all',
+  },
+  SPF_TERM_INVALID: {
+    code: 'SPF_TERM_INVALID',
+    title: 'Malformed SPF mechanism or modifier',
+    explanation: 'A mechanism or modifier is missing its value or has an invalid domain, address or CIDR length. Receivers return a permanent error for the whole record.',
+    references: [SPF_MECHANISMS, SPF_SYNTAX],
+    fixExample: 'v=spf1 include: ip4:192.0.2.0/33 -all  ->  v=spf1 include:_spf.example.net ip4:192.0.2.0/24 -all',
+  },
+  SPF_MODIFIER_DUPLICATE: {
+    code: 'SPF_MODIFIER_DUPLICATE',
+    title: 'Duplicate SPF modifier',
+    explanation: 'redirect and exp may each appear at most once. A record that repeats either is a permanent error.',
+    references: [SPF_MODIFIERS],
+    fixExample: 'v=spf1 redirect=_spf.a.example redirect=_spf.b.example  ->  v=spf1 redirect=_spf.a.example',
+  },
+  SPF_ALL_PASS: {
+    code: 'SPF_ALL_PASS',
+    title: 'SPF allows every server (+all)',
+    explanation: '"+all" (or a bare "all") matches every sender, so any server on the internet passes SPF for the domain.',
+    references: [SPF_ALL],
+    fixExample: 'v=spf1 mx +all  ->  v=spf1 mx -all',
+  },
+  SPF_ALL_NEUTRAL: {
+    code: 'SPF_ALL_NEUTRAL',
+    title: 'SPF ends in a neutral result (?all)',
+    explanation: '"?all" gives unlisted servers a neutral result, which receivers treat like having no SPF policy at all.',
+    references: [SPF_ALL],
+    fixExample: 'v=spf1 mx ?all  ->  v=spf1 mx ~all  ->  v=spf1 mx -all',
+  },
+  SPF_ALL_MISSING: {
+    code: 'SPF_ALL_MISSING',
+    title: 'SPF record has no "all" mechanism',
+    explanation: 'Without an "all" mechanism or a redirect, messages from unlisted servers get the default neutral result.',
+    references: [SPF_ALL, rfc7208('4.7', 'Default Result')],
+    fixExample: 'v=spf1 mx  ->  v=spf1 mx -all',
+  },
+  SPF_PTR_DEPRECATED: {
+    code: 'SPF_PTR_DEPRECATED',
+    title: 'Deprecated ptr mechanism',
+    explanation: 'ptr depends on slow and unreliable reverse DNS lookups. RFC 7208 says it should not be published and many receivers skip it.',
+    references: [rfc7208('5.5', '"ptr" (do not use)')],
+    fixExample: 'v=spf1 ptr -all  ->  v=spf1 ip4:192.0.2.0/24 -all',
+  },
+  SPF_TERMS_AFTER_ALL: {
+    code: 'SPF_TERMS_AFTER_ALL',
+    title: 'Mechanisms after "all"',
+    explanation: 'Mechanisms are evaluated left to right and "all" always matches, so anything after it is never used.',
+    references: [SPF_ALL],
+    fixExample: 'v=spf1 -all include:_spf.example.net  ->  v=spf1 include:_spf.example.net -all',
+  },
+  SPF_REDIRECT_WITH_ALL: {
+    code: 'SPF_REDIRECT_WITH_ALL',
+    title: 'redirect ignored because of "all"',
+    explanation: 'The redirect modifier only applies when no mechanism matches. With an "all" mechanism in the record it is never used.',
+    references: [rfc7208('6.1', 'redirect: Redirected Query')],
+    fixExample: 'v=spf1 redirect=_spf.example.net -all  ->  v=spf1 redirect=_spf.example.net',
+  },
+  SPF_TOO_MANY_LOOKUPS: {
+    code: 'SPF_TOO_MANY_LOOKUPS',
+    title: 'SPF needs more than 10 DNS lookups',
+    explanation: 'include, a, mx, ptr, exists and redirect each cost a DNS lookup, counted across every nested include. Receivers stop after 10 and return a permanent error, so SPF fails for every message.',
+    references: [SPF_LOOKUP_LIMITS],
+    fixExample: 'v=spf1 a mx include:_spf.a.example include:_spf.b.example ... -all  ->  v=spf1 ip4:192.0.2.0/24 include:_spf.a.example -all',
+  },
+  SPF_TOO_MANY_VOID_LOOKUPS: {
+    code: 'SPF_TOO_MANY_VOID_LOOKUPS',
+    title: 'Too many SPF lookups return nothing',
+    explanation: 'Lookups that return no records or a nonexistent name are void lookups. Receivers return a permanent error after more than 2 of them.',
+    references: [SPF_LOOKUP_LIMITS],
+    fixExample: 'v=spf1 a:old.example.com mx:gone.example.com exists:none.example.com -all  ->  v=spf1 mx -all',
+  },
+  SPF_INCLUDE_LOOP: {
+    code: 'SPF_INCLUDE_LOOP',
+    title: 'SPF include loop',
+    explanation: 'An include or redirect leads back to a record that is already being evaluated. Receivers hit the lookup limit and return a permanent error.',
+    references: [SPF_INCLUDE, SPF_LOOKUP_LIMITS],
+    fixExample: '_spf.example.com. IN TXT "v=spf1 include:example.com -all"  ->  "v=spf1 ip4:192.0.2.0/24 -all"',
+  },
+  SPF_INCLUDE_MISSING: {
+    code: 'SPF_INCLUDE_MISSING',
+    title: 'Included domain has no SPF record',
+    explanation: 'An include or redirect points at a domain without an SPF record. Receivers return a permanent error instead of skipping the term.',
+    references: [SPF_INCLUDE, rfc7208('6.1', 'redirect: Redirected Query')],
+    fixExample: 'v=spf1 include:_spf.typo.example -all  ->  v=spf1 include:_spf.mailprovider.example -all',
+  },
+  SPF_INCLUDE_INVALID: {
+    code: 'SPF_INCLUDE_INVALID',
+    title: 'Included SPF record is invalid',
+    explanation: 'The domain behind an include or redirect publishes several SPF records or one with syntax errors, so receivers return a permanent error.',
+    references: [SPF_INCLUDE, SPF_RECORD_SELECTION],
+    fixExample: '_spf.vendor.example. IN TXT "v=spf1 ipv4:192.0.2.1 -all"  ->  "v=spf1 ip4:192.0.2.1 -all"',
+  },
+  SPF_LOOKUP_FAILED: {
+    code: 'SPF_LOOKUP_FAILED',
+    title: 'DNS lookup during SPF evaluation failed',
+    explanation: 'A name referenced by the record could not be resolved because of a DNS error such as a timeout. Receivers return a temporary error and may defer or reject mail.',
+    references: [SPF_LOOKUP_LIMITS, rfc7208('2.6.6', 'temperror')],
+    fixExample: 'Check that the name servers for the referenced domain answer, e.g. dig TXT _spf.example.net',
+  },
+  SPF_FLATTEN_VOLATILE_INCLUDE: {
+    code: 'SPF_FLATTEN_VOLATILE_INCLUDE',
+    title: 'Vendor include is unsafe to flatten',
+    explanation: 'Large mail vendors add and retire sending ranges without notice. A flattened copy of their include goes stale, and mail from their new addresses fails SPF.',
+    references: [SPF_INCLUDE],
+    fixExample: 'v=spf1 ip4:192.0.2.0/24 include:_spf.google.com -all',
+  },
+  SPF_FLATTEN_TERM_KEPT: {
+    code: 'SPF_FLATTEN_TERM_KEPT',
+    title: 'SPF term cannot be flattened',
+    explanation: 'exists, ptr, macros and terms whose DNS lookups failed have no fixed set of addresses, so the flattened record keeps them and their lookups still count.',
+    references: [SPF_LOOKUP_LIMITS, rfc7208('7', 'Macros')],
+    fixExample: 'v=spf1 exists:%{i}._spf.example.com ip4:192.0.2.0/24 -all',
+  },
+  SPF_FLATTEN_OVER_LIMIT: {
+    code: 'SPF_FLATTEN_OVER_LIMIT',
+    title: 'Flattened record still over the lookup limit',
+    explanation: 'Even after replacing every flattenable include with address ranges, the terms that must stay need more than 10 DNS lookups.',
+    references: [SPF_LOOKUP_LIMITS],
+    fixExample: 'Send vendor mail from a subdomain, e.g. news.example.com. IN TXT "v=spf1 include:servers.mcsv.net -all"',
+  },
+  DKIM_KEYS_NOT_FOUND: {
+    code: 'DKIM_KEYS_NOT_FOUND',
+    title: 'No DKIM keys found',
+    explanation: 'None of the selectors checked has a key record. Selectors can be any name, so DKIM may still be set up under a selector that was not probed; the s= tag of a DKIM-Signature header shows the one in use.',
+    references: [rfc6376('3.1', 'Selectors'), DKIM_KEY_LOOKUP],
+    fixExample: 'selector1._domainkey.example.com. IN TXT "v=DKIM1; k=rsa; p=MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA..."',
+  },
+  DKIM_SELECTOR_NOT_FOUND: {
+    code: 'DKIM_SELECTOR_NOT_FOUND',
+    title: 'DKIM selector has no key record',
+    explanation: 'The requested selector has no key record, so signatures that name it cannot be verified and fail DKIM.',
+    references: [DKIM_KEY_LOOKUP],
+    fixExample: 'mta2024._domainkey.example.com. IN TXT "v=DKIM1; k=rsa; p=MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA..."',
+  },
+  DKIM_MULTIPLE_RECORDS: {
+    code: 'DKIM_MULTIPLE_RECORDS',
+    title: 'More than one DKIM key at a selector',
+    explanation: 'Verifiers expect one key record per selector. With several, the result depends on which record the verifier reads first.',
+    references: [DKIM_KEY_LOOKUP],
+    fixExample: 'Publish the new key under a new selector, e.g. s2._domainkey.example.com, and switch signing to it',
+  },
+  DKIM_LOOKUP_FAILED: {
+    code: 'DKIM_LOOKUP_FAILED',
+    title: 'DKIM key lookup failed',
+    explanation: 'The key record could not be fetched because of a DNS error such as a timeout. Verifiers treat this as a temporary failure.',
+    references: [rfc6376('6.1.2', 'Get the Public Key')],
+    fixExample: 'Check that the name servers answer, e.g. dig TXT selector1._domainkey.example.com',
+  },
+  DKIM_RECORD_INVALID: {
+    code: 'DKIM_RECORD_INVALID',
+    title: 'Malformed DKIM key record',
+    explanation: 'The key record is not a valid tag list, has duplicate tags, a misplaced v= tag, no p= tag or an unknown key type. Verifiers ignore the key and signatures fail.',
+    references: [DKIM_KEY_RECORD],
+    fixExample: 'p=MIIB...; v=DKIM1  ->  v=DKIM1; k=rsa; p=MIIB...',
+  },
+  DKIM_KEY_INVALID: {
+    code: 'DKIM_KEY_INVALID',
+    title: 'DKIM public key cannot be decoded',
+    explanation: 'The p= value is not a valid base64 public key of the declared type, often because it was truncated or mangled when split into TXT strings.',
+    references: [DKIM_KEY_RECORD],
+    fixExample: 'v=DKIM1; k=rsa; p=MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA... (the complete key from your provider)',
+  },
+  DKIM_KEY_REVOKED: {
+    code: 'DKIM_KEY_REVOKED',
+    title: 'DKIM key revoked',
+    explanation: 'An empty p= tag revokes the key. Any mail still signed with this selector fails DKIM.',
+    references: [DKIM_KEY_RECORD],
+    fixExample: 'v=DKIM1; p=  ->  remove the record once nothing signs with this selector',
+  },
+  DKIM_KEY_TESTING: {
+    code: 'DKIM_KEY_TESTING',
+    title: 'DKIM key in testing mode',
+    explanation: 'The t=y flag tells verifiers the domain is testing DKIM, and they may treat failed signatures as if the message were unsigned.',
+    references: [DKIM_KEY_RECORD],
+    fixExample: 'v=DKIM1; t=y; p=MIIB...  ->  v=DKIM1; p=MIIB...',
+  },
+  DKIM_KEY_TOO_SHORT: {
+    code: 'DKIM_KEY_TOO_SHORT',
+    title: 'DKIM RSA key under 1024 bits',
+    explanation: 'Verifiers must not accept signatures from RSA keys shorter than 1024 bits, so messages signed with this key fail DKIM. Such keys can also be factored cheaply.',
+    references: [RFC8301],
+    fixExample: 'openssl genrsa -out s2048.key 2048, then publish the public key under a new selector',
+  },
+  DKIM_KEY_WEAK: {
+    code: 'DKIM_KEY_WEAK',
+    title: 'DKIM RSA key under 2048 bits',
+    explanation: 'RSA keys of 1024 bits are still accepted but no longer recommended; signers should use at least 2048 bits.',
+    references: [RFC8301],
+    fixExample: 'openssl genrsa -out s2048.key 2048, then publish the public key under a new selector',
+  },
+  DKIM_HASH_SHA1_ONLY: {
+    code: 'DKIM_HASH_SHA1_ONLY',
+    title: 'DKIM key restricted to SHA-1',
+    explanation: 'The h= tag only allows SHA-1, but rsa-sha1 signatures must no longer be used and many verifiers reject them.',
+    references: [RFC8301, DKIM_KEY_RECORD],
+    fixExample: 'v=DKIM1; h=sha1; p=MIIB...  ->  v=DKIM1; h=sha256; p=MIIB...',
+  },
+  MTA_STS_RECORD_MISSING: {
+    code: 'MTA_STS_RECORD_MISSING',
+    title: 'No MTA-STS record',
+    explanation: 'Without MTA-STS, sending servers fall back to opportunistic TLS, which an attacker on the path can strip or redirect to a server with any certificate.',
+    references: [MTA_STS_TXT],
+    fixExample: '_mta-sts.example.com. TXT "v=STSv1; id=20240101T000000"',
+  },
+  MTA_STS_MULTIPLE_RECORDS: {
+    code: 'MTA_STS_MULTIPLE_RECORDS',
+    title: 'Multiple MTA-STS records',
+    explanation: 'When more than one TXT record at _mta-sts starts with "v=STSv1", senders must assume the domain has no MTA-STS policy.',
+    references: [MTA_STS_TXT],
+    fixExample: 'Keep one record: _mta-sts.example.com. TXT "v=STSv1; id=20240101T000000"',
+  },
+  MTA_STS_RECORD_INVALID: {
+    code: 'MTA_STS_RECORD_INVALID',
+    title: 'Malformed MTA-STS record',
+    explanation: 'The _mta-sts record must carry an id= of 1-32 letters and digits. Senders compare the id with their cached policy to decide when to fetch a new one.',
+    references: [MTA_STS_TXT],
+    fixExample: 'v=STSv1; id=2024-01-01  ->  v=STSv1; id=20240101',
+  },
+  MTA_STS_POLICY_UNAVAILABLE: {
+    code: 'MTA_STS_POLICY_UNAVAILABLE',
+    title: 'MTA-STS policy cannot be fetched',
+    explanation: 'Senders fetch the policy from https://mta-sts.<domain>/.well-known/mta-sts.txt with a valid certificate, do not follow redirects and require a 200 response with Content-Type text/plain. Otherwise the domain is treated as having no policy.',
+    references: [MTA_STS_POLICY_RETRIEVAL],
+    fixExample: 'Serve https://mta-sts.example.com/.well-known/mta-sts.txt with status 200 and Content-Type: text/plain',
+  },
+  MTA_STS_POLICY_INVALID: {
+    code: 'MTA_STS_POLICY_INVALID',
+    title: 'Malformed MTA-STS policy',
+    explanation: 'The policy file needs "version: STSv1", a mode of enforce, testing or none, a max_age of at most 31557600 seconds and, unless the mode is none, at least one mx line.',
+    references: [MTA_STS_POLICY],
+    fixExample: 'version: STSv1\nmode: enforce\nmx: mail.example.com\nmax_age: 1209600',
+  },
+  MTA_STS_MODE_TESTING: {
+    code: 'MTA_STS_MODE_TESTING',
+    title: 'MTA-STS in testing mode',
+    explanation: 'In testing mode senders report TLS failures through TLS-RPT but still deliver mail when validation fails, so connections are not yet protected.',
+    references: [MTA_STS_POLICY],
+    fixExample: 'mode: testing  ->  mode: enforce',
+  },
+  MTA_STS_MODE_NONE: {
+    code: 'MTA_STS_MODE_NONE',
+    title: 'MTA-STS mode none',
+    explanation: 'Mode none tells senders to discard any cached policy. It is meant for withdrawing MTA-STS, not for a domain that wants protection.',
+    references: [MTA_STS_POLICY],
+    fixExample: 'mode: none  ->  mode: testing, then mode: enforce',
+  },
+  MTA_STS_MAX_AGE_SHORT: {
+    code: 'MTA_STS_MAX_AGE_SHORT',
+    title: 'Short MTA-STS max_age',
+    explanation: 'Senders cache the policy for max_age seconds. A short lifetime means an attacker who blocks the policy fetch for a while can downgrade delivery; weeks are recommended.',
+    references: [MTA_STS_POLICY],
+    fixExample: 'max_age: 86400  ->  max_age: 1209600',
+  },
+  MTA_STS_MX_MISMATCH: {
+    code: 'MTA_STS_MX_MISMATCH',
+    title: 'MX host not listed in MTA-STS policy',
+    explanation: 'Senders only deliver to MX hosts that match an mx line of the policy. In enforce mode mail to an unlisted host is deferred and eventually bounced.',
+    references: [MTA_STS_MX_MATCHING],
+    fixExample: 'mx: mail.example.com  ->  mx: mail.example.com\nmx: *.backup.example.com',
+  },
+  TLS_RPT_RECORD_MISSING: {
+    code: 'TLS_RPT_RECORD_MISSING',
+    title: 'No TLS-RPT record',
+    explanation: 'TLS-RPT tells senders where to report failed TLS negotiations and MTA-STS validation, which is how you learn about misconfiguration or interception.',
+    references: [TLS_RPT_RECORD],
+    fixExample: '_smtp._tls.example.com. TXT "v=TLSRPTv1; rua=mailto:tls-reports@example.com"',
+  },
+  TLS_RPT_MULTIPLE_RECORDS: {
+    code: 'TLS_RPT_MULTIPLE_RECORDS',
+    title: 'Multiple TLS-RPT records',
+    explanation: 'When more than one TLS-RPT record is published, senders must not send reports at all.',
+    references: [TLS_RPT_RECORD],
+    fixExample: 'Merge into one record: v=TLSRPTv1; rua=mailto:a@example.com,https://reports.example.net/tls',
+  },
+  TLS_RPT_RECORD_INVALID: {
+    code: 'TLS_RPT_RECORD_INVALID',
+    title: 'Malformed TLS-RPT record',
+    explanation: 'The record needs a rua= tag with one or more comma-separated mailto: or https: report destinations.',
+    references: [TLS_RPT_RECORD],
+    fixExample: 'v=TLSRPTv1; rua=tls@example.com  ->  v=TLSRPTv1; rua=mailto:tls@example.com',
+  },
+  BIMI_RECORD_MISSING: {
+    code: 'BIMI_RECORD_MISSING',
+    title: 'No BIMI record',
+    explanation: 'BIMI lets mailbox providers show your brand logo next to authenticated mail. Without a record at default._bimi, no logo is shown.',
+    references: [BIMI],
+    fixExample: 'default._bimi.example.com. TXT "v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem"',
+  },
+  BIMI_MULTIPLE_RECORDS: {
+    code: 'BIMI_MULTIPLE_RECORDS',
+    title: 'Multiple BIMI records',
+    explanation: 'When more than one TXT record at the BIMI name starts with "v=BIMI1", mailbox providers cannot tell which applies and show no logo.',
+    references: [BIMI],
+    fixExample: 'Keep one record: v=BIMI1; l=https://example.com/logo.svg',
+  },
+  BIMI_RECORD_INVALID: {
+    code: 'BIMI_RECORD_INVALID',
+    title: 'Malformed BIMI record',
+    explanation: 'The record must start with v=BIMI1 and carry an l= tag. The l= and a= values, when not empty, must each be a single https: URL.',
+    references: [BIMI],
+    fixExample: 'v=BIMI1; l=http://example.com/logo.svg  ->  v=BIMI1; l=https://example.com/logo.svg',
+  },
+  BIMI_RECORD_DECLINED: {
+    code: 'BIMI_RECORD_DECLINED',
+    title: 'BIMI record declines a logo',
+    explanation: 'A record with empty l= and a= tags tells mailbox providers the domain does not want a logo shown, for example on subdomains that should not inherit one.',
+    references: [BIMI],
+    fixExample: 'v=BIMI1; l=; a=;  ->  v=BIMI1; l=https://example.com/logo.svg',
+  },
+  BIMI_DMARC_NOT_ENFORCED: {
+    code: 'BIMI_DMARC_NOT_ENFORCED',
+    title: 'DMARC not enforced for BIMI',
+    explanation: 'Mailbox providers only show BIMI logos for mail from domains whose DMARC policy quarantines or rejects all failing mail: p and sp must not be none and pct must be 100.',
+    references: [BIMI, RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=none; pct=50  ->  v=DMARC1; p=quarantine',
+  },
+  BIMI_AUTHORITY_MISSING: {
+    code: 'BIMI_AUTHORITY_MISSING',
+    title: 'No BIMI mark certificate',
+    explanation: 'The a= tag points to a Verified Mark Certificate or Common Mark Certificate proving the right to use the logo. Several large mailbox providers only show logos that have one.',
+    references: [BIMI],
+    fixExample: 'v=BIMI1; l=https://example.com/logo.svg  ->  v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem',
+  },
+  BIMI_LOGO_UNAVAILABLE: {
+    code: 'BIMI_LOGO_UNAVAILABLE',
+    title: 'BIMI logo cannot be fetched',
+    explanation: 'Mailbox providers download the SVG from the l= location over HTTPS. If that fails, no logo is shown.',
+    references: [BIMI],
+    fixExample: 'Serve https://example.com/logo.svg with status 200 and Content-Type: image/svg+xml',
+  },
+  BIMI_SVG_INVALID: {
+    code: 'BIMI_SVG_INVALID',
+    title: 'Logo is not SVG Tiny PS',
+    explanation: 'BIMI logos must follow the SVG Tiny Portable/Secure profile: baseProfile="tiny-ps", version="1.2", a <title>, no x= or y= on the root, and no scripts, animation, links, raster images or external references.',
+    references: [SVG_TINY_PS],
+    fixExample: '<svg xmlns="http://www.w3.org/2000/svg" version="1.2" baseProfile="tiny-ps" viewBox="0 0 512 512"><title>Example</title>...</svg>',
+  },
+  BIMI_SVG_NOT_SQUARE: {
+    code: 'BIMI_SVG_NOT_SQUARE',
+    title: 'Logo is not square',
+    explanation: 'Mailbox providers display logos in a square or circle. A logo without a square viewBox may be cropped or distorted.',
+    references: [SVG_TINY_PS],
+    fixExample: 'viewBox="0 0 800 400"  ->  viewBox="0 0 800 800" with the logo centered',
+  },
+  BIMI_SVG_TOO_LARGE: {
+    code: 'BIMI_SVG_TOO_LARGE',
+    title: 'Logo file too large',
+    explanation: 'Logos should be at most 32 KB. Larger files may be ignored by mailbox providers.',
+    references: [SVG_TINY_PS],
+    fixExample: 'Remove editor metadata and comments, and simplify paths, e.g. with an SVG optimiser',
+  },
+  MX_NULL_MIXED: {
+    code: 'MX_NULL_MIXED',
+    title: 'Null MX mixed with other MX records',
+    explanation: 'A null MX ("0 .") declares that the domain accepts no mail and must be the only MX record. Combined with other MX records, senders may treat the domain as unable to receive mail or try the other hosts.',
+    references: [NULL_MX],
+    fixExample: 'example.com. MX 0 . and MX 10 mail.example.com.  ->  example.com. MX 10 mail.example.com.',
+  },
+  MX_NULL_WITH_SENDERS: {
+    code: 'MX_NULL_WITH_SENDERS',
+    title: 'Null MX on a sending domain',
+    explanation: 'A domain with a null MX cannot receive bounces or replies. Receivers may reject mail whose sender domain publishes a null MX.',
+    references: [rfc7505('4.2', 'SMTP Server Benefits')],
+    fixExample: 'example.com. MX 0 .  ->  example.com. MX 10 mail.example.com.',
+  },
+  MX_HOST_NOT_FOUND: {
+    code: 'MX_HOST_NOT_FOUND',
+    title: 'MX host does not exist',
+    explanation: 'Each MX record names a host that senders look up for A or AAAA addresses. An exchange without addresses, often left over after a provider change, cannot receive mail.',
+    references: [RFC5321_TARGET_HOST],
+    fixExample: 'example.com. MX 10 old-mail.example.com.  ->  example.com. MX 10 mail.example.com.',
+  },
+  PARKED_DMARC_NOT_REJECT: {
+    code: 'PARKED_DMARC_NOT_REJECT',
+    title: 'Non-mail domain missing reject policy',
+    explanation: 'A domain that neither sends nor receives mail has no legitimate mail that could be affected, so it should publish p=reject straight away. Anything weaker lets attackers spoof it.',
+    references: [RECORD_FORMAT],
+    fixExample: 'v=DMARC1; p=none  ->  v=DMARC1; p=reject; sp=reject',
+  },
+  PARKED_SPF_NOT_FAIL_ALL: {
+    code: 'PARKED_SPF_NOT_FAIL_ALL',
+    title: 'Non-mail domain without "v=spf1 -all"',
+    explanation: 'An SPF record of "v=spf1 -all" states that no host may send mail for the domain, so receivers can reject spoofed mail even without DMARC.',
+    references: [SPF_ALL],
+    fixExample: 'example.com. TXT "v=spf1 -all"',
+  },
+  PARKED_NULL_MX_MISSING: {
+    code: 'PARKED_NULL_MX_MISSING',
+    title: 'Non-mail domain without null MX',
+    explanation: 'Without MX records, senders fall back to the domain\'s address records and may queue mail for days. A null MX tells them at once that the domain accepts no mail.',
+    references: [NULL_MX],
+    fixExample: 'example.com. MX 0 .',
+  },
+  DNSSEC_INSECURE: {
+    code: 'DNSSEC_INSECURE',
+    title: 'Record not protected by DNSSEC',
+    explanation: 'The zone serving the record is not signed, so an attacker who can spoof DNS answers to a receiver can replace or remove the DMARC or SPF record without being detected.',
+    references: [DNSSEC_SECURITY_STATUS],
+    fixExample: 'Enable DNSSEC signing at your DNS provider and publish the DS record at your registrar',
+  },
+  DNSSEC_BOGUS: {
+    code: 'DNSSEC_BOGUS',
+    title: 'DNSSEC validation fails',
+    explanation: 'The zone is signed but its signatures do not validate. Validating resolvers answer SERVFAIL, so receivers behind them see no DMARC or SPF record at all.',
+    references: [DNSSEC_SECURITY_STATUS],
+    fixExample: 'Re-sign the zone, or make the DS record at the registrar match the current key signing key',
+  },
+  DANE_NOT_DEPLOYED: {
+    code: 'DANE_NOT_DEPLOYED',
+    title: 'No DANE TLSA records for the MX hosts',
+    explanation: 'Without TLSA records, senders cannot authenticate your mail servers\' certificates through DNSSEC, and an attacker on the path can strip or intercept TLS.',
+    references: [DANE_TLSA_LOOKUP, DANE_EE],
+    fixExample: '_25._tcp.mx.example.com. TLSA 3 1 1 <SHA-256 of the server public key>',
+  },
+  DANE_PARTIAL_COVERAGE: {
+    code: 'DANE_PARTIAL_COVERAGE',
+    title: 'DANE covers only some MX hosts',
+    explanation: 'Senders apply DANE per MX host. Mail that falls back to a host without TLSA records is delivered without authenticated TLS.',
+    references: [DANE_TLSA_LOOKUP],
+    fixExample: '_25._tcp.mx2.example.com. TLSA 3 1 1 <SHA-256 of the server public key>',
+  },
+  DANE_TLSA_PKIX_USAGE: {
+    code: 'DANE_TLSA_PKIX_USAGE',
+    title: 'TLSA record uses a PKIX certificate usage',
+    explanation: 'SMTP senders have no list of trusted certificate authorities to check PKIX-TA(0) and PKIX-EE(1) records against, so they treat them as unusable.',
+    references: [DANE_PKIX_USAGES],
+    fixExample: '_25._tcp.mx.example.com. TLSA 3 1 1 <SHA-256 of the server public key>',
+  },
+  DANE_TLSA_INVALID: {
+    code: 'DANE_TLSA_INVALID',
+    title: 'Invalid TLSA record',
+    explanation: 'The record has an unknown usage, selector or matching type, or its association data does not have the length of the digest named by the matching type. Senders ignore such records.',
+    references: [TLSA_RDATA],
+    fixExample: '_25._tcp.mx.example.com. TLSA 3 1 1 <64 hex digits>',
+  },
+  DANE_TLSA_FULL_MATCH: {
+    code: 'DANE_TLSA_FULL_MATCH',
+    title: 'TLSA record holds the full certificate or key',
+    explanation: 'Matching type 0 publishes the whole certificate or key instead of a digest. It makes large DNS answers that may be truncated, and SHA-256 (matching type 1) is what senders are expected to support.',
+    references: [TLSA_RDATA, DANE_EE],
+    fixExample: '_25._tcp.mx.example.com. TLSA 3 1 1 <SHA-256 of the server public key>',
+  },
+  DANE_TLSA_WITHOUT_DNSSEC: {
+    code: 'DANE_TLSA_WITHOUT_DNSSEC',
+    title: 'TLSA records not protected by DNSSEC',
+    explanation: 'Senders only use TLSA records from a DNSSEC-validated answer. Unsigned TLSA records are ignored, so the MX host gets no DANE protection.',
+    references: [DANE_TLSA_LOOKUP],
+    fixExample: 'Sign the zone of the MX host with DNSSEC and publish its DS record at the registrar',
+  },
+  DANE_TLSA_DNSSEC_BOGUS: {
+    code: 'DANE_TLSA_DNSSEC_BOGUS',
+    title: 'TLSA records fail DNSSEC validation',
+    explanation: 'When the TLSA lookup fails validation, DANE senders cannot tell whether the host requires authenticated TLS and defer delivery to it.',
+    references: [DANE_DNS_ERRORS],
+    fixExample: 'Re-sign the zone of the MX host, or make its DS record at the registrar match the current key',
+  },
+  DANE_TLSA_DNSSEC_UNVERIFIED: {
+    code: 'DANE_TLSA_DNSSEC_UNVERIFIED',
+    title: 'DNSSEC status of TLSA records not checked',
+    explanation: 'Senders only use TLSA records from a DNSSEC-validated answer. The DNSSEC lookup for this answer failed during the check, so it is unknown whether the MX host is protected by DANE. This is a limitation of the check, not a problem with the domain.',
+    references: [DANE_TLSA_LOOKUP],
+    fixExample: 'No change is needed; check the domain again later',
+  },
+  DNS_RESOLVERS_DISAGREE: {
+    code: 'DNS_RESOLVERS_DISAGREE',
+    title: 'Resolvers return different records',
+    explanation: 'Receivers look the record up through their own resolvers. When resolvers disagree, because of split-horizon DNS, an out-of-sync secondary nameserver or a change that is still propagating, some receivers apply a different policy than others.',
+    references: [ZONE_MAINTENANCE],
+    fixExample: 'Serve the same zone to internal and external resolvers, and check that every NS host returns the current serial',
+  },
+};
+
+/**
+ * Looks up the catalog entry for an issue code
+ * @param code The issue code, matched case-insensitively
+ * @returns The catalog entry, or null if the code is unknown
+ */
+export function getIssueCatalogEntry(code: string): IssueCatalogEntry | null {
+  const normalized = (code || '').trim().toUpperCase();
+  return Object.prototype.hasOwnProperty.call(ISSUE_CATALOG, normalized)
+    ? ISSUE_CATALOG[normalized as IssueCode]
+    : null;
+}
@@ -0,0 +1,57 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { IssuesController } from './issues.controller';
+import { ISSUE_CATALOG, ISSUE_CATALOG_VERSION } from './issue-catalog';
+
+describe('IssuesController', () => {
+  let controller: IssuesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [IssuesController],
+    }).compile();
+
+    controller = module.get<IssuesController>(IssuesController);
+  });
+
+  describe('getIssue', () => {
+    it('should return the versioned catalog entry for a code', () => {
+      const entry = controller.getIssue('DMARC_POLICY_NONE');
+
+      expect(entry.version).toBe(ISSUE_CATALOG_VERSION);
+      expect(entry.code).toBe('DMARC_POLICY_NONE');
+      expect(entry.references[0].url).toContain('rfc7489');
+    });
+
+    it('should match codes case-insensitively', () => {
+      expect(controller.getIssue('dmarc_rua_missing_mailto').code).toBe('DMARC_RUA_MISSING_MAILTO');
+    });
+
+    it('should return 404 for unknown codes', () => {
+      try {
+        controller.getIssue('DMARC_NOT_A_CODE');
+        fail('Expected an HttpException');
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpException);
+        expect(error.getStatus()).toBe(HttpStatus.NOT_FOUND);
+      }
+      expect(() => controller.getIssue('constructor')).toThrow(HttpException);
+    });
+  });
+
+  describe('listIssues', () => {
+    it('should list every entry with its own code as key', () => {
+      const catalog = controller.listIssues();
+
+      expect(catalog.version).toBe(ISSUE_CATALOG_VERSION);
+      expect(catalog.issues).toHaveLength(Object.keys(ISSUE_CATALOG).length);
+      for (const [code, entry] of Object.entries(ISSUE_CATALOG)) {
+        expect(entry.code).toBe(code);
+        expect(entry.title.length).toBeGreaterThan(0);
+        expect(entry.explanation.length).toBeGreaterThan(0);
+        expect(entry.references.length).toBeGreaterThan(0);
+        expect(entry.fixExample.length).toBeGreaterThan(0);
+      }
+    });
+  });
+});
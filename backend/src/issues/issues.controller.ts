@@ -0,0 +1,35 @@
+import { Controller, Get, Param, HttpException, HttpStatus } from '@nestjs/common';
+import type { IssueCatalogEntry, IssueCatalogEntryResponse } from '@dmarc-portal/contracts';
+import { ISSUE_CATALOG, ISSUE_CATALOG_VERSION, getIssueCatalogEntry } from './issue-catalog';
+
+interface IssueCatalogResponse {
+  version: string;
+  issues: IssueCatalogEntry[];
+}
+
+@Controller('api/issues')
+export class IssuesController {
+  /**
+   * List every catalog entry
+   */
+  @Get()
+  listIssues(): IssueCatalogResponse {
+    return {
+      version: ISSUE_CATALOG_VERSION,
+      issues: Object.values(ISSUE_CATALOG),
+    };
+  }
+
+  /**
+   * Get the title, explanation, references and fix example for an issue code
+   */
+  @Get(':code')
+  getIssue(@Param('code') code: string): IssueCatalogEntryResponse {
+    const entry = getIssueCatalogEntry(code);
+    if (!entry) {
+      throw new HttpException(`Unknown issue code: ${code}`, HttpStatus.NOT_FOUND);
+    }
+
+    return { version: ISSUE_CATALOG_VERSION, ...entry };
+  }
+}
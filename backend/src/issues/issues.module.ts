@@ -0,0 +1,7 @@
+import { Module } from '@nestjs/common';
+import { IssuesController } from './issues.controller';
+
+@Module({
+  controllers: [IssuesController],
+})
+export class IssuesModule {}
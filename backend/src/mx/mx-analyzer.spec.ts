@@ -0,0 +1,110 @@
+import { analyzeMailProfile } from './mx-analyzer';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+
+describe('MX analyzer', () => {
+  const analyze = (zone: FakeZone, domain = 'example.com') => analyzeMailProfile(new FakeDnsService(zone), domain);
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  it('should classify a domain whose SPF record authorizes senders as sending', async () => {
+    const profile = await analyze({
+      'example.com': {
+        TXT: ['v=spf1 include:_spf.provider.example ~all'],
+        MX: [
+          { exchange: 'mx2.example.com', priority: 20 },
+          { exchange: 'MX1.example.com.', priority: 10 },
+        ],
+      },
+      'mx1.example.com': { A: ['192.0.2.1'] },
+      'mx2.example.com': { AAAA: ['2001:db8::2'] },
+    });
+
+    expect(profile).toEqual({
+      mailClass: 'sending',
+      mxHosts: [
+        { exchange: 'mx1.example.com', priority: 10, addresses: ['192.0.2.1'] },
+        { exchange: 'mx2.example.com', priority: 20, addresses: ['2001:db8::2'] },
+      ],
+      nullMx: false,
+      authorizesSenders: true,
+      issues: [],
+    });
+  });
+
+  it('should classify a domain with MX hosts but no authorized senders as receiving', async () => {
+    const profile = await analyze({
+      'example.com': { TXT: ['v=spf1 -all'], MX: [{ exchange: 'mx.example.com', priority: 10 }] },
+      'mx.example.com': { A: ['192.0.2.1'] },
+    });
+
+    expect(profile.mailClass).toBe('receiving');
+    expect(profile.issues).toEqual([]);
+  });
+
+  it('should treat redirects and malformed SPF records as authorizing senders', async () => {
+    expect((await analyze({ 'example.com': { TXT: ['v=spf1 redirect=_spf.example.net'] } })).mailClass).toBe('sending');
+    expect((await analyze({ 'example.com': { TXT: ['v=spf1 ip4:not-an-address -all'] } })).mailClass).toBe('sending');
+    expect((await analyze({ 'example.com': { TXT: ['v=spf1 ?all'] } })).authorizesSenders).toBe(false);
+  });
+
+  it('should accept a locked-down parked domain', async () => {
+    const profile = await analyze({ 'example.com': { TXT: ['v=spf1 -all'], MX: [{ exchange: '.', priority: 0 }] } });
+
+    expect(profile).toEqual({ mailClass: 'parked', mxHosts: [], nullMx: true, authorizesSenders: false, issues: [] });
+  });
+
+  it('should tell a parked domain which records lock it down', async () => {
+    const withoutNullMx = await analyze({ 'example.com': { A: ['192.0.2.80'], TXT: ['v=spf1 -all'] } });
+    expect(withoutNullMx.mailClass).toBe('parked');
+    expect(codes(withoutNullMx.issues)).toEqual(['PARKED_NULL_MX_MISSING']);
+    expect(withoutNullMx.issues[0].recommendation).toContain('example.com. MX 0 .');
+
+    const withoutSpf = await analyze({ 'example.com': { MX: [{ exchange: '.', priority: 0 }] } });
+    expect(withoutSpf.mailClass).toBe('parked');
+    expect(codes(withoutSpf.issues)).toEqual(['PARKED_SPF_NOT_FAIL_ALL']);
+  });
+
+  it('should not class a domain as parked without a null MX or "v=spf1 -all"', async () => {
+    // Plenty of domains send mail without publishing SPF
+    const noSpf = await analyze({ 'example.com': { A: ['192.0.2.80'] } });
+    expect(noSpf).toEqual({ mailClass: 'unknown', mxHosts: [], nullMx: false, authorizesSenders: false, issues: [] });
+
+    expect((await analyze({ 'example.com': { TXT: ['v=spf1 ~all'] } })).mailClass).toBe('unknown');
+  });
+
+  it('should report a null MX mixed with other MX records', async () => {
+    const profile = await analyze({
+      'example.com': { MX: [{ exchange: '', priority: 0 }, { exchange: 'mx.example.com', priority: 10 }] },
+      'mx.example.com': { A: ['192.0.2.1'] },
+    });
+
+    expect(profile.nullMx).toBe(true);
+    expect(profile.mailClass).toBe('receiving');
+    expect(codes(profile.issues)).toEqual(['MX_NULL_MIXED']);
+  });
+
+  it('should warn when a null MX domain authorizes senders', async () => {
+    const profile = await analyze({ 'example.com': { TXT: ['v=spf1 ip4:192.0.2.0/24 -all'], MX: [{ exchange: '.', priority: 0 }] } });
+
+    expect(codes(profile.issues)).toEqual(['MX_NULL_WITH_SENDERS']);
+  });
+
+  it('should report MX hosts that do not exist, but not hosts whose lookup failed', async () => {
+    const profile = await analyze({
+      'example.com': {
+        MX: [
+          { exchange: 'gone.example.com', priority: 10 },
+          { exchange: 'flaky.example.com', priority: 20 },
+        ],
+      },
+      'flaky.example.com': { error: 'TIMEOUT' },
+    });
+
+    expect(profile.mxHosts.map(host => host.addresses)).toEqual([[], null]);
+    expect(codes(profile.issues)).toEqual(['MX_HOST_NOT_FOUND']);
+    expect(profile.issues[0].message).toContain('gone.example.com');
+  });
+
+  it('should propagate failures of the domain lookups', async () => {
+    await expect(analyze({ 'example.com': { error: 'SERVFAIL' } })).rejects.toThrow('ESERVFAIL');
+  });
+});
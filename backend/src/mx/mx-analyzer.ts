@@ -0,0 +1,132 @@
+import type { MailClass, MailProfile, MxHost, SpfRecord, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { isSpfRecord, parseSpfRecord } from '../spf/spf-record.parser';
+
+/**
+ * Works out whether a domain sends mail, only receives it, or does neither
+ * A domain is only classed as parked when a null MX or "v=spf1 -all" says it handles no mail.
+ * The MX records are checked for a null MX (RFC 7505) and for exchanges that do not resolve,
+ * and a parked domain is told which records lock it down.
+ * @param dnsService DNS service used for the MX, address and SPF lookups
+ * @param domain The domain to analyze
+ * @returns The mail class, the MX hosts with their addresses and the findings
+ * @throws Error when the MX or TXT lookup of the domain itself fails
+ */
+export async function analyzeMailProfile(dnsService: DnsService, domain: string): Promise<MailProfile> {
+  const [mxRecords, txtRecords] = await Promise.all([
+    dnsService.lookupMxRecords(domain),
+    dnsService.lookupTxtRecords(domain),
+  ]);
+
+  // A null MX is a single record whose exchange is the root, "." (RFC 7505 section 3)
+  const nullMx = mxRecords.some(record => isRootName(record.exchange));
+  const exchanges = mxRecords
+    .filter(record => !isRootName(record.exchange))
+    .sort((a, b) => a.priority - b.priority);
+
+  const mxHosts: MxHost[] = await Promise.all(exchanges.map(async record => {
+    const exchange = record.exchange.toLowerCase().replace(/\.$/, '');
+    const addresses = await dnsService.lookupAddressRecords(exchange).catch(() => null);
+    return { exchange, priority: record.priority, addresses };
+  }));
+
+  const spfRecords = txtRecords.filter(txt => isSpfRecord(txt));
+  // A malformed SPF record still shows the domain meant to send mail
+  const authorizesSenders = spfRecords.some(txt => {
+    const { record } = parseSpfRecord(txt);
+    return record === null || authorizesAnySender(record);
+  });
+
+  // Without MX hosts or authorized senders a domain is only parked if it says so; many sending domains publish no SPF
+  const declaresNoMail = nullMx || spfRecords.some(txt => isFailAllSpfRecord(txt));
+  let mailClass: MailClass = 'unknown';
+  if (authorizesSenders) {
+    mailClass = 'sending';
+  } else if (mxHosts.length > 0) {
+    mailClass = 'receiving';
+  } else if (declaresNoMail) {
+    mailClass = 'parked';
+  }
+  const issues: ValidationIssue[] = [];
+
+  if (nullMx && mxHosts.length > 0) {
+    issues.push({
+      code: 'MX_NULL_MIXED',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `The null MX record is published alongside ${mxHosts.length} other MX record(s); a null MX must be the only MX record`,
+      recommendation: 'Remove the "0 ." MX record if the domain receives mail, or remove the other MX records if it does not',
+    });
+  }
+
+  if (nullMx && authorizesSenders) {
+    issues.push({
+      code: 'MX_NULL_WITH_SENDERS',
+      type: 'configuration_issue',
+      severity: 'warning',
+      message: 'The domain publishes a null MX but its SPF record authorizes senders; bounces cannot be delivered and receivers may reject its mail',
+      recommendation: 'Publish real MX records for a domain that sends mail, or replace the SPF record with "v=spf1 -all"',
+    });
+  }
+
+  for (const host of mxHosts.filter(mx => mx.addresses !== null && mx.addresses.length === 0)) {
+    issues.push({
+      code: 'MX_HOST_NOT_FOUND',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `MX host ${host.exchange} has no A or AAAA record, so mail cannot be delivered to it`,
+      recommendation: 'Point the MX record at a host that exists, or remove it',
+    });
+  }
+
+  if (mailClass === 'parked') {
+    issues.push(...parkedDomainIssues(domain, nullMx, spfRecords));
+  }
+
+  return { mailClass, mxHosts, nullMx, authorizesSenders, issues };
+}
+
+/**
+ * A domain that neither sends nor receives mail should state so in SPF and MX
+ */
+function parkedDomainIssues(domain: string, nullMx: boolean, spfRecords: string[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!spfRecords.some(txt => isFailAllSpfRecord(txt))) {
+    issues.push({
+      code: 'PARKED_SPF_NOT_FAIL_ALL',
+      type: 'weak_policy',
+      severity: 'warning',
+      message: 'This domain does not send mail, but it has no SPF record telling receivers to reject all mail from it',
+      recommendation: `Publish "v=spf1 -all" at ${domain}`,
+    });
+  }
+
+  if (!nullMx) {
+    issues.push({
+      code: 'PARKED_NULL_MX_MISSING',
+      type: 'missing_record',
+      severity: 'warning',
+      message: 'This domain does not receive mail, but it has no null MX record, so senders may try to deliver to its address records',
+      recommendation: `Publish a null MX record: ${domain}. MX 0 .`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Senders are authorized by any "+" mechanism, including "+all", or by a redirect to another policy
+ */
+function authorizesAnySender(record: SpfRecord): boolean {
+  return record.mechanisms.some(mechanism => mechanism.qualifier === '+')
+    || record.modifiers.some(modifier => modifier.name === 'redirect');
+}
+
+function isFailAllSpfRecord(txt: string): boolean {
+  return /^v=spf1\s+-all\s*$/i.test(txt);
+}
+
+function isRootName(exchange: string): boolean {
+  return exchange === '' || exchange === '.';
+}
@@ -0,0 +1,66 @@
+import { CidrBlock, cidrContains, collapseCidrBlocks, formatCidrBlock, parseCidrBlock } from './cidr';
+import * as fc from 'fast-check';
+
+describe('CIDR blocks', () => {
+  const block = (address: string, prefix: number | null = null) => parseCidrBlock(address, prefix)!;
+  const format = (blocks: CidrBlock[]) => blocks.map(formatCidrBlock);
+
+  it('should clear host bits and format single addresses without a prefix', () => {
+    expect(formatCidrBlock(block('192.0.2.77', 24))).toBe('192.0.2.0/24');
+    expect(formatCidrBlock(block('192.0.2.77'))).toBe('192.0.2.77');
+    expect(formatCidrBlock(block('2001:DB8:0:0:1::1', 48))).toBe('2001:db8::/48');
+    expect(formatCidrBlock(block('2001:db8:0:1:0:0:0:1'))).toBe('2001:db8:0:1::1');
+    expect(formatCidrBlock(block('::ffff:192.0.2.1'))).toBe('::ffff:c000:201');
+  });
+
+  it('should reject invalid addresses and prefix lengths', () => {
+    expect(parseCidrBlock('192.0.2.256', null)).toBeNull();
+    expect(parseCidrBlock('192.0.2.0', 33)).toBeNull();
+    expect(parseCidrBlock('2001:db8::', 129)).toBeNull();
+  });
+
+  it('should test containment within the same address family only', () => {
+    expect(cidrContains(block('192.0.2.0', 24), block('192.0.2.128', 25))).toBe(true);
+    expect(cidrContains(block('192.0.2.128', 25), block('192.0.2.0', 24))).toBe(false);
+    expect(cidrContains(block('::', 0), block('192.0.2.1'))).toBe(false);
+  });
+
+  it('should drop contained blocks and merge adjacent halves', () => {
+    const collapsed = collapseCidrBlocks([
+      block('2001:db8:1::', 48),
+      block('198.51.100.7'),
+      block('192.0.2.0', 25),
+      block('192.0.2.128', 26),
+      block('192.0.2.192', 26),
+      block('192.0.2.10'),
+      block('2001:db8::', 48),
+    ]);
+
+    expect(format(collapsed)).toEqual(['192.0.2.0/24', '198.51.100.7', '2001:db8::/47']);
+  });
+
+  it('should not merge neighbours that do not share a parent', () => {
+    expect(format(collapseCidrBlocks([block('192.0.2.128', 25), block('192.0.3.0', 25)]))).toEqual([
+      '192.0.2.128/25',
+      '192.0.3.0/25',
+    ]);
+  });
+
+  it('should cover exactly the same addresses after collapsing', () => {
+    const ipv4Block = fc.tuple(fc.integer({ min: 0, max: 255 }), fc.integer({ min: 24, max: 32 }))
+      .map(([host, prefix]) => block(`10.0.0.${host}`, prefix));
+
+    fc.assert(
+      fc.property(fc.array(ipv4Block, { maxLength: 20 }), (blocks) => {
+        const collapsed = collapseCidrBlocks(blocks);
+
+        for (let host = 0; host < 256; host++) {
+          const address = block(`10.0.0.${host}`);
+          expect(collapsed.some(range => cidrContains(range, address))).toBe(blocks.some(range => cidrContains(range, address)));
+        }
+        expect(collapsed.every((range, i) => collapsed.every((other, j) => i === j || !cidrContains(range, other)))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { isIPv4, isIPv6 } from 'net';
+
+export interface CidrBlock {
+  version: 4 | 6;
+  // Network address with the host bits cleared
+  network: bigint;
+  prefix: number;
+}
+
+const ADDRESS_BITS = { 4: 32, 6: 128 } as const;
+
+/**
+ * Parses an address and prefix length into a network block
+ * @param address IPv4 or IPv6 address, host bits may be set
+ * @param prefix Prefix length, null for a single address
+ * @returns The block with host bits cleared, or null if the address or prefix is invalid
+ */
+export function parseCidrBlock(address: string, prefix: number | null): CidrBlock | null {
+  const version = isIPv4(address) ? 4 : isIPv6(address) ? 6 : null;
+  if (version === null) {
+    return null;
+  }
+
+  const bits = ADDRESS_BITS[version];
+  const length = prefix ?? bits;
+  if (!Number.isInteger(length) || length < 0 || length > bits) {
+    return null;
+  }
+
+  const value = version === 4 ? parseIpv4(address) : parseIpv6(address);
+  return { version, network: value & prefixMask(bits, length), prefix: length };
+}
+
+/**
+ * Formats a block the way SPF ip4/ip6 mechanisms take it, without a prefix for single addresses
+ * @param block The block to format
+ * @returns e.g. "192.0.2.0/24", "192.0.2.1" or "2001:db8::/32"
+ */
+export function formatCidrBlock(block: CidrBlock): string {
+  const address = block.version === 4 ? formatIpv4(block.network) : formatIpv6(block.network);
+  return block.prefix === ADDRESS_BITS[block.version] ? address : `${address}/${block.prefix}`;
+}
+
+/**
+ * @returns true if every address in inner is also in outer
+ */
+export function cidrContains(outer: CidrBlock, inner: CidrBlock): boolean {
+  return outer.version === inner.version
+    && outer.prefix <= inner.prefix
+    && (inner.network & prefixMask(ADDRESS_BITS[outer.version], outer.prefix)) === outer.network;
+}
+
+/**
+ * Collapses blocks into the smallest set covering the same addresses
+ * Blocks inside another block are dropped and adjacent halves of the same parent are merged, repeatedly.
+ * @param blocks Blocks of either version, in any order
+ * @returns IPv4 blocks then IPv6 blocks, each sorted by address
+ */
+export function collapseCidrBlocks(blocks: CidrBlock[]): CidrBlock[] {
+  const sorted = [...blocks].sort((a, b) =>
+    a.version - b.version || (a.network < b.network ? -1 : a.network > b.network ? 1 : a.prefix - b.prefix),
+  );
+
+  // Sorted order means a block can only overlap the last one kept
+  const collapsed: CidrBlock[] = [];
+  for (const block of sorted) {
+    const last = collapsed[collapsed.length - 1];
+    if (last && cidrContains(last, block)) {
+      continue;
+    }
+    collapsed.push(block);
+
+    while (collapsed.length >= 2) {
+      const merged = mergeSiblings(collapsed[collapsed.length - 2], collapsed[collapsed.length - 1]);
+      if (!merged) {
+        break;
+      }
+      collapsed.splice(-2, 2, merged);
+    }
+  }
+
+  return collapsed;
+}
+
+function mergeSiblings(lower: CidrBlock, upper: CidrBlock): CidrBlock | null {
+  if (lower.version !== upper.version || lower.prefix !== upper.prefix || lower.prefix === 0) {
+    return null;
+  }
+
+  const bits = ADDRESS_BITS[lower.version];
+  const parentPrefix = lower.prefix - 1;
+  const isLowerHalf = (lower.network & prefixMask(bits, parentPrefix)) === lower.network;
+  const size = 1n << BigInt(bits - lower.prefix);
+
+  return isLowerHalf && upper.network === lower.network + size
+    ? { version: lower.version, network: lower.network, prefix: parentPrefix }
+    : null;
+}
+
+function prefixMask(bits: number, prefix: number): bigint {
+  const all = (1n << BigInt(bits)) - 1n;
+  return all ^ ((1n << BigInt(bits - prefix)) - 1n);
+}
+
+function parseIpv4(address: string): bigint {
+  return address.split('.').reduce((value, octet) => (value << 8n) + BigInt(parseInt(octet, 10)), 0n);
+}
+
+function parseIpv6(address: string): bigint {
+  let text = address;
+
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4Tail) {
+    const ipv4 = parseIpv4(ipv4Tail[1]);
+    text = `${text.slice(0, -ipv4Tail[1].length)}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  return groups.reduce((value, group) => (value << 16n) + BigInt(parseInt(group, 16)), 0n);
+}
+
+function formatIpv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+}
+
+/**
+ * Formats an IPv6 address in the canonical RFC 5952 text form
+ */
+function formatIpv6(value: bigint): string {
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(112 - i * 16)) & 0xffffn));
+
+  // The longest run of two or more zero groups is written as "::", the first one on a tie
+  let runStart = -1;
+  let runLength = 1;
+  for (let i = 0; i < groups.length;) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < groups.length && groups[end] === 0) {
+      end++;
+    }
+    if (end - i > runLength) {
+      runStart = i;
+      runLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (runStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, runStart).join(':')}::${hex.slice(runStart + runLength).join(':')}`;
+}
@@ -0,0 +1,147 @@
+import { planSpfFlattening, splitIntoStrings, SPF_STRING_LIMIT } from './spf-flattening-advisor';
+import { resolveSpfLookups } from './spf-lookup-resolver';
+import { parseSpfRecord } from './spf-record.parser';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+
+describe('SPF flattening advisor', () => {
+  const plan = async (zone: FakeZone, domain = 'example.com') => {
+    const dnsService = new FakeDnsService(zone);
+    const { record } = parseSpfRecord(zone[domain].TXT![0]);
+    const { summary } = await resolveSpfLookups(dnsService, domain, record!);
+    return planSpfFlattening(dnsService, record!, summary);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  it('should flatten includes, a and mx into collapsed ranges and keep vendor includes', async () => {
+    const result = await plan({
+      'example.com': {
+        TXT: ['v=spf1 a mx include:_spf.partner.example include:_spf.google.com ~all'],
+        A: ['192.0.2.1'],
+        MX: [{ exchange: 'mx.example.com', priority: 10 }],
+      },
+      'mx.example.com': { A: ['192.0.2.2'] },
+      '_spf.partner.example': { TXT: ['v=spf1 ip4:198.51.100.0/25 ip4:198.51.100.128/25 include:_netblocks.partner.example -all'] },
+      '_netblocks.partner.example': { TXT: ['v=spf1 ip6:2001:db8::/32 ip4:198.51.100.7 -all'] },
+      '_spf.google.com': { TXT: ['v=spf1 include:_netblocks.google.com ~all'] },
+      '_netblocks.google.com': { TXT: ['v=spf1 ip4:209.85.128.0/17 ~all'] },
+    });
+
+    expect(result.records).toEqual([{
+      name: 'example.com',
+      value: 'v=spf1 include:_spf.google.com ip4:192.0.2.1 ip4:192.0.2.2 ip4:198.51.100.0/24 ip6:2001:db8::/32 ~all',
+      strings: ['v=spf1 include:_spf.google.com ip4:192.0.2.1 ip4:192.0.2.2 ip4:198.51.100.0/24 ip6:2001:db8::/32 ~all'],
+    }]);
+    expect(result.originalLookups).toBe(6);
+    expect(result.lookups).toBe(2);
+    expect(result.ranges).toEqual([
+      { version: 4, cidr: '192.0.2.1', sources: ['example.com'] },
+      { version: 4, cidr: '192.0.2.2', sources: ['example.com'] },
+      { version: 4, cidr: '198.51.100.0/24', sources: ['_spf.partner.example', '_netblocks.partner.example'] },
+      { version: 4, cidr: '209.85.128.0/17', sources: ['_netblocks.google.com'] },
+      { version: 6, cidr: '2001:db8::/32', sources: ['_netblocks.partner.example'] },
+    ]);
+    expect(result.includes.map(include => [include.term, include.lookups, include.flattened])).toEqual([
+      ['include:_spf.partner.example', 2, true],
+      ['include:_spf.google.com', 2, false],
+    ]);
+    expect(codes(result.issues)).toEqual(['SPF_FLATTEN_VOLATILE_INCLUDE']);
+    expect(result.issues[0].message).toContain('unsafe to flatten');
+  });
+
+  it('should flatten the most expensive vendor include when keeping them exceeds the limit', async () => {
+    const zone: FakeZone = {
+      'example.com': { TXT: ['v=spf1 include:sendgrid.net include:_spf.google.com -all'] },
+      '_spf.google.com': { TXT: ['v=spf1 include:_netblocks.google.com include:_netblocks2.google.com include:_netblocks3.google.com ~all'] },
+      'sendgrid.net': { TXT: [`v=spf1 ${Array.from({ length: 7 }, (_, i) => `include:n${i}.sendgrid.net`).join(' ')} ~all`] },
+    };
+    for (const name of ['_netblocks', '_netblocks2', '_netblocks3']) {
+      zone[`${name}.google.com`] = { TXT: ['v=spf1 ip4:209.85.128.0/17 ~all'] };
+    }
+    for (let i = 0; i < 7; i++) {
+      zone[`n${i}.sendgrid.net`] = { TXT: [`v=spf1 ip4:167.89.${i}.0/24 ~all`] };
+    }
+
+    const result = await plan(zone);
+
+    expect(result.originalLookups).toBe(12);
+    expect(result.lookups).toBe(4);
+    expect(result.includes.map(include => [include.term, include.flattened])).toEqual([
+      ['include:sendgrid.net', true],
+      ['include:_spf.google.com', false],
+    ]);
+    expect(result.records[0].value).toBe('v=spf1 include:_spf.google.com ip4:167.89.0.0/22 ip4:167.89.4.0/23 ip4:167.89.6.0/24 -all');
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'SPF_FLATTEN_VOLATILE_INCLUDE', message: expect.stringContaining('"include:sendgrid.net" was flattened') }),
+      expect.objectContaining({ code: 'SPF_FLATTEN_VOLATILE_INCLUDE', message: expect.stringContaining('"include:_spf.google.com" is unsafe') }),
+    ]);
+  });
+
+  it('should keep terms that cannot be flattened', async () => {
+    const result = await plan({
+      'example.com': { TXT: ['v=spf1 exists:%{i}._spf.example.com ptr include:_spf.gone.example include:_spf.open.example ip4:192.0.2.0/24 -all'] },
+      '_spf.open.example': { TXT: ['v=spf1 ip4:198.51.100.0/24 +all'] },
+    });
+
+    expect(result.records[0].value).toBe(
+      'v=spf1 exists:%{i}._spf.example.com ptr include:_spf.gone.example include:_spf.open.example ip4:192.0.2.0/24 -all',
+    );
+    expect(codes(result.issues)).toEqual(['SPF_FLATTEN_TERM_KEPT', 'SPF_FLATTEN_TERM_KEPT', 'SPF_FLATTEN_TERM_KEPT', 'SPF_FLATTEN_TERM_KEPT']);
+    expect(result.issues.every(issue => issue.severity === 'info')).toBe(true);
+    expect(result.includes.map(include => include.reason)).toEqual([
+      expect.stringContaining('_spf.gone.example could not be resolved'),
+      expect.stringContaining('authorizes every address'),
+    ]);
+    expect(result.lookups).toBe(4);
+  });
+
+  it('should report when the kept terms alone exceed the lookup limit', async () => {
+    const exists = Array.from({ length: 11 }, (_, i) => `exists:%{i}.r${i}.example.com`);
+
+    const result = await plan({ 'example.com': { TXT: [`v=spf1 ${exists.join(' ')} -all`] } });
+
+    expect(result.lookups).toBe(11);
+    expect(result.issues[result.issues.length - 1]).toEqual(expect.objectContaining({ code: 'SPF_FLATTEN_OVER_LIMIT', severity: 'error' }));
+  });
+
+  it('should move ranges into included records when one record would be too large', async () => {
+    const hosts = Array.from({ length: 40 }, (_, i) => `ip4:10.0.${i}.1`);
+
+    const result = await plan({
+      'example.com': { TXT: ['v=spf1 include:_spf.partner.example -all'] },
+      '_spf.partner.example': { TXT: [`v=spf1 ${hosts.join(' ')} -all`] },
+    });
+
+    const [main, ...included] = result.records;
+    expect(included.map(record => record.name)).toEqual(['_spf1.example.com', '_spf2.example.com', '_spf3.example.com']);
+    expect(main.value).toBe('v=spf1 include:_spf1.example.com include:_spf2.example.com include:_spf3.example.com -all');
+    expect(included.every(record => record.strings.length === 1 && record.value.length <= SPF_STRING_LIMIT)).toBe(true);
+    expect(included.every(record => !record.value.includes('all'))).toBe(true);
+    expect(included.flatMap(record => record.value.split(' ').slice(1))).toEqual(hosts);
+    expect(result.lookups).toBe(3);
+  });
+
+  it('should follow a redirect and end with the target record\'s all', async () => {
+    const result = await plan({
+      'example.com': { TXT: ['v=spf1 ip4:192.0.2.1 redirect=_spf.example.net'] },
+      '_spf.example.net': { TXT: ['v=spf1 ip4:203.0.113.0/24 -all'] },
+    });
+
+    expect(result.records[0].value).toBe('v=spf1 ip4:192.0.2.1 ip4:203.0.113.0/24 -all');
+    expect(result.includes).toEqual([expect.objectContaining({ term: 'redirect=_spf.example.net', flattened: true })]);
+    expect(result.lookups).toBe(0);
+  });
+
+  describe('splitIntoStrings', () => {
+    it('should split at term boundaries into strings that join back to the record', () => {
+      const value = `v=spf1 ${Array.from({ length: 50 }, (_, i) => `ip4:10.1.${i}.0/24`).join(' ')} -all`;
+
+      const strings = splitIntoStrings(value);
+
+      expect(strings.length).toBeGreaterThan(1);
+      expect(strings.every(string => string.length <= SPF_STRING_LIMIT)).toBe(true);
+      expect(strings.join('')).toBe(value);
+      expect(strings.slice(1).every(string => string.startsWith(' '))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,433 @@
+import type {
+  SpfFlatteningPlan,
+  SpfIncludeDecision,
+  SpfIpRange,
+  SpfLookupNode,
+  SpfLookupSummary,
+  SpfMechanism,
+  SpfPublishedRecord,
+  SpfRecord,
+  ValidationIssue,
+} from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { CidrBlock, cidrContains, collapseCidrBlocks, formatCidrBlock, parseCidrBlock } from './cidr';
+import { countLookups, SPF_LOOKUP_LIMIT } from './spf-lookup-resolver';
+import { hasMacro, parseSpfRecord } from './spf-record.parser';
+
+// A TXT character-string holds at most 255 bytes (RFC 7208 section 3.3)
+export const SPF_STRING_LIMIT = 255;
+// Longer records are split into included records so the answer fits a 512-byte UDP response (RFC 7208 section 3.4)
+export const SPF_RECORD_SIZE_TARGET = 450;
+
+// Vendors that change their sending ranges without notice, so a flattened copy silently goes stale
+const VOLATILE_INCLUDE_DOMAINS = [
+  '_spf.google.com',
+  'spf.protection.outlook.com',
+  'amazonses.com',
+  'sendgrid.net',
+  'mailgun.org',
+  'servers.mcsv.net',
+  'spf.mandrillapp.com',
+  '_spf.salesforce.com',
+  'mail.zendesk.com',
+  'spf.mtasv.net',
+  'spf.sendinblue.com',
+  'spf.brevo.com',
+  'mktomail.com',
+  '_spf.hubspotemail.net',
+  'zoho.com',
+  'messagingengine.com',
+  '_spf.mx.cloudflare.net',
+];
+
+interface SourcedBlock {
+  block: CidrBlock;
+  // Domain whose record authorizes the block
+  source: string;
+}
+
+interface Expansion {
+  blocks: SourcedBlock[];
+  // Why the term cannot be replaced by its address ranges, null when it can
+  blocker: string | null;
+  // Every domain evaluated below the term, to spot vendor includes nested under a custom one
+  domains: string[];
+  // The "all" term that ends evaluation, following redirects
+  all: string | null;
+}
+
+interface IncludeCandidate {
+  decision: SpfIncludeDecision;
+  expansion: Expansion;
+  volatile: boolean;
+}
+
+/**
+ * Proposes a flattened SPF record: includes and a/mx terms are replaced by the address ranges
+ * they authorize, collapsed into as few CIDR blocks as possible.
+ * Includes of vendors that change their ranges often are kept unless flattening them is the only way under the lookup limit.
+ * Terms that depend on the sending server or could not be resolved are always kept.
+ * @param dnsService DNS service used to resolve a and mx targets
+ * @param record The parsed SPF record of the domain
+ * @param lookups The resolved include tree of the same record
+ * @returns The address inventory, per-include decisions and the records to publish
+ */
+export async function planSpfFlattening(
+  dnsService: DnsService,
+  record: SpfRecord,
+  lookups: SpfLookupSummary,
+): Promise<SpfFlatteningPlan> {
+  const domain = lookups.tree.domain;
+  const issues: ValidationIssue[] = [];
+  // Kept terms and include candidates in record order
+  const terms: (string | IncludeCandidate)[] = [];
+  const blocks: SourcedBlock[] = [];
+  const children = [...lookups.tree.children];
+  let keptLookups = 0;
+  let all: string | null = null;
+
+  for (const mechanism of record.mechanisms) {
+    const child = mechanism.type === 'include' ? children.shift() : undefined;
+
+    if (mechanism.type === 'all') {
+      all = mechanism.raw;
+      break;
+    }
+
+    if (mechanism.qualifier !== '+') {
+      // Only pass results authorize senders, so these stay as they are
+      terms.push(mechanism.raw);
+      keptLookups += termLookups(mechanism, child);
+      continue;
+    }
+
+    switch (mechanism.type) {
+      case 'ip4':
+      case 'ip6':
+        blocks.push(...ipBlocks(mechanism, domain));
+        break;
+
+      case 'a':
+      case 'mx': {
+        const expansion = await expandAddressTerm(dnsService, mechanism, domain);
+        if (expansion.blocker) {
+          terms.push(mechanism.raw);
+          keptLookups++;
+          issues.push(termKept(mechanism.raw, expansion.blocker));
+        } else {
+          blocks.push(...expansion.blocks);
+        }
+        break;
+      }
+
+      case 'include':
+        terms.push(await includeCandidate(dnsService, mechanism.raw, child));
+        break;
+
+      case 'exists':
+      case 'ptr':
+        terms.push(mechanism.raw);
+        keptLookups++;
+        issues.push(termKept(mechanism.raw, 'it depends on the sending server'));
+        break;
+    }
+  }
+
+  const redirect = all ? null : record.modifiers.find(modifier => modifier.name === 'redirect');
+  const redirectCandidate = redirect ? await includeCandidate(dnsService, redirect.raw, children.shift()) : null;
+  const otherModifiers = record.modifiers.filter(modifier => modifier.name !== 'redirect').map(modifier => modifier.raw);
+
+  const candidates = [...terms.filter(isCandidate), ...(redirectCandidate ? [redirectCandidate] : [])];
+  for (const candidate of candidates.filter(c => c.expansion.blocker)) {
+    issues.push(termKept(candidate.decision.term, candidate.expansion.blocker));
+  }
+
+  const build = () => {
+    const flattened = candidates.filter(candidate => candidate.decision.flattened);
+    const ranges = collapse([...blocks, ...flattened.flatMap(candidate => candidate.expansion.blocks)]);
+    const ipTerms = ranges.map(range => `ip${range.version}:${range.cidr}`);
+
+    const keptTerms = terms.map(term => isCandidate(term) ? (term.decision.flattened ? null : term.decision.term) : term).filter(term => term !== null);
+    const ending = redirectCandidate && !redirectCandidate.decision.flattened
+      ? redirectCandidate.decision.term
+      : all ?? redirectCandidate?.expansion.all ?? null;
+    const trailer = [...(ending ? [ending] : []), ...otherModifiers];
+
+    const records = buildRecords(domain, keptTerms, ipTerms, trailer);
+    const total = keptLookups
+      + candidates.filter(candidate => !candidate.decision.flattened).reduce((sum, candidate) => sum + candidate.decision.lookups, 0)
+      + records.length - 1;
+
+    return { records, lookups: total };
+  };
+
+  let proposal = build();
+
+  // Over the limit: flatten volatile includes after all, the most expensive first
+  const volatile = candidates
+    .filter(candidate => candidate.volatile && !candidate.expansion.blocker)
+    .sort((a, b) => b.decision.lookups - a.decision.lookups);
+  for (const candidate of volatile) {
+    if (proposal.lookups <= SPF_LOOKUP_LIMIT) {
+      break;
+    }
+    candidate.decision.flattened = true;
+    candidate.decision.reason = 'Flattened to fit the lookup limit, although the vendor changes these ranges often';
+    proposal = build();
+  }
+
+  for (const candidate of candidates.filter(c => c.volatile)) {
+    issues.push({
+      code: 'SPF_FLATTEN_VOLATILE_INCLUDE',
+      type: 'configuration_issue',
+      severity: 'warning',
+      message: candidate.decision.flattened
+        ? `"${candidate.decision.term}" was flattened to fit the lookup limit, but the vendor changes its ranges often; mail from new addresses will fail SPF until the record is updated`
+        : `"${candidate.decision.term}" is unsafe to flatten because the vendor changes its ranges often, so it is kept as an include`,
+      recommendation: candidate.decision.flattened
+        ? 'Re-run the flattening advisor regularly, or remove other includes so this one can stay'
+        : 'Keep the include and flatten your own ranges instead',
+    });
+  }
+
+  if (proposal.lookups > SPF_LOOKUP_LIMIT) {
+    issues.push({
+      code: 'SPF_FLATTEN_OVER_LIMIT',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `Even the flattened record needs ${proposal.lookups} DNS lookups, more than the limit of ${SPF_LOOKUP_LIMIT}`,
+      recommendation: 'Remove exists and ptr terms, or move some senders to a subdomain with its own SPF record',
+    });
+  }
+
+  return {
+    domain,
+    originalRecord: record.rawRecord,
+    originalLookups: lookups.totalLookups,
+    // The inventory covers kept includes too, so it lists every address the domain authorizes
+    ranges: collapse([...blocks, ...candidates.flatMap(candidate => candidate.expansion.blocks)]),
+    includes: candidates.map(candidate => candidate.decision),
+    records: proposal.records,
+    lookups: proposal.lookups,
+    lookupLimit: SPF_LOOKUP_LIMIT,
+    issues,
+  };
+}
+
+/**
+ * Splits a record into TXT character-strings of at most 255 bytes
+ * Receivers join the strings without a separator, so each split keeps the space in front of the next term.
+ * @param value The record value
+ * @returns The strings to publish in one TXT record
+ */
+export function splitIntoStrings(value: string): string[] {
+  const strings: string[] = [];
+  let current = '';
+
+  for (const [index, term] of value.split(' ').entries()) {
+    const piece = index === 0 ? term : ` ${term}`;
+    if (current.length > 0 && current.length + piece.length > SPF_STRING_LIMIT) {
+      strings.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+
+  return [...strings, current];
+}
+
+async function includeCandidate(dnsService: DnsService, term: string, node: SpfLookupNode): Promise<IncludeCandidate> {
+  const expansion = await expandNode(dnsService, node);
+  const volatile = expansion.domains.some(isVolatileDomain);
+  const decision: SpfIncludeDecision = {
+    term,
+    domain: node.domain,
+    lookups: 1 + countLookups(node),
+    flattened: false,
+    reason: '',
+  };
+
+  if (expansion.blocker) {
+    decision.reason = `Kept: ${expansion.blocker}`;
+  } else if (volatile) {
+    decision.reason = 'Kept: the vendor changes these ranges often, so a flattened copy goes stale';
+  } else {
+    decision.flattened = true;
+    decision.reason = `Replaced by ${collapse(expansion.blocks).length} address range(s)`;
+  }
+
+  return { decision, expansion, volatile };
+}
+
+/**
+ * Collects the ranges authorized by a resolved node and everything below it
+ */
+async function expandNode(dnsService: DnsService, node: SpfLookupNode): Promise<Expansion> {
+  const expansion: Expansion = { blocks: [], blocker: null, domains: [node.domain], all: null };
+  if (node.error || !node.record) {
+    expansion.blocker = `${node.domain} could not be resolved (${node.error ?? 'no record'})`;
+    return expansion;
+  }
+
+  const { record } = parseSpfRecord(node.record);
+  const children = [...node.children];
+
+  for (const mechanism of record.mechanisms) {
+    const child = mechanism.type === 'include' ? children.shift() : undefined;
+
+    if (mechanism.type === 'all') {
+      expansion.all = mechanism.raw;
+      if (mechanism.qualifier === '+') {
+        expansion.blocker = `${node.domain} authorizes every address with "${mechanism.raw}"`;
+      }
+      return expansion;
+    }
+
+    if (mechanism.qualifier !== '+') {
+      continue;
+    }
+
+    switch (mechanism.type) {
+      case 'ip4':
+      case 'ip6':
+        expansion.blocks.push(...ipBlocks(mechanism, node.domain));
+        break;
+
+      case 'a':
+      case 'mx':
+        absorb(expansion, await expandAddressTerm(dnsService, mechanism, node.domain));
+        break;
+
+      case 'include':
+        absorb(expansion, await expandNode(dnsService, child));
+        break;
+
+      case 'exists':
+      case 'ptr':
+        expansion.blocker ??= `"${mechanism.raw}" in ${node.domain} depends on the sending server`;
+        break;
+    }
+  }
+
+  const redirect = record.modifiers.find(modifier => modifier.name === 'redirect');
+  if (redirect) {
+    const redirected = await expandNode(dnsService, children.shift());
+    absorb(expansion, redirected);
+    expansion.all = redirected.all;
+  }
+
+  return expansion;
+}
+
+async function expandAddressTerm(dnsService: DnsService, mechanism: SpfMechanism, domain: string): Promise<Expansion> {
+  const expansion: Expansion = { blocks: [], blocker: null, domains: [], all: null };
+  const target = mechanism.value ?? domain;
+  if (hasMacro(target)) {
+    expansion.blocker = `"${mechanism.raw}" depends on the sending server`;
+    return expansion;
+  }
+
+  try {
+    const hosts = mechanism.type === 'mx'
+      ? (await dnsService.lookupMxRecords(target)).map(mx => mx.exchange)
+      : [target];
+
+    for (const host of hosts) {
+      for (const address of await dnsService.lookupAddressRecords(host)) {
+        const block = parseCidrBlock(address, address.includes(':') ? mechanism.cidr6 : mechanism.cidr4);
+        if (block) {
+          expansion.blocks.push({ block, source: domain });
+        }
+      }
+    }
+  } catch (error) {
+    expansion.blocker = `the lookup for "${mechanism.raw}" failed (${error.message})`;
+  }
+
+  return expansion;
+}
+
+function ipBlocks(mechanism: SpfMechanism, source: string): SourcedBlock[] {
+  const block = parseCidrBlock(mechanism.value, mechanism.type === 'ip4' ? mechanism.cidr4 : mechanism.cidr6);
+  return block ? [{ block, source }] : [];
+}
+
+function absorb(target: Expansion, source: Expansion): void {
+  target.blocks.push(...source.blocks);
+  target.blocker ??= source.blocker;
+  target.domains.push(...source.domains);
+}
+
+/**
+ * Collapses the blocks and lists, for each resulting range, the domains that contributed to it
+ */
+function collapse(blocks: SourcedBlock[]): SpfIpRange[] {
+  return collapseCidrBlocks(blocks.map(sourced => sourced.block)).map(range => ({
+    version: range.version,
+    cidr: formatCidrBlock(range),
+    sources: [...new Set(blocks.filter(sourced => cidrContains(range, sourced.block)).map(sourced => sourced.source))],
+  }));
+}
+
+/**
+ * Lays out the proposed terms as one record, or as a main record including
+ * numbered records that hold the address ranges when one record would be too large
+ */
+function buildRecords(domain: string, keptTerms: string[], ipTerms: string[], trailer: string[]): SpfPublishedRecord[] {
+  const single = ['v=spf1', ...keptTerms, ...ipTerms, ...trailer].join(' ');
+  if (single.length <= SPF_RECORD_SIZE_TARGET) {
+    return [publishedRecord(domain, single)];
+  }
+
+  // Each included record holds one string's worth of ranges and no "all", so non-matching senders fall through
+  const chunks: string[][] = [];
+  for (const term of ipTerms) {
+    const chunk = chunks[chunks.length - 1];
+    if (chunk && ['v=spf1', ...chunk, term].join(' ').length <= SPF_STRING_LIMIT) {
+      chunk.push(term);
+    } else {
+      chunks.push([term]);
+    }
+  }
+
+  const included = chunks.map((chunk, index) => publishedRecord(`_spf${index + 1}.${domain}`, ['v=spf1', ...chunk].join(' ')));
+  const main = ['v=spf1', ...keptTerms, ...included.map(record => `include:${record.name}`), ...trailer].join(' ');
+
+  return [publishedRecord(domain, main), ...included];
+}
+
+function publishedRecord(name: string, value: string): SpfPublishedRecord {
+  return { name, value, strings: splitIntoStrings(value) };
+}
+
+function termLookups(mechanism: SpfMechanism, child: SpfLookupNode | undefined): number {
+  switch (mechanism.type) {
+    case 'include':
+      return 1 + countLookups(child);
+    case 'a':
+    case 'mx':
+    case 'ptr':
+    case 'exists':
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+function termKept(term: string, reason: string): ValidationIssue {
+  return {
+    code: 'SPF_FLATTEN_TERM_KEPT',
+    type: 'configuration_issue',
+    severity: 'info',
+    message: `"${term}" stays in the flattened record because ${reason}`,
+    recommendation: 'Its DNS lookups still count against the limit; replace it with ip4/ip6 ranges if you can',
+  };
+}
+
+function isCandidate(term: string | IncludeCandidate): term is IncludeCandidate {
+  return typeof term !== 'string';
+}
+
+function isVolatileDomain(domain: string): boolean {
+  return VOLATILE_INCLUDE_DOMAINS.some(volatile => domain === volatile || domain.endsWith(`.${volatile}`));
+}
@@ -0,0 +1,127 @@
+import { resolveSpfLookups, SPF_LOOKUP_LIMIT, SPF_VOID_LOOKUP_LIMIT } from './spf-lookup-resolver';
+import { parseSpfRecord } from './spf-record.parser';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+
+describe('SPF lookup resolver', () => {
+  const resolve = (zone: FakeZone, domain = 'example.com') => {
+    const dnsService = new FakeDnsService(zone);
+    const { record } = parseSpfRecord(zone[domain].TXT!.find(txt => txt.startsWith('v=spf1'))!);
+    return resolveSpfLookups(dnsService, domain, record!);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  it('should report the include tree with per-node lookup counts', async () => {
+    const { summary, issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 mx a include:_spf.vendor.example ip4:192.0.2.0/24 -all'], A: ['192.0.2.1'], MX: [{ exchange: 'mx.example.com', priority: 10 }] },
+      '_spf.vendor.example': { TXT: ['v=spf1 include:_netblocks.vendor.example exists:%{i}.allow.vendor.example ~all'] },
+      '_netblocks.vendor.example': { TXT: ['v=spf1 ip4:198.51.100.0/24 ip6:2001:db8::/32 ~all'] },
+    });
+
+    expect(issues).toEqual([]);
+    expect(summary).toEqual(expect.objectContaining({
+      totalLookups: 5,
+      lookupLimit: SPF_LOOKUP_LIMIT,
+      totalVoidLookups: 0,
+      voidLookupLimit: SPF_VOID_LOOKUP_LIMIT,
+    }));
+    expect(summary.tree).toEqual(expect.objectContaining({ domain: 'example.com', term: null, lookups: 3 }));
+    expect(summary.tree.children).toEqual([
+      expect.objectContaining({ domain: '_spf.vendor.example', term: 'include:_spf.vendor.example', lookups: 2, error: null }),
+    ]);
+    expect(summary.tree.children[0].children).toEqual([
+      expect.objectContaining({ domain: '_netblocks.vendor.example', record: 'v=spf1 ip4:198.51.100.0/24 ip6:2001:db8::/32 ~all', lookups: 0, children: [] }),
+    ]);
+  });
+
+  it('should flag records that need more than 10 lookups', async () => {
+    const { summary, issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 include:a.example.net include:b.example.net -all'] },
+      'a.example.net': { TXT: ['v=spf1 ptr ptr ptr ptr ptr -all'] },
+      'b.example.net': { TXT: ['v=spf1 ptr ptr ptr ptr -all'] },
+    });
+
+    expect(summary.totalLookups).toBe(11);
+    expect(codes(issues)).toEqual(['SPF_TOO_MANY_LOOKUPS']);
+    expect(issues[0].message).toContain('11 DNS lookups');
+  });
+
+  it('should count lookups that return nothing against the void lookup limit', async () => {
+    const { summary, issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 a:old.example.com mx:gone.example.com exists:none.example.com include:empty.example.com -all'] },
+      'empty.example.com': {},
+    });
+
+    expect(summary.tree.voidLookups).toBe(4);
+    expect(summary.totalVoidLookups).toBe(4);
+    expect(codes(issues)).toEqual(['SPF_TOO_MANY_VOID_LOOKUPS', 'SPF_INCLUDE_MISSING']);
+  });
+
+  it('should detect include loops without following them forever', async () => {
+    const { summary, issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 include:_spf.example.com -all'] },
+      '_spf.example.com': { TXT: ['v=spf1 include:Example.com. -all'] },
+    });
+
+    const loop = summary.tree.children[0].children[0];
+    expect(loop).toEqual(expect.objectContaining({ domain: 'example.com', record: null, children: [] }));
+    expect(loop.error).toContain('Loop');
+    expect(codes(issues)).toEqual(['SPF_INCLUDE_LOOP']);
+    expect(issues[0].message).toBe('SPF include loop: example.com -> _spf.example.com -> example.com');
+  });
+
+  it('should report includes that point at missing or invalid records', async () => {
+    const { issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 include:nospf.example.net include:double.example.net include:broken.example.net -all'] },
+      'nospf.example.net': { TXT: ['google-site-verification=abc'] },
+      'double.example.net': { TXT: ['v=spf1 -all', 'v=spf1 mx -all'] },
+      'broken.example.net': { TXT: ['v=spf1 ipv4:192.0.2.1 -all'] },
+    });
+
+    expect(codes(issues)).toEqual(['SPF_INCLUDE_MISSING', 'SPF_INCLUDE_INVALID', 'SPF_INCLUDE_INVALID']);
+    expect(issues.every(issue => issue.severity === 'error')).toBe(true);
+    expect(issues[2].message).toContain('ipv4:192.0.2.1');
+  });
+
+  it('should report DNS failures as warnings and keep evaluating', async () => {
+    const { summary, issues } = await resolve({
+      'example.com': { TXT: ['v=spf1 include:_spf.down.example a:mail.down.example include:_spf.example.net -all'] },
+      '_spf.down.example': { error: 'TIMEOUT' },
+      'mail.down.example': { error: 'SERVFAIL' },
+      '_spf.example.net': { TXT: ['v=spf1 mx -all'], MX: [{ exchange: 'mx.example.net', priority: 10 }] },
+    });
+
+    expect(codes(issues)).toEqual(['SPF_LOOKUP_FAILED', 'SPF_LOOKUP_FAILED']);
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true);
+    expect(summary.tree.children[0].error).toContain('ETIMEOUT');
+    expect(summary.totalLookups).toBe(4);
+  });
+
+  it('should count terms that depend on the sender without resolving them', async () => {
+    const dnsService = new FakeDnsService({});
+    const { record } = parseSpfRecord('v=spf1 exists:%{i}._spf.%{d} include:%{d}.example.net ptr -all');
+
+    const { summary, issues } = await resolveSpfLookups(dnsService, 'example.com', record!);
+
+    expect(dnsService.queries).toEqual([]);
+    expect(summary.totalLookups).toBe(3);
+    expect(summary.tree.children[0].error).toContain('macro');
+    expect(issues).toEqual([]);
+  });
+
+  it('should follow redirect only when the record has no all mechanism', async () => {
+    const zone: FakeZone = {
+      'example.com': { TXT: ['v=spf1 redirect=_spf.example.com'] },
+      '_spf.example.com': { TXT: ['v=spf1 a -all'], A: ['192.0.2.1'] },
+    };
+
+    const redirected = await resolve(zone);
+    expect(redirected.summary.totalLookups).toBe(2);
+    expect(redirected.summary.tree.children[0].term).toBe('redirect=_spf.example.com');
+
+    zone['example.com'].TXT = ['v=spf1 -all redirect=_spf.example.com'];
+    const ignored = await resolve(zone);
+    expect(ignored.summary.totalLookups).toBe(0);
+    expect(ignored.summary.tree.children).toEqual([]);
+  });
+});
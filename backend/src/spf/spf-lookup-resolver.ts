@@ -0,0 +1,229 @@
+import type { SpfLookupNode, SpfLookupSummary, SpfRecord, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { hasMacro, isSpfRecord, parseSpfRecord } from './spf-record.parser';
+
+// Limits on DNS-querying terms and on queries with empty answers (RFC 7208 section 4.6.4)
+export const SPF_LOOKUP_LIMIT = 10;
+export const SPF_VOID_LOOKUP_LIMIT = 2;
+
+// Stop following includes after this many record fetches; the record is far over the limit by then
+const MAX_RECORD_FETCHES = 50;
+
+export interface SpfLookupResolution {
+  summary: SpfLookupSummary;
+  issues: ValidationIssue[];
+}
+
+interface ResolveContext {
+  dnsService: DnsService;
+  issues: ValidationIssue[];
+  recordFetches: number;
+}
+
+/**
+ * Follows the include, redirect, a, mx and exists terms of an SPF record through DNS
+ * and counts the lookups a receiver would make against the RFC 7208 limits.
+ * Terms whose target depends on the sending server (macros, ptr) are counted but not resolved.
+ * @param dnsService DNS service used for every query
+ * @param domain The domain the record is published at
+ * @param record The parsed SPF record of the domain
+ * @returns The include tree with per-node counts, plus issues for exceeded limits and broken includes
+ */
+export async function resolveSpfLookups(dnsService: DnsService, domain: string, record: SpfRecord): Promise<SpfLookupResolution> {
+  const context: ResolveContext = { dnsService, issues: [], recordFetches: 0 };
+  const tree = createNode(domain, null, record.rawRecord);
+
+  await resolveTerms(tree, record, [domain], context);
+
+  const totalLookups = countLookups(tree);
+  const totalVoidLookups = sumTree(tree, node => node.voidLookups);
+  const limitIssues: ValidationIssue[] = [];
+
+  if (totalLookups > SPF_LOOKUP_LIMIT) {
+    limitIssues.push({
+      code: 'SPF_TOO_MANY_LOOKUPS',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `SPF evaluation needs ${totalLookups} DNS lookups; receivers stop at ${SPF_LOOKUP_LIMIT} and return permerror`,
+      recommendation: 'Remove unused includes, replace a and mx with ip4/ip6 ranges, or ask vendors for a narrower include',
+    });
+  }
+
+  if (totalVoidLookups > SPF_VOID_LOOKUP_LIMIT) {
+    limitIssues.push({
+      code: 'SPF_TOO_MANY_VOID_LOOKUPS',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `SPF evaluation makes ${totalVoidLookups} lookups that return no records; receivers return permerror after ${SPF_VOID_LOOKUP_LIMIT}`,
+      recommendation: 'Remove mechanisms that point at names without records',
+    });
+  }
+
+  return {
+    summary: {
+      tree,
+      totalLookups,
+      lookupLimit: SPF_LOOKUP_LIMIT,
+      totalVoidLookups,
+      voidLookupLimit: SPF_VOID_LOOKUP_LIMIT,
+    },
+    issues: [...limitIssues, ...context.issues],
+  };
+}
+
+/**
+ * Totals the DNS lookups made by a node of the include tree and everything below it
+ * @param node A node returned in the lookup summary
+ * @returns The number of lookups counted against the limit
+ */
+export function countLookups(node: SpfLookupNode): number {
+  return sumTree(node, child => child.lookups);
+}
+
+/**
+ * Counts and resolves the DNS-querying terms of one record
+ * @param path Domains being evaluated from the root down to this record, for loop detection
+ */
+async function resolveTerms(node: SpfLookupNode, record: SpfRecord, path: string[], context: ResolveContext): Promise<void> {
+  for (const mechanism of record.mechanisms) {
+    switch (mechanism.type) {
+      case 'include':
+        node.lookups++;
+        await resolveChild(node, mechanism.value, mechanism.raw, path, context);
+        break;
+
+      case 'a':
+      case 'mx':
+      case 'exists': {
+        node.lookups++;
+        const target = mechanism.value ?? node.domain;
+        if (hasMacro(target)) {
+          break;
+        }
+
+        try {
+          const answers = mechanism.type === 'mx'
+            ? await context.dnsService.lookupMxRecords(target)
+            : await context.dnsService.lookupAddressRecords(target);
+          if (answers.length === 0) {
+            node.voidLookups++;
+          }
+        } catch (error) {
+          context.issues.push(lookupFailed(mechanism.raw, node.domain, error));
+        }
+        break;
+      }
+
+      case 'ptr':
+        // Needs the sending server's address to resolve
+        node.lookups++;
+        break;
+    }
+  }
+
+  // redirect is only followed when no mechanism matched, which cannot happen with "all" present
+  const redirect = record.modifiers.find(modifier => modifier.name === 'redirect');
+  if (redirect && !record.mechanisms.some(mechanism => mechanism.type === 'all')) {
+    node.lookups++;
+    await resolveChild(node, redirect.value, redirect.raw, path, context);
+  }
+}
+
+async function resolveChild(parent: SpfLookupNode, target: string, term: string, path: string[], context: ResolveContext): Promise<void> {
+  const domain = target.toLowerCase().replace(/\.$/, '');
+  const child = createNode(domain, term, null);
+  parent.children.push(child);
+
+  if (hasMacro(domain)) {
+    child.error = 'Depends on the sending server (macro), not resolved';
+    return;
+  }
+
+  if (path.includes(domain)) {
+    child.error = `Loop: ${domain} is already being evaluated`;
+    context.issues.push({
+      code: 'SPF_INCLUDE_LOOP',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `SPF include loop: ${[...path, domain].join(' -> ')}`,
+      recommendation: `Remove "${term}" from the SPF record of ${parent.domain}`,
+    });
+    return;
+  }
+
+  if (context.recordFetches >= MAX_RECORD_FETCHES) {
+    child.error = `Not resolved: evaluation already needs far more than ${SPF_LOOKUP_LIMIT} lookups`;
+    return;
+  }
+  context.recordFetches++;
+
+  let txtRecords: string[];
+  try {
+    txtRecords = await context.dnsService.lookupTxtRecords(domain);
+  } catch (error) {
+    child.error = `DNS lookup failed: ${error.message}`;
+    context.issues.push(lookupFailed(term, parent.domain, error));
+    return;
+  }
+
+  if (txtRecords.length === 0) {
+    parent.voidLookups++;
+  }
+
+  const spfRecords = txtRecords.filter(txt => isSpfRecord(txt));
+  if (spfRecords.length === 0) {
+    child.error = 'No SPF record';
+    context.issues.push({
+      code: 'SPF_INCLUDE_MISSING',
+      type: 'configuration_issue',
+      severity: 'error',
+      message: `"${term}" in the SPF record of ${parent.domain} points to ${domain}, which has no SPF record; receivers return permerror`,
+      recommendation: `Fix the domain name in "${term}" or remove it`,
+    });
+    return;
+  }
+
+  if (spfRecords.length > 1) {
+    child.error = `${spfRecords.length} SPF records`;
+    context.issues.push(includeInvalid(term, parent.domain, domain, `publishes ${spfRecords.length} SPF records`));
+    return;
+  }
+
+  child.record = spfRecords[0];
+  const { record, errors } = parseSpfRecord(child.record);
+  if (!record) {
+    child.error = errors.map(error => error.message).join('; ');
+    context.issues.push(includeInvalid(term, parent.domain, domain, `has syntax errors: ${child.error}`));
+    return;
+  }
+
+  await resolveTerms(child, record, [...path, domain], context);
+}
+
+function createNode(domain: string, term: string | null, record: string | null): SpfLookupNode {
+  return { domain, term, record, lookups: 0, voidLookups: 0, error: null, children: [] };
+}
+
+function sumTree(node: SpfLookupNode, count: (node: SpfLookupNode) => number): number {
+  return node.children.reduce((total, child) => total + sumTree(child, count), count(node));
+}
+
+function includeInvalid(term: string, parentDomain: string, domain: string, problem: string): ValidationIssue {
+  return {
+    code: 'SPF_INCLUDE_INVALID',
+    type: 'configuration_issue',
+    severity: 'error',
+    message: `"${term}" in the SPF record of ${parentDomain} points to ${domain}, which ${problem}; receivers return permerror`,
+    recommendation: `Ask the owner of ${domain} to fix its SPF record, or remove "${term}"`,
+  };
+}
+
+function lookupFailed(term: string, domain: string, error: Error): ValidationIssue {
+  return {
+    code: 'SPF_LOOKUP_FAILED',
+    type: 'configuration_issue',
+    severity: 'warning',
+    message: `DNS lookup for "${term}" in the SPF record of ${domain} failed (${error.message}); receivers return temperror`,
+    recommendation: 'Check that the name servers for the domain in this term respond, then re-run the check',
+  };
+}
@@ -0,0 +1,86 @@
+import { isSpfRecord, parseSpfRecord } from './spf-record.parser';
+import * as fc from 'fast-check';
+
+describe('SPF record parser', () => {
+  it('should recognise SPF records by their version section', () => {
+    expect(isSpfRecord('v=spf1 -all')).toBe(true);
+    expect(isSpfRecord('V=SPF1 mx')).toBe(true);
+    expect(isSpfRecord('v=spf1')).toBe(true);
+    expect(isSpfRecord('v=spf10 -all')).toBe(false);
+    expect(isSpfRecord(' v=spf1 -all')).toBe(false);
+    expect(isSpfRecord('google-site-verification=abc')).toBe(false);
+  });
+
+  it('should parse mechanisms with their qualifiers, values and CIDR lengths', () => {
+    const { record, errors } = parseSpfRecord(
+      'v=spf1 mx a:mail.example.com/24//64 ip4:192.0.2.0/24 ip6:2001:db8::/32 include:_spf.example.net ~all',
+    );
+
+    expect(errors).toEqual([]);
+    expect(record?.mechanisms.map(m => [m.qualifier, m.type, m.value, m.cidr4, m.cidr6])).toEqual([
+      ['+', 'mx', null, null, null],
+      ['+', 'a', 'mail.example.com', 24, 64],
+      ['+', 'ip4', '192.0.2.0', 24, null],
+      ['+', 'ip6', '2001:db8::', null, 32],
+      ['+', 'include', '_spf.example.net', null, null],
+      ['~', 'all', null, null, null],
+    ]);
+  });
+
+  it('should parse modifiers and ignore unknown ones', () => {
+    const { record, errors } = parseSpfRecord('v=spf1 redirect=_spf.example.com exp=explain.example.com foo=bar');
+
+    expect(errors).toEqual([]);
+    expect(record?.mechanisms).toEqual([]);
+    expect(record?.modifiers.map(m => [m.name, m.value])).toEqual([
+      ['redirect', '_spf.example.com'],
+      ['exp', 'explain.example.com'],
+      ['foo', 'bar'],
+    ]);
+  });
+
+  it('should accept repeated spaces and macros', () => {
+    const { record, errors } = parseSpfRecord('v=spf1  exists:%{i}._spf.%{d}   -all');
+
+    expect(errors).toEqual([]);
+    expect(record?.mechanisms[0].value).toBe('%{i}._spf.%{d}');
+  });
+
+  it('should report every malformed term and return no record', () => {
+    const { record, errors } = parseSpfRecord('v=spf1 ipv4:192.0.2.1 include: ip4:192.0.2.0/33 ip6:not-an-address mx/40 all:foo -all');
+
+    expect(record).toBeNull();
+    expect(errors.map(error => error.code)).toEqual([
+      'SPF_TERM_UNKNOWN',
+      'SPF_TERM_INVALID',
+      'SPF_TERM_INVALID',
+      'SPF_TERM_INVALID',
+      'SPF_TERM_INVALID',
+      'SPF_TERM_INVALID',
+    ]);
+    expect(errors.every(error => error.type === 'syntax_error' && error.severity === 'error')).toBe(true);
+    expect(errors[0].message).toContain('ipv4:192.0.2.1');
+  });
+
+  it('should reject duplicate redirect and exp modifiers', () => {
+    const { record, errors } = parseSpfRecord('v=spf1 redirect=a.example.com redirect=b.example.com');
+
+    expect(record).toBeNull();
+    expect(errors).toEqual([expect.objectContaining({ code: 'SPF_MODIFIER_DUPLICATE' })]);
+  });
+
+  it('should never throw for arbitrary input', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.string(), fc.string().map(rest => `v=spf1 ${rest}`)),
+        (txt) => {
+          const { record, errors } = parseSpfRecord(txt);
+
+          expect(record === null).toBe(errors.length > 0);
+          expect(errors.every(error => error.message.length > 0 && error.recommendation.length > 0)).toBe(true);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { isIPv4, isIPv6 } from 'net';
+import type { SpfMechanism, SpfMechanismType, SpfModifier, SpfQualifier, SpfRecord, ValidationIssue } from '@dmarc-portal/contracts';
+
+export interface SpfRecordParseResult {
+  // Null when the record has syntax errors; receivers treat such a record as a permanent error
+  record: SpfRecord | null;
+  // syntax_error issues, one per malformed term
+  errors: ValidationIssue[];
+}
+
+const MECHANISM_TYPES: SpfMechanismType[] = ['all', 'include', 'a', 'mx', 'ptr', 'ip4', 'ip6', 'exists'];
+
+// Modifiers that may appear at most once (RFC 7208 section 6)
+const SINGLE_MODIFIERS = ['redirect', 'exp'];
+
+const MODIFIER_PATTERN = /^([a-z][a-z0-9_.-]*)=(.*)$/i;
+const MECHANISM_PATTERN = /^([+\-~?]?)([a-z][a-z0-9]*)(.*)$/i;
+// Optional ":domain-spec", then "/cidr4" and "//cidr6" as allowed after a and mx
+const DUAL_CIDR_PATTERN = /^(?::([^/]+))?(?:\/(\d+))?(?:\/\/(\d+))?$/;
+
+/**
+ * Receivers select the TXT records that start with the version section "v=spf1" (RFC 7208 section 4.5)
+ * @param txt A TXT record published at the domain
+ * @returns true if the record is an SPF record
+ */
+export function isSpfRecord(txt: string): boolean {
+  return /^v=spf1(?: |$)/i.test(txt);
+}
+
+/**
+ * Macros expand to values from the message being checked, e.g. %{i} for the sender's address (RFC 7208 section 7)
+ * @param domainSpec The domain-spec of a mechanism or modifier
+ * @returns true if the target can only be resolved while evaluating a message
+ */
+export function hasMacro(domainSpec: string): boolean {
+  return domainSpec.includes('%{');
+}
+
+/**
+ * Parses an SPF record into its mechanisms and modifiers (RFC 7208 section 12)
+ * Every malformed term is reported rather than stopping at the first.
+ * @param record The SPF record, e.g. "v=spf1 mx include:_spf.example.net -all"
+ * @returns The parsed record, or null with the syntax errors found
+ */
+export function parseSpfRecord(record: string): SpfRecordParseResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isSpfRecord(record)) {
+    errors.push(syntaxError('SPF_TERM_INVALID', 'SPF record must start with "v=spf1"', 'Begin the record with "v=spf1" followed by a space'));
+    return { record: null, errors };
+  }
+
+  const mechanisms: SpfMechanism[] = [];
+  const modifiers: SpfModifier[] = [];
+
+  // Terms are separated by one or more spaces; the first term is the version
+  const terms = record.split(' ').filter(term => term.length > 0).slice(1);
+
+  for (const term of terms) {
+    const modifierMatch = MODIFIER_PATTERN.exec(term);
+    if (modifierMatch) {
+      const modifier = parseModifier(term, modifierMatch[1].toLowerCase(), modifierMatch[2], modifiers, errors);
+      if (modifier) {
+        modifiers.push(modifier);
+      }
+      continue;
+    }
+
+    const mechanism = parseMechanism(term, errors);
+    if (mechanism) {
+      mechanisms.push(mechanism);
+    }
+  }
+
+  return {
+    record: errors.length === 0 ? { rawRecord: record, mechanisms, modifiers } : null,
+    errors,
+  };
+}
+
+function parseModifier(
+  term: string,
+  name: string,
+  value: string,
+  modifiers: SpfModifier[],
+  errors: ValidationIssue[],
+): SpfModifier | null {
+  if (SINGLE_MODIFIERS.includes(name)) {
+    if (modifiers.some(modifier => modifier.name === name)) {
+      errors.push(syntaxError('SPF_MODIFIER_DUPLICATE', `Duplicate modifier "${name}": it may appear at most once`, `Keep a single ${name}= modifier`));
+      return null;
+    }
+
+    if (!isDomainSpec(value)) {
+      errors.push(syntaxError('SPF_TERM_INVALID', `Modifier "${name}" needs a domain name`, `Use ${name}=<domain>, e.g. ${name}=_spf.example.com`));
+      return null;
+    }
+  }
+
+  // Unknown modifiers are ignored by receivers (RFC 7208 section 6)
+  return { name, value, raw: term };
+}
+
+function parseMechanism(term: string, errors: ValidationIssue[]): SpfMechanism | null {
+  const match = MECHANISM_PATTERN.exec(term);
+  const type = match?.[2].toLowerCase() as SpfMechanismType;
+
+  if (!match || !MECHANISM_TYPES.includes(type)) {
+    errors.push(syntaxError(
+      'SPF_TERM_UNKNOWN',
+      `Unknown SPF mechanism "${term}"`,
+      `Use one of ${MECHANISM_TYPES.join(', ')}, or name=value for a modifier`,
+    ));
+    return null;
+  }
+
+  const mechanism: SpfMechanism = {
+    qualifier: (match[1] || '+') as SpfQualifier,
+    type,
+    value: null,
+    cidr4: null,
+    cidr6: null,
+    raw: term,
+  };
+  const rest = match[3];
+  const invalid = (message: string, recommendation: string) => {
+    errors.push(syntaxError('SPF_TERM_INVALID', message, recommendation));
+    return null;
+  };
+
+  switch (type) {
+    case 'all':
+      return rest === '' ? mechanism : invalid('The all mechanism takes no value', 'Use "-all" or "~all"');
+
+    case 'include':
+    case 'exists': {
+      const value = rest.startsWith(':') ? rest.substring(1) : '';
+      if (!isDomainSpec(value)) {
+        return invalid(`The ${type} mechanism needs a domain name`, `Use ${type}:<domain>, e.g. ${type}:_spf.example.net`);
+      }
+      mechanism.value = value;
+      return mechanism;
+    }
+
+    case 'ptr': {
+      if (rest !== '' && !(rest.startsWith(':') && isDomainSpec(rest.substring(1)))) {
+        return invalid('The ptr mechanism takes an optional domain name and no CIDR length', 'Remove ptr and list the sending addresses with ip4/ip6 instead');
+      }
+      mechanism.value = rest === '' ? null : rest.substring(1);
+      return mechanism;
+    }
+
+    case 'a':
+    case 'mx': {
+      const cidrMatch = DUAL_CIDR_PATTERN.exec(rest);
+      if (!cidrMatch || (cidrMatch[1] !== undefined && !isDomainSpec(cidrMatch[1]))) {
+        return invalid(`Malformed ${type} mechanism`, `Use ${type}, ${type}:<domain>, ${type}/<cidr4> or ${type}:<domain>/<cidr4>//<cidr6>`);
+      }
+      mechanism.value = cidrMatch[1] ?? null;
+      mechanism.cidr4 = parseCidr(cidrMatch[2]);
+      mechanism.cidr6 = parseCidr(cidrMatch[3]);
+      if ((mechanism.cidr4 ?? 0) > 32 || (mechanism.cidr6 ?? 0) > 128) {
+        return invalid(`CIDR length out of range in "${term}"`, 'IPv4 prefix lengths must be 0-32 and IPv6 prefix lengths 0-128');
+      }
+      return mechanism;
+    }
+
+    case 'ip4':
+    case 'ip6': {
+      const isIp = type === 'ip4' ? isIPv4 : isIPv6;
+      const maxCidr = type === 'ip4' ? 32 : 128;
+      const value = rest.startsWith(':') ? rest.substring(1) : '';
+      const slash = value.lastIndexOf('/');
+      const address = slash === -1 ? value : value.substring(0, slash);
+      const cidr = slash === -1 ? null : value.substring(slash + 1);
+
+      if (!isIp(address)) {
+        return invalid(`Invalid ${type === 'ip4' ? 'IPv4' : 'IPv6'} address in "${term}"`, `Use ${type}:<address> or ${type}:<network>/<prefix length>`);
+      }
+      if (cidr !== null && !(/^\d+$/.test(cidr) && Number(cidr) <= maxCidr)) {
+        return invalid(`CIDR length out of range in "${term}"`, `Prefix lengths for ${type} must be 0-${maxCidr}`);
+      }
+      mechanism.value = address;
+      mechanism[type === 'ip4' ? 'cidr4' : 'cidr6'] = parseCidr(cidr);
+      return mechanism;
+    }
+  }
+}
+
+function parseCidr(value: string | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseInt(value, 10);
+}
+
+/**
+ * Loose check for an RFC 7208 domain-spec: visible characters ending in a top-level label or a macro
+ */
+function isDomainSpec(value: string): boolean {
+  if (!/^[\x21-\x7e]+$/.test(value)) {
+    return false;
+  }
+  return hasMacro(value) || /\.(?=[a-z0-9-]*[a-z])[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.?$/i.test(value);
+}
+
+function syntaxError(code: ValidationIssue['code'], message: string, recommendation: string): ValidationIssue {
+  return { code, type: 'syntax_error', severity: 'error', message, recommendation };
+}
@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SpfValidatorImpl } from './spf-validator.service';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
+
+describe('SpfValidatorService', () => {
+  let service: SpfValidatorImpl;
+  let dnsService: FakeDnsService;
+
+  // Targets referenced by the records below, so only the record under test produces findings
+  const baseZone: FakeZone = {
+    'example.com': { A: ['192.0.2.10'], MX: [{ exchange: 'mail.example.com', priority: 10 }] },
+    'mail.example.com': { A: ['192.0.2.10'] },
+    'example.org': { A: ['192.0.2.20'] },
+    '_spf.example.net': { TXT: ['v=spf1 ip4:198.51.100.0/24 -all'] },
+    '_spf.example.com': { TXT: ['v=spf1 ip4:203.0.113.0/24 -all'] },
+    '_spf.google.com': { TXT: ['v=spf1 ip4:209.85.128.0/17 ~all'] },
+  };
+
+  const createService = async (zone: FakeZone) => {
+    dnsService = new FakeDnsService(zone);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SpfValidatorImpl,
+        {
+          provide: 'DnsService',
+          useValue: dnsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SpfValidatorImpl>(SpfValidatorImpl);
+  };
+
+  const validate = async (...txtRecords: string[]) => {
+    await createService({ ...baseZone, 'example.com': { ...baseZone['example.com'], TXT: txtRecords } });
+    return service.validateDomain('Example.com');
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  describe('validateDomain', () => {
+    it('should accept a strict record and return it parsed', async () => {
+      const result = await validate('google-site-verification=abc', 'v=spf1 mx include:_spf.example.net -all');
+
+      expect(dnsService.queries[0]).toBe('TXT example.com');
+      expect(result.domain).toBe('example.com');
+      expect(result.spfRecord).toBe('v=spf1 mx include:_spf.example.net -all');
+      expect(result.parsedRecord?.mechanisms).toHaveLength(3);
+      expect(result.issues).toEqual([]);
+      expect(result.isValid).toBe(true);
+      expect(result.lookups).toEqual(expect.objectContaining({ totalLookups: 2, totalVoidLookups: 0 }));
+    });
+
+    it('should report a missing record', async () => {
+      const result = await validate('v=DMARC1; p=none');
+
+      expect(result.spfRecord).toBeNull();
+      expect(codes(result.issues)).toEqual(['SPF_RECORD_MISSING']);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should report multiple SPF records as an error without picking one', async () => {
+      const result = await validate('v=spf1 mx -all', 'v=spf1 include:_spf.google.com ~all');
+
+      expect(result.spfRecord).toBeNull();
+      expect(result.parsedRecord).toBeUndefined();
+      expect(result.issues).toEqual([expect.objectContaining({ code: 'SPF_MULTIPLE_RECORDS', severity: 'error' })]);
+    });
+
+    it('should report syntax errors without evaluating the policy', async () => {
+      const result = await validate('v=spf1 ipv4:192.0.2.1 +all');
+
+      expect(result.spfRecord).toBe('v=spf1 ipv4:192.0.2.1 +all');
+      expect(result.parsedRecord).toBeUndefined();
+      expect(codes(result.issues)).toEqual(['SPF_TERM_UNKNOWN']);
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject invalid domains before querying DNS', async () => {
+      await createService(baseZone);
+
+      await expect(service.validateDomain('not a domain')).rejects.toThrow('Invalid domain format');
+      expect(dnsService.queries).toEqual([]);
+    });
+
+    it('should propagate DNS lookup failures', async () => {
+      await createService({ 'example.com': { error: 'TIMEOUT' } });
+
+      await expect(service.validateDomain('example.com')).rejects.toThrow('SPF lookup failed for domain example.com: queryTxt ETIMEOUT example.com');
+    });
+
+    it('should attach the include tree and flag records over the lookup limit', async () => {
+      const includes = Array.from({ length: 11 }, (_, i) => `include:_spf${i}.example.net`);
+      const zone: FakeZone = { 'example.com': { TXT: [`v=spf1 ${includes.join(' ')} -all`] } };
+      includes.forEach((_, i) => {
+        zone[`_spf${i}.example.net`] = { TXT: ['v=spf1 ip4:198.51.100.0/24 -all'] };
+      });
+      await createService(zone);
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.lookups?.totalLookups).toBe(11);
+      expect(result.lookups?.tree.children).toHaveLength(11);
+      expect(codes(result.issues)).toEqual(['SPF_TOO_MANY_LOOKUPS']);
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('planFlattening', () => {
+    it('should flatten the record found for the domain', async () => {
+      await createService({ ...baseZone, 'example.com': { ...baseZone['example.com'], TXT: ['v=spf1 mx include:_spf.example.net -all'] } });
+
+      const plan = await service.planFlattening('Example.com');
+
+      expect(plan?.records[0].value).toBe('v=spf1 ip4:192.0.2.10 ip4:198.51.100.0/24 -all');
+      expect(plan?.originalLookups).toBe(2);
+    });
+
+    it('should return null when there is no valid record to flatten', async () => {
+      await createService({ 'example.com': { TXT: ['v=spf1 mx -all', 'v=spf1 -all'] } });
+
+      await expect(service.planFlattening('example.com')).resolves.toBeNull();
+    });
+  });
+
+  describe('evaluateRecord', () => {
+    it('should flag +all and a bare all as errors', async () => {
+      for (const record of ['v=spf1 mx +all', 'v=spf1 mx all']) {
+        const result = await validate(record);
+
+        expect(result.issues).toEqual([expect.objectContaining({ code: 'SPF_ALL_PASS', severity: 'error' })]);
+      }
+    });
+
+    it('should flag ?all and a missing all as weak', async () => {
+      expect(codes((await validate('v=spf1 mx ?all')).issues)).toEqual(['SPF_ALL_NEUTRAL']);
+      expect(codes((await validate('v=spf1 mx')).issues)).toEqual(['SPF_ALL_MISSING']);
+    });
+
+    it('should accept a redirect in place of all', async () => {
+      const result = await validate('v=spf1 redirect=_spf.example.com');
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should flag the deprecated ptr mechanism', async () => {
+      const result = await validate('v=spf1 ptr ptr:example.org -all');
+
+      expect(codes(result.issues)).toEqual(['SPF_PTR_DEPRECATED', 'SPF_PTR_DEPRECATED']);
+      expect(result.issues[0].severity).toBe('warning');
+    });
+
+    it('should flag mechanisms after all and a redirect next to all', async () => {
+      const result = await validate('v=spf1 -all mx redirect=_spf.example.com');
+
+      expect(codes(result.issues)).toEqual(['SPF_TERMS_AFTER_ALL', 'SPF_REDIRECT_WITH_ALL']);
+      expect(result.issues[0].message).toContain('mx');
+    });
+
+    it('should give every finding a catalogued issue code', async () => {
+      const result = await validate('v=spf1 ptr +all mx redirect=_spf.example.com');
+
+      expect(result.issues.length).toBeGreaterThan(0);
+      expect(result.issues.every(issue => ISSUE_CATALOG[issue.code!] !== undefined)).toBe(true);
+    });
+  });
+});
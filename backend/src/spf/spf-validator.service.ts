@@ -0,0 +1,179 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { SpfFlatteningPlan, SpfRecord, SpfResult, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { isSpfRecord, parseSpfRecord } from './spf-record.parser';
+import { resolveSpfLookups } from './spf-lookup-resolver';
+import { planSpfFlattening } from './spf-flattening-advisor';
+
+export interface SpfValidator {
+  validateDomain(domain: string): Promise<SpfResult>;
+  evaluateRecord(record: SpfRecord): ValidationIssue[];
+  planFlattening(domain: string): Promise<SpfFlatteningPlan | null>;
+}
+
+@Injectable()
+export class SpfValidatorImpl implements SpfValidator {
+  private readonly logger = new Logger(SpfValidatorImpl.name);
+
+  constructor(@Inject('DnsService') private readonly dnsService: DnsService) {}
+
+  /**
+   * Validates a domain's SPF record
+   * @param domain The domain to validate
+   * @returns Complete SPF validation result
+   * @throws Error for invalid domain format or DNS lookup failures
+   */
+  async validateDomain(domain: string): Promise<SpfResult> {
+    if (!this.dnsService.validateDomainFormat(domain)) {
+      throw new Error(`Invalid domain format: ${domain}`);
+    }
+
+    const result: SpfResult = {
+      domain: domain.trim().toLowerCase(),
+      spfRecord: null,
+      isValid: false,
+      issues: [],
+    };
+
+    let txtRecords: string[];
+    try {
+      txtRecords = await this.dnsService.lookupTxtRecords(result.domain);
+    } catch (error) {
+      this.logger.error(`SPF lookup failed for domain ${domain}:`, error);
+      throw new Error(`SPF lookup failed for domain ${domain}: ${error.message}`);
+    }
+
+    const spfRecords = txtRecords.filter(txt => isSpfRecord(txt));
+
+    if (spfRecords.length === 0) {
+      result.issues.push({
+        code: 'SPF_RECORD_MISSING',
+        type: 'missing_record',
+        severity: 'warning',
+        message: 'No SPF record found for this domain',
+        recommendation: `Publish a TXT record at ${result.domain} listing your mail servers, e.g. "v=spf1 mx -all"`,
+      });
+      return this.finalizeResult(result);
+    }
+
+    if (spfRecords.length > 1) {
+      // Receivers return a permanent error, so SPF fails for every message
+      result.issues.push({
+        code: 'SPF_MULTIPLE_RECORDS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Found ${spfRecords.length} SPF records at ${result.domain}; receivers treat this as a permanent error`,
+        recommendation: 'Merge the mechanisms into a single "v=spf1" TXT record and delete the others',
+      });
+      return this.finalizeResult(result);
+    }
+
+    result.spfRecord = spfRecords[0];
+
+    const { record, errors } = parseSpfRecord(result.spfRecord);
+    result.issues.push(...errors);
+
+    if (record) {
+      result.parsedRecord = record;
+      result.issues.push(...this.evaluateRecord(record));
+
+      const { summary, issues } = await resolveSpfLookups(this.dnsService, result.domain, record);
+      result.lookups = summary;
+      result.issues.push(...issues);
+    } else {
+      this.logger.debug(`SPF record for ${result.domain} has ${errors.length} syntax problem(s)`);
+    }
+
+    return this.finalizeResult(result);
+  }
+
+  /**
+   * Evaluates a parsed SPF record for security best practices
+   * @param record The parsed SPF record
+   * @returns Array of validation issues and recommendations
+   */
+  evaluateRecord(record: SpfRecord): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const allIndex = record.mechanisms.findIndex(mechanism => mechanism.type === 'all');
+    const all = allIndex === -1 ? null : record.mechanisms[allIndex];
+    const redirect = record.modifiers.find(modifier => modifier.name === 'redirect');
+
+    if (all?.qualifier === '+') {
+      issues.push({
+        code: 'SPF_ALL_PASS',
+        type: 'weak_policy',
+        severity: 'error',
+        message: `SPF record ends with "${all.raw}", which authorizes every server on the internet to send as this domain`,
+        recommendation: 'Replace it with "-all" (or "~all" while testing) so unlisted servers fail SPF',
+      });
+    } else if (all?.qualifier === '?') {
+      issues.push({
+        code: 'SPF_ALL_NEUTRAL',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'SPF record ends with "?all", so unlisted servers get a neutral result and SPF offers no protection',
+        recommendation: 'Replace "?all" with "-all" (or "~all" while testing)',
+      });
+    } else if (!all && !redirect) {
+      issues.push({
+        code: 'SPF_ALL_MISSING',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'SPF record has no "all" mechanism or redirect, so unlisted servers default to a neutral result',
+        recommendation: 'End the record with "-all" (or "~all" while testing)',
+      });
+    }
+
+    if (all && allIndex < record.mechanisms.length - 1) {
+      issues.push({
+        code: 'SPF_TERMS_AFTER_ALL',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `Mechanisms after "${all.raw}" are never evaluated: ${record.mechanisms.slice(allIndex + 1).map(m => m.raw).join(' ')}`,
+        recommendation: `Move "${all.raw}" to the end of the record`,
+      });
+    }
+
+    if (all && redirect) {
+      issues.push({
+        code: 'SPF_REDIRECT_WITH_ALL',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `The redirect to ${redirect.value} is ignored because the record contains "${all.raw}"`,
+        recommendation: 'Remove either the "all" mechanism or the redirect modifier',
+      });
+    }
+
+    for (const mechanism of record.mechanisms.filter(m => m.type === 'ptr')) {
+      issues.push({
+        code: 'SPF_PTR_DEPRECATED',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `The "${mechanism.raw}" mechanism is deprecated: it is slow, unreliable and many receivers skip it`,
+        recommendation: 'Replace ptr with ip4/ip6, a or include mechanisms for your sending servers',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Proposes a flattened version of a domain's SPF record that stays within the lookup limit
+   * @param domain The domain whose record to flatten
+   * @returns The flattening plan, or null when the domain has no single valid SPF record
+   * @throws Error for invalid domain format or DNS lookup failures
+   */
+  async planFlattening(domain: string): Promise<SpfFlatteningPlan | null> {
+    const result = await this.validateDomain(domain);
+    if (!result.parsedRecord) {
+      return null;
+    }
+
+    return planSpfFlattening(this.dnsService, result.parsedRecord, result.lookups);
+  }
+
+  private finalizeResult(result: SpfResult): SpfResult {
+    result.isValid = !result.issues.some(issue => issue.severity === 'error' || issue.severity === 'warning');
+    return result;
+  }
+}
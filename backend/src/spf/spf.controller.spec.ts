@@ -0,0 +1,73 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { SpfFlatteningPlan } from '@dmarc-portal/contracts';
+import { SpfController } from './spf.controller';
+import { SpfValidator } from './spf-validator.service';
+
+describe('SpfController', () => {
+  let controller: SpfController;
+  let spfValidator: jest.Mocked<SpfValidator>;
+
+  const mockPlan: SpfFlatteningPlan = {
+    domain: 'example.com',
+    originalRecord: 'v=spf1 include:_spf.partner.example -all',
+    originalLookups: 1,
+    ranges: [{ version: 4, cidr: '192.0.2.0/24', sources: ['_spf.partner.example'] }],
+    includes: [],
+    records: [{ name: 'example.com', value: 'v=spf1 ip4:192.0.2.0/24 -all', strings: ['v=spf1 ip4:192.0.2.0/24 -all'] }],
+    lookups: 0,
+    lookupLimit: 10,
+    issues: [],
+  };
+
+  beforeEach(async () => {
+    const mockSpfValidator = {
+      validateDomain: jest.fn(),
+      evaluateRecord: jest.fn(),
+      planFlattening: jest.fn().mockResolvedValue(mockPlan),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SpfController],
+      providers: [
+        {
+          provide: 'SpfValidator',
+          useValue: mockSpfValidator,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<SpfController>(SpfController);
+    spfValidator = module.get('SpfValidator');
+  });
+
+  describe('planFlattening', () => {
+    it('should return the flattening plan for the domain', async () => {
+      await expect(controller.planFlattening({ domain: 'example.com' })).resolves.toBe(mockPlan);
+      expect(spfValidator.planFlattening).toHaveBeenCalledWith('example.com');
+    });
+
+    it('should reject a missing domain', async () => {
+      await expect(controller.planFlattening({ domain: '' })).rejects.toThrow(
+        new HttpException('Domain is required', HttpStatus.BAD_REQUEST),
+      );
+      expect(spfValidator.planFlattening).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the domain has no valid SPF record', async () => {
+      spfValidator.planFlattening.mockResolvedValue(null);
+
+      await expect(controller.planFlattening({ domain: 'example.com' })).rejects.toThrow(
+        new HttpException('No valid SPF record found for this domain', HttpStatus.NOT_FOUND),
+      );
+    });
+
+    it('should hide DNS failures behind a generic error', async () => {
+      spfValidator.planFlattening.mockRejectedValue(new Error('SPF lookup failed for domain example.com: ETIMEOUT'));
+
+      await expect(controller.planFlattening({ domain: 'example.com' })).rejects.toThrow(
+        new HttpException('Failed to plan SPF flattening', HttpStatus.INTERNAL_SERVER_ERROR),
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Controller, Post, Body, HttpException, HttpStatus, Logger, Inject } from '@nestjs/common';
+import type { SpfFlatteningPlan } from '@dmarc-portal/contracts';
+import { SpfValidator } from './spf-validator.service';
+
+interface FlattenRequest {
+  domain: string;
+}
+
+@Controller('api/spf')
+export class SpfController {
+  private readonly logger = new Logger(SpfController.name);
+
+  constructor(
+    @Inject('SpfValidator') private readonly spfValidator: SpfValidator,
+  ) {}
+
+  /**
+   * Propose a flattened SPF record with the address ranges behind its includes
+   */
+  @Post('flatten')
+  async planFlattening(@Body() request: FlattenRequest): Promise<SpfFlatteningPlan> {
+    try {
+      if (!request.domain) {
+        throw new HttpException('Domain is required', HttpStatus.BAD_REQUEST);
+      }
+
+      const plan = await this.spfValidator.planFlattening(request.domain);
+      if (!plan) {
+        throw new HttpException('No valid SPF record found for this domain', HttpStatus.NOT_FOUND);
+      }
+
+      return plan;
+    } catch (error) {
+      this.logger.error(`Failed to plan SPF flattening for ${request.domain}:`, error);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        'Failed to plan SPF flattening',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { SpfValidatorImpl } from './spf-validator.service';
+import { SpfController } from './spf.controller';
+import { DnsModule } from '../dns/dns.module';
+
+@Module({
+  imports: [DnsModule],
+  controllers: [SpfController],
+  providers: [
+    {
+      provide: 'SpfValidator',
+      useClass: SpfValidatorImpl,
+    },
+  ],
+  exports: ['SpfValidator'],
+})
+export class SpfModule {}
@@ -0,0 +1,98 @@
+import { isMtaStsRecord, matchesMxPattern, parseMtaStsPolicy, parseMtaStsRecord, MTA_STS_MAX_AGE_LIMIT } from './mta-sts.parser';
+import * as fc from 'fast-check';
+
+describe('MTA-STS parser', () => {
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+  const policy = (...lines: string[]) => lines.join('\r\n');
+
+  describe('parseMtaStsRecord', () => {
+    it('should recognise MTA-STS records', () => {
+      expect(isMtaStsRecord('v=STSv1; id=20240101')).toBe(true);
+      expect(isMtaStsRecord('v=STSv1')).toBe(true);
+      expect(isMtaStsRecord('v=STSv10; id=1')).toBe(false);
+      expect(isMtaStsRecord('v=spf1 -all')).toBe(false);
+    });
+
+    it('should parse the version and policy id', () => {
+      expect(parseMtaStsRecord('v=STSv1; id=20240101T000000;')).toEqual({
+        record: { version: 'STSv1', id: '20240101T000000' },
+        errors: [],
+      });
+    });
+
+    it('should reject a missing or malformed id', () => {
+      expect(codes(parseMtaStsRecord('v=STSv1').errors)).toEqual(['MTA_STS_RECORD_INVALID']);
+      expect(parseMtaStsRecord('v=STSv1; id=2024-01-01').record).toBeNull();
+      expect(parseMtaStsRecord(`v=STSv1; id=${'a'.repeat(33)}`).errors[0].message).toContain('1-32 letters and digits');
+      expect(parseMtaStsRecord('v=STSv1; id').errors[0].message).toContain('Malformed field "id"');
+    });
+  });
+
+  describe('parseMtaStsPolicy', () => {
+    it('should parse mode, mx patterns and max_age', () => {
+      const { policy: parsed, errors } = parseMtaStsPolicy(
+        policy('version: STSv1', 'mode: enforce', 'mx: mail.example.com', 'mx: *.Backup.example.net', 'max_age: 1209600', 'extension: ignored', ''),
+      );
+
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual({
+        version: 'STSv1',
+        mode: 'enforce',
+        mx: ['mail.example.com', '*.backup.example.net'],
+        maxAge: 1209600,
+      });
+    });
+
+    it('should allow a policy in mode none without mx lines', () => {
+      expect(parseMtaStsPolicy(policy('version: STSv1', 'mode: none', 'max_age: 86400')).errors).toEqual([]);
+    });
+
+    it('should report every problem in a malformed policy', () => {
+      const { policy: parsed, errors } = parseMtaStsPolicy(
+        policy('version: STSv2', 'mode: strict', 'mode: enforce', 'mx: -bad-.example', 'max_age: forever', 'junk'),
+      );
+
+      expect(parsed).toBeNull();
+      expect(codes(errors).every(code => code === 'MTA_STS_POLICY_INVALID')).toBe(true);
+      expect(errors.map(error => error.message)).toEqual([
+        expect.stringContaining('Duplicate "mode" line'),
+        expect.stringContaining('Malformed line "junk"'),
+        expect.stringContaining('Unsupported version "STSv2"'),
+        expect.stringContaining('Unknown mode "strict"'),
+        expect.stringContaining('max_age "forever"'),
+        expect.stringContaining('Invalid mx pattern "-bad-.example"'),
+      ]);
+    });
+
+    it('should require mx lines outside mode none and cap max_age at one year', () => {
+      expect(parseMtaStsPolicy(policy('version: STSv1', 'mode: testing', 'max_age: 86400')).errors[0].message).toContain(
+        'testing mode needs at least one mx line',
+      );
+      expect(parseMtaStsPolicy(policy('version: STSv1', 'mode: enforce', 'mx: mx.example.com', `max_age: ${MTA_STS_MAX_AGE_LIMIT + 1}`)).policy).toBeNull();
+      expect(parseMtaStsPolicy(policy('version: STSv1', 'mode: enforce', 'mx: mx.example.com')).errors[0].message).toContain('no max_age line');
+    });
+  });
+
+  describe('matchesMxPattern', () => {
+    it('should match exact hosts case-insensitively, ignoring a trailing dot', () => {
+      expect(matchesMxPattern('Mail.Example.com.', 'mail.example.com')).toBe(true);
+      expect(matchesMxPattern('mail2.example.com', 'mail.example.com')).toBe(false);
+    });
+
+    it('should let a wildcard match exactly one leftmost label', () => {
+      expect(matchesMxPattern('mx1.example.com', '*.example.com')).toBe(true);
+      expect(matchesMxPattern('example.com', '*.example.com')).toBe(false);
+      expect(matchesMxPattern('a.b.example.com', '*.example.com')).toBe(false);
+      expect(matchesMxPattern('mx1.badexample.com', '*.example.com')).toBe(false);
+    });
+
+    it('should match any single label under a wildcard', () => {
+      fc.assert(
+        fc.property(fc.stringMatching(/^[a-z0-9]([a-z0-9-]{0,20}[a-z0-9])?$/), label => {
+          expect(matchesMxPattern(`${label}.mail.example.com`, '*.mail.example.com')).toBe(true);
+          expect(matchesMxPattern(`${label}.x.mail.example.com`, '*.mail.example.com')).toBe(false);
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import type { MtaStsMode, MtaStsPolicy, ValidationIssue } from '@dmarc-portal/contracts';
+
+export interface MtaStsRecord {
+  version: string;
+  id: string;
+}
+
+export interface MtaStsRecordParseResult {
+  record: MtaStsRecord | null;
+  errors: ValidationIssue[];
+}
+
+export interface MtaStsPolicyParseResult {
+  // Null when the policy has errors; senders then treat the domain as having no policy
+  policy: MtaStsPolicy | null;
+  errors: ValidationIssue[];
+}
+
+const MODES: MtaStsMode[] = ['enforce', 'testing', 'none'];
+
+// Largest max_age allowed, one year in seconds (RFC 8461 section 3.2)
+export const MTA_STS_MAX_AGE_LIMIT = 31557600;
+
+/**
+ * Senders only consider TXT records at _mta-sts that start with "v=STSv1" (RFC 8461 section 3.1)
+ * @param txt A TXT record published at _mta-sts.<domain>
+ * @returns true if the record is an MTA-STS record
+ */
+export function isMtaStsRecord(txt: string): boolean {
+  return /^v=STSv1\s*(?:;|$)/.test(txt);
+}
+
+/**
+ * Parses the _mta-sts TXT record (RFC 8461 section 3.1)
+ * @param txt The record, e.g. "v=STSv1; id=20240101T000000"
+ * @returns The version and policy id, or null with the errors found
+ */
+export function parseMtaStsRecord(txt: string): MtaStsRecordParseResult {
+  const errors: ValidationIssue[] = [];
+  const fields = new Map<string, string>();
+
+  for (const field of txt.split(';').map(part => part.trim()).filter(part => part.length > 0)) {
+    const separator = field.indexOf('=');
+    if (separator === -1) {
+      errors.push(recordError(`Malformed field "${field}": expected name=value`));
+      continue;
+    }
+    fields.set(field.substring(0, separator).trim(), field.substring(separator + 1).trim());
+  }
+
+  const id = fields.get('id');
+  if (id === undefined) {
+    errors.push(recordError('The record has no id= field'));
+  } else if (!/^[A-Za-z0-9]{1,32}$/.test(id)) {
+    errors.push(recordError(`The id "${id}" must be 1-32 letters and digits`));
+  }
+
+  return {
+    record: errors.length === 0 ? { version: fields.get('v'), id } : null,
+    errors,
+  };
+}
+
+/**
+ * Parses an MTA-STS policy file (RFC 8461 section 3.2)
+ * Every problem is reported rather than stopping at the first; unknown keys are ignored as senders do.
+ * @param text The policy file body, lines of "key: value"
+ * @returns The parsed policy, or null with the errors found
+ */
+export function parseMtaStsPolicy(text: string): MtaStsPolicyParseResult {
+  const errors: ValidationIssue[] = [];
+  const values = new Map<string, string>();
+  const mx: string[] = [];
+
+  for (const line of text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      errors.push(policyError(`Malformed line "${line}": expected key: value`));
+      continue;
+    }
+
+    const key = line.substring(0, separator).trim();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'mx') {
+      mx.push(value.toLowerCase());
+    } else if (values.has(key) && ['version', 'mode', 'max_age'].includes(key)) {
+      errors.push(policyError(`Duplicate "${key}" line`));
+    } else {
+      values.set(key, value);
+    }
+  }
+
+  const version = values.get('version');
+  if (version !== 'STSv1') {
+    errors.push(policyError(version === undefined ? 'The policy has no version line' : `Unsupported version "${version}"`));
+  }
+
+  const mode = values.get('mode') as MtaStsMode;
+  if (!MODES.includes(mode)) {
+    errors.push(policyError(mode === undefined ? 'The policy has no mode line' : `Unknown mode "${mode}"; use ${MODES.join(', ')}`));
+  }
+
+  const maxAgeText = values.get('max_age');
+  const maxAge = Number(maxAgeText);
+  if (maxAgeText === undefined) {
+    errors.push(policyError('The policy has no max_age line'));
+  } else if (!/^\d{1,10}$/.test(maxAgeText) || maxAge > MTA_STS_MAX_AGE_LIMIT) {
+    errors.push(policyError(`max_age "${maxAgeText}" must be a whole number of seconds up to ${MTA_STS_MAX_AGE_LIMIT}`));
+  }
+
+  if (mode !== 'none' && mx.length === 0) {
+    errors.push(policyError(`A policy in ${mode ?? 'this'} mode needs at least one mx line`));
+  }
+  for (const pattern of mx.filter(p => !isMxPattern(p))) {
+    errors.push(policyError(`Invalid mx pattern "${pattern}"`));
+  }
+
+  return {
+    policy: errors.length === 0 ? { version, mode, mx, maxAge } : null,
+    errors,
+  };
+}
+
+/**
+ * Matches an MX host against a policy mx pattern (RFC 8461 section 4.1)
+ * A leading "*." matches exactly one label, so "*.example.com" matches "mx.example.com" but not "example.com".
+ * @param host The MX host name
+ * @param pattern The pattern from an mx line of the policy
+ * @returns true if senders accept the host under the pattern
+ */
+export function matchesMxPattern(host: string, pattern: string): boolean {
+  const normalizedHost = host.toLowerCase().replace(/\.$/, '');
+  const normalizedPattern = pattern.toLowerCase().replace(/\.$/, '');
+
+  if (normalizedPattern.startsWith('*.')) {
+    const suffix = normalizedPattern.substring(1);
+    const label = normalizedHost.substring(0, normalizedHost.length - suffix.length);
+    return normalizedHost.endsWith(suffix) && label.length > 0 && !label.includes('.');
+  }
+  return normalizedHost === normalizedPattern;
+}
+
+function isMxPattern(pattern: string): boolean {
+  return /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z0-9-]*[a-z][a-z0-9-]*\.?$/.test(pattern);
+}
+
+function recordError(message: string): ValidationIssue {
+  return {
+    code: 'MTA_STS_RECORD_INVALID',
+    type: 'syntax_error',
+    severity: 'error',
+    message: `Invalid _mta-sts record: ${message}`,
+    recommendation: 'Publish "v=STSv1; id=<1-32 letters and digits>" and change the id whenever the policy changes',
+  };
+}
+
+function policyError(message: string): ValidationIssue {
+  return {
+    code: 'MTA_STS_POLICY_INVALID',
+    type: 'syntax_error',
+    severity: 'error',
+    message: `Invalid MTA-STS policy: ${message}`,
+    recommendation: 'Serve lines of "version: STSv1", "mode: enforce|testing|none", one "mx: <host pattern>" per MX and "max_age: <seconds>"',
+  };
+}
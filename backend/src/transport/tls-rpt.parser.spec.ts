@@ -0,0 +1,34 @@
+import { isTlsRptRecord, parseTlsRptRecord } from './tls-rpt.parser';
+
+describe('TLS-RPT parser', () => {
+  it('should recognise TLS-RPT records', () => {
+    expect(isTlsRptRecord('v=TLSRPTv1; rua=mailto:tls@example.com')).toBe(true);
+    expect(isTlsRptRecord('v=TLSRPTv10; rua=mailto:tls@example.com')).toBe(false);
+    expect(isTlsRptRecord('v=STSv1; id=1')).toBe(false);
+  });
+
+  it('should parse mailto and https report destinations', () => {
+    expect(parseTlsRptRecord('v=TLSRPTv1; rua=mailto:tls@example.com, https://reports.example.net/tls')).toEqual({
+      reportUris: ['mailto:tls@example.com', 'https://reports.example.net/tls'],
+      errors: [],
+    });
+  });
+
+  it('should require at least one rua destination', () => {
+    const { reportUris, errors } = parseTlsRptRecord('v=TLSRPTv1;');
+
+    expect(reportUris).toBeNull();
+    expect(errors).toEqual([expect.objectContaining({ code: 'TLS_RPT_RECORD_INVALID', message: expect.stringContaining('no rua=') })]);
+  });
+
+  it('should reject unsupported destinations and malformed fields', () => {
+    const { reportUris, errors } = parseTlsRptRecord('v=TLSRPTv1; rua=tls@example.com,http://reports.example.net; junk');
+
+    expect(reportUris).toBeNull();
+    expect(errors.map(error => error.message)).toEqual([
+      expect.stringContaining('Malformed field "junk"'),
+      expect.stringContaining('"tls@example.com"'),
+      expect.stringContaining('"http://reports.example.net"'),
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import type { ValidationIssue } from '@dmarc-portal/contracts';
+
+export interface TlsRptRecordParseResult {
+  // Report destinations, null when the record has errors
+  reportUris: string[] | null;
+  errors: ValidationIssue[];
+}
+
+/**
+ * Senders only consider TXT records at _smtp._tls that start with "v=TLSRPTv1" (RFC 8460 section 3)
+ * @param txt A TXT record published at _smtp._tls.<domain>
+ * @returns true if the record is a TLS-RPT record
+ */
+export function isTlsRptRecord(txt: string): boolean {
+  return /^v=TLSRPTv1\s*(?:;|$)/.test(txt);
+}
+
+/**
+ * Parses a TLS-RPT record and its rua= report destinations (RFC 8460 section 3)
+ * @param txt The record, e.g. "v=TLSRPTv1; rua=mailto:tls-reports@example.com"
+ * @returns The report URIs, or null with the errors found
+ */
+export function parseTlsRptRecord(txt: string): TlsRptRecordParseResult {
+  const errors: ValidationIssue[] = [];
+  const fields = new Map<string, string>();
+
+  for (const field of txt.split(';').map(part => part.trim()).filter(part => part.length > 0)) {
+    const separator = field.indexOf('=');
+    if (separator === -1) {
+      errors.push(recordError(`Malformed field "${field}": expected name=value`));
+      continue;
+    }
+    fields.set(field.substring(0, separator).trim(), field.substring(separator + 1).trim());
+  }
+
+  const rua = fields.get('rua');
+  const reportUris = (rua ?? '').split(',').map(uri => uri.trim()).filter(uri => uri.length > 0);
+
+  if (reportUris.length === 0) {
+    errors.push(recordError('The record has no rua= report destination'));
+  }
+  for (const uri of reportUris.filter(uri => !isReportUri(uri))) {
+    errors.push(recordError(`Unsupported report destination "${uri}"; use mailto: or https: URIs`));
+  }
+
+  return { reportUris: errors.length === 0 ? reportUris : null, errors };
+}
+
+function isReportUri(uri: string): boolean {
+  if (/^mailto:/i.test(uri)) {
+    return /^mailto:[^@\s]+@[^@\s]+\.[^@\s]+$/i.test(uri);
+  }
+  try {
+    return new URL(uri).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function recordError(message: string): ValidationIssue {
+  return {
+    code: 'TLS_RPT_RECORD_INVALID',
+    type: 'syntax_error',
+    severity: 'error',
+    message: `Invalid TLS-RPT record: ${message}`,
+    recommendation: 'Publish "v=TLSRPTv1; rua=mailto:<address>" at _smtp._tls.<domain>',
+  };
+}
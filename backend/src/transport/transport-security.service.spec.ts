@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransportSecurityValidatorImpl } from './transport-security.service';
+import { FakeDnsService, FakeZone } from '../../test/fake-dns.service';
+import { FakeHttpClient, FakeHttpRoutes } from '../../test/fake-http-client';
+import { ISSUE_CATALOG } from '../issues/issue-catalog';
+
+describe('TransportSecurityValidatorService', () => {
+  let service: TransportSecurityValidatorImpl;
+  let dnsService: FakeDnsService;
+  let httpClient: FakeHttpClient;
+
+  const policyUrl = 'https://mta-sts.example.com/.well-known/mta-sts.txt';
+  const policyText = (mode: string, maxAge: number, ...mx: string[]) =>
+    ['version: STSv1', `mode: ${mode}`, ...mx.map(host => `mx: ${host}`), `max_age: ${maxAge}`].join('\n');
+  const textPlain = (body: string) => ({ status: 200, contentType: 'text/plain; charset=utf-8', body });
+
+  const baseZone: FakeZone = {
+    'example.com': {
+      MX: [
+        { exchange: 'mx1.mail.example.com', priority: 10 },
+        { exchange: 'mx2.mail.example.com', priority: 20 },
+      ],
+    },
+    '_mta-sts.example.com': { TXT: ['v=STSv1; id=20240101'] },
+    '_smtp._tls.example.com': { TXT: ['v=TLSRPTv1; rua=mailto:tls@example.com'] },
+  };
+
+  const createService = async (zone: FakeZone, routes: FakeHttpRoutes) => {
+    dnsService = new FakeDnsService(zone);
+    httpClient = new FakeHttpClient(routes);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransportSecurityValidatorImpl,
+        {
+          provide: 'DnsService',
+          useValue: dnsService,
+        },
+        {
+          provide: 'HttpClient',
+          useValue: httpClient,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TransportSecurityValidatorImpl>(TransportSecurityValidatorImpl);
+  };
+
+  const codes = (issues: { code?: string }[]) => issues.map(issue => issue.code);
+
+  describe('validateDomain', () => {
+    it('should accept an enforced policy that covers every MX host', async () => {
+      await createService(baseZone, { [policyUrl]: textPlain(policyText('enforce', 1209600, '*.mail.example.com')) });
+
+      const result = await service.validateDomain('Example.com');
+
+      expect(result).toEqual({
+        domain: 'example.com',
+        mtaSts: {
+          record: 'v=STSv1; id=20240101',
+          policyId: '20240101',
+          policyUrl,
+          rawPolicy: policyText('enforce', 1209600, '*.mail.example.com'),
+          policy: { version: 'STSv1', mode: 'enforce', mx: ['*.mail.example.com'], maxAge: 1209600 },
+        },
+        tlsRpt: { record: 'v=TLSRPTv1; rua=mailto:tls@example.com', reportUris: ['mailto:tls@example.com'] },
+        mxHosts: ['mx1.mail.example.com', 'mx2.mail.example.com'],
+        isValid: true,
+        issues: [],
+      });
+      expect(httpClient.requests).toEqual([policyUrl]);
+    });
+
+    it('should report MX hosts the policy does not cover', async () => {
+      await createService(baseZone, { [policyUrl]: textPlain(policyText('enforce', 1209600, 'mx1.mail.example.com')) });
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_MX_MISMATCH']);
+      expect(result.issues[0].message).toContain('mx2.mail.example.com');
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should warn about testing mode and a short max_age', async () => {
+      await createService(baseZone, { [policyUrl]: textPlain(policyText('testing', 86400, '*.mail.example.com')) });
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_MODE_TESTING', 'MTA_STS_MAX_AGE_SHORT']);
+    });
+
+    it('should skip the MX cross-check for mode none and for a domain with a null MX', async () => {
+      await createService(
+        { ...baseZone, 'example.com': { MX: [{ exchange: '', priority: 0 }] } },
+        { [policyUrl]: textPlain(policyText('enforce', 1209600, 'mx.example.com')) },
+      );
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.mxHosts).toEqual([]);
+      expect(result.issues).toEqual([]);
+
+      await createService(baseZone, { [policyUrl]: textPlain(policyText('none', 1209600)) });
+      expect(codes((await service.validateDomain('example.com')).issues)).toEqual(['MTA_STS_MODE_NONE']);
+    });
+
+    it('should report a missing MTA-STS record without fetching a policy', async () => {
+      await createService({ ...baseZone, '_mta-sts.example.com': { TXT: ['unrelated'] } }, {});
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_RECORD_MISSING']);
+      expect(result.mtaSts.record).toBeNull();
+      expect(httpClient.requests).toEqual([]);
+    });
+
+    it('should report multiple MTA-STS records', async () => {
+      await createService({ ...baseZone, '_mta-sts.example.com': { TXT: ['v=STSv1; id=1', 'v=STSv1; id=2'] } }, {});
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_MULTIPLE_RECORDS']);
+      expect(httpClient.requests).toEqual([]);
+    });
+
+    it.each([
+      ['a fetch error', 'certificate has expired', 'certificate has expired'],
+      ['a redirect', { status: 301, contentType: 'text/html', body: '' }, 'redirects (HTTP 301)'],
+      ['an error status', { status: 404, contentType: 'text/html', body: 'Not found' }, 'HTTP 404'],
+      ['the wrong content type', { status: 200, contentType: 'text/html', body: policyText('enforce', 1209600, '*.mail.example.com') }, 'text/html'],
+    ])('should report an unavailable policy after %s', async (_, route, reason) => {
+      await createService(baseZone, { [policyUrl]: route });
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_POLICY_UNAVAILABLE']);
+      expect(result.issues[0].message).toContain(reason);
+      expect(result.mtaSts.rawPolicy).toBeNull();
+    });
+
+    it('should report malformed records and policies', async () => {
+      await createService(
+        { ...baseZone, '_mta-sts.example.com': { TXT: ['v=STSv1; id=not-valid'] } },
+        { [policyUrl]: textPlain('version: STSv1\nmode: enforce') },
+      );
+
+      const result = await service.validateDomain('example.com');
+
+      expect(codes(result.issues)).toEqual(['MTA_STS_RECORD_INVALID', 'MTA_STS_POLICY_INVALID', 'MTA_STS_POLICY_INVALID']);
+      expect(result.mtaSts.policyId).toBeNull();
+      expect(result.mtaSts.policy).toBeUndefined();
+    });
+
+    it('should report missing, duplicate and malformed TLS-RPT records', async () => {
+      const routes = { [policyUrl]: textPlain(policyText('enforce', 1209600, '*.mail.example.com')) };
+
+      await createService({ ...baseZone, '_smtp._tls.example.com': { TXT: [] } }, routes);
+      const missing = await service.validateDomain('example.com');
+      expect(codes(missing.issues)).toEqual(['TLS_RPT_RECORD_MISSING']);
+      // A missing TLS-RPT record is informational only
+      expect(missing.isValid).toBe(true);
+
+      await createService({ ...baseZone, '_smtp._tls.example.com': { TXT: ['v=TLSRPTv1; rua=mailto:a@example.com', 'v=TLSRPTv1; rua=mailto:b@example.com'] } }, routes);
+      expect(codes((await service.validateDomain('example.com')).issues)).toEqual(['TLS_RPT_MULTIPLE_RECORDS']);
+
+      await createService({ ...baseZone, '_smtp._tls.example.com': { TXT: ['v=TLSRPTv1; rua=tls@example.com'] } }, routes);
+      const invalid = await service.validateDomain('example.com');
+      expect(codes(invalid.issues)).toEqual(['TLS_RPT_RECORD_INVALID']);
+      expect(invalid.tlsRpt.reportUris).toEqual([]);
+    });
+
+    it('should continue without the MX cross-check when the MX lookup fails', async () => {
+      await createService(
+        { ...baseZone, 'example.com': { error: 'SERVFAIL' } },
+        { [policyUrl]: textPlain(policyText('enforce', 1209600, 'elsewhere.example.net')) },
+      );
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.mxHosts).toBeNull();
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should throw when the record lookups fail', async () => {
+      await createService({ ...baseZone, '_mta-sts.example.com': { error: 'TIMEOUT' } }, {});
+
+      await expect(service.validateDomain('example.com')).rejects.toThrow('Transport security lookup failed for domain example.com');
+    });
+
+    it('should throw error for invalid domain format', async () => {
+      await createService(baseZone, {});
+
+      await expect(service.validateDomain('not a domain')).rejects.toThrow('Invalid domain format: not a domain');
+    });
+
+    it('should only report codes described in the issue catalog', async () => {
+      await createService(
+        { ...baseZone, '_smtp._tls.example.com': { TXT: [] } },
+        { [policyUrl]: textPlain(policyText('testing', 60, 'other.example.net')) },
+      );
+
+      const result = await service.validateDomain('example.com');
+
+      expect(result.issues.length).toBeGreaterThan(0);
+      for (const issue of result.issues) {
+        expect(ISSUE_CATALOG[issue.code]).toBeDefined();
+      }
+    });
+  });
+});
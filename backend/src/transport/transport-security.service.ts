@@ -0,0 +1,242 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { MtaStsPolicy, TransportSecurityResult, ValidationIssue } from '@dmarc-portal/contracts';
+import { DnsService } from '../dns/dns.service';
+import { HttpClient } from '../http/http-client.service';
+import { isMtaStsRecord, matchesMxPattern, parseMtaStsPolicy, parseMtaStsRecord } from './mta-sts.parser';
+import { isTlsRptRecord, parseTlsRptRecord } from './tls-rpt.parser';
+
+// Senders give up on slow policy hosts, and policies are small (RFC 8461 section 3.3)
+const POLICY_FETCH_TIMEOUT_MS = 10000;
+const POLICY_MAX_BYTES = 64 * 1024;
+
+// Senders should cache policies for weeks so a DNS or HTTPS outage does not disable them (RFC 8461 section 3.2)
+export const MTA_STS_MIN_RECOMMENDED_MAX_AGE = 7 * 24 * 60 * 60;
+
+export interface TransportSecurityValidator {
+  validateDomain(domain: string): Promise<TransportSecurityResult>;
+  evaluatePolicy(policy: MtaStsPolicy, mxHosts: string[] | null): ValidationIssue[];
+}
+
+@Injectable()
+export class TransportSecurityValidatorImpl implements TransportSecurityValidator {
+  private readonly logger = new Logger(TransportSecurityValidatorImpl.name);
+
+  constructor(
+    @Inject('DnsService') private readonly dnsService: DnsService,
+    @Inject('HttpClient') private readonly httpClient: HttpClient,
+  ) {}
+
+  /**
+   * Checks a domain's MTA-STS record and policy and its TLS-RPT record
+   * @param domain The domain to check
+   * @returns The records found, the parsed policy and all findings
+   * @throws Error for invalid domain format or DNS lookup failures
+   */
+  async validateDomain(domain: string): Promise<TransportSecurityResult> {
+    if (!this.dnsService.validateDomainFormat(domain)) {
+      throw new Error(`Invalid domain format: ${domain}`);
+    }
+
+    const normalizedDomain = domain.trim().toLowerCase();
+    const result: TransportSecurityResult = {
+      domain: normalizedDomain,
+      mtaSts: {
+        record: null,
+        policyId: null,
+        policyUrl: `https://mta-sts.${normalizedDomain}/.well-known/mta-sts.txt`,
+        rawPolicy: null,
+      },
+      tlsRpt: { record: null, reportUris: [] },
+      mxHosts: null,
+      isValid: false,
+      issues: [],
+    };
+
+    let mtaStsRecords: string[];
+    let tlsRptRecords: string[];
+    try {
+      [mtaStsRecords, tlsRptRecords] = await Promise.all([
+        this.dnsService.lookupTxtRecords(`_mta-sts.${normalizedDomain}`),
+        this.dnsService.lookupTxtRecords(`_smtp._tls.${normalizedDomain}`),
+      ]);
+    } catch (error) {
+      this.logger.error(`Transport security lookup failed for domain ${domain}:`, error);
+      throw new Error(`Transport security lookup failed for domain ${domain}: ${error.message}`);
+    }
+
+    result.mxHosts = await this.dnsService.lookupMxRecords(normalizedDomain)
+      // A null MX (".") means the domain accepts no mail and has no hosts to check
+      .then(records => records.map(mx => mx.exchange.toLowerCase().replace(/\.$/, '')).filter(host => host.length > 0))
+      .catch(error => {
+        this.logger.warn(`MX lookup failed for ${normalizedDomain}: ${error.message}`);
+        return null;
+      });
+
+    await this.checkMtaSts(result, mtaStsRecords.filter(txt => isMtaStsRecord(txt)));
+    this.checkTlsRpt(result, tlsRptRecords.filter(txt => isTlsRptRecord(txt)));
+
+    result.isValid = !result.issues.some(issue => issue.severity === 'error' || issue.severity === 'warning');
+    return result;
+  }
+
+  /**
+   * Evaluates a parsed MTA-STS policy against the domain's MX hosts
+   * @param policy The parsed policy
+   * @param mxHosts The domain's MX hosts, or null to skip the cross-check
+   * @returns Array of validation issues and recommendations
+   */
+  evaluatePolicy(policy: MtaStsPolicy, mxHosts: string[] | null): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (policy.mode === 'testing') {
+      issues.push({
+        code: 'MTA_STS_MODE_TESTING',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'MTA-STS is in testing mode, so senders report TLS failures but still deliver over unprotected connections',
+        recommendation: 'Switch to "mode: enforce" once TLS-RPT reports show no failures',
+      });
+    } else if (policy.mode === 'none') {
+      issues.push({
+        code: 'MTA_STS_MODE_NONE',
+        type: 'weak_policy',
+        severity: 'warning',
+        message: 'MTA-STS mode is none, which withdraws the policy',
+        recommendation: 'Use "mode: testing" and then "mode: enforce" to protect inbound mail',
+      });
+    }
+
+    if (policy.maxAge < MTA_STS_MIN_RECOMMENDED_MAX_AGE) {
+      issues.push({
+        code: 'MTA_STS_MAX_AGE_SHORT',
+        type: 'configuration_issue',
+        severity: 'warning',
+        message: `max_age is ${policy.maxAge} seconds; senders drop the policy quickly, so a short DNS or HTTPS outage disables it`,
+        recommendation: `Set max_age to at least ${MTA_STS_MIN_RECOMMENDED_MAX_AGE} (one week); 1209600 or more is common`,
+      });
+    }
+
+    if (policy.mode !== 'none' && mxHosts) {
+      for (const host of mxHosts.filter(mx => !policy.mx.some(pattern => matchesMxPattern(mx, pattern)))) {
+        issues.push({
+          code: 'MTA_STS_MX_MISMATCH',
+          type: 'configuration_issue',
+          severity: 'error',
+          message: `MX host ${host} is not covered by any mx line of the MTA-STS policy${policy.mode === 'enforce' ? ', so senders refuse to deliver to it' : ''}`,
+          recommendation: `Add "mx: ${host}" (or a matching "*." pattern) to the policy and change the id in the _mta-sts record`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private async checkMtaSts(result: TransportSecurityResult, records: string[]): Promise<void> {
+    if (records.length === 0) {
+      result.issues.push({
+        code: 'MTA_STS_RECORD_MISSING',
+        type: 'missing_record',
+        severity: 'warning',
+        message: 'No MTA-STS record found, so senders may deliver mail over unencrypted or unauthenticated connections',
+        recommendation: `Publish "v=STSv1; id=<policy id>" at _mta-sts.${result.domain} and serve a policy at ${result.mtaSts.policyUrl}`,
+      });
+      return;
+    }
+
+    if (records.length > 1) {
+      // Senders treat several records as no policy at all (RFC 8461 section 3.1)
+      result.issues.push({
+        code: 'MTA_STS_MULTIPLE_RECORDS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Found ${records.length} MTA-STS records at _mta-sts.${result.domain}; senders ignore MTA-STS for this domain`,
+        recommendation: 'Keep a single "v=STSv1" TXT record',
+      });
+      return;
+    }
+
+    result.mtaSts.record = records[0];
+    const { record, errors } = parseMtaStsRecord(records[0]);
+    result.issues.push(...errors);
+    result.mtaSts.policyId = record?.id ?? null;
+
+    const policyText = await this.fetchPolicy(result);
+    if (policyText === null) {
+      return;
+    }
+
+    result.mtaSts.rawPolicy = policyText;
+    const { policy, errors: policyErrors } = parseMtaStsPolicy(policyText);
+    result.issues.push(...policyErrors);
+
+    if (policy) {
+      result.mtaSts.policy = policy;
+      result.issues.push(...this.evaluatePolicy(policy, result.mxHosts));
+    }
+  }
+
+  /**
+   * Fetches the policy file the way senders do: HTTPS only, no redirects, 200 with text/plain
+   * @returns The policy text, or null after recording why it is unavailable
+   */
+  private async fetchPolicy(result: TransportSecurityResult): Promise<string | null> {
+    const url = result.mtaSts.policyUrl;
+    const unavailable = (reason: string) => {
+      result.issues.push({
+        code: 'MTA_STS_POLICY_UNAVAILABLE',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `The MTA-STS policy at ${url} is unavailable: ${reason}; senders ignore the _mta-sts record`,
+        recommendation: `Serve the policy over HTTPS with a valid certificate for mta-sts.${result.domain}, status 200 and Content-Type text/plain`,
+      });
+      return null;
+    };
+
+    try {
+      const response = await this.httpClient.get(url, { timeoutMs: POLICY_FETCH_TIMEOUT_MS, maxBytes: POLICY_MAX_BYTES });
+
+      if (response.status >= 300 && response.status < 400) {
+        return unavailable(`the server redirects (HTTP ${response.status}), which senders do not follow`);
+      }
+      if (response.status !== 200) {
+        return unavailable(`the server answered HTTP ${response.status}`);
+      }
+      if (!/^text\/plain\s*(?:;|$)/i.test(response.contentType ?? '')) {
+        return unavailable(`it is served as ${response.contentType ?? 'no content type'} instead of text/plain`);
+      }
+      return response.body;
+    } catch (error) {
+      this.logger.warn(`MTA-STS policy fetch failed for ${url}: ${error.message}`);
+      return unavailable(error.message);
+    }
+  }
+
+  private checkTlsRpt(result: TransportSecurityResult, records: string[]): void {
+    if (records.length === 0) {
+      result.issues.push({
+        code: 'TLS_RPT_RECORD_MISSING',
+        type: 'missing_record',
+        severity: 'info',
+        message: 'No TLS-RPT record found, so you get no reports when senders fail to negotiate TLS with your mail servers',
+        recommendation: `Publish "v=TLSRPTv1; rua=mailto:tls-reports@${result.domain}" at _smtp._tls.${result.domain}`,
+      });
+      return;
+    }
+
+    if (records.length > 1) {
+      result.issues.push({
+        code: 'TLS_RPT_MULTIPLE_RECORDS',
+        type: 'configuration_issue',
+        severity: 'error',
+        message: `Found ${records.length} TLS-RPT records at _smtp._tls.${result.domain}; senders send no reports`,
+        recommendation: 'Merge the report destinations into a single "v=TLSRPTv1" record',
+      });
+      return;
+    }
+
+    result.tlsRpt.record = records[0];
+    const { reportUris, errors } = parseTlsRptRecord(records[0]);
+    result.issues.push(...errors);
+    result.tlsRpt.reportUris = reportUris ?? [];
+  }
+}
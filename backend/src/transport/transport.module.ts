@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TransportSecurityValidatorImpl } from './transport-security.service';
+import { DnsModule } from '../dns/dns.module';
+import { HttpModule } from '../http/http.module';
+
+@Module({
+  imports: [DnsModule, HttpModule],
+  providers: [
+    {
+      provide: 'TransportSecurityValidator',
+      useClass: TransportSecurityValidatorImpl,
+    },
+  ],
+  exports: ['TransportSecurityValidator'],
+})
+export class TransportModule {}
@@ -63,6 +63,26 @@ describe('Voting System Property Tests', () => {
           provide: 'DmarcValidator',
           useValue: { validateDomain: jest.fn() },
         },
+        {
+          provide: 'SpfValidator',
+          useValue: { validateDomain: jest.fn() },
+        },
+        {
+          provide: 'DkimValidator',
+          useValue: { validateDomain: jest.fn() },
+        },
+        {
+          provide: 'TransportSecurityValidator',
+          useValue: { validateDomain: jest.fn() },
+        },
+        {
+          provide: 'BimiValidator',
+          useValue: { validateDomain: jest.fn() },
+        },
+        {
+          provide: 'DaneValidator',
+          useValue: { validateDomain: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -5,6 +5,11 @@ import { AppModule } from '../src/app.module';
 import { DomainRegistryService } from '../src/firebase/domain-registry.service';
 import { IpBlockerService } from '../src/voting/ip-blocker.service';
 import { DmarcValidator } from '../src/dmarc/dmarc-validator.service';
+import { SpfValidator } from '../src/spf/spf-validator.service';
+import { DkimValidator } from '../src/dkim/dkim-validator.service';
+import { TransportSecurityValidator } from '../src/transport/transport-security.service';
+import { BimiValidator } from '../src/bimi/bimi-validator.service';
+import { DaneValidator } from '../src/dane/dane-validator.service';
 import { ValidationResult, DomainEntry } from '../src/firebase/models/domain.model';
 
 describe('Domains API (e2e)', () => {
@@ -12,6 +17,11 @@ describe('Domains API (e2e)', () => {
   let domainRegistryService: DomainRegistryService;
   let ipBlockerService: IpBlockerService;
   let dmarcValidator: DmarcValidator;
+  let spfValidator: SpfValidator;
+  let dkimValidator: DkimValidator;
+  let transportSecurityValidator: TransportSecurityValidator;
+  let bimiValidator: BimiValidator;
+  let daneValidator: DaneValidator;
 
   const mockValidationResult: ValidationResult = {
     domain: 'test-domain.com',
@@ -56,6 +66,53 @@ describe('Domains API (e2e)', () => {
     domainRegistryService = app.get<DomainRegistryService>(DomainRegistryService);
     ipBlockerService = app.get<IpBlockerService>(IpBlockerService);
     dmarcValidator = app.get<DmarcValidator>('DmarcValidator');
+    spfValidator = app.get<SpfValidator>('SpfValidator');
+    dkimValidator = app.get<DkimValidator>('DkimValidator');
+    transportSecurityValidator = app.get<TransportSecurityValidator>('TransportSecurityValidator');
+    bimiValidator = app.get<BimiValidator>('BimiValidator');
+    daneValidator = app.get<DaneValidator>('DaneValidator');
+
+    // Keep the SPF, DKIM, transport security, BIMI and DANE checks that accompany each validation off the network
+    jest.spyOn(spfValidator, 'validateDomain').mockResolvedValue({
+      domain: 'test-domain.com',
+      spfRecord: 'v=spf1 mx -all',
+      isValid: true,
+      issues: [],
+    });
+    jest.spyOn(dkimValidator, 'validateDomain').mockResolvedValue({
+      domain: 'test-domain.com',
+      selectors: [],
+      isValid: false,
+      issues: [],
+    });
+    jest.spyOn(transportSecurityValidator, 'validateDomain').mockResolvedValue({
+      domain: 'test-domain.com',
+      mtaSts: {
+        record: null,
+        policyId: null,
+        policyUrl: 'https://mta-sts.test-domain.com/.well-known/mta-sts.txt',
+        rawPolicy: null,
+      },
+      tlsRpt: { record: null, reportUris: [] },
+      mxHosts: [],
+      isValid: false,
+      issues: [],
+    });
+    jest.spyOn(bimiValidator, 'validateDomain').mockResolvedValue({
+      domain: 'test-domain.com',
+      selector: 'default',
+      record: null,
+      dmarcEnforced: false,
+      logo: null,
+      isReady: false,
+      issues: [],
+    });
+    jest.spyOn(daneValidator, 'validateDomain').mockResolvedValue({
+      domain: 'test-domain.com',
+      hosts: [],
+      isValid: true,
+      issues: [],
+    });
 
     // Clear any existing votes
     ipBlockerService.clearAllVotes();
@@ -0,0 +1,64 @@
+import type { DnssecStatus } from '@dmarc-portal/contracts';
+import { DnsServiceImpl } from '../src/dns/dns.service';
+import { DEFAULT_DNS_RESOLVER_CONFIG } from '../src/dns/dns-resolver.config';
+import { DnssecResolver } from '../src/dns/dnssec-resolver.service';
+import { PublicSuffixListService } from '../src/dns/public-suffix-list.service';
+import { DnsZoneEntry, ZoneDnsBackend, ZoneRecordType } from '../src/dns/zone-dns-backend';
+
+export interface FakeZoneEntry extends DnsZoneEntry {
+  // DNSSEC status a validating resolver reports for the name, insecure by default
+  dnssec?: DnssecStatus;
+}
+
+// Records keyed by fully qualified name; names that are not listed do not exist
+export type FakeZone = Record<string, FakeZoneEntry>;
+
+/**
+ * ZoneDnsBackend that remembers every query it answered
+ */
+class RecordingZoneDnsBackend extends ZoneDnsBackend {
+  readonly queries: string[] = [];
+
+  protected lookup<K extends ZoneRecordType>(name: string, type: K): NonNullable<DnsZoneEntry[K]> {
+    this.queries.push(`${type} ${name.toLowerCase().replace(/\.$/, '')}`);
+    return super.lookup(name, type);
+  }
+}
+
+/**
+ * DnsService answering from an in-memory zone instead of the network, for offline tests
+ * Only the raw record lookups are replaced, so DMARC discovery and validation behave as in production.
+ */
+export class FakeDnsService extends DnsServiceImpl {
+  // Every query made, as "<TYPE> <name>", in order
+  readonly queries: string[];
+
+  constructor(zone: FakeZone) {
+    // Failures are reported on the first attempt, so tests neither wait nor see repeated queries
+    const backend = new RecordingZoneDnsBackend(zone);
+    super(new PublicSuffixListService(), { ...DEFAULT_DNS_RESOLVER_CONFIG, retries: 0 }, backend);
+    this.queries = backend.queries;
+  }
+}
+
+/**
+ * DnssecResolver reporting the dnssec status of each name in an in-memory zone
+ */
+export class FakeDnssecResolver implements DnssecResolver {
+  readonly upstream = 'fake-resolver:53';
+  // Every status lookup made, as "<TYPE> <name>", in order
+  readonly queries: string[] = [];
+
+  constructor(private readonly zone: FakeZone) {}
+
+  async lookupStatus(name: string, type = 'TXT'): Promise<DnssecStatus> {
+    const normalized = name.toLowerCase().replace(/\.$/, '');
+    this.queries.push(`${type} ${normalized}`);
+
+    const entry = this.zone[normalized];
+    if (entry?.error) {
+      throw new Error(`DNSSEC lookup of ${type} ${normalized} failed: ${entry.error}`);
+    }
+    return entry?.dnssec ?? 'insecure';
+  }
+}
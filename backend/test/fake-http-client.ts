@@ -0,0 +1,33 @@
+import { checkFetchTarget } from '../src/http/fetch-target';
+import { HttpClient, HttpResponse } from '../src/http/http-client.service';
+
+// Responses keyed by URL; a string is the message of the error the request fails with
+export type FakeHttpRoutes = Record<string, HttpResponse | string>;
+
+// Address every host name resolves to; a public one (TEST-NET-3) so the target guard lets it through
+const FAKE_HOST_ADDRESS = '203.0.113.80';
+
+/**
+ * HttpClient answering from a fixed set of responses instead of the network, for offline tests
+ * URLs are refused as the real client refuses them; unknown URLs fail like a host that does not resolve.
+ */
+export class FakeHttpClient implements HttpClient {
+  // Every URL requested, in order
+  readonly requests: string[] = [];
+
+  constructor(private readonly routes: FakeHttpRoutes) {}
+
+  async get(url: string): Promise<HttpResponse> {
+    this.requests.push(url);
+    await checkFetchTarget(new URL(url), async () => [FAKE_HOST_ADDRESS]);
+
+    const route = this.routes[url];
+    if (route === undefined) {
+      throw new Error(`getaddrinfo ENOTFOUND ${new URL(url).hostname}`);
+    }
+    if (typeof route === 'string') {
+      throw new Error(route);
+    }
+    return route;
+  }
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IssueCatalogEntryResponse, parseIssueCatalogEntry } from '@dmarc-portal/contracts';
+import { Card, CardHeader, CardTitle, CardContent } from '../../../components/ui/Card';
+import { Alert } from '../../../components/ui/Alert';
+
+export default function IssuePage({ params }: { params: { code: string } }) {
+  const [entry, setEntry] = useState<IssueCatalogEntryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEntry = async () => {
+      try {
+        const response = await fetch(`/api/issues/${encodeURIComponent(params.code)}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? `Unknown issue code: ${params.code}` : 'Failed to load issue details');
+        }
+        setEntry(parseIssueCatalogEntry(await response.json()));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load issue details');
+      }
+    };
+
+    fetchEntry();
+  }, [params.code]);
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4">
+      {error && <Alert variant="error">{error}</Alert>}
+      {!error && !entry && <p className="text-gray-500">Loading...</p>}
+      {entry && (
+        <Card>
+          <CardHeader>
+            <p className="text-xs font-mono text-gray-500">{entry.code}</p>
+            <CardTitle>{entry.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-700">{entry.explanation}</p>
+            <div>
+              <p className="text-xs font-medium text-gray-600 uppercase tracking-wide">How to fix</p>
+              <pre className="mt-1 p-3 bg-gray-50 border border-gray-200 rounded text-sm text-gray-800 whitespace-pre-wrap break-all">
+                {entry.fixExample}
+              </pre>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-600 uppercase tracking-wide">References</p>
+              <ul className="mt-1 list-disc list-inside text-sm">
+                {entry.references.map((reference) => (
+                  <li key={reference.url + reference.title}>
+                    <a href={reference.url} className="text-blue-600 hover:underline" target="_blank" rel="noreferrer">
+                      {reference.title}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <p className="text-xs text-gray-400">Issue catalog version {entry.version}</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { DomainSubmissionForm, ValidationResult } from '../components/DomainSubmissionForm';
+import { DomainEntry, ValidationResult, parseValidationResult } from '@dmarc-portal/contracts';
+import { DomainSubmissionForm } from '../components/DomainSubmissionForm';
 import { ValidationResultDisplay } from '../components/ValidationResultDisplay';
-import { DomainRegistry, DomainEntry } from '../components/DomainRegistry';
+import { DomainRegistry } from '../components/DomainRegistry';
 import { DomainDetails } from '../components/DomainDetails';
 
 export default function Home() {
@@ -28,7 +29,7 @@ export default function Home() {
         throw new Error(`Failed to validate domain: ${response.statusText}`);
       }
 
-      const result: ValidationResult = await response.json();
+      const result = parseValidationResult(await response.json());
       setValidationResult(result);
       return result;
     } catch (error) {
@@ -116,8 +117,7 @@ export default function Home() {
         throw new Error(`Failed to recheck domain: ${response.statusText}`);
       }
 
-      const result: ValidationResult = await response.json();
-      return result;
+      return parseValidationResult(await response.json());
     } catch (error) {
       console.error('Error rechecking domain:', error);
       // For development, return a mock result
@@ -1,8 +1,7 @@
 import React from 'react';
+import type { DomainEntry, ValidationResult, ValidationIssue } from '@dmarc-portal/contracts';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Button } from './ui/Button';
-import { ValidationResult, ValidationIssue } from './DomainSubmissionForm';
-import { DomainEntry } from './DomainRegistry';
 
 interface DomainDetailsProps {
   domainEntry: DomainEntry;
@@ -73,7 +72,7 @@ export const DomainDetails: React.FC<DomainDetailsProps> = ({
   };
 
   const formatDate = (date: Date) => {
-    return new Date(date).toLocaleString('en-US', {
+    return date.toLocaleString('en-US', {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -1,8 +1,8 @@
 import React from 'react';
 import { render, screen, waitFor } from '@testing-library/react';
 import * as fc from 'fast-check';
-import { DomainRegistry, DomainEntry } from './DomainRegistry';
-import { ValidationResult, ValidationIssue } from './DomainSubmissionForm';
+import { DomainRegistry } from './DomainRegistry';
+import type { DomainEntry, ValidationResult, ValidationIssue } from '@dmarc-portal/contracts';
 
 // Feature: dmarc-portal, Property 2: Non-compliant domain display accuracy
 // Feature: dmarc-portal, Property 3: Domain entry information completeness
@@ -126,10 +126,10 @@ describe('DomainRegistry Property Tests', () => {
           fc.tuple(...Array.from({ length: size }, (_, i) => createDomainEntry(i)))
         ),
         async (domains) => {
-          // Mock the API response
+          // Mock the API response as it arrives over the wire, with dates as ISO strings
           (fetch as jest.Mock).mockResolvedValueOnce({
             ok: true,
-            json: async () => domains,
+            json: async () => JSON.parse(JSON.stringify(domains)),
           });
 
           const { container, unmount } = render(<DomainRegistry />);
@@ -1,15 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { DmarcStatus, DomainEntry, ValidationResult, ValidationIssue, parseDomainEntries } from '@dmarc-portal/contracts';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { Button } from './ui/Button';
-import { ValidationResult, ValidationIssue } from './DomainSubmissionForm';
-
-export interface DomainEntry {
-  domain: string;
-  lastChecked: Date;
-  upvotes: number;
-  dmarcStatus: 'missing' | 'invalid' | 'weak';
-  validationResult: ValidationResult;
-}
+import { gradeColors } from './ValidationResultDisplay';
 
 interface DomainRegistryProps {
   onDomainClick?: (domain: string) => void;
@@ -27,6 +20,7 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [recheckingDomain, setRecheckingDomain] = useState<string | null>(null);
   const [votingDomain, setVotingDomain] = useState<string | null>(null);
+  const [sortMode, setSortMode] = useState<'votes' | 'score'>('votes');
 
   // Fetch domains from the registry API
   const fetchDomains = async () => {
@@ -39,15 +33,16 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
         throw new Error(`Failed to fetch domains: ${response.statusText}`);
       }
       
-      const data = await response.json();
+      // Validates the response and revives the ISO date strings into Date objects
+      const data = parseDomainEntries(await response.json());
       
       // Sort domains by votes (descending) and then by check date (most recent first)
-      const sortedDomains = data.sort((a: DomainEntry, b: DomainEntry) => {
+      const sortedDomains = data.sort((a, b) => {
         if (a.upvotes !== b.upvotes) {
           return b.upvotes - a.upvotes; // Higher votes first
         }
         // If votes are equal, sort by check date (most recent first)
-        return new Date(b.lastChecked).getTime() - new Date(a.lastChecked).getTime();
+        return b.lastChecked.getTime() - a.lastChecked.getTime();
       });
       
       setDomains(sortedDomains);
@@ -125,7 +120,7 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
           if (a.upvotes !== b.upvotes) {
             return b.upvotes - a.upvotes;
           }
-          return new Date(b.lastChecked).getTime() - new Date(a.lastChecked).getTime();
+          return b.lastChecked.getTime() - a.lastChecked.getTime();
         })
       );
     } catch (err) {
@@ -175,7 +170,11 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
     }
   };
 
-  const getDmarcStatus = (result: ValidationResult): 'missing' | 'invalid' | 'weak' => {
+  const getDmarcStatus = (result: ValidationResult): DmarcStatus => {
+    const parkedWithoutReject = result.mailProfile?.mailClass === 'parked'
+      && (!result.dmarcRecord || result.issues.some(issue => issue.code === 'PARKED_DMARC_NOT_REJECT'));
+    if (parkedWithoutReject) return 'parked';
+
     if (!result.dmarcRecord) return 'missing';
     
     const hasWeakPolicy = result.issues.some(issue => 
@@ -186,8 +185,9 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
     return 'invalid';
   };
 
-  const getStatusColor = (status: 'missing' | 'invalid' | 'weak') => {
+  const getStatusColor = (status: DmarcStatus) => {
     switch (status) {
+      case 'parked':
       case 'missing':
         return 'text-red-600 bg-red-50';
       case 'invalid':
@@ -199,8 +199,10 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
     }
   };
 
-  const getStatusText = (status: 'missing' | 'invalid' | 'weak') => {
+  const getStatusText = (status: DmarcStatus) => {
     switch (status) {
+      case 'parked':
+        return 'Non-mail, no reject';
       case 'missing':
         return 'No DMARC';
       case 'invalid':
@@ -212,8 +214,22 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
     }
   };
 
+  // Weakest score first; domains checked before scoring existed go last
+  const sortByScore = (entries: DomainEntry[]) => {
+    return [...entries].sort((a, b) => {
+      const scoreA = a.validationResult.securityScore?.score ?? Number.POSITIVE_INFINITY;
+      const scoreB = b.validationResult.securityScore?.score ?? Number.POSITIVE_INFINITY;
+      if (scoreA !== scoreB) {
+        return scoreA < scoreB ? -1 : 1;
+      }
+      return b.upvotes - a.upvotes;
+    });
+  };
+
+  const displayedDomains = sortMode === 'score' ? sortByScore(domains) : domains;
+
   const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString('en-US', {
+    return date.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric'
@@ -258,9 +274,29 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
     <Card>
       <CardHeader>
         <CardTitle>Domain Registry</CardTitle>
-        <p className="text-gray-500 mt-1">
-          Domains with DMARC configuration issues, sorted by community votes
-        </p>
+        <div className="flex items-center justify-between mt-1">
+          <p className="text-gray-500">
+            {sortMode === 'votes'
+              ? 'Domains with DMARC configuration issues, sorted by community votes'
+              : 'Domains with DMARC configuration issues, weakest security score first'}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={() => setSortMode('votes')}
+              variant={sortMode === 'votes' ? 'primary' : 'outline'}
+              size="sm"
+            >
+              Most Voted
+            </Button>
+            <Button
+              onClick={() => setSortMode('score')}
+              variant={sortMode === 'score' ? 'primary' : 'outline'}
+              size="sm"
+            >
+              Weakest First
+            </Button>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
         {domains.length === 0 ? (
@@ -272,7 +308,7 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
           </div>
         ) : (
           <div className="space-y-4">
-            {domains.map((domainEntry) => (
+            {displayedDomains.map((domainEntry) => (
               <div
                 key={domainEntry.domain}
                 className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
@@ -293,6 +329,15 @@ export const DomainRegistry: React.FC<DomainRegistryProps> = ({
                       >
                         {getStatusText(domainEntry.dmarcStatus)}
                       </span>
+                      {domainEntry.validationResult.securityScore && (
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${
+                            gradeColors[domainEntry.validationResult.securityScore.grade]
+                          }`}
+                        >
+                          {domainEntry.validationResult.securityScore.grade} · {domainEntry.validationResult.securityScore.score}/100
+                        </span>
+                      )}
                     </div>
                     <div className="mt-1 text-sm text-gray-500">
                       Checked on {formatDate(domainEntry.lastChecked)}
@@ -1,7 +1,8 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { DomainSubmissionForm, ValidationResult } from './DomainSubmissionForm';
+import type { ValidationResult } from '@dmarc-portal/contracts';
+import { DomainSubmissionForm } from './DomainSubmissionForm';
 
 describe('DomainSubmissionForm', () => {
   const mockValidationResult: ValidationResult = {
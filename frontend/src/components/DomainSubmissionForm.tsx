@@ -1,22 +1,8 @@
 import React, { useState } from 'react';
+import type { ValidationResult } from '@dmarc-portal/contracts';
 import { Input } from './ui/Input';
 import { Button } from './ui/Button';
 
-export interface ValidationResult {
-  domain: string;
-  dmarcRecord: string | null;
-  isValid: boolean;
-  issues: ValidationIssue[];
-  checkTimestamp: Date;
-}
-
-export interface ValidationIssue {
-  type: 'missing_record' | 'syntax_error' | 'weak_policy' | 'alignment_issue';
-  severity: 'error' | 'warning' | 'info';
-  message: string;
-  recommendation: string;
-}
-
 interface DomainSubmissionFormProps {
   onSubmit: (domain: string) => Promise<ValidationResult>;
   isLoading?: boolean;
@@ -2,7 +2,7 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import * as fc from 'fast-check';
 import { ValidationResultDisplay } from './ValidationResultDisplay';
-import { ValidationResult, ValidationIssue } from './DomainSubmissionForm';
+import type { ValidationResult, ValidationIssue } from '@dmarc-portal/contracts';
 
 // Feature: dmarc-portal, Property 11: Issue explanation completeness
 // **Validates: Requirements 1.3**
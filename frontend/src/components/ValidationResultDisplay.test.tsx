@@ -0,0 +1,207 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ValidationResultDisplay } from './ValidationResultDisplay';
+import type { ValidationResult, RolloutPlan, RolloutStep } from '@dmarc-portal/contracts';
+
+describe('ValidationResultDisplay', () => {
+  const baseResult: ValidationResult = {
+    domain: 'example.com',
+    dmarcRecord: 'v=DMARC1; p=reject; rua=mailto:agg@example.com!10m; ruf=forensic@example.com',
+    isValid: false,
+    issues: [],
+    checkTimestamp: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  test('renders parsed report destinations with scheme and size limit', () => {
+    render(
+      <ValidationResultDisplay
+        result={{
+          ...baseResult,
+          parsedPolicy: {
+            version: 'DMARC1',
+            policy: 'reject',
+            rawRecord: baseResult.dmarcRecord!,
+            aggregateReportUris: [
+              { uri: 'mailto:agg@example.com!10m', scheme: 'mailto', address: 'agg@example.com', maxSize: 10 * 1024 * 1024 },
+            ],
+            failureReportUris: [
+              { uri: 'forensic@example.com', scheme: null, address: 'forensic@example.com', maxSize: null },
+            ],
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByText('Report Destinations')).toBeInTheDocument();
+    expect(screen.getByText('Aggregate reports (rua)')).toBeInTheDocument();
+    expect(screen.getByText('agg@example.com')).toBeInTheDocument();
+    expect(screen.getByText('max 10 MB')).toBeInTheDocument();
+    expect(screen.getByText('Failure reports (ruf)')).toBeInTheDocument();
+    expect(screen.getByText('missing mailto:')).toBeInTheDocument();
+    expect(screen.getByText('no size limit')).toBeInTheDocument();
+  });
+
+  test('omits the report destinations section without a parsed policy', () => {
+    render(<ValidationResultDisplay result={baseResult} />);
+
+    expect(screen.queryByText('Report Destinations')).not.toBeInTheDocument();
+  });
+
+  test('renders the security score and grade', () => {
+    render(<ValidationResultDisplay result={{ ...baseResult, securityScore: { score: 72, grade: 'C' } }} />);
+
+    expect(screen.getByTitle('DMARC security score')).toHaveTextContent('C72/100');
+  });
+
+  test('underlines the diagnosed parts of the record', () => {
+    const dmarcRecord = 'v=DMARC1; p=deny; rau=mailto:a@example.com';
+    render(
+      <ValidationResultDisplay
+        result={{
+          ...baseResult,
+          dmarcRecord,
+          recordDiagnostics: [
+            { code: 'DMARC_TAG_INVALID_VALUE', severity: 'error', tag: 'p', offset: 12, length: 4, message: 'Invalid policy value: deny', fixHint: 'Use p=none, p=quarantine or p=reject' },
+            { code: 'DMARC_TAG_UNKNOWN', severity: 'warning', tag: 'rau', offset: 18, length: 24, message: 'Unknown tag "rau" is ignored by receivers', fixHint: 'Check the spelling' },
+          ],
+        }}
+      />
+    );
+
+    const marked = screen.getAllByTestId('record-diagnostic');
+    expect(marked.map(element => element.textContent)).toEqual(['deny', 'rau=mailto:a@example.com']);
+    expect(marked[0]).toHaveClass('decoration-red-500');
+    expect(marked[0]).toHaveAttribute('title', 'Invalid policy value: deny. Use p=none, p=quarantine or p=reject');
+    expect(marked[1]).toHaveClass('decoration-yellow-500');
+  });
+
+  test('renders the rollout plan as a timeline until the domain reaches reject', () => {
+    const step = (stage: RolloutStep['stage'], status: RolloutStep['status'], dwellTimeDays: number): RolloutStep => ({
+      stage,
+      title: `Stage ${stage}`,
+      targetRecord: `v=DMARC1; p=${stage}`,
+      entryCriteria: [`Ready for ${stage}`],
+      dwellTimeDays,
+      status,
+    });
+    const rolloutPlan: RolloutPlan = {
+      currentStage: 'monitor',
+      steps: [step('monitor', 'current', 30), step('reject', 'upcoming', 0)],
+    };
+
+    const { rerender } = render(<ValidationResultDisplay result={{ ...baseResult, rolloutPlan }} />);
+
+    expect(screen.getByText('Enforcement Roadmap')).toBeInTheDocument();
+    expect(screen.getAllByTestId('rollout-step')).toHaveLength(2);
+    expect(screen.getByText('You are here')).toBeInTheDocument();
+    expect(screen.getByText('stay at least 30 days')).toBeInTheDocument();
+    expect(screen.getByText('Ready for reject')).toBeInTheDocument();
+    expect(screen.queryByText('Ready for monitor')).not.toBeInTheDocument();
+
+    rerender(<ValidationResultDisplay result={{ ...baseResult, rolloutPlan: { ...rolloutPlan, currentStage: 'reject' } }} />);
+    expect(screen.queryByText('Enforcement Roadmap')).not.toBeInTheDocument();
+  });
+
+  test('links issues with a code to their catalog entry', () => {
+    render(
+      <ValidationResultDisplay
+        result={{
+          ...baseResult,
+          issues: [
+            {
+              code: 'DMARC_POLICY_NONE',
+              type: 'weak_policy',
+              severity: 'warning',
+              message: 'DMARC policy is set to "none" which provides no protection',
+              recommendation: 'Move to quarantine',
+            },
+            {
+              type: 'weak_policy',
+              severity: 'warning',
+              message: 'Stored before issue codes existed',
+              recommendation: 'Recheck the domain',
+            },
+          ],
+        }}
+      />
+    );
+
+    const links = screen.getAllByRole('link', { name: /learn how to fix this/ });
+    expect(links).toHaveLength(1);
+    expect(links[0]).toHaveAttribute('href', '/issues/DMARC_POLICY_NONE');
+  });
+
+  test('shows the DNSSEC status of the DMARC and SPF answers', () => {
+    render(
+      <ValidationResultDisplay
+        result={{
+          ...baseResult,
+          dnssec: {
+            resolver: '192.0.2.53:53',
+            dmarc: { name: '_dmarc.example.com', status: 'secure' },
+            spf: { name: 'example.com', status: null },
+            issues: [],
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByText('DNSSEC')).toBeInTheDocument();
+    expect(screen.getByText('Signed')).toBeInTheDocument();
+    expect(screen.getByText('_dmarc.example.com')).toBeInTheDocument();
+    expect(screen.getByText('Not checked')).toBeInTheDocument();
+    expect(screen.getByText('Checked with validating resolver 192.0.2.53:53')).toBeInTheDocument();
+  });
+
+  test('explains a lookup that got no answer instead of reporting a missing record', () => {
+    render(
+      <ValidationResultDisplay
+        result={{ ...baseResult, dmarcRecord: null, isValid: false, lookupOutcome: 'timeout' }}
+      />
+    );
+
+    expect(screen.getAllByText('DNS timeout')).toHaveLength(2);
+    expect(screen.getByText(/did not answer in time/)).toBeInTheDocument();
+    expect(screen.queryByText('No DMARC record found for this domain')).not.toBeInTheDocument();
+    expect(screen.queryByText('DMARC Issues Found')).not.toBeInTheDocument();
+  });
+
+  test('shows what each resolver returned for names they disagree on', () => {
+    render(
+      <ValidationResultDisplay
+        result={{
+          ...baseResult,
+          resolverConsensus: {
+            resolvers: ['192.0.2.1', '192.0.2.2'],
+            comparisons: [
+              {
+                name: '_dmarc.example.com',
+                answers: [
+                  { resolver: '192.0.2.1', records: ['v=DMARC1; p=reject'], error: null },
+                  { resolver: '192.0.2.2', records: null, error: 'ETIMEOUT' },
+                ],
+                agreed: false,
+              },
+              {
+                name: 'example.com',
+                answers: [
+                  { resolver: '192.0.2.1', records: [], error: null },
+                  { resolver: '192.0.2.2', records: [], error: null },
+                ],
+                agreed: true,
+              },
+            ],
+            issues: [],
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByText('Resolver Consensus')).toBeInTheDocument();
+    expect(screen.getByText('Resolvers disagree')).toBeInTheDocument();
+    expect(screen.getByText('Consistent')).toBeInTheDocument();
+    expect(screen.getByText('v=DMARC1; p=reject')).toBeInTheDocument();
+    expect(screen.getByText(/failed \(ETIMEOUT\)/)).toBeInTheDocument();
+    expect(screen.getByText('Compared across resolvers 192.0.2.1, 192.0.2.2')).toBeInTheDocument();
+  });
+});
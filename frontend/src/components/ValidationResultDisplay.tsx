@@ -1,5 +1,17 @@
 import React from 'react';
-import { ValidationResult, ValidationIssue } from './DomainSubmissionForm';
+import type {
+  ValidationResult,
+  ValidationIssue,
+  DmarcReportUri,
+  DmarcRecordDiagnostic,
+  DnsLookupOutcome,
+  DnssecAnswer,
+  DnssecResult,
+  ResolverConsensusResult,
+  RolloutPlan,
+  RolloutStep,
+  SecurityScore,
+} from '@dmarc-portal/contracts';
 
 interface ValidationResultDisplayProps {
   result: ValidationResult;
@@ -50,6 +62,50 @@ const StatusBadge: React.FC<{ isValid: boolean }> = ({ isValid }) => {
   );
 };
 
+// Outcomes where DNS gave no usable answer, so nothing is known about the domain's DMARC record
+const lookupFailures: Partial<Record<DnsLookupOutcome, { label: string; explanation: string }>> = {
+  nxdomain: {
+    label: 'Domain not found',
+    explanation: 'DNS says this domain does not exist. Check the spelling; a newly registered domain can take a while to appear.',
+  },
+  servfail: {
+    label: 'DNS server failure',
+    explanation: "The domain's nameservers failed to answer (SERVFAIL), often because of a broken DNSSEC setup. Try again later.",
+  },
+  timeout: {
+    label: 'DNS timeout',
+    explanation: "The domain's nameservers did not answer in time. Try again later.",
+  },
+  refused: {
+    label: 'DNS query refused',
+    explanation: "The domain's nameservers refused to answer. Try again later.",
+  },
+};
+
+const LookupFailureBadge: React.FC<{ label: string }> = ({ label }) => (
+  <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+    {label}
+  </span>
+);
+
+export const gradeColors: Record<SecurityScore['grade'], string> = {
+  A: 'bg-green-100 text-green-800',
+  B: 'bg-lime-100 text-lime-800',
+  C: 'bg-yellow-100 text-yellow-800',
+  D: 'bg-orange-100 text-orange-800',
+  F: 'bg-red-100 text-red-800',
+};
+
+const ScoreBadge: React.FC<{ securityScore: SecurityScore }> = ({ securityScore }) => (
+  <div
+    className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium ${gradeColors[securityScore.grade]}`}
+    title="DMARC security score"
+  >
+    <span className="text-lg font-bold">{securityScore.grade}</span>
+    <span>{securityScore.score}/100</span>
+  </div>
+);
+
 const IssueCard: React.FC<{ issue: ValidationIssue }> = ({ issue }) => {
   const severityColors = {
     error: 'border-red-200 bg-red-50',
@@ -66,6 +122,14 @@ const IssueCard: React.FC<{ issue: ValidationIssue }> = ({ issue }) => {
             {issue.type.replace('_', ' ')} - {issue.severity}
           </h4>
           <p className="mt-1 text-sm text-gray-700">{issue.message}</p>
+          {issue.code && (
+            <a
+              href={`/issues/${issue.code}`}
+              className="mt-1 inline-block text-xs font-mono text-blue-600 hover:underline"
+            >
+              {issue.code} - learn how to fix this
+            </a>
+          )}
           {issue.recommendation && (
             <div className="mt-2 p-2 bg-white rounded border border-gray-200">
               <p className="text-xs font-medium text-gray-600 uppercase tracking-wide">
@@ -80,7 +144,214 @@ const IssueCard: React.FC<{ issue: ValidationIssue }> = ({ issue }) => {
   );
 };
 
+const formatSize = (bytes: number) => {
+  const units = ['TB', 'GB', 'MB', 'KB'];
+  for (let i = 0; i < units.length; i++) {
+    const unitSize = Math.pow(1024, units.length - i);
+    if (bytes >= unitSize && bytes % unitSize === 0) {
+      return `${bytes / unitSize} ${units[i]}`;
+    }
+  }
+  return `${bytes} bytes`;
+};
+
+const ReportDestinationList: React.FC<{ title: string; destinations: DmarcReportUri[] }> = ({
+  title,
+  destinations,
+}) => (
+  <div>
+    <p className="text-xs font-medium text-gray-600 uppercase tracking-wide">{title}</p>
+    <ul className="mt-2 space-y-2">
+      {destinations.map((destination, index) => (
+        <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+          <span
+            className={`px-2 py-0.5 rounded text-xs font-medium ${
+              destination.scheme === 'mailto'
+                ? 'bg-green-100 text-green-800'
+                : destination.scheme === null
+                  ? 'bg-red-100 text-red-800'
+                  : 'bg-yellow-100 text-yellow-800'
+            }`}
+          >
+            {destination.scheme ? `${destination.scheme}:` : 'missing mailto:'}
+          </span>
+          <span className="font-mono text-gray-800 break-all">{destination.address}</span>
+          <span className="text-gray-500">
+            {destination.maxSize !== null ? `max ${formatSize(destination.maxSize)}` : 'no size limit'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const dnssecStatusStyles: Record<NonNullable<DnssecAnswer['status']> | 'unknown', { label: string; className: string }> = {
+  secure: { label: 'Signed', className: 'bg-green-100 text-green-800' },
+  insecure: { label: 'Unsigned', className: 'bg-yellow-100 text-yellow-800' },
+  bogus: { label: 'Validation fails', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Not checked', className: 'bg-gray-100 text-gray-700' },
+};
+
+const DnssecStatusList: React.FC<{ dnssec: DnssecResult }> = ({ dnssec }) => (
+  <div>
+    <ul className="space-y-2">
+      {[
+        { title: 'DMARC', answer: dnssec.dmarc },
+        { title: 'SPF', answer: dnssec.spf },
+      ].map(({ title, answer }) => {
+        const style = dnssecStatusStyles[answer.status ?? 'unknown'];
+        return (
+          <li key={title} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>{style.label}</span>
+            <span className="text-gray-600">{title}</span>
+            <span className="font-mono text-gray-800 break-all">{answer.name}</span>
+          </li>
+        );
+      })}
+    </ul>
+    <p className="mt-2 text-xs text-gray-500">Checked with validating resolver {dnssec.resolver}</p>
+  </div>
+);
+
+const ResolverComparisonList: React.FC<{ consensus: ResolverConsensusResult }> = ({ consensus }) => (
+  <ul className="space-y-3">
+    {consensus.comparisons.map(comparison => (
+      <li key={comparison.name} className="text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span
+            className={`px-2 py-0.5 rounded text-xs font-medium ${
+              comparison.agreed ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}
+          >
+            {comparison.agreed ? 'Consistent' : 'Resolvers disagree'}
+          </span>
+          <span className="font-mono text-gray-800 break-all">{comparison.name}</span>
+        </div>
+        {!comparison.agreed && (
+          <ul className="mt-2 ml-4 space-y-1">
+            {comparison.answers.map(answer => (
+              <li key={answer.resolver} className="text-xs text-gray-600">
+                <span className="font-mono">{answer.resolver}</span>:{' '}
+                {answer.records === null
+                  ? `failed (${answer.error})`
+                  : answer.records.length === 0
+                    ? 'no records'
+                    : <span className="font-mono break-all">{answer.records.join(' | ')}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+const diagnosticUnderline: Record<DmarcRecordDiagnostic['severity'], string> = {
+  error: 'underline decoration-wavy decoration-red-500 bg-red-50',
+  warning: 'underline decoration-wavy decoration-yellow-500 bg-yellow-50',
+};
+
+// Renders the record with every diagnosed span underlined; overlapping spans take the worst severity
+const AnnotatedRecord: React.FC<{ record: string; diagnostics: DmarcRecordDiagnostic[] }> = ({
+  record,
+  diagnostics,
+}) => {
+  const boundaries = Array.from(
+    new Set([0, record.length, ...diagnostics.flatMap(d => [d.offset, d.offset + d.length])])
+  )
+    .filter(boundary => boundary <= record.length)
+    .sort((a, b) => a - b);
+
+  const parts: React.ReactNode[] = [];
+  boundaries.forEach((start, index) => {
+    // Zero-length diagnostics mark where something is missing
+    diagnostics
+      .filter(d => d.length === 0 && d.offset === start)
+      .forEach((d, markerIndex) => {
+        parts.push(
+          <span
+            key={`marker-${start}-${markerIndex}`}
+            className={`px-1 ${diagnosticUnderline[d.severity]}`}
+            title={`${d.message}. ${d.fixHint}`}
+            data-testid="record-diagnostic"
+          >
+            ▾
+          </span>
+        );
+      });
+
+    const end = boundaries[index + 1];
+    if (end === undefined) {
+      return;
+    }
+
+    const text = record.substring(start, end);
+    const covering = diagnostics.filter(d => d.length > 0 && d.offset <= start && d.offset + d.length >= end);
+    if (covering.length === 0) {
+      parts.push(<span key={`text-${start}`}>{text}</span>);
+      return;
+    }
+
+    const severity = covering.some(d => d.severity === 'error') ? 'error' : 'warning';
+    parts.push(
+      <span
+        key={`text-${start}`}
+        className={diagnosticUnderline[severity]}
+        title={covering.map(d => `${d.message}. ${d.fixHint}`).join('\n')}
+        data-testid="record-diagnostic"
+      >
+        {text}
+      </span>
+    );
+  });
+
+  return <>{parts}</>;
+};
+
+const stepMarkerColors: Record<RolloutStep['status'], string> = {
+  completed: 'bg-green-500 border-green-500',
+  current: 'bg-blue-500 border-blue-500',
+  upcoming: 'bg-white border-gray-300',
+};
+
+const RolloutTimeline: React.FC<{ plan: RolloutPlan }> = ({ plan }) => (
+  <ol className="relative border-l border-gray-200 ml-2">
+    {plan.steps.map((step) => (
+      <li key={step.stage} className="mb-6 ml-6" data-testid="rollout-step">
+        <span
+          className={`absolute -left-2 mt-1 w-4 h-4 rounded-full border-2 ${stepMarkerColors[step.status]}`}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <h4 className={`text-sm font-medium ${step.status === 'upcoming' ? 'text-gray-600' : 'text-gray-900'}`}>
+            {step.title}
+          </h4>
+          {step.status === 'current' && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">You are here</span>
+          )}
+          {step.status === 'completed' && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">Done</span>
+          )}
+          <span className="text-xs text-gray-500">
+            {step.dwellTimeDays > 0 ? `stay at least ${step.dwellTimeDays} days` : 'final stage'}
+          </span>
+        </div>
+        <code className="block mt-2 text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded p-2 break-all">
+          {step.targetRecord}
+        </code>
+        {step.status === 'upcoming' && (
+          <ul className="mt-2 list-disc list-inside text-xs text-gray-600 space-y-1">
+            {step.entryCriteria.map((criterion, index) => (
+              <li key={index}>{criterion}</li>
+            ))}
+          </ul>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
 export const ValidationResultDisplay: React.FC<ValidationResultDisplayProps> = ({ result }) => {
+  const lookupFailure = result.lookupOutcome ? lookupFailures[result.lookupOutcome] : undefined;
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -108,17 +379,29 @@ export const ValidationResultDisplay: React.FC<ValidationResultDisplayProps> = (
                 Checked: {formatDate(result.checkTimestamp)}
               </p>
             </div>
-            <StatusBadge isValid={result.isValid} />
+            <div className="flex items-center space-x-3">
+              {result.securityScore && <ScoreBadge securityScore={result.securityScore} />}
+              {lookupFailure ? <LookupFailureBadge label={lookupFailure.label} /> : <StatusBadge isValid={result.isValid} />}
+            </div>
           </div>
         </div>
 
         {/* DMARC Record Section */}
         <div className="mb-6">
           <h3 className="text-lg font-medium text-gray-900 mb-3">Current DMARC Record</h3>
-          {result.dmarcRecord ? (
+          {lookupFailure ? (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-yellow-800">{lookupFailure.label}</p>
+              <p className="mt-1 text-sm text-yellow-700">{lookupFailure.explanation}</p>
+            </div>
+          ) : result.dmarcRecord ? (
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
               <code className="text-sm text-gray-800 break-all">
-                {result.dmarcRecord}
+                {result.recordDiagnostics && result.recordDiagnostics.length > 0 ? (
+                  <AnnotatedRecord record={result.dmarcRecord} diagnostics={result.recordDiagnostics} />
+                ) : (
+                  result.dmarcRecord
+                )}
               </code>
             </div>
           ) : (
@@ -135,6 +418,66 @@ export const ValidationResultDisplay: React.FC<ValidationResultDisplayProps> = (
           )}
         </div>
 
+        {/* Report Destinations Section */}
+        {result.parsedPolicy &&
+          ((result.parsedPolicy.aggregateReportUris?.length ?? 0) > 0 ||
+            (result.parsedPolicy.failureReportUris?.length ?? 0) > 0) && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-3">Report Destinations</h3>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+              {result.parsedPolicy.aggregateReportUris && result.parsedPolicy.aggregateReportUris.length > 0 && (
+                <ReportDestinationList
+                  title="Aggregate reports (rua)"
+                  destinations={result.parsedPolicy.aggregateReportUris}
+                />
+              )}
+              {result.parsedPolicy.failureReportUris && result.parsedPolicy.failureReportUris.length > 0 && (
+                <ReportDestinationList
+                  title="Failure reports (ruf)"
+                  destinations={result.parsedPolicy.failureReportUris}
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* DNSSEC Section */}
+        {result.dnssec && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-3">DNSSEC</h3>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <DnssecStatusList dnssec={result.dnssec} />
+            </div>
+            {result.dnssec.issues.length > 0 && (
+              <div className="mt-4 space-y-4">
+                {result.dnssec.issues.map((issue, index) => (
+                  <IssueCard key={index} issue={issue} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Resolver Consensus Section */}
+        {result.resolverConsensus && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-3">Resolver Consensus</h3>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <ResolverComparisonList consensus={result.resolverConsensus} />
+              <p className="mt-2 text-xs text-gray-500">
+                Compared across resolvers {result.resolverConsensus.resolvers.join(', ')}
+              </p>
+            </div>
+            {result.resolverConsensus.issues.length > 0 && (
+              <div className="mt-4 space-y-4">
+                {result.resolverConsensus.issues.map((issue, index) => (
+                  <IssueCard key={index} issue={issue} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Issues Section */}
         {result.issues.length > 0 && (
           <div className="mb-6">
@@ -149,6 +492,14 @@ export const ValidationResultDisplay: React.FC<ValidationResultDisplayProps> = (
           </div>
         )}
 
+        {/* Enforcement Roadmap Section */}
+        {result.rolloutPlan && result.rolloutPlan.currentStage !== 'reject' && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-3">Enforcement Roadmap</h3>
+            <RolloutTimeline plan={result.rolloutPlan} />
+          </div>
+        )}
+
         {/* Success Message */}
         {result.isValid && result.issues.length === 0 && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
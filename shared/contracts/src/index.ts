@@ -0,0 +1,5 @@
+export * from './issue-codes';
+export * from './types';
+export { ContractValidationError } from './schema';
+export type { Schema } from './schema';
+export * from './schemas';
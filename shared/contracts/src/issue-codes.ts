@@ -0,0 +1,129 @@
+/**
+ * Stable identifiers for validation findings. Codes are never reused for a different meaning;
+ * see the backend issue catalog (GET /api/issues/:code) for titles and remediation.
+ */
+export type IssueCode =
+  // Record discovery
+  | 'DMARC_RECORD_MISSING'
+  | 'DOMAIN_NOT_FOUND'
+  | 'DMARC_LOOKUP_FAILED'
+  | 'DMARC_MULTIPLE_RECORDS'
+  | 'DMARC_NEAR_MISS_RECORD'
+  | 'DMARC_UNRELATED_TXT_RECORD'
+  | 'DMARC_POLICY_INHERITED'
+  // Record syntax
+  | 'DMARC_RECORD_EMPTY'
+  | 'DMARC_VERSION_NOT_FIRST'
+  | 'DMARC_VERSION_INVALID'
+  | 'DMARC_POLICY_MISSING'
+  | 'DMARC_POLICY_NOT_AFTER_VERSION'
+  | 'DMARC_TAG_MALFORMED'
+  | 'DMARC_TAG_DUPLICATE'
+  | 'DMARC_TAG_EMPTY'
+  | 'DMARC_TAG_INVALID_VALUE'
+  | 'DMARC_TAG_UNKNOWN'
+  | 'DMARC_REPORT_URI_SIZE_INVALID'
+  // Policy strength
+  | 'DMARC_POLICY_NONE'
+  | 'DMARC_PCT_PARTIAL'
+  | 'DMARC_SP_MISSING'
+  | 'DMARC_SP_WEAKER'
+  | 'DMARC_ALIGNMENT_RELAXED'
+  // DMARCbis
+  | 'DMARC_BIS_TAGS_IGNORED'
+  | 'DMARC_PCT_DEPRECATED'
+  | 'DMARC_TESTING_MODE'
+  | 'DMARC_NP_MISSING'
+  | 'DMARC_NP_WEAKER'
+  | 'DMARC_PSD_DECLARED'
+  // Reporting
+  | 'DMARC_RUA_MISSING'
+  | 'DMARC_RUA_MISSING_MAILTO'
+  | 'DMARC_RUF_MISSING_MAILTO'
+  | 'DMARC_RUA_UNSUPPORTED_SCHEME'
+  | 'DMARC_RUF_UNSUPPORTED_SCHEME'
+  | 'DMARC_RUA_INVALID_ADDRESS'
+  | 'DMARC_RUF_INVALID_ADDRESS'
+  | 'DMARC_FO_WITHOUT_RUF'
+  | 'DMARC_RF_UNSUPPORTED'
+  | 'DMARC_RI_OUT_OF_RANGE'
+  | 'DMARC_REPORT_DESTINATION_UNAUTHORIZED'
+  | 'DMARC_REPORT_DESTINATION_UNVERIFIED'
+  // SPF
+  | 'SPF_RECORD_MISSING'
+  | 'SPF_MULTIPLE_RECORDS'
+  | 'SPF_TERM_UNKNOWN'
+  | 'SPF_TERM_INVALID'
+  | 'SPF_MODIFIER_DUPLICATE'
+  | 'SPF_ALL_PASS'
+  | 'SPF_ALL_NEUTRAL'
+  | 'SPF_ALL_MISSING'
+  | 'SPF_PTR_DEPRECATED'
+  | 'SPF_TERMS_AFTER_ALL'
+  | 'SPF_REDIRECT_WITH_ALL'
+  | 'SPF_TOO_MANY_LOOKUPS'
+  | 'SPF_TOO_MANY_VOID_LOOKUPS'
+  | 'SPF_INCLUDE_LOOP'
+  | 'SPF_INCLUDE_MISSING'
+  | 'SPF_INCLUDE_INVALID'
+  | 'SPF_LOOKUP_FAILED'
+  | 'SPF_FLATTEN_VOLATILE_INCLUDE'
+  | 'SPF_FLATTEN_TERM_KEPT'
+  | 'SPF_FLATTEN_OVER_LIMIT'
+  // DKIM
+  | 'DKIM_KEYS_NOT_FOUND'
+  | 'DKIM_SELECTOR_NOT_FOUND'
+  | 'DKIM_MULTIPLE_RECORDS'
+  | 'DKIM_LOOKUP_FAILED'
+  | 'DKIM_RECORD_INVALID'
+  | 'DKIM_KEY_INVALID'
+  | 'DKIM_KEY_REVOKED'
+  | 'DKIM_KEY_TESTING'
+  | 'DKIM_KEY_TOO_SHORT'
+  | 'DKIM_KEY_WEAK'
+  | 'DKIM_HASH_SHA1_ONLY'
+  // MTA-STS and TLS-RPT
+  | 'MTA_STS_RECORD_MISSING'
+  | 'MTA_STS_MULTIPLE_RECORDS'
+  | 'MTA_STS_RECORD_INVALID'
+  | 'MTA_STS_POLICY_UNAVAILABLE'
+  | 'MTA_STS_POLICY_INVALID'
+  | 'MTA_STS_MODE_TESTING'
+  | 'MTA_STS_MODE_NONE'
+  | 'MTA_STS_MAX_AGE_SHORT'
+  | 'MTA_STS_MX_MISMATCH'
+  | 'TLS_RPT_RECORD_MISSING'
+  | 'TLS_RPT_MULTIPLE_RECORDS'
+  | 'TLS_RPT_RECORD_INVALID'
+  // BIMI
+  | 'BIMI_RECORD_MISSING'
+  | 'BIMI_MULTIPLE_RECORDS'
+  | 'BIMI_RECORD_INVALID'
+  | 'BIMI_RECORD_DECLINED'
+  | 'BIMI_DMARC_NOT_ENFORCED'
+  | 'BIMI_AUTHORITY_MISSING'
+  | 'BIMI_LOGO_UNAVAILABLE'
+  | 'BIMI_SVG_INVALID'
+  | 'BIMI_SVG_NOT_SQUARE'
+  | 'BIMI_SVG_TOO_LARGE'
+  // MX and parked domains
+  | 'MX_NULL_MIXED'
+  | 'MX_NULL_WITH_SENDERS'
+  | 'MX_HOST_NOT_FOUND'
+  | 'PARKED_DMARC_NOT_REJECT'
+  | 'PARKED_SPF_NOT_FAIL_ALL'
+  | 'PARKED_NULL_MX_MISSING'
+  // DNSSEC
+  | 'DNSSEC_INSECURE'
+  | 'DNSSEC_BOGUS'
+  // DANE
+  | 'DANE_NOT_DEPLOYED'
+  | 'DANE_PARTIAL_COVERAGE'
+  | 'DANE_TLSA_PKIX_USAGE'
+  | 'DANE_TLSA_INVALID'
+  | 'DANE_TLSA_FULL_MATCH'
+  | 'DANE_TLSA_WITHOUT_DNSSEC'
+  | 'DANE_TLSA_DNSSEC_BOGUS'
+  | 'DANE_TLSA_DNSSEC_UNVERIFIED'
+  // Resolver consensus
+  | 'DNS_RESOLVERS_DISAGREE';
@@ -0,0 +1,143 @@
+/**
+ * Minimal runtime schemas for checking decoded JSON against the contract types.
+ * Each schema is declared against its TypeScript interface, so the compiler keeps the two in sync.
+ */
+export interface Schema<T> {
+  /**
+   * Checks a value and returns it as T, reviving ISO date strings into Date objects
+   * @param value The value to check, typically the result of JSON.parse
+   * @param path Location of the value for error messages
+   * @throws ContractValidationError if the value does not match the schema
+   */
+  parse(value: unknown, path?: string): T;
+  // Set on schemas created by optional(); object() lets such keys be absent
+  readonly isOptional?: boolean;
+}
+
+export class ContractValidationError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(`Invalid ${path || 'value'}: expected ${expected}, received ${describe(received)}`);
+    this.name = 'ContractValidationError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.substring(0, 40)}...` : value);
+  }
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    parse(value: unknown, path = ''): T {
+      if (!test(value)) {
+        throw new ContractValidationError(path, expected, value);
+      }
+      return value as T;
+    },
+  };
+}
+
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('number', value => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+export function literal<T extends string | number>(...values: T[]): Schema<T> {
+  return primitive(values.map(v => JSON.stringify(v)).join(' | '), value => values.includes(value as T));
+}
+
+/**
+ * Accepts Date objects and ISO 8601 strings, always returning a Date
+ */
+export function date(): Schema<Date> {
+  return {
+    parse(value: unknown, path = ''): Date {
+      const revived = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+      if (!revived || isNaN(revived.getTime())) {
+        throw new ContractValidationError(path, 'ISO 8601 date', value);
+      }
+      return revived;
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse: (value: unknown, path = '') => (value === null ? null : schema.parse(value, path)),
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    isOptional: true,
+    parse: (value: unknown, path = '') => (value === undefined ? undefined : schema.parse(value, path)),
+  };
+}
+
+/**
+ * Defers building a schema until it is used, for recursive types
+ */
+export function lazy<T>(build: () => Schema<T>): Schema<T> {
+  return {
+    parse: (value: unknown, path = '') => build().parse(value, path),
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    parse(value: unknown, path = ''): T[] {
+      if (!Array.isArray(value)) {
+        throw new ContractValidationError(path, 'array', value);
+      }
+      return value.map((element, index) => item.parse(element, `${path}[${index}]`));
+    },
+  };
+}
+
+/**
+ * Checks every declared property; properties not in the shape are passed through unchanged
+ * so older clients keep working when the API adds fields
+ */
+export function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    parse(value: unknown, path = ''): T {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ContractValidationError(path, 'object', value);
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = { ...input };
+
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const schema = shape[key];
+        const propertyPath = path ? `${path}.${key}` : key;
+
+        if (!(key in input) || input[key] === undefined) {
+          if (!schema.isOptional) {
+            throw new ContractValidationError(propertyPath, 'a value', undefined);
+          }
+          delete output[key];
+          continue;
+        }
+
+        output[key] = schema.parse(input[key], propertyPath);
+      }
+
+      return output as T;
+    },
+  };
+}
@@ -0,0 +1,436 @@
+import type { IssueCode } from './issue-codes';
+import { Schema, array, boolean, date, lazy, literal, nullable, number, object, optional, string } from './schema';
+import type {
+  BimiLogoCheck,
+  BimiLogoResult,
+  BimiRecord,
+  BimiResult,
+  DaneHost,
+  DaneResult,
+  DkimKeyRecord,
+  DkimResult,
+  DkimSelectorResult,
+  DmarcPolicy,
+  DmarcPolicySource,
+  DmarcRecordDiagnostic,
+  DnssecAnswer,
+  DnssecResult,
+  DmarcReportUri,
+  DomainEntry,
+  IssueCatalogEntryResponse,
+  IssueReference,
+  MailProfile,
+  MtaStsPolicy,
+  MtaStsResult,
+  MxHost,
+  PolicyAction,
+  ResolverAnswer,
+  ResolverComparison,
+  ResolverConsensusResult,
+  RolloutPlan,
+  RolloutStep,
+  SecurityScore,
+  SpfFlatteningPlan,
+  SpfIncludeDecision,
+  SpfIpRange,
+  SpfLookupNode,
+  SpfLookupSummary,
+  SpfMechanism,
+  SpfModifier,
+  SpfPublishedRecord,
+  SpfRecord,
+  SpfResult,
+  TlsaRecord,
+  TlsRptResult,
+  TransportSecurityResult,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+
+// Codes are only checked to be strings so clients built against an older catalog still accept new codes
+const issueCode = () => string() as Schema<IssueCode>;
+const policyAction = () => literal<PolicyAction>('none', 'quarantine', 'reject');
+
+export const ValidationIssueSchema = object<ValidationIssue>({
+  code: optional(issueCode()),
+  type: literal('missing_record', 'syntax_error', 'weak_policy', 'alignment_issue', 'configuration_issue'),
+  severity: literal('error', 'warning', 'info'),
+  message: string(),
+  recommendation: string(),
+});
+
+export const DmarcReportUriSchema = object<DmarcReportUri>({
+  uri: string(),
+  scheme: nullable(string()),
+  address: string(),
+  maxSize: nullable(number()),
+});
+
+export const DmarcPolicySchema = object<DmarcPolicy>({
+  version: string(),
+  policy: policyAction(),
+  subdomainPolicy: optional(policyAction()),
+  nonExistentSubdomainPolicy: optional(policyAction()),
+  publicSuffixDomain: optional(literal('y', 'n', 'u')),
+  testing: optional(boolean()),
+  percentage: optional(number()),
+  aggregateReportUris: optional(array(DmarcReportUriSchema)),
+  failureReportUris: optional(array(DmarcReportUriSchema)),
+  failureOptions: optional(array(literal('0', '1', 'd', 's'))),
+  reportFormat: optional(array(string())),
+  reportInterval: optional(number()),
+  alignment: optional(
+    object<NonNullable<DmarcPolicy['alignment']>>({
+      spf: literal('relaxed', 'strict'),
+      dkim: literal('relaxed', 'strict'),
+    }),
+  ),
+  rawRecord: string(),
+});
+
+export const DmarcPolicySourceSchema = object<DmarcPolicySource>({
+  domain: string(),
+  organizationalDomain: string(),
+  appliedPolicy: literal('p', 'sp'),
+  inherited: boolean(),
+});
+
+export const SecurityScoreSchema = object<SecurityScore>({
+  score: number(),
+  grade: literal('A', 'B', 'C', 'D', 'F'),
+});
+
+export const DmarcRecordDiagnosticSchema = object<DmarcRecordDiagnostic>({
+  code: issueCode(),
+  severity: literal('error', 'warning'),
+  tag: nullable(string()),
+  offset: number(),
+  length: number(),
+  message: string(),
+  fixHint: string(),
+});
+
+const rolloutStage = () => literal('monitor', 'quarantine-partial', 'quarantine', 'reject-partial', 'reject');
+
+export const RolloutStepSchema = object<RolloutStep>({
+  stage: rolloutStage(),
+  title: string(),
+  targetRecord: string(),
+  entryCriteria: array(string()),
+  dwellTimeDays: number(),
+  status: literal('completed', 'current', 'upcoming'),
+});
+
+export const RolloutPlanSchema = object<RolloutPlan>({
+  currentStage: rolloutStage(),
+  steps: array(RolloutStepSchema),
+});
+
+export const SpfMechanismSchema = object<SpfMechanism>({
+  qualifier: literal('+', '-', '~', '?'),
+  type: literal('all', 'include', 'a', 'mx', 'ptr', 'ip4', 'ip6', 'exists'),
+  value: nullable(string()),
+  cidr4: nullable(number()),
+  cidr6: nullable(number()),
+  raw: string(),
+});
+
+export const SpfModifierSchema = object<SpfModifier>({
+  name: string(),
+  value: string(),
+  raw: string(),
+});
+
+export const SpfRecordSchema = object<SpfRecord>({
+  rawRecord: string(),
+  mechanisms: array(SpfMechanismSchema),
+  modifiers: array(SpfModifierSchema),
+});
+
+export const SpfLookupNodeSchema: Schema<SpfLookupNode> = object<SpfLookupNode>({
+  domain: string(),
+  term: nullable(string()),
+  record: nullable(string()),
+  lookups: number(),
+  voidLookups: number(),
+  error: nullable(string()),
+  children: array(lazy(() => SpfLookupNodeSchema)),
+});
+
+export const SpfLookupSummarySchema = object<SpfLookupSummary>({
+  tree: SpfLookupNodeSchema,
+  totalLookups: number(),
+  lookupLimit: number(),
+  totalVoidLookups: number(),
+  voidLookupLimit: number(),
+});
+
+export const SpfIpRangeSchema = object<SpfIpRange>({
+  version: literal(4, 6),
+  cidr: string(),
+  sources: array(string()),
+});
+
+export const SpfIncludeDecisionSchema = object<SpfIncludeDecision>({
+  term: string(),
+  domain: string(),
+  lookups: number(),
+  flattened: boolean(),
+  reason: string(),
+});
+
+export const SpfPublishedRecordSchema = object<SpfPublishedRecord>({
+  name: string(),
+  value: string(),
+  strings: array(string()),
+});
+
+export const SpfFlatteningPlanSchema = object<SpfFlatteningPlan>({
+  domain: string(),
+  originalRecord: string(),
+  originalLookups: number(),
+  ranges: array(SpfIpRangeSchema),
+  includes: array(SpfIncludeDecisionSchema),
+  records: array(SpfPublishedRecordSchema),
+  lookups: number(),
+  lookupLimit: number(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const SpfResultSchema = object<SpfResult>({
+  domain: string(),
+  spfRecord: nullable(string()),
+  isValid: boolean(),
+  issues: array(ValidationIssueSchema),
+  parsedRecord: optional(SpfRecordSchema),
+  lookups: optional(SpfLookupSummarySchema),
+});
+
+export const DkimKeyRecordSchema = object<DkimKeyRecord>({
+  rawRecord: string(),
+  version: nullable(string()),
+  keyType: string(),
+  publicKey: string(),
+  flags: array(string()),
+  hashAlgorithms: nullable(array(string())),
+  keyBits: nullable(number()),
+});
+
+export const DkimSelectorResultSchema = object<DkimSelectorResult>({
+  selector: string(),
+  source: literal('common', 'custom'),
+  record: nullable(string()),
+  key: optional(DkimKeyRecordSchema),
+  issues: array(ValidationIssueSchema),
+});
+
+export const DkimResultSchema = object<DkimResult>({
+  domain: string(),
+  selectors: array(DkimSelectorResultSchema),
+  isValid: boolean(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const MtaStsPolicySchema = object<MtaStsPolicy>({
+  version: string(),
+  mode: literal('enforce', 'testing', 'none'),
+  mx: array(string()),
+  maxAge: number(),
+});
+
+export const MtaStsResultSchema = object<MtaStsResult>({
+  record: nullable(string()),
+  policyId: nullable(string()),
+  policyUrl: string(),
+  rawPolicy: nullable(string()),
+  policy: optional(MtaStsPolicySchema),
+});
+
+export const TlsRptResultSchema = object<TlsRptResult>({
+  record: nullable(string()),
+  reportUris: array(string()),
+});
+
+export const TransportSecurityResultSchema = object<TransportSecurityResult>({
+  domain: string(),
+  mtaSts: MtaStsResultSchema,
+  tlsRpt: TlsRptResultSchema,
+  mxHosts: nullable(array(string())),
+  isValid: boolean(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const BimiRecordSchema = object<BimiRecord>({
+  version: string(),
+  logoUrl: nullable(string()),
+  authorityUrl: nullable(string()),
+});
+
+export const BimiLogoResultSchema = object<BimiLogoResult>({
+  source: literal('supplied', 'fetched'),
+  url: nullable(string()),
+  sizeBytes: nullable(number()),
+  compliant: boolean(),
+});
+
+export const BimiLogoCheckSchema = object<BimiLogoCheck>({
+  logo: BimiLogoResultSchema,
+  issues: array(ValidationIssueSchema),
+});
+
+export const BimiResultSchema = object<BimiResult>({
+  domain: string(),
+  selector: string(),
+  record: nullable(string()),
+  parsedRecord: optional(BimiRecordSchema),
+  dmarcEnforced: boolean(),
+  logo: nullable(BimiLogoResultSchema),
+  isReady: boolean(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const MxHostSchema = object<MxHost>({
+  exchange: string(),
+  priority: number(),
+  addresses: nullable(array(string())),
+});
+
+export const MailProfileSchema = object<MailProfile>({
+  mailClass: literal('sending', 'receiving', 'parked', 'unknown'),
+  mxHosts: array(MxHostSchema),
+  nullMx: boolean(),
+  authorizesSenders: boolean(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const DnssecAnswerSchema = object<DnssecAnswer>({
+  name: string(),
+  status: nullable(literal('secure', 'insecure', 'bogus')),
+});
+
+export const DnssecResultSchema = object<DnssecResult>({
+  resolver: string(),
+  dmarc: DnssecAnswerSchema,
+  spf: DnssecAnswerSchema,
+  issues: array(ValidationIssueSchema),
+});
+
+export const ResolverAnswerSchema = object<ResolverAnswer>({
+  resolver: string(),
+  records: nullable(array(string())),
+  error: nullable(string()),
+});
+
+export const ResolverComparisonSchema = object<ResolverComparison>({
+  name: string(),
+  answers: array(ResolverAnswerSchema),
+  agreed: boolean(),
+});
+
+export const ResolverConsensusResultSchema = object<ResolverConsensusResult>({
+  resolvers: array(string()),
+  comparisons: array(ResolverComparisonSchema),
+  issues: array(ValidationIssueSchema),
+});
+
+export const TlsaRecordSchema = object<TlsaRecord>({
+  usage: number(),
+  selector: number(),
+  matchingType: number(),
+  certificateData: string(),
+});
+
+export const DaneHostSchema = object<DaneHost>({
+  exchange: string(),
+  tlsaName: string(),
+  records: nullable(array(TlsaRecordSchema)),
+  dnssec: nullable(literal('secure', 'insecure', 'bogus')),
+  usable: nullable(boolean()),
+});
+
+export const DaneResultSchema = object<DaneResult>({
+  domain: string(),
+  hosts: array(DaneHostSchema),
+  isValid: boolean(),
+  issues: array(ValidationIssueSchema),
+});
+
+export const ValidationResultSchema = object<ValidationResult>({
+  domain: string(),
+  dmarcRecord: nullable(string()),
+  isValid: boolean(),
+  issues: array(ValidationIssueSchema),
+  checkTimestamp: date(),
+  lookupOutcome: optional(literal('found', 'no_record', 'nxdomain', 'servfail', 'timeout', 'refused')),
+  parsedPolicy: optional(DmarcPolicySchema),
+  policySource: optional(DmarcPolicySourceSchema),
+  securityScore: optional(SecurityScoreSchema),
+  recordDiagnostics: optional(array(DmarcRecordDiagnosticSchema)),
+  rolloutPlan: optional(RolloutPlanSchema),
+  spf: optional(SpfResultSchema),
+  dkim: optional(DkimResultSchema),
+  transportSecurity: optional(TransportSecurityResultSchema),
+  bimi: optional(BimiResultSchema),
+  mailProfile: optional(MailProfileSchema),
+  dnssec: optional(DnssecResultSchema),
+  dane: optional(DaneResultSchema),
+  resolverConsensus: optional(ResolverConsensusResultSchema),
+});
+
+export const DomainEntrySchema = object<DomainEntry>({
+  domain: string(),
+  lastChecked: date(),
+  upvotes: number(),
+  dmarcStatus: literal('missing', 'invalid', 'weak', 'parked'),
+  validationResult: ValidationResultSchema,
+});
+
+/**
+ * Checks a decoded API response and revives its dates
+ * @param json The parsed JSON body of a validation response
+ * @returns The validation result with checkTimestamp as a Date
+ */
+export function parseValidationResult(json: unknown): ValidationResult {
+  return ValidationResultSchema.parse(json);
+}
+
+/**
+ * Checks a decoded registry entry and revives its dates
+ * @param json The parsed JSON body of a single registry entry
+ * @returns The entry with lastChecked and validationResult.checkTimestamp as Dates
+ */
+export function parseDomainEntry(json: unknown): DomainEntry {
+  return DomainEntrySchema.parse(json);
+}
+
+/**
+ * Checks a decoded list of registry entries and revives their dates
+ * @param json The parsed JSON body of a registry listing
+ * @returns The entries with every date field as a Date
+ */
+export function parseDomainEntries(json: unknown): DomainEntry[] {
+  return array(DomainEntrySchema).parse(json);
+}
+
+export const IssueReferenceSchema = object<IssueReference>({
+  title: string(),
+  url: string(),
+});
+
+export const IssueCatalogEntryResponseSchema = object<IssueCatalogEntryResponse>({
+  version: string(),
+  code: issueCode(),
+  title: string(),
+  explanation: string(),
+  references: array(IssueReferenceSchema),
+  fixExample: string(),
+});
+
+/**
+ * Checks a decoded issue catalog entry
+ * @param json The parsed JSON body of GET /api/issues/:code
+ * @returns The catalog entry with its catalog version
+ */
+export function parseIssueCatalogEntry(json: unknown): IssueCatalogEntryResponse {
+  return IssueCatalogEntryResponseSchema.parse(json);
+}
@@ -0,0 +1,474 @@
+import type { IssueCode } from './issue-codes';
+
+export type PolicyAction = 'none' | 'quarantine' | 'reject';
+
+export interface ValidationIssue {
+  // Stable identifier for matching, suppressing and documenting a finding; see GET /api/issues/:code.
+  // Always set by the validator; absent only on results stored before codes were introduced.
+  code?: IssueCode;
+  type: 'missing_record' | 'syntax_error' | 'weak_policy' | 'alignment_issue' | 'configuration_issue';
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  recommendation: string;
+}
+
+export interface DmarcReportUri {
+  // The URI exactly as published in the rua/ruf tag
+  uri: string;
+  // Lower-cased URI scheme, null when the URI has none (e.g. a bare email address)
+  scheme: string | null;
+  address: string;
+  // Maximum report size in bytes from the "!<size>[k|m|g|t]" suffix, null when unlimited
+  maxSize: number | null;
+}
+
+export type DmarcFailureOption = '0' | '1' | 'd' | 's';
+
+export interface DmarcPolicy {
+  version: string;
+  policy: PolicyAction;
+  subdomainPolicy?: PolicyAction;
+  // DMARCbis tags: np (non-existent subdomain policy), psd (public suffix domain), t (testing mode)
+  nonExistentSubdomainPolicy?: PolicyAction;
+  publicSuffixDomain?: 'y' | 'n' | 'u';
+  testing?: boolean;
+  percentage?: number;
+  aggregateReportUris?: DmarcReportUri[];
+  failureReportUris?: DmarcReportUri[];
+  failureOptions?: DmarcFailureOption[];
+  reportFormat?: string[];
+  reportInterval?: number;
+  alignment?: {
+    spf: 'relaxed' | 'strict';
+    dkim: 'relaxed' | 'strict';
+  };
+  rawRecord: string;
+}
+
+export interface DmarcPolicySource {
+  domain: string;
+  organizationalDomain: string;
+  appliedPolicy: 'p' | 'sp';
+  inherited: boolean;
+}
+
+export type SecurityGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface SecurityScore {
+  score: number;
+  grade: SecurityGrade;
+}
+
+export interface DmarcRecordDiagnostic {
+  code: IssueCode;
+  severity: 'error' | 'warning';
+  // Lower-cased tag name the problem belongs to, null for problems with the record as a whole
+  tag: string | null;
+  // Zero-based character offset and length of the offending text within the record as passed in
+  offset: number;
+  length: number;
+  message: string;
+  fixHint: string;
+}
+
+export type DmarcRolloutStage = 'monitor' | 'quarantine-partial' | 'quarantine' | 'reject-partial' | 'reject';
+
+export interface RolloutStep {
+  stage: DmarcRolloutStage;
+  title: string;
+  // The record to publish for this stage, keeping the domain's other tags
+  targetRecord: string;
+  // What should be true before moving to this stage
+  entryCriteria: string[];
+  // Suggested minimum number of days to stay at this stage before moving on, 0 for the final stage
+  dwellTimeDays: number;
+  status: 'completed' | 'current' | 'upcoming';
+}
+
+export interface RolloutPlan {
+  currentStage: DmarcRolloutStage;
+  steps: RolloutStep[];
+}
+
+export type SpfQualifier = '+' | '-' | '~' | '?';
+
+export type SpfMechanismType = 'all' | 'include' | 'a' | 'mx' | 'ptr' | 'ip4' | 'ip6' | 'exists';
+
+export interface SpfMechanism {
+  // Defaults to "+" when the term has no explicit qualifier
+  qualifier: SpfQualifier;
+  type: SpfMechanismType;
+  // Domain spec or address after the colon, null when the mechanism has none (e.g. "all" or a bare "mx")
+  value: string | null;
+  // CIDR prefix lengths from "/<cidr4>" and "//<cidr6>", null when not given
+  cidr4: number | null;
+  cidr6: number | null;
+  // The term exactly as published
+  raw: string;
+}
+
+export interface SpfModifier {
+  // Lower-cased modifier name, e.g. "redirect" or "exp"
+  name: string;
+  value: string;
+  raw: string;
+}
+
+export interface SpfRecord {
+  rawRecord: string;
+  // Mechanisms in evaluation order
+  mechanisms: SpfMechanism[];
+  modifiers: SpfModifier[];
+}
+
+export interface SpfLookupNode {
+  // Domain whose SPF record this node evaluates
+  domain: string;
+  // The include or redirect term that led here, null for the queried domain itself
+  term: string | null;
+  record: string | null;
+  // DNS lookups and void lookups caused by this record's own mechanisms and modifiers
+  lookups: number;
+  voidLookups: number;
+  // Why the record could not be evaluated further (missing record, syntax errors, loop, macros, lookup failure)
+  error: string | null;
+  children: SpfLookupNode[];
+}
+
+export interface SpfLookupSummary {
+  tree: SpfLookupNode;
+  // Totals over the whole tree, against the RFC 7208 section 4.6.4 limits
+  totalLookups: number;
+  lookupLimit: number;
+  totalVoidLookups: number;
+  voidLookupLimit: number;
+}
+
+export interface SpfResult {
+  domain: string;
+  spfRecord: string | null;
+  isValid: boolean;
+  issues: ValidationIssue[];
+  // Absent when no single SPF record was found or the record has syntax errors
+  parsedRecord?: SpfRecord;
+  // Recursive resolution of the parsed record's DNS lookups
+  lookups?: SpfLookupSummary;
+}
+
+export interface SpfIpRange {
+  version: 4 | 6;
+  // Network in CIDR notation, e.g. "192.0.2.0/24"
+  cidr: string;
+  // Domains whose records authorize addresses in this range
+  sources: string[];
+}
+
+export interface SpfIncludeDecision {
+  term: string;
+  domain: string;
+  // DNS lookups the term costs, including everything below it
+  lookups: number;
+  flattened: boolean;
+  reason: string;
+}
+
+export interface SpfPublishedRecord {
+  name: string;
+  value: string;
+  // The value split into TXT character-strings of at most 255 bytes
+  strings: string[];
+}
+
+export interface SpfFlatteningPlan {
+  domain: string;
+  originalRecord: string;
+  originalLookups: number;
+  // Every authorized range behind the record, with overlapping and adjacent ranges collapsed
+  ranges: SpfIpRange[];
+  includes: SpfIncludeDecision[];
+  // The proposed record first, followed by any records it includes to stay within the string limits
+  records: SpfPublishedRecord[];
+  lookups: number;
+  lookupLimit: number;
+  issues: ValidationIssue[];
+}
+
+export interface DkimKeyRecord {
+  rawRecord: string;
+  // v= tag, null when omitted
+  version: string | null;
+  // k= tag, "rsa" when omitted
+  keyType: string;
+  // Base64 public key from p=, empty when the key has been revoked
+  publicKey: string;
+  // t= flags, e.g. "y" for testing mode and "s" for no subdomains
+  flags: string[];
+  // h= acceptable hash algorithms, null when any algorithm is allowed
+  hashAlgorithms: string[] | null;
+  // Size of the public key, null when revoked or the key could not be decoded
+  keyBits: number | null;
+}
+
+export interface DkimSelectorResult {
+  selector: string;
+  // "common" for the bundled selector list, "custom" for selectors supplied by the user
+  source: 'common' | 'custom';
+  record: string | null;
+  // Absent when no single valid key record was found
+  key?: DkimKeyRecord;
+  issues: ValidationIssue[];
+}
+
+export interface DkimResult {
+  domain: string;
+  // Selectors with a key record, plus every custom selector whether found or not
+  selectors: DkimSelectorResult[];
+  isValid: boolean;
+  // Findings about the domain as a whole; per-key findings are on each selector
+  issues: ValidationIssue[];
+}
+
+export type MtaStsMode = 'enforce' | 'testing' | 'none';
+
+export interface MtaStsPolicy {
+  version: string;
+  mode: MtaStsMode;
+  // MX host patterns, e.g. "mx1.example.com" or "*.mail.example.com"
+  mx: string[];
+  // Seconds senders may cache the policy
+  maxAge: number;
+}
+
+export interface MtaStsResult {
+  // The _mta-sts TXT record, null when none or more than one was found
+  record: string | null;
+  // id= of the TXT record; senders fetch the policy again when it changes
+  policyId: string | null;
+  policyUrl: string;
+  // Policy file as served, null when it was not fetched
+  rawPolicy: string | null;
+  // Absent when the policy could not be fetched or has errors
+  policy?: MtaStsPolicy;
+}
+
+export interface TlsRptResult {
+  // The _smtp._tls TXT record, null when none or more than one was found
+  record: string | null;
+  // Report destinations from rua=
+  reportUris: string[];
+}
+
+export interface TransportSecurityResult {
+  domain: string;
+  mtaSts: MtaStsResult;
+  tlsRpt: TlsRptResult;
+  // MX hosts the MTA-STS policy was checked against, null when the MX lookup failed
+  mxHosts: string[] | null;
+  isValid: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface BimiRecord {
+  version: string;
+  // l= location of the SVG logo, null when empty (the domain declines to publish a logo)
+  logoUrl: string | null;
+  // a= location of the mark certificate (VMC or CMC), null when empty
+  authorityUrl: string | null;
+}
+
+export interface BimiLogoResult {
+  // Where the SVG came from: supplied with the request or fetched from l=
+  source: 'supplied' | 'fetched';
+  url: string | null;
+  // Size of the SVG document, null when it could not be fetched
+  sizeBytes: number | null;
+  // Whether the SVG follows the SVG Tiny PS profile
+  compliant: boolean;
+}
+
+// Result of checking a logo on its own, before it is published
+export interface BimiLogoCheck {
+  logo: BimiLogoResult;
+  issues: ValidationIssue[];
+}
+
+export interface BimiResult {
+  domain: string;
+  selector: string;
+  // The BIMI TXT record, null when none or more than one was found
+  record: string | null;
+  parsedRecord?: BimiRecord;
+  // Whether the DMARC policy is strict enough for mailbox providers to show the logo
+  dmarcEnforced: boolean;
+  // Null when no logo was checked
+  logo: BimiLogoResult | null;
+  // A record, an enforcing DMARC policy and a compliant logo, with no errors
+  isReady: boolean;
+  issues: ValidationIssue[];
+}
+
+// sending: SPF authorizes senders; receiving: MX hosts but no authorized senders;
+// parked: neither, and a null MX or "v=spf1 -all" says so; unknown: neither, but nothing says the domain sends no mail
+export type MailClass = 'sending' | 'receiving' | 'parked' | 'unknown';
+
+export interface MxHost {
+  exchange: string;
+  priority: number;
+  // A and AAAA addresses of the exchange, null when the address lookup failed
+  addresses: string[] | null;
+}
+
+export interface MailProfile {
+  mailClass: MailClass;
+  // MX records other than a null MX, lowest priority value first
+  mxHosts: MxHost[];
+  // The domain publishes a null MX ("0 .") and accepts no mail (RFC 7505)
+  nullMx: boolean;
+  // The SPF record authorizes at least one sender
+  authorizesSenders: boolean;
+  // Findings about the MX records and the records a parked domain should publish
+  issues: ValidationIssue[];
+}
+
+// secure: the validating resolver authenticated the answer; insecure: the zone is not signed;
+// bogus: the zone is signed but the signatures do not validate, so resolvers refuse the answer
+export type DnssecStatus = 'secure' | 'insecure' | 'bogus';
+
+export interface DnssecAnswer {
+  // Name whose TXT answer was checked, e.g. _dmarc.example.com
+  name: string;
+  // Null when the validating resolver could not be queried
+  status: DnssecStatus | null;
+}
+
+export interface DnssecResult {
+  // host:port of the validating resolver that checked the answers
+  resolver: string;
+  dmarc: DnssecAnswer;
+  spf: DnssecAnswer;
+  // Informational notes; failing validation is reported with the domain's other issues
+  issues: ValidationIssue[];
+}
+
+export interface ResolverAnswer {
+  // The resolver as configured, e.g. 192.0.2.53:53
+  resolver: string;
+  // The TXT strings it returned, sorted; null when the query failed
+  records: string[] | null;
+  // Error code of a failed query, e.g. ESERVFAIL
+  error: string | null;
+}
+
+export interface ResolverComparison {
+  // Name whose TXT records were compared, e.g. _dmarc.example.com
+  name: string;
+  answers: ResolverAnswer[];
+  // Every resolver answered, with the same records
+  agreed: boolean;
+}
+
+export interface ResolverConsensusResult {
+  resolvers: string[];
+  comparisons: ResolverComparison[];
+  // Informational notes; disagreements are reported with the domain's other issues
+  issues: ValidationIssue[];
+}
+
+export interface TlsaRecord {
+  // 0 PKIX-TA, 1 PKIX-EE, 2 DANE-TA, 3 DANE-EE (RFC 7218)
+  usage: number;
+  // 0 the full certificate, 1 its SubjectPublicKeyInfo
+  selector: number;
+  // 0 exact match, 1 SHA-256, 2 SHA-512
+  matchingType: number;
+  // Certificate association data, lower-case hex
+  certificateData: string;
+}
+
+export interface DaneHost {
+  // MX host the TLSA records protect
+  exchange: string;
+  // Name the TLSA records are published at, e.g. _25._tcp.mx.example.com
+  tlsaName: string;
+  // Null when the TLSA lookup failed
+  records: TlsaRecord[] | null;
+  // DNSSEC status of the TLSA answer, null when it was not checked
+  dnssec: DnssecStatus | null;
+  // At least one record senders can use, in an answer DNSSEC validated as secure; null when DNSSEC was not checked
+  usable: boolean | null;
+}
+
+export interface DaneResult {
+  domain: string;
+  // MX hosts other than a null MX, lowest priority value first
+  hosts: DaneHost[];
+  // No errors or warnings
+  isValid: boolean;
+  issues: ValidationIssue[];
+}
+
+// How the DMARC lookup ended: found a record, found none at an existing domain, found no such domain,
+// or could not get an answer because the nameservers failed, did not respond in time or refused the query
+export type DnsLookupOutcome = 'found' | 'no_record' | 'nxdomain' | 'servfail' | 'timeout' | 'refused';
+
+export interface ValidationResult {
+  domain: string;
+  dmarcRecord: string | null;
+  isValid: boolean;
+  issues: ValidationIssue[];
+  checkTimestamp: Date;
+  // Absent on results stored before lookup outcomes were recorded
+  lookupOutcome?: DnsLookupOutcome;
+  parsedPolicy?: DmarcPolicy;
+  policySource?: DmarcPolicySource;
+  securityScore?: SecurityScore;
+  // Positioned syntax problems in dmarcRecord, also reported as syntax_error issues
+  recordDiagnostics?: DmarcRecordDiagnostic[];
+  rolloutPlan?: RolloutPlan;
+  // SPF evaluation of the same domain, absent on stored results and when the SPF lookup failed
+  spf?: SpfResult;
+  // DKIM keys found at common and user-supplied selectors, absent when the DKIM probe failed
+  dkim?: DkimResult;
+  // MTA-STS and TLS-RPT posture, absent when the transport security check failed
+  transportSecurity?: TransportSecurityResult;
+  // BIMI record, logo and DMARC prerequisite, absent when the BIMI check failed
+  bimi?: BimiResult;
+  // Whether the domain sends or receives mail, absent on stored results and when the MX lookup failed
+  mailProfile?: MailProfile;
+  // DNSSEC status of the DMARC and SPF answers, absent unless a validating resolver is configured
+  dnssec?: DnssecResult;
+  // DANE TLSA records of the MX hosts, absent when the DANE check failed
+  dane?: DaneResult;
+  // Whether every configured resolver returns the same DMARC and SPF answers, absent unless consensus mode is on
+  resolverConsensus?: ResolverConsensusResult;
+}
+
+// parked: a domain that neither sends nor receives mail and does not reject spoofed mail
+export type DmarcStatus = 'missing' | 'invalid' | 'weak' | 'parked';
+
+export interface DomainEntry {
+  domain: string;
+  lastChecked: Date;
+  upvotes: number;
+  dmarcStatus: DmarcStatus;
+  validationResult: ValidationResult;
+}
+
+export interface IssueReference {
+  title: string;
+  url: string;
+}
+
+export interface IssueCatalogEntry {
+  code: IssueCode;
+  title: string;
+  explanation: string;
+  references: IssueReference[];
+  // A DNS record or configuration snippet showing the fix
+  fixExample: string;
+}
+
+// GET /api/issues/:code: one catalog entry with the catalog version it comes from
+export interface IssueCatalogEntryResponse extends IssueCatalogEntry {
+  version: string;
+}